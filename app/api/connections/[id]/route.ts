@@ -3,6 +3,9 @@ import { ConnectionRepo, InstallationRepo } from '../../../../src/db';
 import { requireShopFromSession } from '../../_utils/authorize';
 import { updateConnection } from '../../../../src/services/connectionService';
 import { UpdateConnectionSchema, validateBody } from '../../../../src/validation/schemas';
+import { parseSourceLocationIds } from '../../../../src/models/locationStock';
+import { parseContentFields } from '../../../../src/models/contentFields';
+import { parseFileExportConfig } from '../../../../src/destinations/file';
 
 export async function GET(
   request: NextRequest,
@@ -45,6 +48,9 @@ export async function GET(
       dest_shop_domain: connection.dest_shop_domain,
       dest_location_id: connection.dest_location_id,
       base_url: connection.base_url,
+      store_hash: connection.store_hash ?? null,
+      batch_size: connection.batch_size ?? null,
+      export: parseFileExportConfig(connection.export_json),
       created_at: connection.created_at,
       updated_at: connection.updated_at,
       last_synced_at: connection.last_synced_at,
@@ -54,6 +60,12 @@ export async function GET(
       sync_collections: connection.sync_collections === 1,
       create_products: connection.create_products === 1,
       product_status: connection.product_status === 1,
+      use_graphql: connection.use_graphql === 1,
+      source_location_ids: parseSourceLocationIds(connection.source_location_ids),
+      discontinue_policy: connection.discontinue_policy ?? 'none',
+      discontinue_grace_hours: connection.discontinue_grace_hours ?? 24,
+      out_of_stock_policy: connection.out_of_stock_policy ?? 'push_zero',
+      content_fields: parseContentFields(connection.content_fields),
       rules,
     };
 
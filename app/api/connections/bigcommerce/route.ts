@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InstallationRepo } from '../../../../src/db';
+import { requireShopFromSession } from '../../_utils/authorize';
+import { CreateBigCommerceConnectionSchema, validateBody } from '../../../../src/validation/schemas';
+import { createBigCommerceConnection, testBigCommerceConnection } from '../../../../src/services/connectionService';
+
+/**
+ * POST /api/connections/bigcommerce
+ * Create a new BigCommerce connection (store hash + API account access token)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const body = await request.json();
+
+    // Validate input with Zod
+    const validation = validateBody(CreateBigCommerceConnectionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { name, store_hash, access_token, sync_price, sync_categories, sync_tags, sync_collections, create_products, product_status, rules } = validation.data;
+
+    // Test BigCommerce API credentials before saving them
+    try {
+      await testBigCommerceConnection(store_hash, access_token);
+    } catch (testError: any) {
+      return NextResponse.json(
+        {
+          error: testError?.message || 'Failed to test BigCommerce API connection',
+          code: 'BIGCOMMERCE_CONNECTION_TEST_FAILED'
+        },
+        { status: 400 }
+      );
+    }
+
+    const existingInstallation = await InstallationRepo.getByDomain(shop);
+    const installationId = existingInstallation?.id ?? await InstallationRepo.upsert(shop);
+
+    // Create connection using service layer
+    const connId = await createBigCommerceConnection({
+      installation_id: installationId,
+      name,
+      store_hash,
+      access_token,
+      sync_price,
+      sync_categories,
+      sync_tags,
+      sync_collections,
+      create_products,
+      product_status,
+      rules: rules || null
+    });
+
+    return NextResponse.json({ id: connId });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    const message = error instanceof Error ? error.message : 'Failed to create connection';
+    console.error('Error creating BigCommerce connection:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
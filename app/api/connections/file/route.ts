@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InstallationRepo } from '../../../../src/db';
+import { requireShopFromSession } from '../../_utils/authorize';
+import { CreateFileConnectionSchema, validateBody } from '../../../../src/validation/schemas';
+import { createFileConnection, testFileExportTarget } from '../../../../src/services/connectionService';
+
+/**
+ * POST /api/connections/file
+ * Create a new file export connection (catalog file dropped on a local directory, SFTP server or S3 bucket)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const body = await request.json();
+
+    // Validate input with Zod
+    const validation = validateBody(CreateFileConnectionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { name, format, filename, retention, target, secret, rules } = validation.data;
+    const exportConfig = { format, filename, retention, target };
+
+    // Check the target is reachable with these credentials before saving them
+    try {
+      await testFileExportTarget(exportConfig, secret ?? null);
+    } catch (testError: any) {
+      return NextResponse.json(
+        {
+          error: testError?.message || 'Failed to test export target',
+          code: 'FILE_EXPORT_TARGET_TEST_FAILED'
+        },
+        { status: 400 }
+      );
+    }
+
+    const existingInstallation = await InstallationRepo.getByDomain(shop);
+    const installationId = existingInstallation?.id ?? await InstallationRepo.upsert(shop);
+
+    // Create connection using service layer
+    const connId = await createFileConnection({
+      installation_id: installationId,
+      name,
+      export: exportConfig,
+      secret: secret ?? null,
+      rules: rules || null
+    });
+
+    return NextResponse.json({ id: connId });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    const message = error instanceof Error ? error.message : 'Failed to create connection';
+    console.error('Error creating file export connection:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InstallationRepo } from '../../../../src/db';
+import { requireShopFromSession } from '../../_utils/authorize';
+import { CreateHttpConnectionSchema, validateBody } from '../../../../src/validation/schemas';
+import { createHttpConnection } from '../../../../src/services/connectionService';
+
+/**
+ * POST /api/connections/http
+ * Create a new HTTP connection (partner endpoint that receives signed event batches)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const body = await request.json();
+
+    // Validate input with Zod
+    const validation = validateBody(CreateHttpConnectionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { name, endpoint_url, signing_secret, batch_size, sync_price, create_products, rules } = validation.data;
+
+    const existingInstallation = await InstallationRepo.getByDomain(shop);
+    const installationId = existingInstallation?.id ?? await InstallationRepo.upsert(shop);
+
+    // Create connection using service layer
+    const connId = await createHttpConnection({
+      installation_id: installationId,
+      name,
+      endpoint_url,
+      signing_secret,
+      batch_size,
+      sync_price,
+      create_products,
+      rules: rules || null
+    });
+
+    return NextResponse.json({ id: connId });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    const message = error instanceof Error ? error.message : 'Failed to create connection';
+    console.error('Error creating HTTP connection:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConnectionRepo, InstallationRepo } from '../../../../../src/db';
+import { requireShopFromSession } from '../../../_utils/authorize';
+import { UpdateMagentoConnectionSchema, validateBody } from '../../../../../src/validation/schemas';
+import { testMagentoConnection, updateMagentoConnection } from '../../../../../src/services/connectionService';
+import { decryptSecret } from '../../../../../src/utils/secrets';
+
+/**
+ * PATCH /api/connections/magento/[id]
+ * Update a Magento connection; a changed store URL, token or source code is tested first
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const shop = await requireShopFromSession(request);
+    const body = await request.json();
+
+    // Validate input with Zod
+    const validation = validateBody(UpdateMagentoConnectionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    const connection = await ConnectionRepo.get(id);
+    if (!connection) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    if (connection.installation_id !== installation.id) {
+      return NextResponse.json({ error: 'Unauthorized: Connection does not belong to this shop' }, { status: 403 });
+    }
+
+    if (connection.type !== 'magento') {
+      return NextResponse.json({ error: 'Connection is not a Magento connection' }, { status: 400 });
+    }
+
+    const { base_url, access_token, source_code } = validation.data;
+    if (base_url !== undefined || access_token !== undefined || source_code !== undefined) {
+      const token = access_token ?? decryptSecret(connection.access_token);
+      try {
+        await testMagentoConnection(
+          base_url ?? connection.base_url ?? '',
+          token ?? '',
+          source_code ?? connection.dest_location_id ?? 'default'
+        );
+      } catch (testError: any) {
+        return NextResponse.json(
+          {
+            error: testError?.message || 'Failed to test Magento API connection',
+            code: 'MAGENTO_CONNECTION_TEST_FAILED'
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Update connection using service layer
+    await updateMagentoConnection(id, validation.data);
+
+    const updated = await ConnectionRepo.get(id);
+    return NextResponse.json({ connection: updated });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    const message = error instanceof Error ? error.message : 'Failed to update connection';
+    console.error('Error updating Magento connection:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
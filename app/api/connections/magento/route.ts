@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InstallationRepo } from '../../../../src/db';
+import { requireShopFromSession } from '../../_utils/authorize';
+import { CreateMagentoConnectionSchema, validateBody } from '../../../../src/validation/schemas';
+import { createMagentoConnection, testMagentoConnection } from '../../../../src/services/connectionService';
+
+/**
+ * POST /api/connections/magento
+ * Create a new Magento / Adobe Commerce connection (store URL + integration access token)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const body = await request.json();
+
+    // Validate input with Zod
+    const validation = validateBody(CreateMagentoConnectionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { name, base_url, access_token, source_code, sync_price, sync_categories, sync_tags, sync_collections, create_products, product_status, rules } = validation.data;
+
+    // Test Magento API credentials and the inventory source before saving them
+    try {
+      await testMagentoConnection(base_url, access_token, source_code);
+    } catch (testError: any) {
+      return NextResponse.json(
+        {
+          error: testError?.message || 'Failed to test Magento API connection',
+          code: 'MAGENTO_CONNECTION_TEST_FAILED'
+        },
+        { status: 400 }
+      );
+    }
+
+    const existingInstallation = await InstallationRepo.getByDomain(shop);
+    const installationId = existingInstallation?.id ?? await InstallationRepo.upsert(shop);
+
+    // Create connection using service layer
+    const connId = await createMagentoConnection({
+      installation_id: installationId,
+      name,
+      base_url,
+      access_token,
+      source_code,
+      sync_price,
+      sync_categories,
+      sync_tags,
+      sync_collections,
+      create_products,
+      product_status,
+      rules: rules || null
+    });
+
+    return NextResponse.json({ id: connId });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    const message = error instanceof Error ? error.message : 'Failed to create connection';
+    console.error('Error creating Magento connection:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
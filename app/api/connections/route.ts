@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ConnectionRepo, InstallationRepo, AuditRepo } from '../../../src/db';
 import { requireShopFromSession } from '../_utils/authorize';
+import { parseFileExportConfig } from '../../../src/destinations/file';
 
 export async function GET(request: NextRequest) {
   try {
@@ -88,6 +89,9 @@ function sanitizeConnection(conn: any) {
     dest_shop_domain: conn.dest_shop_domain,
     dest_location_id: conn.dest_location_id,
     base_url: conn.base_url,
+    store_hash: conn.store_hash ?? null,
+    batch_size: conn.batch_size ?? null,
+    export: parseFileExportConfig(conn.export_json),
     created_at: conn.created_at,
     updated_at: conn.updated_at,
     last_synced_at: conn.last_synced_at,
@@ -11,6 +11,7 @@ const UseTemplateSchema = z.object({
   connection_name: z.string().min(1).max(255),
   access_token: z.string().optional(),
   consumer_secret: z.string().optional(),
+  signing_secret: z.string().optional(),
 });
 
 /**
@@ -129,6 +130,7 @@ export async function POST(
       {
         access_token: validation.data.access_token,
         consumer_secret: validation.data.consumer_secret,
+        signing_secret: validation.data.signing_secret,
       }
     );
 
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InstallationRepo, KitRepo, type KitRow } from '../../../../src/db';
+import { requireShopFromSession } from '../../_utils/authorize';
+import { deleteKit, serializeKit, updateKit } from '../../../../src/services/kitService';
+import { UpdateKitSchema, validateBody } from '../../../../src/validation/schemas';
+
+export const runtime = 'nodejs';
+
+// The kit if it belongs to the session's installation, otherwise the 404 response
+async function getOwnedKit(request: NextRequest, id: string): Promise<KitRow | NextResponse> {
+  const shop = await requireShopFromSession(request);
+  const installation = await InstallationRepo.getByDomain(shop);
+  if (!installation) {
+    return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+  }
+  const kit = await KitRepo.get(id);
+  if (!kit || kit.installation_id !== installation.id) {
+    return NextResponse.json({ error: 'Kit not found' }, { status: 404 });
+  }
+  return kit;
+}
+
+/**
+ * GET /api/kits/[id]
+ * Get a kit definition
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const kit = await getOwnedKit(request, id);
+    if (kit instanceof NextResponse) return kit;
+
+    return NextResponse.json({ kit: serializeKit(kit) });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error fetching kit:', error);
+    const message = error instanceof Error ? error.message : 'Failed to fetch kit';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/kits/[id]
+ * Update a kit; its catalog item is recomputed right away
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = validateBody(UpdateKitSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const kit = await getOwnedKit(request, id);
+    if (kit instanceof NextResponse) return kit;
+
+    const sku = validation.data.sku ?? kit.sku;
+    const components = validation.data.components ?? (JSON.parse(kit.components_json) as { sku: string }[]);
+    if (components.some(c => c.sku === sku)) {
+      return NextResponse.json({ error: 'A kit cannot contain itself' }, { status: 400 });
+    }
+    if (sku !== kit.sku && (await KitRepo.getBySku(kit.installation_id, sku))) {
+      return NextResponse.json({ error: `A kit with SKU ${sku} already exists` }, { status: 409 });
+    }
+
+    await updateKit(kit, validation.data);
+    const updated = await KitRepo.get(id);
+    return NextResponse.json({ kit: updated ? serializeKit(updated) : null });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error updating kit:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update kit';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/kits/[id]
+ * Delete a kit; its SKU leaves the catalog as discontinued
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const kit = await getOwnedKit(request, id);
+    if (kit instanceof NextResponse) return kit;
+
+    await deleteKit(kit);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error deleting kit:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete kit';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InstallationRepo, KitRepo } from '../../../src/db';
+import { requireShopFromSession } from '../_utils/authorize';
+import { createKit, serializeKit } from '../../../src/services/kitService';
+import { CreateKitSchema, validateBody } from '../../../src/validation/schemas';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/kits
+ * List the kits of the current installation
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    const kits = await KitRepo.list(installation.id);
+    return NextResponse.json({ kits: kits.map(serializeKit) });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error listing kits:', error);
+    const message = error instanceof Error ? error.message : 'Failed to list kits';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/kits
+ * Define a kit; it joins the catalog with stock computed from its components
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const body = await request.json();
+
+    const validation = validateBody(CreateKitSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    if (await KitRepo.getBySku(installation.id, validation.data.sku)) {
+      return NextResponse.json({ error: `A kit with SKU ${validation.data.sku} already exists` }, { status: 409 });
+    }
+
+    const kitId = await createKit(installation.id, validation.data);
+    const kit = await KitRepo.get(kitId);
+    return NextResponse.json({ kit: kit ? serializeKit(kit) : null }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error creating kit:', error);
+    const message = error instanceof Error ? error.message : 'Failed to create kit';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InstallationRepo, SupplierFeedRepo, type SupplierFeedRow } from '../../../../../src/db';
+import { requireShopFromSession } from '../../../_utils/authorize';
+import {
+  deleteSupplierFeed,
+  serializeSupplierFeed,
+  updateSupplierFeed
+} from '../../../../../src/services/supplierFeedService';
+import { UpdateSupplierFeedSchema, validateBody } from '../../../../../src/validation/schemas';
+
+export const runtime = 'nodejs';
+
+// The feed if it belongs to the session's installation, otherwise the 404 response
+async function getOwnedFeed(request: NextRequest, id: string): Promise<SupplierFeedRow | NextResponse> {
+  const shop = await requireShopFromSession(request);
+  const installation = await InstallationRepo.getByDomain(shop);
+  if (!installation) {
+    return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+  }
+  const feed = await SupplierFeedRepo.get(id);
+  if (!feed || feed.installation_id !== installation.id) {
+    return NextResponse.json({ error: 'Supplier feed not found' }, { status: 404 });
+  }
+  return feed;
+}
+
+/**
+ * GET /api/sources/feeds/[id]
+ * Get a supplier feed, including its last poll status
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const feed = await getOwnedFeed(request, id);
+    if (feed instanceof NextResponse) return feed;
+
+    return NextResponse.json({ feed: serializeSupplierFeed(feed) });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error fetching supplier feed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to fetch supplier feed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/sources/feeds/[id]
+ * Update a supplier feed (set status to 'paused' to stop polling and keep its items)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = validateBody(UpdateSupplierFeedSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const owned = await getOwnedFeed(request, id);
+    if (owned instanceof NextResponse) return owned;
+
+    await updateSupplierFeed(id, validation.data);
+    const feed = await SupplierFeedRepo.get(id);
+    return NextResponse.json({ feed: feed ? serializeSupplierFeed(feed) : null });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error updating supplier feed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update supplier feed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/sources/feeds/[id]
+ * Delete a supplier feed; its items leave the catalog as discontinued
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const feed = await getOwnedFeed(request, id);
+    if (feed instanceof NextResponse) return feed;
+
+    await deleteSupplierFeed(feed);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error deleting supplier feed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete supplier feed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
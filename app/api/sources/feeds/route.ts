@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InstallationRepo, SupplierFeedRepo } from '../../../../src/db';
+import { requireShopFromSession } from '../../_utils/authorize';
+import { createSupplierFeed, serializeSupplierFeed } from '../../../../src/services/supplierFeedService';
+import { CreateSupplierFeedSchema, validateBody } from '../../../../src/validation/schemas';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/sources/feeds
+ * List the supplier feeds of the current installation
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    const feeds = await SupplierFeedRepo.list(installation.id);
+    return NextResponse.json({ feeds: feeds.map(serializeSupplierFeed) });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error listing supplier feeds:', error);
+    const message = error instanceof Error ? error.message : 'Failed to list supplier feeds';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/sources/feeds
+ * Register a supplier feed (polled into the catalog on its poll interval)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const body = await request.json();
+
+    const validation = validateBody(CreateSupplierFeedSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    const feedId = await createSupplierFeed(installation.id, validation.data);
+    const feed = await SupplierFeedRepo.get(feedId);
+    return NextResponse.json({ feed: feed ? serializeSupplierFeed(feed) : null }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error creating supplier feed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to create supplier feed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FileSourceProfileRepo, InstallationRepo } from '../../../../../src/db';
+import { requireShopFromSession } from '../../../_utils/authorize';
+import { FileColumnMappingSchema, validateBody } from '../../../../../src/validation/schemas';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/sources/file/profile
+ * Get the column mapping used to import uploaded catalog files
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    const profile = await FileSourceProfileRepo.get(installation.id);
+    return NextResponse.json({
+      profile: profile ? JSON.parse(profile.mapping_json) : null,
+      updated_at: profile?.updated_at ?? null
+    });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error fetching file source profile:', error);
+    const message = error instanceof Error ? error.message : 'Failed to fetch file source profile';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/sources/file/profile
+ * Save the column mapping (e.g. { "columns": { "sku": "C", ... } })
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const body = await request.json();
+
+    const validation = validateBody(FileColumnMappingSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    await FileSourceProfileRepo.upsert(installation.id, JSON.stringify(validation.data));
+    return NextResponse.json({ profile: validation.data });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error saving file source profile:', error);
+    const message = error instanceof Error ? error.message : 'Failed to save file source profile';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FileSourceProfileRepo, InstallationRepo } from '../../../../src/db';
+import { requireShopFromSession } from '../../_utils/authorize';
+import { parseFileCatalog, type FileColumnMapping } from '../../../../src/integrations/fileCatalog';
+import { importFileCatalog } from '../../../../src/services/sourceCatalog';
+import { config } from '../../../../src/config';
+
+export const runtime = 'nodejs';
+
+// Request body, or null as soon as it grows past maxBytes (chunked uploads have no Content-Length)
+async function readBodyLimited(request: NextRequest, maxBytes: number): Promise<Buffer | null> {
+  if (Number(request.headers.get('content-length')) > maxBytes) return null;
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * POST /api/sources/file
+ * Upload a CSV catalog (multipart field "file", or the raw CSV as the body).
+ * Replaces the installation's file catalog with the valid rows and reports
+ * the others per row. ?allow_shrink=true accepts a file much smaller than the last one.
+ * Uploads over CATALOG_FILE_MAX_MB are refused with 413 without being read in full.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    const profile = await FileSourceProfileRepo.get(installation.id);
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'No column mapping saved. Save one with PUT /api/sources/file/profile first.' },
+        { status: 400 }
+      );
+    }
+
+    const maxMb = config.catalog.fileMaxMb;
+    const body = await readBodyLimited(request, maxMb * 1024 * 1024);
+    if (!body) {
+      return NextResponse.json({ error: `Uploaded file is larger than ${maxMb} MB` }, { status: 413 });
+    }
+
+    let text: string;
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.includes('multipart/form-data')) {
+      const file = (await new Response(new Uint8Array(body), { headers: { 'content-type': contentType } }).formData()).get('file');
+      if (!file || typeof file === 'string') {
+        return NextResponse.json({ error: 'Missing "file" field' }, { status: 400 });
+      }
+      text = await file.text();
+    } else {
+      text = body.toString('utf8');
+    }
+    if (!text.trim()) {
+      return NextResponse.json({ error: 'Uploaded file is empty' }, { status: 400 });
+    }
+
+    let parsed;
+    try {
+      parsed = parseFileCatalog(text, JSON.parse(profile.mapping_json) as FileColumnMapping);
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : 'Failed to read file' }, { status: 400 });
+    }
+
+    const summary = { rows: parsed.rowCount, imported: 0, errors: parsed.errors };
+    if (parsed.items.length === 0) {
+      return NextResponse.json({ error: 'No valid rows to import', ...summary }, { status: 422 });
+    }
+
+    const allowShrink = request.nextUrl.searchParams.get('allow_shrink') === 'true';
+    const verdict = await importFileCatalog(installation.id, parsed.items, { allowShrink });
+    if (!verdict.ok) {
+      return NextResponse.json({ error: `File catalog rejected: ${verdict.reason}`, ...summary }, { status: 422 });
+    }
+
+    return NextResponse.json({ ok: true, ...summary, imported: parsed.items.length });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error importing catalog file:', error);
+    const message = error instanceof Error ? error.message : 'Failed to import catalog file';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
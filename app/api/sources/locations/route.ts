@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InstallationRepo } from '../../../../src/db';
+import { requireShopFromSession } from '../../_utils/authorize';
+import { resolveInstallationSources } from '../../../../src/services/sourceCatalog';
+import { fetchShopifyLocations, type ShopifyLocation } from '../../../../src/integrations/shopify';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/sources/locations
+ * List the source store locations a connection can count stock from
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    const { shopify } = resolveInstallationSources(installation);
+    if (!shopify) {
+      return NextResponse.json({ locations: [] });
+    }
+
+    let locations: ShopifyLocation[];
+    try {
+      locations = await fetchShopifyLocations(shopify);
+    } catch (err) {
+      // Upstream failures (e.g. missing read_locations scope) are not this route's errors
+      const message = err instanceof Error ? err.message : 'Failed to fetch source locations';
+      return NextResponse.json({ error: message }, { status: 502 });
+    }
+
+    return NextResponse.json({ locations });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error fetching source locations:', error);
+    const message = error instanceof Error ? error.message : 'Failed to fetch source locations';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InstallationRepo } from '../../../../src/db';
+import { requireShopFromSession } from '../../_utils/authorize';
+import { DEFAULT_SOURCE_PRECEDENCE, parseMergePolicy } from '../../../../src/models/mergePolicy';
+import { MergePolicySchema, validateBody } from '../../../../src/validation/schemas';
+import { refreshKitCatalog } from '../../../../src/services/sourceCatalog';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/sources/merge-policy
+ * Get how products from several sources are merged (null: Shopify, WooCommerce, file, feed precedence by SKU)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      policy: parseMergePolicy(installation.merge_policy_json),
+      default_precedence: DEFAULT_SOURCE_PRECEDENCE
+    });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error fetching merge policy:', error);
+    const message = error instanceof Error ? error.message : 'Failed to fetch merge policy';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/sources/merge-policy
+ * Save the merge policy; a null body restores the defaults
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const body = await request.json();
+
+    let policyJson: string | null = null;
+    if (body !== null) {
+      const validation = validateBody(MergePolicySchema, body);
+      if (!validation.success) {
+        return NextResponse.json({ error: validation.error }, { status: 400 });
+      }
+      policyJson = JSON.stringify(validation.data);
+    }
+
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    await InstallationRepo.setMergePolicy(installation.id, policyJson);
+    // Kit stock is computed from the merged components
+    await refreshKitCatalog(installation.id);
+    return NextResponse.json({ policy: parseMergePolicy(policyJson) });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error saving merge policy:', error);
+    const message = error instanceof Error ? error.message : 'Failed to save merge policy';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
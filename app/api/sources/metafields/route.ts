@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InstallationRepo } from '../../../../src/db';
+import { requireShopFromSession } from '../../_utils/authorize';
+import { parseSourceMetafieldKeys } from '../../../../src/models/metafields';
+import { setSourceMetafieldKeys } from '../../../../src/services/sourceCatalog';
+import { SourceMetafieldsSchema, validateBody } from '../../../../src/validation/schemas';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/sources/metafields
+ * Get the source metafields ("namespace.key") read into the catalog
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ metafields: parseSourceMetafieldKeys(installation.source_metafields_json) });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error fetching source metafields:', error);
+    const message = error instanceof Error ? error.message : 'Failed to fetch source metafields';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/sources/metafields
+ * Save the source metafields; the next Shopify sync re-reads every product
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const shop = await requireShopFromSession(request);
+    const body = await request.json();
+
+    const validation = validateBody(SourceMetafieldsSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const installation = await InstallationRepo.getByDomain(shop);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    const keys = Array.from(new Set(validation.data.metafields));
+    await setSourceMetafieldKeys(installation.id, keys);
+    return NextResponse.json({ metafields: keys });
+  } catch (error) {
+    if (error instanceof Error && 'response' in error) {
+      return (error as any).response;
+    }
+    console.error('Error saving source metafields:', error);
+    const message = error instanceof Error ? error.message : 'Failed to save source metafields';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
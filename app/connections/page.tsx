@@ -35,7 +35,7 @@ type StatusFilter = 'all' | 'active' | 'paused' | 'disabled';
 interface Connection {
   id: string;
   name: string;
-  type: 'shopify' | 'woocommerce';
+  type: 'shopify' | 'woocommerce' | 'bigcommerce' | 'magento' | 'http' | 'file';
   status: 'active' | 'paused' | 'disabled';
   dest_shop_domain?: string | null;
   dest_location_id?: string | null;
@@ -52,7 +52,7 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
   const [loading, setLoading] = useState(true);
   const [installationStatus, setInstallationStatus] = useState<{ shop: string; hasAccessToken: boolean; needsReinstall: boolean } | null>(null);
   const [modalOpen, setModalOpen] = useState(false);
-  const [connectionType, setConnectionType] = useState<'shopify' | 'woocommerce'>('shopify');
+  const [connectionType, setConnectionType] = useState<'shopify' | 'woocommerce' | 'magento'>('shopify');
   const [formData, setFormData] = useState({
     name: '',
     dest_shop_domain: '',
@@ -61,6 +61,7 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
     base_url: '',
     consumer_key: '',
     consumer_secret: '',
+    source_code: 'default',
     sync_price: false,
     sync_categories: false,
     sync_tags: false,
@@ -83,6 +84,7 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
     name: '',
     dest_location_id: '',
     access_token: '',
+    base_url: '',
     sync_price: true,
     sync_categories: false,
     sync_tags: false,
@@ -233,6 +235,12 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
           setSubmitting(false);
           return;
         }
+      } else if (connectionType === 'magento') {
+        if (!formData.base_url || !formData.access_token) {
+          setToast({ content: 'Store URL and Access Token are required', error: true });
+          setSubmitting(false);
+          return;
+        }
       } else {
         if (!formData.base_url || !formData.consumer_key || !formData.consumer_secret) {
           setToast({ content: 'Base URL, Consumer Key, and Consumer Secret are required', error: true });
@@ -241,7 +249,7 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
         }
       }
       
-      const endpoint = connectionType === 'shopify' ? '/api/connections/shopify' : '/api/connections/woocommerce';
+      const endpoint = `/api/connections/${connectionType}`;
       const body =
         connectionType === 'shopify'
           ? {
@@ -256,6 +264,19 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
               create_products: formData.create_products !== false,
               product_status: formData.product_status === true,
             }
+          : connectionType === 'magento'
+          ? {
+              name: formData.name,
+              base_url: formData.base_url,
+              access_token: formData.access_token,
+              source_code: formData.source_code || 'default',
+              sync_price: formData.sync_price === true,
+              sync_categories: formData.sync_categories === true,
+              sync_tags: formData.sync_tags === true,
+              sync_collections: formData.sync_collections === true,
+              create_products: formData.create_products !== false,
+              product_status: formData.product_status === true,
+            }
           : {
               name: formData.name,
               base_url: formData.base_url,
@@ -285,6 +306,7 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
         base_url: '',
         consumer_key: '',
         consumer_secret: '',
+        source_code: 'default',
         sync_price: false,
         sync_categories: false,
         sync_tags: false,
@@ -561,6 +583,7 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
         name: fullConnection.name || '',
         dest_location_id: fullConnection.dest_location_id || '',
         access_token: '', // Don't pre-fill for security - user enters new token if updating
+        base_url: fullConnection.base_url || '',
         sync_price: fullConnection.sync_price !== false && fullConnection.sync_price !== 0,
         sync_categories: fullConnection.sync_categories === true || fullConnection.sync_categories === 1,
         sync_tags: fullConnection.sync_tags === true || fullConnection.sync_tags === 1,
@@ -588,6 +611,11 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
       return;
     }
     
+    if (connectionToEdit.type === 'magento' && !editFormData.base_url) {
+      setToast({ content: 'Store URL is required', error: true });
+      return;
+    }
+    
     try {
       setUpdating(true);
       const updateBody: any = {
@@ -603,7 +631,21 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
         updateBody.access_token = editFormData.access_token.trim();
       }
       
-      await makeRequest(`/api/connections/${connectionToEdit.id}`, {
+      // Magento connections have their own route, which re-tests changed store URL, token or source
+      let endpoint = `/api/connections/${connectionToEdit.id}`;
+      if (connectionToEdit.type === 'magento') {
+        endpoint = `/api/connections/magento/${connectionToEdit.id}`;
+        delete updateBody.dest_location_id;
+        updateBody.source_code = editFormData.dest_location_id.trim() || 'default';
+        if (editFormData.base_url.trim() !== (connectionToEdit.base_url || '')) {
+          updateBody.base_url = editFormData.base_url.trim();
+        }
+        if (editFormData.access_token.trim()) {
+          updateBody.access_token = editFormData.access_token.trim();
+        }
+      }
+      
+      await makeRequest(endpoint, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(updateBody),
@@ -615,6 +657,7 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
         name: '', 
         dest_location_id: '', 
         access_token: '', 
+        base_url: '',
         sync_price: true,
         sync_categories: false,
         sync_tags: false,
@@ -937,7 +980,7 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
                 }}
                 image="https://cdn.shopify.com/s/files/1/0757/9955/files/empty-state.svg"
               >
-                <p>Connect your Shopify or WooCommerce stores to sync inventory and products.</p>
+                <p>Connect your Shopify, WooCommerce or Magento stores to sync inventory and products.</p>
               </EmptyState>
             ) : (
               <BlockStack gap="300">
@@ -997,9 +1040,10 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
               options={[
                 { label: 'Shopify Store', value: 'shopify' },
                 { label: 'WooCommerce Store', value: 'woocommerce' },
+                { label: 'Magento / Adobe Commerce Store', value: 'magento' },
               ]}
               value={connectionType}
-              onChange={(value) => setConnectionType(value as 'shopify' | 'woocommerce')}
+              onChange={(value) => setConnectionType(value as 'shopify' | 'woocommerce' | 'magento')}
             />
             <TextField
               label="Name"
@@ -1037,6 +1081,33 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
                   autoComplete="off"
                 />
               </>
+            ) : connectionType === 'magento' ? (
+              <>
+                <TextField
+                  label="Store URL"
+                  value={formData.base_url}
+                  onChange={(value) => setFormData({ ...formData, base_url: value })}
+                  placeholder="https://your-store.com"
+                  helpText="Your Magento store URL (the REST API is served under /rest)"
+                  autoComplete="off"
+                />
+                <TextField
+                  label="Access Token"
+                  value={formData.access_token}
+                  onChange={(value) => setFormData({ ...formData, access_token: value })}
+                  type="password"
+                  helpText="Integration access token from System → Extensions → Integrations. The integration needs Catalog and Inventory resource access."
+                  autoComplete="off"
+                />
+                <TextField
+                  label="Inventory Source Code"
+                  value={formData.source_code}
+                  onChange={(value) => setFormData({ ...formData, source_code: value })}
+                  placeholder="default"
+                  helpText="MSI source that receives stock updates (Stores → Inventory → Sources)"
+                  autoComplete="off"
+                />
+              </>
             ) : (
               <>
                 <TextField
@@ -1331,6 +1402,7 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
         name: '', 
         dest_location_id: '', 
         access_token: '', 
+        base_url: '',
         sync_price: true,
         sync_categories: false,
         sync_tags: false,
@@ -1355,6 +1427,7 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
                 name: '', 
                 dest_location_id: '', 
                 access_token: '', 
+                base_url: '',
                 sync_price: true,
                 sync_categories: false,
                 sync_tags: false,
@@ -1402,6 +1475,34 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
                 />
               </>
             )}
+            {connectionToEdit?.type === 'magento' && (
+              <>
+                <TextField
+                  label="Store URL"
+                  value={editFormData.base_url}
+                  onChange={(value) => setEditFormData({ ...editFormData, base_url: value })}
+                  placeholder="https://your-store.com"
+                  autoComplete="off"
+                />
+                <TextField
+                  label="Access Token"
+                  value={editFormData.access_token}
+                  onChange={(value) => setEditFormData({ ...editFormData, access_token: value })}
+                  placeholder="Leave empty to keep current token"
+                  helpText="Update the integration access token if it's been reissued. Leave empty to keep the current token."
+                  type="password"
+                  autoComplete="off"
+                />
+                <TextField
+                  label="Inventory Source Code"
+                  value={editFormData.dest_location_id}
+                  onChange={(value) => setEditFormData({ ...editFormData, dest_location_id: value })}
+                  placeholder="default"
+                  helpText="MSI source that receives stock updates (Stores → Inventory → Sources)"
+                  autoComplete="off"
+                />
+              </>
+            )}
             {connectionToEdit?.type === 'woocommerce' && connectionToEdit?.base_url && (
               <Text as="p" tone="subdued" variant="bodySm">
                 Destination: {connectionToEdit.base_url}
@@ -1626,7 +1727,7 @@ export default function ConnectionsPage({ shop, app }: { shop: string; app: Clie
                             onClick={() => {
                               const name = prompt('Enter connection name:');
                               if (name) {
-                                if (template.type === 'shopify') {
+                                if (template.type === 'shopify' || template.type === 'magento') {
                                   const token = prompt('Enter access token:');
                                   if (token) {
                                     handleUseTemplate(template.id, name, token);
@@ -0,0 +1,59 @@
+/**
+ * Test helpers shared by the source, model and destination tests
+ */
+
+import http from 'node:http';
+import { mkdtempSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { vi } from 'vitest';
+import type { CatalogItem } from '../models/types';
+
+// Catalog item with the required fields filled in; overrides set the ones a test is about
+export function catalogItem(sku: string, overrides: Partial<CatalogItem> = {}): CatalogItem {
+  return {
+    title: 'Mug',
+    sku,
+    price: '12.00',
+    currency: 'USD',
+    stock: 4,
+    source: 'shopify',
+    ...overrides
+  };
+}
+
+export type TestServer = {
+  server: http.Server;
+  url: string; // http://127.0.0.1:<port>, without a trailing slash
+  close: () => Promise<void>;
+};
+
+// Local HTTP server standing in for a store, feed or endpoint, on a free port
+export async function startTestServer(handler: http.RequestListener): Promise<TestServer> {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    server,
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+// Request body as text
+export function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => resolve(raw));
+    req.on('error', reject);
+  });
+}
+
+// Point the SQLite adapter at a new data/app.db in a temp directory; call before the test file's first query
+export function useTempDatabase(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'feed-db-'));
+  vi.spyOn(process, 'cwd').mockReturnValue(dir);
+  delete process.env.DATABASE_URL;
+  return dir;
+}
@@ -18,5 +18,15 @@ export const config = {
   feed: {
     defaultCurrency: process.env.FEED_DEFAULT_CURRENCY || 'USD',
     refreshMinutes: Number(process.env.FEED_REFRESH_MINUTES || 120)
+  },
+  catalog: {
+    // Full source re-download interval; in between only changed products are fetched
+    fullReconcileHours: Number(process.env.CATALOG_FULL_RECONCILE_HOURS || 6),
+    // Reject a fetched catalog that is this much smaller than the previous one
+    maxShrinkPercent: Number(process.env.CATALOG_MAX_SHRINK_PERCENT || 50),
+    // Removed SKUs stay listed as discontinued this long, then are forgotten
+    removedRetentionDays: Number(process.env.CATALOG_REMOVED_RETENTION_DAYS || 60),
+    // Largest CSV catalog accepted by POST /api/sources/file
+    fileMaxMb: Number(process.env.CATALOG_FILE_MAX_MB || 20)
   }
 };
\ No newline at end of file
@@ -54,6 +54,26 @@ async function execMigration(sql: string): Promise<void> {
   }
 }
 
+// Destination connection types; checked by the repos rather than the SQLite schema, so adding one needs no table rebuild
+export const CONNECTION_TYPES = ['shopify', 'woocommerce', 'bigcommerce', 'magento', 'http', 'file'] as const;
+export type ConnectionType = (typeof CONNECTION_TYPES)[number];
+
+// What a push does with a SKU that disappeared from the source: nothing, zero its stock,
+// set its product to draft or archived, or delete it from the destination
+export const DISCONTINUE_POLICIES = ['none', 'zero_stock', 'draft', 'archive', 'delete'] as const;
+export type DiscontinuePolicy = (typeof DISCONTINUE_POLICIES)[number];
+
+// What a push does with a SKU whose stock is 0 or less: push the zero, push it and set a
+// sold-out product to draft, push it but never create the product, or also hide it from the catalog
+export const OUT_OF_STOCK_POLICIES = ['push_zero', 'zero_draft', 'skip_create', 'hide'] as const;
+export type OutOfStockPolicy = (typeof OUT_OF_STOCK_POLICIES)[number];
+
+function assertConnectionType(type: string) {
+  if (!(CONNECTION_TYPES as readonly string[]).includes(type)) {
+    throw new Error(`Unsupported connection type: ${type}`);
+  }
+}
+
 export async function migrate() {
   // Use PostgreSQL-specific migration if DATABASE_URL is set
   if (isPostgres()) {
@@ -73,6 +93,7 @@ export async function migrate() {
       api_key_hash TEXT,
       last4 TEXT,
       version TEXT NOT NULL,
+      installation_id TEXT,                  -- installation whose catalog this reseller reads
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
     );
@@ -86,23 +107,30 @@ export async function migrate() {
       access_token TEXT,
       scopes TEXT,
       status TEXT NOT NULL DEFAULT 'active',
+      catalog_ingestion TEXT NOT NULL DEFAULT 'rest',
+      merge_policy_json TEXT,                -- MergePolicy for combining sources (null: defaults)
+      source_metafields_json TEXT,           -- JSON array of "namespace.key" metafields read from the source store
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
     );
 
-    -- Destination connections (Shopify or WooCommerce)
+    -- Destination connections (Shopify, WooCommerce, BigCommerce, Magento, an HTTP endpoint or a file export)
     CREATE TABLE IF NOT EXISTS connections (
       id TEXT PRIMARY KEY,
       installation_id TEXT NOT NULL,
-      type TEXT NOT NULL CHECK (type IN ('shopify','woocommerce')),
+      type TEXT NOT NULL,                    -- one of CONNECTION_TYPES
       name TEXT NOT NULL,
       status TEXT NOT NULL CHECK (status IN ('active','paused','disabled')) DEFAULT 'active',
       dest_shop_domain TEXT,                 -- for Shopify destination
-      dest_location_id TEXT,                 -- location policy for inventory
-      base_url TEXT,                         -- for Woo destination
+      dest_location_id TEXT,                 -- location policy for inventory (Magento: MSI source code)
+      base_url TEXT,                         -- for Woo / Magento destination, HTTP endpoint URL
       consumer_key TEXT,                     -- Woo
       consumer_secret TEXT,                  -- Woo
-      access_token TEXT,                     -- Shopify destination token (if using manual token for now)
+      access_token TEXT,                     -- Shopify / BigCommerce / Magento destination token, file export SFTP key / S3 secret
+      store_hash TEXT,                       -- BigCommerce store hash
+      signing_secret TEXT,                   -- HTTP: HMAC signing secret (encrypted)
+      batch_size INTEGER,                    -- HTTP: events per request
+      export_json TEXT,                      -- File export: JSON format/filename/retention/target (secret in access_token)
       rules_json TEXT,                       -- JSON blob for mapping/rules
       sync_price INTEGER NOT NULL DEFAULT 0, -- 1 = sync prices, 0 = don't sync prices
       sync_categories INTEGER NOT NULL DEFAULT 0, -- 1 = sync/create categories, 0 = don't
@@ -110,7 +138,14 @@ export async function migrate() {
       sync_collections INTEGER NOT NULL DEFAULT 0, -- 1 = sync collections, 0 = don't sync collections
       create_products INTEGER NOT NULL DEFAULT 1, -- 1 = create products if not exist, 0 = skip
       product_status INTEGER NOT NULL DEFAULT 0, -- 1 = active, 0 = draft
+      use_graphql INTEGER NOT NULL DEFAULT 0, -- Shopify: 1 = GraphQL Admin API (productSet, batched stock), 0 = REST
+      discontinue_policy TEXT NOT NULL DEFAULT 'none', -- SKUs gone from the source: none, zero_stock, draft, archive or delete
+      discontinue_grace_hours INTEGER NOT NULL DEFAULT 24, -- Hours a SKU must stay gone before the policy applies
+      out_of_stock_policy TEXT NOT NULL DEFAULT 'push_zero', -- SKUs with no stock: push_zero, zero_draft, skip_create or hide
+      content_fields TEXT,                  -- JSON array of content fields updated on existing products (null = none)
       last_synced_at TEXT,
+      last_source_count INTEGER,             -- source catalog size last accepted for a full push (shrink guard)
+      source_location_ids TEXT,              -- JSON array of source location ids counted as stock (null: all)
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       FOREIGN KEY (installation_id) REFERENCES installations(id)
@@ -123,7 +158,7 @@ export async function migrate() {
       id TEXT PRIMARY KEY,
       installation_id TEXT NOT NULL,
       name TEXT NOT NULL,
-      type TEXT NOT NULL CHECK (type IN ('shopify','woocommerce')),
+      type TEXT NOT NULL,                    -- one of CONNECTION_TYPES
       config_json TEXT NOT NULL,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
@@ -140,6 +175,7 @@ export async function migrate() {
       state TEXT NOT NULL CHECK (state IN ('queued','running','succeeded','failed','dead')) DEFAULT 'queued',
       attempts INTEGER NOT NULL DEFAULT 0,
       last_error TEXT,
+      run_after TEXT,                        -- not picked before this time (null = right away)
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       FOREIGN KEY (connection_id) REFERENCES connections(id)
@@ -241,14 +277,169 @@ export async function migrate() {
       FOREIGN KEY (installation_id) REFERENCES installations(id)
     );
     CREATE INDEX IF NOT EXISTS idx_shopify_webhooks_installation ON shopify_webhooks(installation_id);
+
+    -- Persisted source catalog (one row per source SKU, merged from full and incremental fetches)
+    CREATE TABLE IF NOT EXISTS catalog_items (
+      installation_id TEXT NOT NULL,
+      source TEXT NOT NULL,                  -- 'shopify' | 'woocommerce' | 'file' | 'feed:<supplier feed id>'
+      sku TEXT NOT NULL,
+      product_id TEXT,                       -- source product id (used to replace a changed product's variants)
+      item_json TEXT NOT NULL,               -- latest normalized CatalogItem
+      content_hash TEXT,                     -- sha256 of item_json
+      first_seen_at TEXT,
+      last_seen_at TEXT,
+      removed_at TEXT,                       -- set when the SKU disappears from its source
+      updated_at TEXT NOT NULL,              -- last content change
+      PRIMARY KEY (installation_id, source, sku),
+      FOREIGN KEY (installation_id) REFERENCES installations(id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_catalog_items_product ON catalog_items(installation_id, source, product_id);
+
+    -- Incremental fetch cursors per installation source
+    CREATE TABLE IF NOT EXISTS source_cursors (
+      installation_id TEXT NOT NULL,
+      source TEXT NOT NULL,
+      cursor_value TEXT,                     -- last updated_at seen (Shopify updated_at_min / Woo modified_after)
+      last_full_sync_at TEXT,                -- last full reconciliation
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (installation_id, source),
+      FOREIGN KEY (installation_id) REFERENCES installations(id)
+    );
+
+    -- Column mapping used to import uploaded CSV catalogs (source 'file')
+    CREATE TABLE IF NOT EXISTS file_source_profiles (
+      installation_id TEXT PRIMARY KEY,
+      mapping_json TEXT NOT NULL,            -- FileColumnMapping
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (installation_id) REFERENCES installations(id)
+    );
+
+    -- Remote supplier feeds polled into the catalog (source 'feed:<id>')
+    CREATE TABLE IF NOT EXISTS supplier_feeds (
+      id TEXT PRIMARY KEY,
+      installation_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      url TEXT NOT NULL,
+      format TEXT NOT NULL DEFAULT 'auto',   -- 'auto' | 'json' | 'xml'
+      auth_header_name TEXT,
+      auth_header_value TEXT,                -- encrypted
+      mapping_json TEXT,                     -- SupplierFeedMapping (null: middleware feed layout)
+      poll_interval_minutes INTEGER NOT NULL DEFAULT 60,
+      status TEXT NOT NULL CHECK (status IN ('active','paused')) DEFAULT 'active',
+      last_polled_at TEXT,
+      last_error TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (installation_id) REFERENCES installations(id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_supplier_feeds_installation ON supplier_feeds(installation_id);
+
+    -- SKUs a destination has acknowledged (HTTP connections: decides create vs update events)
+    CREATE TABLE IF NOT EXISTS destination_skus (
+      connection_id TEXT NOT NULL,
+      sku TEXT NOT NULL,
+      delivered_at TEXT NOT NULL,            -- last acknowledged delivery
+      content_hash TEXT,                     -- sha256 of the content last acknowledged
+      stock INTEGER,                         -- stock last acknowledged
+      PRIMARY KEY (connection_id, sku),
+      FOREIGN KEY (connection_id) REFERENCES connections(id)
+    );
+
+    -- Content fields last pushed to a destination per SKU, to skip unchanged ones
+    CREATE TABLE IF NOT EXISTS pushed_content (
+      connection_id TEXT NOT NULL,
+      sku TEXT NOT NULL,
+      content_json TEXT NOT NULL,            -- field -> value last pushed
+      pushed_at TEXT NOT NULL,
+      PRIMARY KEY (connection_id, sku),
+      FOREIGN KEY (connection_id) REFERENCES connections(id)
+    );
+
+    -- SKUs discontinued at the source whose policy was applied in a destination (once per removal)
+    CREATE TABLE IF NOT EXISTS discontinued_skus (
+      connection_id TEXT NOT NULL,
+      sku TEXT NOT NULL,
+      removed_at TEXT NOT NULL,              -- catalog_items.removed_at the policy was applied for
+      policy TEXT NOT NULL,
+      applied_at TEXT NOT NULL,
+      PRIMARY KEY (connection_id, sku),
+      FOREIGN KEY (connection_id) REFERENCES connections(id)
+    );
+
+    -- Kits / bundles computed from component SKUs into the catalog (source 'kit')
+    CREATE TABLE IF NOT EXISTS kits (
+      id TEXT PRIMARY KEY,
+      installation_id TEXT NOT NULL,
+      sku TEXT NOT NULL,
+      title TEXT NOT NULL,
+      price TEXT NOT NULL,
+      currency TEXT,                         -- null: currency of the first component
+      description TEXT,
+      image_url TEXT,
+      components_json TEXT NOT NULL,         -- [{ sku, quantity }]
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE(installation_id, sku),
+      FOREIGN KEY (installation_id) REFERENCES installations(id)
+    );
   `;
   
+  await dropConnectionTypeChecks();
   await execMigration(migrationSql);
   
   // Run additional migrations for new columns (safe to run multiple times)
   await runColumnMigrations();
 }
 
+/**
+ * SQLite cannot alter a CHECK constraint: tables created with a type CHECK are rebuilt once
+ * without it. Foreign keys are off for the rebuild, or dropping connections would fail on
+ * the jobs referencing them, and checked again afterwards.
+ */
+async function dropConnectionTypeChecks() {
+  for (const table of ['connections', 'connection_templates']) {
+    const stmt = getDb().prepare(`SELECT sql FROM sqlite_master WHERE type='table' AND name=@table`);
+    const result = stmt.get({ table });
+    const row = (result instanceof Promise ? await result : result) as { sql: string } | undefined;
+    if (!row || !/CHECK \(type IN \(/.test(row.sql)) continue;
+
+    const rebuiltSql = row.sql
+      .replace(/\s*CHECK \(type IN \([^)]*\)\)/, '')
+      .replace(/^CREATE TABLE (IF NOT EXISTS )?"?\w+"?/, `CREATE TABLE ${table}_rebuild`);
+    await execMigration('PRAGMA foreign_keys=OFF');
+    try {
+      const orphansBefore = await countForeignKeyViolations(table);
+      await execMigration(`
+        BEGIN;
+        ${rebuiltSql};
+        INSERT INTO ${table}_rebuild SELECT * FROM ${table};
+        DROP TABLE ${table};
+        ALTER TABLE ${table}_rebuild RENAME TO ${table};
+      `);
+      // Rows that were already orphaned before the rebuild are left as they were
+      const orphansAfter = await countForeignKeyViolations(table);
+      if (orphansAfter > orphansBefore) {
+        throw new Error(`Rebuilding ${table} broke ${orphansAfter - orphansBefore} foreign key reference(s)`);
+      }
+      await execMigration('COMMIT');
+    } catch (err) {
+      await execMigration('ROLLBACK').catch(() => {});
+      throw err;
+    } finally {
+      await execMigration('PRAGMA foreign_keys=ON');
+    }
+    console.log(`[DB] Rebuilt ${table} without the connection type CHECK`);
+  }
+}
+
+// Rows whose foreign key points at a missing row of the given table
+async function countForeignKeyViolations(parent: string): Promise<number> {
+  const result = getDb().prepare(`PRAGMA foreign_key_check`).all();
+  const rows = (result instanceof Promise ? await result : result) as { parent: string }[];
+  return rows.filter(r => r.parent === parent).length;
+}
+
 async function runColumnMigrations() {
   // Add new sync option columns to connections table if they don't exist
   // These are safe to run multiple times - they will fail silently if columns exist
@@ -260,8 +451,30 @@ async function runColumnMigrations() {
     `ALTER TABLE connections ADD COLUMN create_products INTEGER NOT NULL DEFAULT 1`,
     `ALTER TABLE connections ADD COLUMN product_status INTEGER NOT NULL DEFAULT 0`,
     `ALTER TABLE connections ADD COLUMN last_synced_at TEXT`,
+    `ALTER TABLE connections ADD COLUMN last_source_count INTEGER`,
+    `ALTER TABLE connections ADD COLUMN source_location_ids TEXT`,
+    `ALTER TABLE connections ADD COLUMN store_hash TEXT`,
+    `ALTER TABLE connections ADD COLUMN signing_secret TEXT`,
+    `ALTER TABLE connections ADD COLUMN batch_size INTEGER`,
+    `ALTER TABLE connections ADD COLUMN export_json TEXT`,
+    `ALTER TABLE connections ADD COLUMN use_graphql INTEGER NOT NULL DEFAULT 0`,
+    `ALTER TABLE connections ADD COLUMN discontinue_policy TEXT NOT NULL DEFAULT 'none'`,
+    `ALTER TABLE connections ADD COLUMN discontinue_grace_hours INTEGER NOT NULL DEFAULT 24`,
+    `ALTER TABLE connections ADD COLUMN out_of_stock_policy TEXT NOT NULL DEFAULT 'push_zero'`,
+    `ALTER TABLE connections ADD COLUMN content_fields TEXT`,
     `ALTER TABLE shopify_oauth_states ADD COLUMN invite_id TEXT`,
     `ALTER TABLE shopify_oauth_states ADD COLUMN location_id TEXT`,
+    `ALTER TABLE resellers ADD COLUMN installation_id TEXT`,
+    `ALTER TABLE installations ADD COLUMN catalog_ingestion TEXT NOT NULL DEFAULT 'rest'`,
+    `ALTER TABLE installations ADD COLUMN merge_policy_json TEXT`,
+    `ALTER TABLE installations ADD COLUMN source_metafields_json TEXT`,
+    `ALTER TABLE catalog_items ADD COLUMN content_hash TEXT`,
+    `ALTER TABLE catalog_items ADD COLUMN first_seen_at TEXT`,
+    `ALTER TABLE catalog_items ADD COLUMN last_seen_at TEXT`,
+    `ALTER TABLE catalog_items ADD COLUMN removed_at TEXT`,
+    `ALTER TABLE destination_skus ADD COLUMN content_hash TEXT`,
+    `ALTER TABLE destination_skus ADD COLUMN stock INTEGER`,
+    `ALTER TABLE jobs ADD COLUMN run_after TEXT`,
     `CREATE TABLE IF NOT EXISTS connection_pending (id TEXT PRIMARY KEY, token TEXT NOT NULL UNIQUE, invite_id TEXT NOT NULL, dest_shop_domain TEXT NOT NULL, access_token TEXT NOT NULL, created_at TEXT NOT NULL, expires_at TEXT NOT NULL)`,
   ];
   
@@ -286,6 +499,7 @@ export type ResellerRow = {
   api_key_hash: string | null;
   last4: string | null;
   version: string;
+  installation_id: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -294,10 +508,10 @@ export const ResellerRepo = {
   async insert(reseller: Omit<ResellerRow, 'created_at' | 'updated_at'>) {
     const now = new Date().toISOString();
     const stmt = getDb().prepare(`
-      INSERT INTO resellers (id, name, status, api_key_salt, api_key_hash, last4, version, created_at, updated_at)
-      VALUES (@id, @name, @status, @api_key_salt, @api_key_hash, @last4, @version, @created_at, @updated_at)
+      INSERT INTO resellers (id, name, status, api_key_salt, api_key_hash, last4, version, installation_id, created_at, updated_at)
+      VALUES (@id, @name, @status, @api_key_salt, @api_key_hash, @last4, @version, @installation_id, @created_at, @updated_at)
     `);
-    const result = stmt.run({ ...reseller, created_at: now, updated_at: now });
+    const result = stmt.run({ ...reseller, installation_id: reseller.installation_id ?? null, created_at: now, updated_at: now });
     if (result instanceof Promise) {
       await result;
     }
@@ -331,14 +545,20 @@ export type InstallationRow = {
   access_token: string | null;
   scopes: string | null;
   status: 'active' | 'disabled';
+  catalog_ingestion: CatalogIngestionMode;
+  merge_policy_json?: string | null;
+  source_metafields_json?: string | null;
   created_at: string;
   updated_at: string;
 };
 
+// How the source Shopify catalog is read: paginated REST or a GraphQL bulk operation
+export type CatalogIngestionMode = 'rest' | 'bulk';
+
 export type ConnectionRow = {
   id: string;
   installation_id: string;
-  type: 'shopify' | 'woocommerce';
+  type: ConnectionType;
   name: string;
   status: 'active' | 'paused' | 'disabled';
   dest_shop_domain: string | null;
@@ -347,6 +567,10 @@ export type ConnectionRow = {
   consumer_key: string | null;
   consumer_secret: string | null;
   access_token: string | null;
+  store_hash?: string | null; // BigCommerce
+  signing_secret?: string | null; // HTTP (encrypted)
+  batch_size?: number | null; // HTTP
+  export_json?: string | null; // File export (JSON FileExportConfig)
   rules_json: string | null;
   sync_price: number; // 1 = true, 0 = false
   sync_categories: number; // 1 = true, 0 = false
@@ -354,7 +578,14 @@ export type ConnectionRow = {
   sync_collections: number; // 1 = true, 0 = false
   create_products: number; // 1 = true, 0 = false
   product_status: number; // 1 = active, 0 = draft
+  use_graphql?: number; // Shopify: 1 = GraphQL Admin API, 0 = REST
+  discontinue_policy?: DiscontinuePolicy;
+  discontinue_grace_hours?: number;
+  out_of_stock_policy?: OutOfStockPolicy;
+  content_fields?: string | null; // JSON array of content fields updated on existing products (null = none)
   last_synced_at?: string | null;
+  last_source_count?: number | null;
+  source_location_ids?: string | null; // JSON array of source location ids (null = all locations)
   created_at: string;
   updated_at: string;
 };
@@ -366,6 +597,7 @@ export type JobRow = {
   state: 'queued' | 'running' | 'succeeded' | 'failed' | 'dead';
   attempts: number;
   last_error: string | null;
+  run_after?: string | null; // Not picked before this time
   created_at: string;
   updated_at: string;
 };
@@ -414,6 +646,36 @@ export const InstallationRepo = {
     const stmt = getDb().prepare(`SELECT * FROM installations WHERE id=@id`);
     const result = stmt.get({ id });
     return (result instanceof Promise ? await result : result) as InstallationRow | undefined;
+  },
+  async list(): Promise<InstallationRow[]> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`SELECT * FROM installations ORDER BY created_at ASC`);
+    const result = stmt.all();
+    return (result instanceof Promise ? await result : result) as InstallationRow[];
+  },
+  async setCatalogIngestion(id: string, mode: CatalogIngestionMode) {
+    await ensureMigration();
+    const stmt = getDb().prepare(`UPDATE installations SET catalog_ingestion=@mode, updated_at=@updated_at WHERE id=@id`);
+    const result = stmt.run({ id, mode, updated_at: new Date().toISOString() });
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async setMergePolicy(id: string, merge_policy_json: string | null) {
+    await ensureMigration();
+    const stmt = getDb().prepare(`UPDATE installations SET merge_policy_json=@merge_policy_json, updated_at=@updated_at WHERE id=@id`);
+    const result = stmt.run({ id, merge_policy_json, updated_at: new Date().toISOString() });
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async setSourceMetafields(id: string, source_metafields_json: string | null) {
+    await ensureMigration();
+    const stmt = getDb().prepare(`UPDATE installations SET source_metafields_json=@source_metafields_json, updated_at=@updated_at WHERE id=@id`);
+    const result = stmt.run({ id, source_metafields_json, updated_at: new Date().toISOString() });
+    if (result instanceof Promise) {
+      await result;
+    }
   }
 };
 
@@ -479,18 +741,24 @@ export const ShopifyOAuthStateRepo = {
 
 export const ConnectionRepo = {
   async insert(conn: Omit<ConnectionRow, 'created_at' | 'updated_at'>) {
+    assertConnectionType(conn.type);
     await ensureMigration(); // Ensure migration runs before insert
     const now = new Date().toISOString();
-    const stmt = getDb().prepare(`INSERT INTO connections (id, installation_id, type, name, status, dest_shop_domain, dest_location_id, base_url, consumer_key, consumer_secret, access_token, rules_json, sync_price, sync_categories, sync_tags, sync_collections, create_products, product_status, created_at, updated_at)
-      VALUES (@id, @installation_id, @type, @name, @status, @dest_shop_domain, @dest_location_id, @base_url, @consumer_key, @consumer_secret, @access_token, @rules_json, @sync_price, @sync_categories, @sync_tags, @sync_collections, @create_products, @product_status, @created_at, @updated_at)`);
+    const stmt = getDb().prepare(`INSERT INTO connections (id, installation_id, type, name, status, dest_shop_domain, dest_location_id, base_url, consumer_key, consumer_secret, access_token, store_hash, signing_secret, batch_size, export_json, rules_json, sync_price, sync_categories, sync_tags, sync_collections, create_products, product_status, use_graphql, created_at, updated_at)
+      VALUES (@id, @installation_id, @type, @name, @status, @dest_shop_domain, @dest_location_id, @base_url, @consumer_key, @consumer_secret, @access_token, @store_hash, @signing_secret, @batch_size, @export_json, @rules_json, @sync_price, @sync_categories, @sync_tags, @sync_collections, @create_products, @product_status, @use_graphql, @created_at, @updated_at)`);
     const result = stmt.run({ 
       ...conn, 
+      store_hash: conn.store_hash ?? null,
+      signing_secret: conn.signing_secret ?? null,
+      batch_size: conn.batch_size ?? null,
+      export_json: conn.export_json ?? null,
       sync_price: conn.sync_price ?? 0,
       sync_categories: conn.sync_categories ?? 0,
       sync_tags: conn.sync_tags ?? 0,
       sync_collections: conn.sync_collections ?? 0,
       create_products: conn.create_products ?? 1,
       product_status: conn.product_status ?? 0,
+      use_graphql: conn.use_graphql ?? 0,
       created_at: now, 
       updated_at: now 
     });
@@ -550,7 +818,15 @@ export const ConnectionRepo = {
       await result;
     }
   },
-  async updateSyncOptions(id: string, options: { sync_price?: number; sync_categories?: number; sync_tags?: number; sync_collections?: number; create_products?: number; product_status?: number }) {
+  async updateBaseUrl(id: string, base_url: string) {
+    const now = new Date().toISOString();
+    const stmt = getDb().prepare(`UPDATE connections SET base_url=@base_url, updated_at=@updated_at WHERE id=@id`);
+    const result = stmt.run({ id, base_url, updated_at: now });
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async updateSyncOptions(id: string, options: { sync_price?: number; sync_categories?: number; sync_tags?: number; sync_collections?: number; create_products?: number; product_status?: number; use_graphql?: number }) {
     const now = new Date().toISOString();
     const updates: string[] = ['updated_at=@updated_at'];
     const params: any = { id, updated_at: now };
@@ -579,6 +855,10 @@ export const ConnectionRepo = {
       updates.push('product_status=@product_status');
       params.product_status = options.product_status;
     }
+    if (options.use_graphql !== undefined) {
+      updates.push('use_graphql=@use_graphql');
+      params.use_graphql = options.use_graphql;
+    }
     
     const stmt = getDb().prepare(`UPDATE connections SET ${updates.join(', ')} WHERE id=@id`);
     const result = stmt.run(params);
@@ -586,6 +866,56 @@ export const ConnectionRepo = {
       await result;
     }
   },
+  async setSourceLocations(id: string, source_location_ids: string | null) {
+    await ensureMigration();
+    const stmt = getDb().prepare(`UPDATE connections SET source_location_ids=@source_location_ids, updated_at=@updated_at WHERE id=@id`);
+    const result = stmt.run({ id, source_location_ids, updated_at: new Date().toISOString() });
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async setDiscontinuePolicy(id: string, options: { discontinue_policy?: DiscontinuePolicy; discontinue_grace_hours?: number }) {
+    await ensureMigration();
+    const updates: string[] = ['updated_at=@updated_at'];
+    const params: any = { id, updated_at: new Date().toISOString() };
+    if (options.discontinue_policy !== undefined) {
+      updates.push('discontinue_policy=@discontinue_policy');
+      params.discontinue_policy = options.discontinue_policy;
+    }
+    if (options.discontinue_grace_hours !== undefined) {
+      updates.push('discontinue_grace_hours=@discontinue_grace_hours');
+      params.discontinue_grace_hours = options.discontinue_grace_hours;
+    }
+    const stmt = getDb().prepare(`UPDATE connections SET ${updates.join(', ')} WHERE id=@id`);
+    const result = stmt.run(params);
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async setOutOfStockPolicy(id: string, policy: OutOfStockPolicy) {
+    await ensureMigration();
+    const stmt = getDb().prepare(`UPDATE connections SET out_of_stock_policy=@policy, updated_at=@updated_at WHERE id=@id`);
+    const result = stmt.run({ id, policy, updated_at: new Date().toISOString() });
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async setContentFields(id: string, fieldsJson: string | null) {
+    await ensureMigration();
+    const stmt = getDb().prepare(`UPDATE connections SET content_fields=@content_fields, updated_at=@updated_at WHERE id=@id`);
+    const result = stmt.run({ id, content_fields: fieldsJson, updated_at: new Date().toISOString() });
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async setLastSourceCount(id: string, count: number | null) {
+    await ensureMigration();
+    const stmt = getDb().prepare(`UPDATE connections SET last_source_count=@count, updated_at=@updated_at WHERE id=@id`);
+    const result = stmt.run({ id, count, updated_at: new Date().toISOString() });
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
   async updateLastSyncedAt(id: string) {
     const now = new Date().toISOString();
     const stmt = getDb().prepare(`UPDATE connections SET last_synced_at=@last_synced_at, updated_at=@updated_at WHERE id=@id`);
@@ -613,6 +943,27 @@ export const ConnectionRepo = {
       await jobsResult;
     }
     
+    // Delete the SKUs the destination acknowledged
+    const destinationSkusStmt = getDb().prepare(`DELETE FROM destination_skus WHERE connection_id=@connection_id`);
+    const destinationSkusResult = destinationSkusStmt.run({ connection_id: id });
+    if (destinationSkusResult instanceof Promise) {
+      await destinationSkusResult;
+    }
+    
+    // Delete the content last pushed to the destination
+    const contentStmt = getDb().prepare(`DELETE FROM pushed_content WHERE connection_id=@connection_id`);
+    const contentResult = contentStmt.run({ connection_id: id });
+    if (contentResult instanceof Promise) {
+      await contentResult;
+    }
+
+    // Delete the discontinuations applied to the destination
+    const discontinuedStmt = getDb().prepare(`DELETE FROM discontinued_skus WHERE connection_id=@connection_id`);
+    const discontinuedResult = discontinuedStmt.run({ connection_id: id });
+    if (discontinuedResult instanceof Promise) {
+      await discontinuedResult;
+    }
+    
     // Delete audit logs referencing this connection
     const auditStmt = getDb().prepare(`DELETE FROM audit_logs WHERE connection_id=@connection_id`);
     const auditResult = auditStmt.run({ connection_id: id });
@@ -652,9 +1003,9 @@ export const ConnectionRepo = {
 export const JobRepo = {
   async enqueue(job: Omit<JobRow, 'state' | 'attempts' | 'last_error' | 'created_at' | 'updated_at'>) {
     const now = new Date().toISOString();
-    const stmt = getDb().prepare(`INSERT INTO jobs (id, connection_id, job_type, state, attempts, created_at, updated_at)
-      VALUES (@id, @connection_id, @job_type, 'queued', 0, @created_at, @updated_at)`);
-    const result = stmt.run({ ...job, created_at: now, updated_at: now });
+    const stmt = getDb().prepare(`INSERT INTO jobs (id, connection_id, job_type, state, attempts, run_after, created_at, updated_at)
+      VALUES (@id, @connection_id, @job_type, 'queued', 0, @run_after, @created_at, @updated_at)`);
+    const result = stmt.run({ ...job, run_after: job.run_after ?? null, created_at: now, updated_at: now });
     if (result instanceof Promise) {
       await result;
     }
@@ -665,8 +1016,8 @@ export const JobRepo = {
     return (result instanceof Promise ? await result : result) as JobRow | undefined;
   },
   async pickNext(): Promise<JobRow | undefined> {
-    const getStmt = getDb().prepare(`SELECT * FROM jobs WHERE state='queued' ORDER BY created_at ASC LIMIT 1`);
-    const getResult = getStmt.get();
+    const getStmt = getDb().prepare(`SELECT * FROM jobs WHERE state='queued' AND (run_after IS NULL OR run_after <= @now) ORDER BY created_at ASC LIMIT 1`);
+    const getResult = getStmt.get({ now: new Date().toISOString() });
     const job = (getResult instanceof Promise ? await getResult : getResult) as JobRow | undefined;
     
     if (!job) return undefined;
@@ -801,6 +1152,24 @@ export const JobItemRepo = {
     const rows = (result instanceof Promise ? await result : result) as { sku: string }[];
     return rows.map(r => r.sku);
   },
+  // Mark the job's items succeeded, except the SKUs in failed (SKU -> error)
+  async recordResults(job_id: string, failed: Map<string, string>) {
+    const now = new Date().toISOString();
+    await getDb().transaction(async () => {
+      const succeed = getDb().prepare(`UPDATE job_items SET state='succeeded', error=NULL, updated_at=@now WHERE job_id=@job_id`);
+      const succeedResult = succeed.run({ job_id, now });
+      if (succeedResult instanceof Promise) {
+        await succeedResult;
+      }
+      const fail = getDb().prepare(`UPDATE job_items SET state='failed', error=@error, updated_at=@now WHERE job_id=@job_id AND sku=@sku`);
+      for (const [sku, error] of failed) {
+        const result = fail.run({ job_id, sku, error, now });
+        if (result instanceof Promise) {
+          await result;
+        }
+      }
+    });
+  },
   async getProgress(job_id: string): Promise<{ total: number; completed: number; failed: number }> {
     await ensureMigration();
     const stmt = getDb().prepare(`
@@ -895,7 +1264,7 @@ export type ConnectionTemplateRow = {
   id: string;
   installation_id: string;
   name: string;
-  type: 'shopify' | 'woocommerce';
+  type: ConnectionType;
   config_json: string;
   created_at: string;
   updated_at: string;
@@ -1032,6 +1401,7 @@ export const ConnectionPendingRepo = {
 
 export const ConnectionTemplateRepo = {
   async insert(template: Omit<ConnectionTemplateRow, 'created_at' | 'updated_at'>) {
+    assertConnectionType(template.type);
     await ensureMigration();
     const now = new Date().toISOString();
     const stmt = getDb().prepare(`
@@ -1093,3 +1463,533 @@ export const ConnectionTemplateRepo = {
     }
   }
 };
+
+export type CatalogItemRow = {
+  installation_id: string;
+  source: string;
+  sku: string;
+  product_id: string | null;
+  item_json: string;
+  content_hash: string | null;
+  first_seen_at: string | null;
+  last_seen_at: string | null;
+  removed_at: string | null;
+  updated_at: string;
+};
+
+// Row shape written by CatalogItemRepo (item_json is the serialized CatalogItem)
+export type CatalogItemInput = {
+  sku: string;
+  product_id: string | null;
+  item_json: string;
+  content_hash: string;
+};
+
+// Both SQLite (3.24+) and PostgreSQL support ON CONFLICT ... DO UPDATE.
+// first_seen_at is kept, updated_at only moves when the content hash changes.
+const CATALOG_ITEM_UPSERT_SQL = `
+  INSERT INTO catalog_items (installation_id, source, sku, product_id, item_json, content_hash, first_seen_at, last_seen_at, removed_at, updated_at)
+  VALUES (@installation_id, @source, @sku, @product_id, @item_json, @content_hash, @now, @now, NULL, @now)
+  ON CONFLICT (installation_id, source, sku) DO UPDATE SET
+    product_id = excluded.product_id,
+    item_json = excluded.item_json,
+    updated_at = CASE WHEN catalog_items.content_hash = excluded.content_hash AND catalog_items.removed_at IS NULL
+      THEN catalog_items.updated_at ELSE excluded.updated_at END,
+    content_hash = excluded.content_hash,
+    last_seen_at = excluded.last_seen_at,
+    removed_at = NULL
+`;
+
+export const CatalogItemRepo = {
+  async count(installation_id: string, source: string): Promise<number> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`
+      SELECT COUNT(*) as count FROM catalog_items
+      WHERE installation_id=@installation_id AND source=@source AND removed_at IS NULL
+    `);
+    const result = stmt.get({ installation_id, source });
+    const row = (result instanceof Promise ? await result : result) as { count?: number | string } | undefined;
+    return Number(row?.count ?? 0);
+  },
+  // Items currently in the catalog (not removed at the source)
+  async list(installation_id: string, source?: string): Promise<CatalogItemRow[]> {
+    await ensureMigration();
+    const stmt = getDb().prepare(source
+      ? `SELECT * FROM catalog_items WHERE installation_id=@installation_id AND source=@source AND removed_at IS NULL ORDER BY sku ASC`
+      : `SELECT * FROM catalog_items WHERE installation_id=@installation_id AND removed_at IS NULL ORDER BY sku ASC`);
+    const result = stmt.all(source ? { installation_id, source } : { installation_id });
+    return (result instanceof Promise ? await result : result) as CatalogItemRow[];
+  },
+  // Items that disappeared from their source (after `since` when given), most recent first
+  async listRemoved(installation_id: string, since?: string): Promise<CatalogItemRow[]> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`
+      SELECT * FROM catalog_items
+      WHERE installation_id=@installation_id AND removed_at IS NOT NULL AND removed_at > @since
+      ORDER BY removed_at DESC, sku ASC
+    `);
+    const result = stmt.all({ installation_id, since: since ?? '' });
+    return (result instanceof Promise ? await result : result) as CatalogItemRow[];
+  },
+  // Forget items removed from their source before `before`
+  async purgeRemoved(installation_id: string, before: string) {
+    await ensureMigration();
+    const stmt = getDb().prepare(`DELETE FROM catalog_items WHERE installation_id=@installation_id AND removed_at IS NOT NULL AND removed_at < @before`);
+    const result = stmt.run({ installation_id, before });
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+
+  // A product deleted at the source (e.g. products/delete webhook): mark its variants removed, return their SKUs
+  async markProductRemoved(installation_id: string, source: string, product_id: string): Promise<string[]> {
+    await ensureMigration();
+    const select = getDb().prepare(`
+      SELECT sku FROM catalog_items
+      WHERE installation_id=@installation_id AND source=@source AND product_id=@product_id AND removed_at IS NULL
+    `);
+    const selected = select.all({ installation_id, source, product_id });
+    const rows = (selected instanceof Promise ? await selected : selected) as { sku: string }[];
+    if (rows.length === 0) return [];
+    const now = new Date().toISOString();
+    const stmt = getDb().prepare(`
+      UPDATE catalog_items SET removed_at=@now, updated_at=@now
+      WHERE installation_id=@installation_id AND source=@source AND product_id=@product_id AND removed_at IS NULL
+    `);
+    const result = stmt.run({ installation_id, source, product_id, now });
+    if (result instanceof Promise) {
+      await result;
+    }
+    return rows.map(r => r.sku);
+  },
+  // Full reconciliation: upsert `items`, mark every other row of the source as removed
+  async replaceSource(installation_id: string, source: string, items: CatalogItemInput[]) {
+    await ensureMigration();
+    const now = new Date().toISOString();
+    await getDb().transaction(async () => {
+      const stmt = getDb().prepare(CATALOG_ITEM_UPSERT_SQL);
+      for (const item of items) {
+        const result = stmt.run({ ...item, installation_id, source, now });
+        if (result instanceof Promise) {
+          await result;
+        }
+      }
+      const markRemoved = getDb().prepare(`
+        UPDATE catalog_items SET removed_at=@now, updated_at=@now
+        WHERE installation_id=@installation_id AND source=@source AND removed_at IS NULL
+          AND (last_seen_at IS NULL OR last_seen_at < @now)
+      `);
+      const markResult = markRemoved.run({ installation_id, source, now });
+      if (markResult instanceof Promise) {
+        await markResult;
+      }
+    });
+  },
+  // Incremental merge: replace the variants of every changed product, upsert the rest by SKU
+  async mergeChanged(installation_id: string, source: string, items: CatalogItemInput[]) {
+    await ensureMigration();
+    const now = new Date().toISOString();
+    const productIds = Array.from(new Set(items.map(i => i.product_id).filter((id): id is string => !!id)));
+    await getDb().transaction(async () => {
+      const stmt = getDb().prepare(CATALOG_ITEM_UPSERT_SQL);
+      for (const item of items) {
+        const result = stmt.run({ ...item, installation_id, source, now });
+        if (result instanceof Promise) {
+          await result;
+        }
+      }
+      // Variants no longer on a changed product were not seen in this merge
+      const markRemoved = getDb().prepare(`
+        UPDATE catalog_items SET removed_at=@now, updated_at=@now
+        WHERE installation_id=@installation_id AND source=@source AND product_id=@product_id AND removed_at IS NULL
+          AND (last_seen_at IS NULL OR last_seen_at < @now)
+      `);
+      for (const product_id of productIds) {
+        const markResult = markRemoved.run({ installation_id, source, product_id, now });
+        if (markResult instanceof Promise) {
+          await markResult;
+        }
+      }
+    });
+  }
+};
+
+export type SourceCursorRow = {
+  installation_id: string;
+  source: string;
+  cursor_value: string | null;
+  last_full_sync_at: string | null;
+  updated_at: string;
+};
+
+export const SourceCursorRepo = {
+  async list(installation_id: string): Promise<SourceCursorRow[]> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`SELECT * FROM source_cursors WHERE installation_id=@installation_id ORDER BY source ASC`);
+    const result = stmt.all({ installation_id });
+    return (result instanceof Promise ? await result : result) as SourceCursorRow[];
+  },
+  async get(installation_id: string, source: string): Promise<SourceCursorRow | undefined> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`SELECT * FROM source_cursors WHERE installation_id=@installation_id AND source=@source`);
+    const result = stmt.get({ installation_id, source });
+    return ((result instanceof Promise ? await result : result) ?? undefined) as SourceCursorRow | undefined;
+  },
+  async upsert(row: Omit<SourceCursorRow, 'updated_at'>) {
+    await ensureMigration();
+    const now = new Date().toISOString();
+    // PostgreSQL uses ON CONFLICT, SQLite uses INSERT OR REPLACE
+    const sql = process.env.DATABASE_URL
+      ? `
+        INSERT INTO source_cursors (installation_id, source, cursor_value, last_full_sync_at, updated_at)
+        VALUES (@installation_id, @source, @cursor_value, @last_full_sync_at, @updated_at)
+        ON CONFLICT (installation_id, source) DO UPDATE SET
+          cursor_value = @cursor_value,
+          last_full_sync_at = @last_full_sync_at,
+          updated_at = @updated_at
+      `
+      : `
+        INSERT OR REPLACE INTO source_cursors (installation_id, source, cursor_value, last_full_sync_at, updated_at)
+        VALUES (@installation_id, @source, @cursor_value, @last_full_sync_at, @updated_at)
+      `;
+    const stmt = getDb().prepare(sql);
+    const result = stmt.run({ ...row, updated_at: now });
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async delete(installation_id: string, source: string) {
+    await ensureMigration();
+    const stmt = getDb().prepare(`DELETE FROM source_cursors WHERE installation_id=@installation_id AND source=@source`);
+    const result = stmt.run({ installation_id, source });
+    if (result instanceof Promise) {
+      await result;
+    }
+  }
+};
+
+// What a destination last acknowledged for a SKU
+export type DeliveredSku = {
+  sku: string;
+  content_hash: string | null;
+  stock: number | null;
+};
+
+export const DestinationSkuRepo = {
+  async list(connection_id: string): Promise<DeliveredSku[]> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`SELECT sku, content_hash, stock FROM destination_skus WHERE connection_id=@connection_id`);
+    const result = stmt.all({ connection_id });
+    return (result instanceof Promise ? await result : result) as DeliveredSku[];
+  },
+  async markDelivered(connection_id: string, skus: DeliveredSku[]) {
+    if (skus.length === 0) return;
+    await ensureMigration();
+    const now = new Date().toISOString();
+    // PostgreSQL uses ON CONFLICT, SQLite uses INSERT OR REPLACE
+    const sql = process.env.DATABASE_URL
+      ? `
+        INSERT INTO destination_skus (connection_id, sku, delivered_at, content_hash, stock)
+        VALUES (@connection_id, @sku, @delivered_at, @content_hash, @stock)
+        ON CONFLICT (connection_id, sku) DO UPDATE SET delivered_at = @delivered_at, content_hash = @content_hash, stock = @stock
+      `
+      : `
+        INSERT OR REPLACE INTO destination_skus (connection_id, sku, delivered_at, content_hash, stock)
+        VALUES (@connection_id, @sku, @delivered_at, @content_hash, @stock)
+      `;
+    await getDb().transaction(async () => {
+      const stmt = getDb().prepare(sql);
+      for (const sku of skus) {
+        const result = stmt.run({ connection_id, ...sku, delivered_at: now });
+        if (result instanceof Promise) {
+          await result;
+        }
+      }
+    });
+  },
+  // SKUs the endpoint acknowledged as discontinued; relisting them sends create events again
+  async forget(connection_id: string, skus: string[]) {
+    if (skus.length === 0) return;
+    await ensureMigration();
+    await getDb().transaction(async () => {
+      const stmt = getDb().prepare(`DELETE FROM destination_skus WHERE connection_id=@connection_id AND sku=@sku`);
+      for (const sku of skus) {
+        const result = stmt.run({ connection_id, sku });
+        if (result instanceof Promise) {
+          await result;
+        }
+      }
+    });
+  }
+};
+
+export type DiscontinuedSkuRow = {
+  connection_id: string;
+  sku: string;
+  removed_at: string;
+  policy: DiscontinuePolicy;
+  applied_at: string;
+};
+
+export const DiscontinuedSkuRepo = {
+  // SKU -> the source removal its policy was applied for
+  async listApplied(connection_id: string): Promise<Map<string, string>> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`SELECT sku, removed_at FROM discontinued_skus WHERE connection_id=@connection_id`);
+    const result = stmt.all({ connection_id });
+    const rows = (result instanceof Promise ? await result : result) as { sku: string; removed_at: string }[];
+    return new Map(rows.map(r => [r.sku, r.removed_at]));
+  },
+  async markApplied(connection_id: string, entries: { sku: string; removed_at: string }[], policy: DiscontinuePolicy) {
+    if (entries.length === 0) return;
+    await ensureMigration();
+    const now = new Date().toISOString();
+    // PostgreSQL uses ON CONFLICT, SQLite uses INSERT OR REPLACE
+    const sql = process.env.DATABASE_URL
+      ? `
+        INSERT INTO discontinued_skus (connection_id, sku, removed_at, policy, applied_at)
+        VALUES (@connection_id, @sku, @removed_at, @policy, @applied_at)
+        ON CONFLICT (connection_id, sku) DO UPDATE SET removed_at = @removed_at, policy = @policy, applied_at = @applied_at
+      `
+      : `
+        INSERT OR REPLACE INTO discontinued_skus (connection_id, sku, removed_at, policy, applied_at)
+        VALUES (@connection_id, @sku, @removed_at, @policy, @applied_at)
+      `;
+    await getDb().transaction(async () => {
+      const stmt = getDb().prepare(sql);
+      for (const { sku, removed_at } of entries) {
+        const result = stmt.run({ connection_id, sku, removed_at, policy, applied_at: now });
+        if (result instanceof Promise) {
+          await result;
+        }
+      }
+    });
+  }
+};
+
+export type PushedContentRow = {
+  connection_id: string;
+  sku: string;
+  content_json: string;
+  pushed_at: string;
+};
+
+export const PushedContentRepo = {
+  // SKU -> content fields last pushed
+  async list(connection_id: string): Promise<Map<string, Record<string, string>>> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`SELECT sku, content_json FROM pushed_content WHERE connection_id=@connection_id`);
+    const result = stmt.all({ connection_id });
+    const rows = (result instanceof Promise ? await result : result) as { sku: string; content_json: string }[];
+    return new Map(rows.map(r => [r.sku, JSON.parse(r.content_json)]));
+  },
+  // Replaces the stored content of each SKU; callers merge in the fields they did not push
+  async save(connection_id: string, entries: { sku: string; content: Record<string, string> }[]) {
+    if (entries.length === 0) return;
+    await ensureMigration();
+    const now = new Date().toISOString();
+    // PostgreSQL uses ON CONFLICT, SQLite uses INSERT OR REPLACE
+    const sql = process.env.DATABASE_URL
+      ? `
+        INSERT INTO pushed_content (connection_id, sku, content_json, pushed_at)
+        VALUES (@connection_id, @sku, @content_json, @pushed_at)
+        ON CONFLICT (connection_id, sku) DO UPDATE SET content_json = @content_json, pushed_at = @pushed_at
+      `
+      : `
+        INSERT OR REPLACE INTO pushed_content (connection_id, sku, content_json, pushed_at)
+        VALUES (@connection_id, @sku, @content_json, @pushed_at)
+      `;
+    await getDb().transaction(async () => {
+      const stmt = getDb().prepare(sql);
+      for (const { sku, content } of entries) {
+        const result = stmt.run({ connection_id, sku, content_json: JSON.stringify(content), pushed_at: now });
+        if (result instanceof Promise) {
+          await result;
+        }
+      }
+    });
+  }
+};
+
+export type FileSourceProfileRow = {
+  installation_id: string;
+  mapping_json: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export const FileSourceProfileRepo = {
+  async get(installation_id: string): Promise<FileSourceProfileRow | undefined> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`SELECT * FROM file_source_profiles WHERE installation_id=@installation_id`);
+    const result = stmt.get({ installation_id });
+    return ((result instanceof Promise ? await result : result) ?? undefined) as FileSourceProfileRow | undefined;
+  },
+  async upsert(installation_id: string, mapping_json: string) {
+    await ensureMigration();
+    const now = new Date().toISOString();
+    const stmt = getDb().prepare(`
+      INSERT INTO file_source_profiles (installation_id, mapping_json, created_at, updated_at)
+      VALUES (@installation_id, @mapping_json, @now, @now)
+      ON CONFLICT (installation_id) DO UPDATE SET
+        mapping_json = excluded.mapping_json,
+        updated_at = excluded.updated_at
+    `);
+    const result = stmt.run({ installation_id, mapping_json, now });
+    if (result instanceof Promise) {
+      await result;
+    }
+  }
+};
+
+export type SupplierFeedRow = {
+  id: string;
+  installation_id: string;
+  name: string;
+  url: string;
+  format: 'auto' | 'json' | 'xml';
+  auth_header_name: string | null;
+  auth_header_value: string | null; // encrypted
+  mapping_json: string | null;
+  poll_interval_minutes: number;
+  status: 'active' | 'paused';
+  last_polled_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const SupplierFeedRepo = {
+  async insert(feed: Omit<SupplierFeedRow, 'last_polled_at' | 'last_error' | 'created_at' | 'updated_at'>) {
+    await ensureMigration();
+    const now = new Date().toISOString();
+    const stmt = getDb().prepare(`
+      INSERT INTO supplier_feeds (id, installation_id, name, url, format, auth_header_name, auth_header_value, mapping_json, poll_interval_minutes, status, last_polled_at, last_error, created_at, updated_at)
+      VALUES (@id, @installation_id, @name, @url, @format, @auth_header_name, @auth_header_value, @mapping_json, @poll_interval_minutes, @status, NULL, NULL, @created_at, @updated_at)
+    `);
+    const result = stmt.run({ ...feed, created_at: now, updated_at: now });
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async get(id: string): Promise<SupplierFeedRow | undefined> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`SELECT * FROM supplier_feeds WHERE id=@id`);
+    const result = stmt.get({ id });
+    return ((result instanceof Promise ? await result : result) ?? undefined) as SupplierFeedRow | undefined;
+  },
+  async list(installation_id: string): Promise<SupplierFeedRow[]> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`SELECT * FROM supplier_feeds WHERE installation_id=@installation_id ORDER BY created_at ASC`);
+    const result = stmt.all({ installation_id });
+    return (result instanceof Promise ? await result : result) as SupplierFeedRow[];
+  },
+  async update(
+    id: string,
+    updates: Partial<Pick<SupplierFeedRow, 'name' | 'url' | 'format' | 'auth_header_name' | 'auth_header_value' | 'mapping_json' | 'poll_interval_minutes' | 'status'>>
+  ) {
+    await ensureMigration();
+    const updateFields: string[] = ['updated_at=@updated_at'];
+    const params: any = { id, updated_at: new Date().toISOString() };
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+      updateFields.push(`${key}=@${key}`);
+      params[key] = value;
+    }
+    const stmt = getDb().prepare(`UPDATE supplier_feeds SET ${updateFields.join(', ')} WHERE id=@id`);
+    const result = stmt.run(params);
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async recordPoll(id: string, error: string | null) {
+    await ensureMigration();
+    const now = new Date().toISOString();
+    const stmt = getDb().prepare(`UPDATE supplier_feeds SET last_polled_at=@now, last_error=@error WHERE id=@id`);
+    const result = stmt.run({ id, now, error });
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async delete(id: string) {
+    await ensureMigration();
+    const stmt = getDb().prepare(`DELETE FROM supplier_feeds WHERE id=@id`);
+    const result = stmt.run({ id });
+    if (result instanceof Promise) {
+      await result;
+    }
+  }
+};
+
+export type KitRow = {
+  id: string;
+  installation_id: string;
+  sku: string;
+  title: string;
+  price: string;
+  currency: string | null;
+  description: string | null;
+  image_url: string | null;
+  components_json: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export const KitRepo = {
+  async insert(kit: Omit<KitRow, 'created_at' | 'updated_at'>) {
+    await ensureMigration();
+    const now = new Date().toISOString();
+    const stmt = getDb().prepare(`
+      INSERT INTO kits (id, installation_id, sku, title, price, currency, description, image_url, components_json, created_at, updated_at)
+      VALUES (@id, @installation_id, @sku, @title, @price, @currency, @description, @image_url, @components_json, @created_at, @updated_at)
+    `);
+    const result = stmt.run({ ...kit, created_at: now, updated_at: now });
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async get(id: string): Promise<KitRow | undefined> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`SELECT * FROM kits WHERE id=@id`);
+    const result = stmt.get({ id });
+    return ((result instanceof Promise ? await result : result) ?? undefined) as KitRow | undefined;
+  },
+  async getBySku(installation_id: string, sku: string): Promise<KitRow | undefined> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`SELECT * FROM kits WHERE installation_id=@installation_id AND sku=@sku`);
+    const result = stmt.get({ installation_id, sku });
+    return ((result instanceof Promise ? await result : result) ?? undefined) as KitRow | undefined;
+  },
+  async list(installation_id: string): Promise<KitRow[]> {
+    await ensureMigration();
+    const stmt = getDb().prepare(`SELECT * FROM kits WHERE installation_id=@installation_id ORDER BY sku ASC`);
+    const result = stmt.all({ installation_id });
+    return (result instanceof Promise ? await result : result) as KitRow[];
+  },
+  async update(
+    id: string,
+    updates: Partial<Pick<KitRow, 'sku' | 'title' | 'price' | 'currency' | 'description' | 'image_url' | 'components_json'>>
+  ) {
+    await ensureMigration();
+    const updateFields: string[] = ['updated_at=@updated_at'];
+    const params: any = { id, updated_at: new Date().toISOString() };
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+      updateFields.push(`${key}=@${key}`);
+      params[key] = value;
+    }
+    const stmt = getDb().prepare(`UPDATE kits SET ${updateFields.join(', ')} WHERE id=@id`);
+    const result = stmt.run(params);
+    if (result instanceof Promise) {
+      await result;
+    }
+  },
+  async delete(id: string) {
+    await ensureMigration();
+    const stmt = getDb().prepare(`DELETE FROM kits WHERE id=@id`);
+    const result = stmt.run({ id });
+    if (result instanceof Promise) {
+      await result;
+    }
+  }
+};
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import Database from 'better-sqlite3';
+
+// Tables of the first release, before any destination type was added
+const BASELINE_SCHEMA = `
+  CREATE TABLE installations (
+    id TEXT PRIMARY KEY,
+    shop_domain TEXT NOT NULL UNIQUE,
+    access_token TEXT,
+    scopes TEXT,
+    status TEXT NOT NULL DEFAULT 'active',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE connections (
+    id TEXT PRIMARY KEY,
+    installation_id TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('shopify','woocommerce')),
+    name TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('active','paused','disabled')) DEFAULT 'active',
+    dest_shop_domain TEXT,
+    dest_location_id TEXT,
+    base_url TEXT,
+    consumer_key TEXT,
+    consumer_secret TEXT,
+    access_token TEXT,
+    rules_json TEXT,
+    sync_price INTEGER NOT NULL DEFAULT 0,
+    sync_categories INTEGER NOT NULL DEFAULT 0,
+    sync_tags INTEGER NOT NULL DEFAULT 0,
+    sync_collections INTEGER NOT NULL DEFAULT 0,
+    create_products INTEGER NOT NULL DEFAULT 1,
+    product_status INTEGER NOT NULL DEFAULT 0,
+    last_synced_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (installation_id) REFERENCES installations(id)
+  );
+  CREATE TABLE connection_templates (
+    id TEXT PRIMARY KEY,
+    installation_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('shopify','woocommerce')),
+    config_json TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (installation_id) REFERENCES installations(id)
+  );
+  CREATE TABLE jobs (
+    id TEXT PRIMARY KEY,
+    connection_id TEXT NOT NULL,
+    job_type TEXT NOT NULL CHECK (job_type IN ('full_sync','delta')),
+    state TEXT NOT NULL CHECK (state IN ('queued','running','succeeded','failed','dead')) DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (connection_id) REFERENCES connections(id)
+  );
+  CREATE TABLE job_items (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL,
+    sku TEXT NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('create','update','delete','stock')),
+    state TEXT NOT NULL CHECK (state IN ('queued','running','succeeded','failed')) DEFAULT 'queued',
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (job_id) REFERENCES jobs(id)
+  );
+  INSERT INTO installations VALUES ('inst-1', 'source.myshopify.com', 'token', NULL, 'active', '2025-01-01', '2025-01-01');
+  INSERT INTO connections (id, installation_id, type, name, base_url, created_at, updated_at)
+    VALUES ('conn-1', 'inst-1', 'woocommerce', 'Retailer', 'https://shop.example', '2025-01-01', '2025-01-01');
+  INSERT INTO connection_templates VALUES ('tpl-1', 'inst-1', 'Default', 'shopify', '{}', '2025-01-01', '2025-01-01');
+  INSERT INTO jobs (id, connection_id, job_type, created_at, updated_at) VALUES ('job-1', 'conn-1', 'full_sync', '2025-01-01', '2025-01-01');
+  INSERT INTO job_items (id, job_id, sku, action, created_at, updated_at) VALUES ('item-1', 'job-1', 'MUG-1', 'update', '2025-01-01', '2025-01-01');
+`;
+
+describe('SQLite migration', () => {
+  let dir: string;
+  const databaseUrl = process.env.DATABASE_URL;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'migrate-'));
+    mkdirSync(join(dir, 'data'));
+    const baseline = new Database(join(dir, 'data', 'app.db'));
+    baseline.exec(BASELINE_SCHEMA);
+    baseline.close();
+    // The SQLite adapter opens data/app.db under the working directory
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    delete process.env.DATABASE_URL;
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (databaseUrl !== undefined) process.env.DATABASE_URL = databaseUrl;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should upgrade a populated baseline database and keep its rows', async () => {
+    const { migrate, ConnectionRepo, ConnectionTemplateRepo } = await import('../../db');
+    await migrate();
+    // Idempotent: a second run finds nothing to rebuild
+    await migrate();
+
+    const conn = await ConnectionRepo.get('conn-1');
+    expect(conn?.type).toBe('woocommerce');
+    expect(conn?.discontinue_policy).toBe('none');
+
+    const check = new Database(join(dir, 'data', 'app.db'), { readonly: true });
+    const tables = check.prepare(`SELECT name, sql FROM sqlite_master WHERE name IN ('connections', 'connection_templates')`).all() as { name: string; sql: string }[];
+    expect(tables).toHaveLength(2);
+    for (const table of tables) expect(table.sql).not.toMatch(/CHECK \(type IN/);
+    expect(check.prepare(`SELECT COUNT(*) AS n FROM jobs WHERE connection_id='conn-1'`).get()).toEqual({ n: 1 });
+    expect(check.prepare(`SELECT COUNT(*) AS n FROM job_items`).get()).toEqual({ n: 1 });
+    expect(check.prepare(`SELECT COUNT(*) AS n FROM connection_templates`).get()).toEqual({ n: 1 });
+    expect(check.prepare(`PRAGMA foreign_key_check`).all()).toEqual([]);
+    expect(check.pragma('foreign_keys', { simple: true })).toBe(1);
+    check.close();
+
+    // Types are checked by the repos now
+    await expect(ConnectionTemplateRepo.insert({ id: 'tpl-2', installation_id: 'inst-1', name: 'Bad', type: 'ftp' as any, config_json: '{}' }))
+      .rejects.toThrow('Unsupported connection type: ftp');
+  });
+});
@@ -11,6 +11,7 @@ CREATE TABLE IF NOT EXISTS resellers (
   api_key_hash TEXT,
   last4 TEXT,
   version TEXT NOT NULL,
+  installation_id TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL
 );
@@ -24,15 +25,18 @@ CREATE TABLE IF NOT EXISTS installations (
   access_token TEXT,
   scopes TEXT,
   status TEXT NOT NULL DEFAULT 'active',
+  catalog_ingestion TEXT NOT NULL DEFAULT 'rest',
+  merge_policy_json TEXT,
+  source_metafields_json TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL
 );
 
--- Destination connections (Shopify or WooCommerce)
+-- Destination connections (Shopify, WooCommerce, BigCommerce, Magento or an HTTP endpoint)
 CREATE TABLE IF NOT EXISTS connections (
   id TEXT PRIMARY KEY,
   installation_id TEXT NOT NULL,
-  type TEXT NOT NULL CHECK (type IN ('shopify','woocommerce')),
+  type TEXT NOT NULL CHECK (type IN ('shopify','woocommerce','bigcommerce','magento','http','file')),
   name TEXT NOT NULL,
   status TEXT NOT NULL CHECK (status IN ('active','paused','disabled')) DEFAULT 'active',
   dest_shop_domain TEXT,
@@ -41,6 +45,10 @@ CREATE TABLE IF NOT EXISTS connections (
   consumer_key TEXT,
   consumer_secret TEXT,
   access_token TEXT,
+  store_hash TEXT,
+  signing_secret TEXT,
+  batch_size INTEGER,
+  export_json TEXT,
   rules_json TEXT,
   sync_price INTEGER NOT NULL DEFAULT 0,
   sync_categories INTEGER NOT NULL DEFAULT 0,
@@ -48,7 +56,14 @@ CREATE TABLE IF NOT EXISTS connections (
   sync_collections INTEGER NOT NULL DEFAULT 0,
   create_products INTEGER NOT NULL DEFAULT 1,
   product_status INTEGER NOT NULL DEFAULT 0,
+  use_graphql INTEGER NOT NULL DEFAULT 0,
+  discontinue_policy TEXT NOT NULL DEFAULT 'none',
+  discontinue_grace_hours INTEGER NOT NULL DEFAULT 24,
+  out_of_stock_policy TEXT NOT NULL DEFAULT 'push_zero',
+  content_fields TEXT,
   last_synced_at TEXT,
+  last_source_count INTEGER,
+  source_location_ids TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
   FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
@@ -61,7 +76,7 @@ CREATE TABLE IF NOT EXISTS connection_templates (
   id TEXT PRIMARY KEY,
   installation_id TEXT NOT NULL,
   name TEXT NOT NULL,
-  type TEXT NOT NULL CHECK (type IN ('shopify','woocommerce')),
+  type TEXT NOT NULL CHECK (type IN ('shopify','woocommerce','bigcommerce','magento','http','file')),
   config_json TEXT NOT NULL,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
@@ -78,6 +93,7 @@ CREATE TABLE IF NOT EXISTS jobs (
   state TEXT NOT NULL CHECK (state IN ('queued','running','succeeded','failed','dead')) DEFAULT 'queued',
   attempts INTEGER NOT NULL DEFAULT 0,
   last_error TEXT,
+  run_after TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
   FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
@@ -155,6 +171,112 @@ CREATE TABLE IF NOT EXISTS shopify_webhooks (
 );
 CREATE INDEX IF NOT EXISTS idx_shopify_webhooks_installation ON shopify_webhooks(installation_id);
 
+-- Persisted source catalog (one row per source SKU)
+CREATE TABLE IF NOT EXISTS catalog_items (
+  installation_id TEXT NOT NULL,
+  source TEXT NOT NULL,
+  sku TEXT NOT NULL,
+  product_id TEXT,
+  item_json TEXT NOT NULL,
+  content_hash TEXT,
+  first_seen_at TEXT,
+  last_seen_at TEXT,
+  removed_at TEXT,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (installation_id, source, sku),
+  FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_catalog_items_product ON catalog_items(installation_id, source, product_id);
+
+-- Incremental fetch cursors per installation source
+CREATE TABLE IF NOT EXISTS source_cursors (
+  installation_id TEXT NOT NULL,
+  source TEXT NOT NULL,
+  cursor_value TEXT,
+  last_full_sync_at TEXT,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (installation_id, source),
+  FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
+);
+
+-- Column mapping used to import uploaded CSV catalogs (source 'file')
+CREATE TABLE IF NOT EXISTS file_source_profiles (
+  installation_id TEXT PRIMARY KEY,
+  mapping_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
+);
+
+-- Remote supplier feeds polled into the catalog (source 'feed:<id>')
+CREATE TABLE IF NOT EXISTS supplier_feeds (
+  id TEXT PRIMARY KEY,
+  installation_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  format TEXT NOT NULL DEFAULT 'auto',
+  auth_header_name TEXT,
+  auth_header_value TEXT,
+  mapping_json TEXT,
+  poll_interval_minutes INTEGER NOT NULL DEFAULT 60,
+  status TEXT NOT NULL CHECK (status IN ('active','paused')) DEFAULT 'active',
+  last_polled_at TEXT,
+  last_error TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_supplier_feeds_installation ON supplier_feeds(installation_id);
+
+-- SKUs a destination has acknowledged (HTTP connections: decides create vs update events)
+CREATE TABLE IF NOT EXISTS destination_skus (
+  connection_id TEXT NOT NULL,
+  sku TEXT NOT NULL,
+  delivered_at TEXT NOT NULL,
+  content_hash TEXT,
+  stock INTEGER,
+  PRIMARY KEY (connection_id, sku),
+  FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+);
+
+-- Content fields last pushed to a destination per SKU, to skip unchanged ones
+CREATE TABLE IF NOT EXISTS pushed_content (
+  connection_id TEXT NOT NULL,
+  sku TEXT NOT NULL,
+  content_json TEXT NOT NULL,
+  pushed_at TEXT NOT NULL,
+  PRIMARY KEY (connection_id, sku),
+  FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+);
+
+-- SKUs discontinued at the source whose policy was applied in a destination (once per removal)
+CREATE TABLE IF NOT EXISTS discontinued_skus (
+  connection_id TEXT NOT NULL,
+  sku TEXT NOT NULL,
+  removed_at TEXT NOT NULL,
+  policy TEXT NOT NULL,
+  applied_at TEXT NOT NULL,
+  PRIMARY KEY (connection_id, sku),
+  FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+);
+
+-- Kits / bundles computed from component SKUs into the catalog (source 'kit')
+CREATE TABLE IF NOT EXISTS kits (
+  id TEXT PRIMARY KEY,
+  installation_id TEXT NOT NULL,
+  sku TEXT NOT NULL,
+  title TEXT NOT NULL,
+  price TEXT NOT NULL,
+  currency TEXT,
+  description TEXT,
+  image_url TEXT,
+  components_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE(installation_id, sku),
+  FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
+);
+
 -- Connection invites (wholesaler invites retailer)
 CREATE TABLE IF NOT EXISTS connection_invites (
   id TEXT PRIMARY KEY,
@@ -237,3 +359,162 @@ EXCEPTION
   WHEN duplicate_column THEN NULL;
 END $$;
 
+DO $$ 
+BEGIN
+  ALTER TABLE resellers ADD COLUMN installation_id TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE installations ADD COLUMN catalog_ingestion TEXT NOT NULL DEFAULT 'rest';
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE installations ADD COLUMN merge_policy_json TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE installations ADD COLUMN source_metafields_json TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE catalog_items ADD COLUMN content_hash TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE catalog_items ADD COLUMN first_seen_at TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE catalog_items ADD COLUMN last_seen_at TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE catalog_items ADD COLUMN removed_at TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE connections ADD COLUMN last_source_count INTEGER;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE connections ADD COLUMN source_location_ids TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE connections ADD COLUMN store_hash TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE connections ADD COLUMN signing_secret TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE connections ADD COLUMN batch_size INTEGER;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE connections ADD COLUMN export_json TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE connections ADD COLUMN use_graphql INTEGER NOT NULL DEFAULT 0;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE connections ADD COLUMN discontinue_policy TEXT NOT NULL DEFAULT 'none';
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE connections ADD COLUMN discontinue_grace_hours INTEGER NOT NULL DEFAULT 24;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE connections ADD COLUMN out_of_stock_policy TEXT NOT NULL DEFAULT 'push_zero';
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE connections ADD COLUMN content_fields TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE destination_skus ADD COLUMN content_hash TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE destination_skus ADD COLUMN stock INTEGER;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+DO $$ 
+BEGIN
+  ALTER TABLE jobs ADD COLUMN run_after TEXT;
+EXCEPTION
+  WHEN duplicate_column THEN NULL;
+END $$;
+
+-- Connection types (re-created whenever a destination type is added)
+ALTER TABLE connections DROP CONSTRAINT IF EXISTS connections_type_check;
+ALTER TABLE connections ADD CONSTRAINT connections_type_check CHECK (type IN ('shopify','woocommerce','bigcommerce','magento','http','file'));
+ALTER TABLE connection_templates DROP CONSTRAINT IF EXISTS connection_templates_type_check;
+ALTER TABLE connection_templates ADD CONSTRAINT connection_templates_type_check CHECK (type IN ('shopify','woocommerce','bigcommerce','magento','http','file'));
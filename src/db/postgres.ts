@@ -70,8 +70,30 @@ export async function migratePostgres(): Promise<void> {
       `ALTER TABLE connections ADD COLUMN IF NOT EXISTS create_products INTEGER NOT NULL DEFAULT 1`,
       `ALTER TABLE connections ADD COLUMN IF NOT EXISTS product_status INTEGER NOT NULL DEFAULT 0`,
       `ALTER TABLE connections ADD COLUMN IF NOT EXISTS last_synced_at TEXT`,
+      `ALTER TABLE connections ADD COLUMN IF NOT EXISTS last_source_count INTEGER`,
+      `ALTER TABLE connections ADD COLUMN IF NOT EXISTS source_location_ids TEXT`,
+      `ALTER TABLE connections ADD COLUMN IF NOT EXISTS store_hash TEXT`,
+      `ALTER TABLE connections ADD COLUMN IF NOT EXISTS signing_secret TEXT`,
+      `ALTER TABLE connections ADD COLUMN IF NOT EXISTS batch_size INTEGER`,
+      `ALTER TABLE connections ADD COLUMN IF NOT EXISTS export_json TEXT`,
+      `ALTER TABLE connections ADD COLUMN IF NOT EXISTS use_graphql INTEGER NOT NULL DEFAULT 0`,
+      `ALTER TABLE connections ADD COLUMN IF NOT EXISTS discontinue_policy TEXT NOT NULL DEFAULT 'none'`,
+      `ALTER TABLE connections ADD COLUMN IF NOT EXISTS discontinue_grace_hours INTEGER NOT NULL DEFAULT 24`,
+      `ALTER TABLE connections ADD COLUMN IF NOT EXISTS out_of_stock_policy TEXT NOT NULL DEFAULT 'push_zero'`,
+      `ALTER TABLE connections ADD COLUMN IF NOT EXISTS content_fields TEXT`,
       `ALTER TABLE shopify_oauth_states ADD COLUMN IF NOT EXISTS invite_id TEXT`,
       `ALTER TABLE shopify_oauth_states ADD COLUMN IF NOT EXISTS location_id TEXT`,
+      `ALTER TABLE resellers ADD COLUMN IF NOT EXISTS installation_id TEXT`,
+      `ALTER TABLE installations ADD COLUMN IF NOT EXISTS catalog_ingestion TEXT NOT NULL DEFAULT 'rest'`,
+      `ALTER TABLE installations ADD COLUMN IF NOT EXISTS merge_policy_json TEXT`,
+      `ALTER TABLE installations ADD COLUMN IF NOT EXISTS source_metafields_json TEXT`,
+      `ALTER TABLE catalog_items ADD COLUMN IF NOT EXISTS content_hash TEXT`,
+      `ALTER TABLE catalog_items ADD COLUMN IF NOT EXISTS first_seen_at TEXT`,
+      `ALTER TABLE catalog_items ADD COLUMN IF NOT EXISTS last_seen_at TEXT`,
+      `ALTER TABLE catalog_items ADD COLUMN IF NOT EXISTS removed_at TEXT`,
+      `ALTER TABLE destination_skus ADD COLUMN IF NOT EXISTS content_hash TEXT`,
+      `ALTER TABLE destination_skus ADD COLUMN IF NOT EXISTS stock INTEGER`,
+      `ALTER TABLE jobs ADD COLUMN IF NOT EXISTS run_after TEXT`,
     ];
 
     for (const stmt of addColumnStatements) {
@@ -97,7 +119,7 @@ export async function migratePostgres(): Promise<void> {
       `CREATE TABLE IF NOT EXISTS connections (
         id TEXT PRIMARY KEY,
         installation_id TEXT NOT NULL,
-        type TEXT NOT NULL CHECK (type IN ('shopify','woocommerce')),
+        type TEXT NOT NULL CHECK (type IN ('shopify','woocommerce','bigcommerce','magento','http','file')),
         name TEXT NOT NULL,
         status TEXT NOT NULL CHECK (status IN ('active','paused','disabled')) DEFAULT 'active',
         dest_shop_domain TEXT,
@@ -106,6 +128,10 @@ export async function migratePostgres(): Promise<void> {
         consumer_key TEXT,
         consumer_secret TEXT,
         access_token TEXT,
+        store_hash TEXT,
+        signing_secret TEXT,
+        batch_size INTEGER,
+        export_json TEXT,
         rules_json TEXT,
         sync_price INTEGER NOT NULL DEFAULT 0,
         sync_categories INTEGER NOT NULL DEFAULT 0,
@@ -113,7 +139,14 @@ export async function migratePostgres(): Promise<void> {
         sync_collections INTEGER NOT NULL DEFAULT 0,
         create_products INTEGER NOT NULL DEFAULT 1,
         product_status INTEGER NOT NULL DEFAULT 0,
+        use_graphql INTEGER NOT NULL DEFAULT 0,
+        discontinue_policy TEXT NOT NULL DEFAULT 'none',
+        discontinue_grace_hours INTEGER NOT NULL DEFAULT 24,
+        out_of_stock_policy TEXT NOT NULL DEFAULT 'push_zero',
+        content_fields TEXT,
         last_synced_at TEXT,
+        last_source_count INTEGER,
+        source_location_ids TEXT,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL,
         FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
@@ -122,7 +155,7 @@ export async function migratePostgres(): Promise<void> {
         id TEXT PRIMARY KEY,
         installation_id TEXT NOT NULL,
         name TEXT NOT NULL,
-        type TEXT NOT NULL CHECK (type IN ('shopify','woocommerce')),
+        type TEXT NOT NULL CHECK (type IN ('shopify','woocommerce','bigcommerce','magento','http','file')),
         config_json TEXT NOT NULL,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL,
@@ -135,6 +168,7 @@ export async function migratePostgres(): Promise<void> {
         state TEXT NOT NULL CHECK (state IN ('queued','running','succeeded','failed','dead')) DEFAULT 'queued',
         attempts INTEGER NOT NULL DEFAULT 0,
         last_error TEXT,
+        run_after TEXT,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL,
         FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
@@ -198,7 +232,97 @@ export async function migratePostgres(): Promise<void> {
         updated_at TEXT NOT NULL,
         FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
       )`,
+      `CREATE TABLE IF NOT EXISTS catalog_items (
+        installation_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        sku TEXT NOT NULL,
+        product_id TEXT,
+        item_json TEXT NOT NULL,
+        content_hash TEXT,
+        first_seen_at TEXT,
+        last_seen_at TEXT,
+        removed_at TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (installation_id, source, sku),
+        FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS source_cursors (
+        installation_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        cursor_value TEXT,
+        last_full_sync_at TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (installation_id, source),
+        FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS file_source_profiles (
+        installation_id TEXT PRIMARY KEY,
+        mapping_json TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS supplier_feeds (
+        id TEXT PRIMARY KEY,
+        installation_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        url TEXT NOT NULL,
+        format TEXT NOT NULL DEFAULT 'auto',
+        auth_header_name TEXT,
+        auth_header_value TEXT,
+        mapping_json TEXT,
+        poll_interval_minutes INTEGER NOT NULL DEFAULT 60,
+        status TEXT NOT NULL CHECK (status IN ('active','paused')) DEFAULT 'active',
+        last_polled_at TEXT,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS destination_skus (
+        connection_id TEXT NOT NULL,
+        sku TEXT NOT NULL,
+        delivered_at TEXT NOT NULL,
+        content_hash TEXT,
+        stock INTEGER,
+        PRIMARY KEY (connection_id, sku),
+        FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS pushed_content (
+        connection_id TEXT NOT NULL,
+        sku TEXT NOT NULL,
+        content_json TEXT NOT NULL,
+        pushed_at TEXT NOT NULL,
+        PRIMARY KEY (connection_id, sku),
+        FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS discontinued_skus (
+        connection_id TEXT NOT NULL,
+        sku TEXT NOT NULL,
+        removed_at TEXT NOT NULL,
+        policy TEXT NOT NULL,
+        applied_at TEXT NOT NULL,
+        PRIMARY KEY (connection_id, sku),
+        FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS kits (
+        id TEXT PRIMARY KEY,
+        installation_id TEXT NOT NULL,
+        sku TEXT NOT NULL,
+        title TEXT NOT NULL,
+        price TEXT NOT NULL,
+        currency TEXT,
+        description TEXT,
+        image_url TEXT,
+        components_json TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE(installation_id, sku),
+        FOREIGN KEY (installation_id) REFERENCES installations(id) ON DELETE CASCADE
+      )`,
       `CREATE INDEX IF NOT EXISTS idx_connection_invites_token ON connection_invites(token)`,
+      `CREATE INDEX IF NOT EXISTS idx_supplier_feeds_installation ON supplier_feeds(installation_id)`,
+      `CREATE INDEX IF NOT EXISTS idx_catalog_items_product ON catalog_items(installation_id, source, product_id)`,
       `CREATE INDEX IF NOT EXISTS idx_connection_invites_installation ON connection_invites(installation_id)`,
       `CREATE INDEX IF NOT EXISTS idx_connections_installation ON connections(installation_id)`,
       `CREATE INDEX IF NOT EXISTS idx_templates_installation ON connection_templates(installation_id)`,
@@ -208,6 +332,11 @@ export async function migratePostgres(): Promise<void> {
       `CREATE INDEX IF NOT EXISTS idx_job_items_job ON job_items(job_id)`,
       `CREATE INDEX IF NOT EXISTS idx_audit_log_installation ON audit_log(installation_id)`,
       `CREATE INDEX IF NOT EXISTS idx_shopify_webhooks_installation ON shopify_webhooks(installation_id)`,
+      // Connection types: re-create the CHECK so tables created before a new destination type accept it
+      `ALTER TABLE connections DROP CONSTRAINT IF EXISTS connections_type_check`,
+      `ALTER TABLE connections ADD CONSTRAINT connections_type_check CHECK (type IN ('shopify','woocommerce','bigcommerce','magento','http','file'))`,
+      `ALTER TABLE connection_templates DROP CONSTRAINT IF EXISTS connection_templates_type_check`,
+      `ALTER TABLE connection_templates ADD CONSTRAINT connection_templates_type_check CHECK (type IN ('shopify','woocommerce','bigcommerce','magento','http','file'))`,
     ];
 
     for (const statement of statements) {
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { ConnectionRow } from '../../db';
+import type { CatalogItem } from '../../models/types';
+import { catalogItem, readBody, startTestServer, type TestServer } from '../../__tests__/helpers';
+import { bigCommerceDestination } from '../bigcommerce';
+
+const item = (sku: string, overrides: Partial<CatalogItem> = {}) => catalogItem(sku, { category: 'Kitchen', ...overrides });
+
+const mugProduct = {
+  id: 7,
+  name: 'Mug',
+  price: 10,
+  inventory_tracking: 'product',
+  inventory_level: 1,
+  categories: [],
+  variants: [{ id: 70, product_id: 7, sku: 'MUG-1', price: null, inventory_level: 1, option_values: [] }]
+};
+
+describe('BigCommerce destination', () => {
+  let server: TestServer;
+  let writes: { method: string; path: string; body: any }[];
+  let token: string | undefined;
+  const previousApiUrl = process.env.BIGCOMMERCE_API_URL;
+
+  beforeEach(async () => {
+    writes = [];
+    server = await startTestServer(async (req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      token = req.headers['x-auth-token'] as string | undefined;
+      const raw = await readBody(req);
+      const send = (data: any) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ data }));
+      };
+      const path = url.pathname.replace('/stores/abc123/v3', '');
+      if (req.method === 'GET') {
+        if (path === '/catalog/variants') return send(url.searchParams.get('sku') === 'MUG-1' ? [mugProduct.variants[0]] : []);
+        if (path === '/catalog/products/7') return send(mugProduct);
+        if (path === '/catalog/categories') return send([]);
+      } else {
+        const body = JSON.parse(raw || '{}');
+        writes.push({ method: req.method!, path, body });
+        if (path === '/catalog/categories') return send({ id: 31, name: body.name });
+        if (path === '/catalog/products') {
+          return send({
+            id: 8,
+            name: body.name,
+            inventory_tracking: body.inventory_tracking,
+            variants: body.variants.map((v: any, i: number) => ({ id: 80 + i, product_id: 8, ...v }))
+          });
+        }
+        return send({});
+      }
+      res.writeHead(404);
+      res.end();
+    });
+    process.env.BIGCOMMERCE_API_URL = server.url;
+  });
+
+  afterEach(async () => {
+    if (previousApiUrl === undefined) delete process.env.BIGCOMMERCE_API_URL;
+    else process.env.BIGCOMMERCE_API_URL = previousApiUrl;
+    await server.close();
+  });
+
+  const connection = (overrides: Partial<ConnectionRow> = {}): ConnectionRow => ({
+    id: 'conn-1',
+    installation_id: 'inst-1',
+    type: 'bigcommerce',
+    store_hash: 'abc123',
+    access_token: 'bc-token',
+    sync_price: 1,
+    sync_categories: 1,
+    sync_tags: 0,
+    create_products: 1,
+    product_status: 0,
+    ...overrides
+  } as ConnectionRow);
+
+  it('should find a product by SKU and update price, category and product-level stock', async () => {
+    const adapter = await bigCommerceDestination.connect(connection(), () => {});
+    const match = await adapter.find(item('MUG-1'));
+
+    expect(token).toBe('bc-token');
+    expect(match?.variant).toMatchObject({ id: '70', price: '10', stock: 1 });
+    expect(await adapter.find(item('NOPE'))).toBeNull();
+
+    expect(await adapter.update(match!, item('MUG-1'), { syncPrice: true }))
+      .toEqual(['Price updated 10 -> 12.00', 'Category assigned: Kitchen']);
+    expect(await adapter.update(match!, item('MUG-1', { price: '10.00' }), { syncPrice: true })).toEqual([]);
+    expect(await adapter.setStock(match!, item('MUG-1'))).toBe('Stock set -> 4');
+
+    expect(writes).toEqual([
+      { method: 'PUT', path: '/catalog/products/7', body: { price: 12 } },
+      { method: 'POST', path: '/catalog/categories', body: { name: 'Kitchen', parent_id: 0 } },
+      { method: 'PUT', path: '/catalog/products/7', body: { categories: [31] } },
+      { method: 'PUT', path: '/catalog/products/7', body: { inventory_level: 4 } }
+    ]);
+  });
+
+  it('should create a hidden product with one variant per item unless product_status is set', async () => {
+    const adapter = await bigCommerceDestination.connect(connection({ sync_categories: 0 }), () => {});
+    const created = await adapter.create([
+      item('TEE-S', { title: 'Tee - S', variantTitle: 'S', productHandle: 'tee', stock: 2 }),
+      item('TEE-L', { title: 'Tee - L', variantTitle: 'L', productHandle: 'tee', stock: 0 })
+    ]);
+
+    expect(writes[0].body).toMatchObject({
+      name: 'Tee',
+      is_visible: false,
+      inventory_tracking: 'variant',
+      variants: [
+        { sku: 'TEE-S', price: 12, inventory_level: 2, option_values: [{ option_display_name: 'Option', label: 'S' }] },
+        { sku: 'TEE-L', price: 12, inventory_level: 0, option_values: [{ option_display_name: 'Option', label: 'L' }] }
+      ]
+    });
+    expect(writes[0].body.categories).toBeUndefined();
+    expect(created?.variants.get('TEE-L')).toMatchObject({ id: '81', stock: 0 });
+  });
+
+  it('should reject a connection without a store hash', async () => {
+    await expect(bigCommerceDestination.connect(connection({ store_hash: null }), () => {}))
+      .rejects.toThrow('Invalid BigCommerce connection');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { IncomingHttpHeaders } from 'node:http';
+import type { ConnectionRow, DeliveredSku } from '../../db';
+import { catalogItem as item, readBody, startTestServer, type TestServer } from '../../__tests__/helpers';
+import { httpDestination, signHttpPayload } from '../http';
+
+const { deliveredSkus } = vi.hoisted(() => ({ deliveredSkus: new Map<string, DeliveredSku>() }));
+vi.mock('../../db', () => ({
+  DestinationSkuRepo: {
+    list: async () => Array.from(deliveredSkus.values()),
+    markDelivered: async (_connectionId: string, skus: DeliveredSku[]) => {
+      for (const sku of skus) deliveredSkus.set(sku.sku, sku);
+    },
+    forget: async (_connectionId: string, skus: string[]) => {
+      for (const sku of skus) deliveredSkus.delete(sku);
+    }
+  }
+}));
+
+describe('HTTP destination', () => {
+  let server: TestServer;
+  let endpoint: string;
+  let requests: { headers: IncomingHttpHeaders; raw: string; body: any }[];
+  let status: number;
+
+  beforeEach(async () => {
+    deliveredSkus.clear();
+    requests = [];
+    status = 200;
+    server = await startTestServer(async (req, res) => {
+      const raw = await readBody(req);
+      requests.push({ headers: req.headers, raw, body: JSON.parse(raw) });
+      res.writeHead(status);
+      res.end();
+    });
+    endpoint = `${server.url}/hooks/catalog`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const connection = (overrides: Partial<ConnectionRow> = {}): ConnectionRow => ({
+    id: 'conn-1',
+    installation_id: 'inst-1',
+    type: 'http',
+    base_url: endpoint,
+    signing_secret: 'partner-secret-0123',
+    batch_size: 2,
+    sync_price: 0,
+    create_products: 1,
+    ...overrides
+  } as ConnectionRow);
+
+  it('should send signed batches and remember acknowledged SKUs as existing', async () => {
+    const adapter = await httpDestination.connect(connection(), () => {});
+    expect(await adapter.find(item('MUG-1'))).toBeNull();
+
+    const created = await adapter.create([item('MUG-1'), item('MUG-2'), item('MUG-3')]);
+    expect(created).toMatchObject({ deferred: true });
+    expect(requests).toHaveLength(1);
+    expect(await adapter.flush!()).toEqual(['MUG-1', 'MUG-2', 'MUG-3'].map(sku => ({ sku, ok: true, message: 'Created in HTTP endpoint: Mug' })));
+
+    expect(requests.map(r => r.body.events.map((e: any) => `${e.type}:${e.sku}`)))
+      .toEqual([['create:MUG-1', 'create:MUG-2'], ['create:MUG-3']]);
+    expect(requests[0].headers['x-feed-hmac-sha256']).toBe(signHttpPayload(requests[0].raw, 'partner-secret-0123'));
+    expect(requests[0].body.connection_id).toBe('conn-1');
+    expect(requests[0].body.events[0].item).toMatchObject({ title: 'Mug', stock: 4, price: '12.00' });
+
+    const next = await httpDestination.connect(connection(), () => {});
+    const match = await next.find(item('MUG-1'));
+    expect(match?.variant).toMatchObject({ sku: 'MUG-1', stock: 4 });
+    expect(await next.update(match!, item('MUG-1', { title: 'Large mug' }), { syncPrice: false })).toEqual([]);
+    expect(await next.setStock(match!, item('MUG-1', { stock: 0 }))).toBeNull();
+    await next.archive(match!);
+    expect(await next.flush!()).toEqual([
+      { sku: 'MUG-1', ok: true, message: 'Update delivered' },
+      { sku: 'MUG-1', ok: true, message: 'Stock delivered -> 0' }
+    ]);
+
+    const events = requests.slice(2).flatMap(r => r.body.events);
+    expect(events).toEqual([
+      { type: 'update', sku: 'MUG-1', item: { title: 'Large mug', sku: 'MUG-1', currency: 'USD', source: 'shopify' } },
+      { type: 'stock', sku: 'MUG-1', stock: 0 },
+      { type: 'discontinue', sku: 'MUG-1' }
+    ]);
+    // Discontinued once the batch was acknowledged, so the SKU is no longer remembered as existing
+    expect(deliveredSkus.has('MUG-1')).toBe(false);
+    expect(deliveredSkus.get('MUG-2')).toMatchObject({ stock: 4 });
+  });
+
+  it('should not send events for content and stock the endpoint already acknowledged', async () => {
+    const adapter = await httpDestination.connect(connection(), () => {});
+    await adapter.create([item('MUG-1')]);
+    await adapter.flush!();
+
+    const next = await httpDestination.connect(connection(), () => {});
+    const match = await next.find(item('MUG-1'));
+    expect(await next.update(match!, item('MUG-1'), { syncPrice: false })).toEqual([]);
+    expect(await next.setStock(match!, item('MUG-1'))).toBeNull();
+    expect(await next.flush!()).toEqual([]);
+    expect(requests).toHaveLength(1);
+
+    // Price is part of the content once sync_price is on
+    await next.update(match!, item('MUG-1', { price: '14.00' }), { syncPrice: false });
+    await next.update(match!, item('MUG-1', { price: '14.00' }), { syncPrice: true });
+    await next.flush!();
+    expect(requests.slice(1).flatMap(r => r.body.events.map((e: any) => e.item.price))).toEqual(['14.00']);
+  });
+
+  it('should send a create event for a SKU relisted after its discontinue was acknowledged', async () => {
+    const adapter = await httpDestination.connect(connection(), () => {});
+    await adapter.create([item('MUG-1')]);
+    await adapter.flush!();
+
+    const next = await httpDestination.connect(connection(), () => {});
+    await next.archive((await next.find(item('MUG-1')))!);
+    await next.flush!();
+    expect(deliveredSkus.has('MUG-1')).toBe(false);
+    expect(await next.find(item('MUG-1'))).toBeNull();
+
+    const relisted = await httpDestination.connect(connection(), () => {});
+    expect(await relisted.find(item('MUG-1'))).toBeNull();
+    await relisted.create([item('MUG-1')]);
+    await relisted.flush!();
+    expect(requests.map(r => r.body.events.map((e: any) => `${e.type}:${e.sku}`)))
+      .toEqual([['create:MUG-1'], ['discontinue:MUG-1'], ['create:MUG-1']]);
+  });
+
+  it('should fail the flush when the endpoint does not acknowledge a batch', async () => {
+    status = 422;
+    const adapter = await httpDestination.connect(connection(), () => {});
+    expect(await adapter.create([item('MUG-1')])).toMatchObject({ deferred: true });
+
+    await expect(adapter.flush!()).rejects.toMatchObject({
+      status: 422,
+      message: expect.stringContaining('1 of 1 batch(es) not acknowledged')
+    });
+    expect(deliveredSkus.size).toBe(0);
+  });
+
+  it('should reject a connection without a signing secret', async () => {
+    await expect(httpDestination.connect(connection({ signing_secret: null }), () => {}))
+      .rejects.toThrow('Invalid HTTP connection');
+  });
+});
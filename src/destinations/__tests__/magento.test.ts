@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { ConnectionRow } from '../../db';
+import { catalogItem as item, readBody, startTestServer, type TestServer } from '../../__tests__/helpers';
+import { magentoDestination } from '../magento';
+
+describe('Magento destination', () => {
+  let server: TestServer;
+  let baseUrl: string;
+  let writes: { method: string; path: string; body: any }[];
+  let authorization: string | undefined;
+  let colorOptions: { label: string; value: string }[];
+  let rejectedSku: string | null;
+
+  beforeEach(async () => {
+    writes = [];
+    rejectedSku = null;
+    colorOptions = [{ label: ' ', value: '' }, { label: 'Red', value: '11' }];
+    let nextId = 100;
+    server = await startTestServer(async (req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      authorization = req.headers.authorization;
+      const raw = await readBody(req);
+      const send = (data: any, status = 200) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+      const path = decodeURIComponent(url.pathname.replace('/rest/all/V1', ''));
+      if (req.method === 'GET') {
+        if (path === '/products/MUG-1') return send({ id: 5, sku: 'MUG-1', name: 'Mug', price: 10, type_id: 'simple' });
+        if (path === '/products/attributes/color') {
+          return send({ attribute_id: 93, attribute_code: 'color', default_frontend_label: 'Color', options: colorOptions });
+        }
+        return send({ message: 'The product that was requested doesn\'t exist.' }, 404);
+      }
+      const body = JSON.parse(raw || '{}');
+      writes.push({ method: req.method!, path, body });
+      if (path === '/products/attributes/color/options') {
+        colorOptions.push({ label: body.option.label, value: '12' });
+        return send('12');
+      }
+      if (path === '/products' && body.product.sku === rejectedSku) {
+        return send({ message: 'URL key for specified store already exists.' }, 400);
+      }
+      if (path === '/products') return send({ id: nextId++, ...body.product });
+      return send(true);
+    });
+    baseUrl = server.url;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const connection = (overrides: Partial<ConnectionRow> = {}): ConnectionRow => ({
+    id: 'conn-1',
+    installation_id: 'inst-1',
+    type: 'magento',
+    base_url: baseUrl,
+    access_token: 'mg-token',
+    dest_location_id: 'warehouse',
+    sync_price: 1,
+    sync_categories: 0,
+    sync_tags: 0,
+    create_products: 1,
+    product_status: 1,
+    ...overrides
+  } as ConnectionRow);
+
+  it('should find a product by SKU and update price and MSI source stock', async () => {
+    const adapter = await magentoDestination.connect(connection(), () => {});
+    const match = await adapter.find(item('MUG-1'));
+
+    expect(authorization).toBe('Bearer mg-token');
+    expect(match?.variant).toMatchObject({ id: '5', sku: 'MUG-1', price: '10' });
+    expect(await adapter.find(item('NOPE'))).toBeNull();
+
+    expect(await adapter.update(match!, item('MUG-1'), { syncPrice: true })).toEqual(['Price updated 10 -> 12.00']);
+    expect(await adapter.update(match!, item('MUG-1', { price: '10.00' }), { syncPrice: true })).toEqual([]);
+    expect(await adapter.setStock(match!, item('MUG-1', { stock: 0 }))).toBe('Stock set -> 0');
+
+    expect(writes).toEqual([
+      { method: 'PUT', path: '/products/MUG-1', body: { product: { sku: 'MUG-1', price: 12 } } },
+      {
+        method: 'POST',
+        path: '/inventory/source-items',
+        body: { sourceItems: [{ sku: 'MUG-1', source_code: 'warehouse', quantity: 0, status: 0 }] }
+      }
+    ]);
+  });
+
+  it('should create a configurable product linking one hidden simple product per variant', async () => {
+    const adapter = await magentoDestination.connect(connection({ product_status: 0 }), () => {});
+    const created = await adapter.create([
+      item('TEE-R', { title: 'Tee - Red', variantTitle: 'Red', productHandle: 'tee' }),
+      item('TEE-B', { title: 'Tee - Blue', variantTitle: 'Blue', productHandle: 'tee' })
+    ]);
+
+    const products = writes.filter(w => w.path === '/products').map(w => w.body.product);
+    expect(writes.find(w => w.path === '/products/attributes/color/options')?.body).toEqual({ option: { label: 'Blue' } });
+    expect(products[0]).toMatchObject({
+      sku: 'tee',
+      name: 'Tee',
+      type_id: 'configurable',
+      visibility: 4,
+      extension_attributes: {
+        configurable_product_options: [{ attribute_id: '93', label: 'Color', position: 0, values: [{ value_index: 11 }, { value_index: 12 }] }]
+      }
+    });
+    expect(products[1]).toMatchObject({ sku: 'TEE-R', type_id: 'simple', visibility: 1, status: 2, price: 12 });
+    expect(products[1].custom_attributes).toContainEqual({ attribute_code: 'color', value: '11' });
+    expect(writes.filter(w => w.path === '/configurable-products/tee/child').map(w => w.body))
+      .toEqual([{ childSku: 'TEE-R' }, { childSku: 'TEE-B' }]);
+    expect(created?.product).toMatchObject({ id: '100', title: 'Tee' });
+    expect(created?.variants.get('TEE-B')).toMatchObject({ id: '102', sku: 'TEE-B', stock: null });
+  });
+
+  it('should remove the parent and the variants created so far when a variant fails', async () => {
+    rejectedSku = 'TEE-B';
+    const adapter = await magentoDestination.connect(connection(), () => {});
+
+    await expect(adapter.create([
+      item('TEE-R', { title: 'Tee - Red', variantTitle: 'Red', productHandle: 'tee' }),
+      item('TEE-B', { title: 'Tee - Blue', variantTitle: 'Blue', productHandle: 'tee' })
+    ])).rejects.toMatchObject({ status: 400 });
+
+    expect(writes.filter(w => w.method === 'DELETE').map(w => w.path)).toEqual(['/products/TEE-R', '/products/tee']);
+  });
+
+  it('should reject a connection without a store URL', async () => {
+    await expect(magentoDestination.connect(connection({ base_url: null }), () => {}))
+      .rejects.toThrow('Invalid Magento connection');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ConnectionRow } from '../../db';
+import { catalogItem as item } from '../../__tests__/helpers';
+import { shopifyDestination } from '../shopify';
+
+const throttleStatus = { maximumAvailable: 1000, currentlyAvailable: 900, restoreRate: 1000 };
+
+describe('Shopify GraphQL destination', () => {
+  let requests: { query: string; variables: any }[];
+  let respond: (query: string, variables: any) => any;
+
+  beforeEach(() => {
+    requests = [];
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: { body: string }) => {
+      const { query, variables } = JSON.parse(init.body);
+      requests.push({ query, variables });
+      const body = respond(query, variables);
+      return {
+        ok: true,
+        status: 200,
+        json: async () => ({ extensions: { cost: { requestedQueryCost: 10, throttleStatus } }, ...body }),
+        text: async () => '',
+        headers: { get: () => null }
+      };
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const connection = (domain: string): ConnectionRow => ({
+    id: 'conn-1',
+    installation_id: 'inst-1',
+    type: 'shopify',
+    dest_shop_domain: domain,
+    dest_location_id: '77',
+    access_token: 'shpat_test',
+    sync_price: 1,
+    sync_categories: 0,
+    sync_tags: 0,
+    create_products: 1,
+    product_status: 1,
+    use_graphql: 1
+  } as ConnectionRow);
+
+  const variantNode = (sku: string, price = '10.00') => ({
+    id: `gid://shopify/ProductVariant/${sku}`,
+    sku,
+    price,
+    inventoryItem: { id: `gid://shopify/InventoryItem/${sku}` },
+    product: { id: 'gid://shopify/Product/1', title: 'Mug', status: 'ACTIVE', options: [{ name: 'Title' }] }
+  });
+
+  it('should look up SKUs in batches and queue price and stock writes until flush', async () => {
+    respond = (query) => {
+      if (query.includes('productVariants(')) {
+        // Search also returns a fuzzy match that must be ignored
+        return { data: { productVariants: { nodes: [variantNode('SKU-1'), variantNode('SKU-1-OLD'), variantNode('SKU-27')] } } };
+      }
+      return { data: { productVariantsBulkUpdate: { userErrors: [] }, inventorySetQuantities: { userErrors: [] } } };
+    };
+    const adapter = await shopifyDestination.connect(connection('batch.myshopify.com'), () => {});
+    const items = Array.from({ length: 30 }, (_, i) => item(`SKU-${i + 1}`));
+
+    await adapter.prefetch!(items);
+    expect(requests).toHaveLength(2);
+    expect(requests[0].variables.query).toContain('sku:"SKU-1" OR sku:"SKU-2"');
+
+    const match = await adapter.find(items[0]);
+    expect(match?.variant).toMatchObject({ id: 'gid://shopify/ProductVariant/SKU-1', price: '10.00' });
+    expect(await adapter.find(items[1])).toBeNull();
+    expect(requests).toHaveLength(2);
+
+    // Nothing is reported as applied until flush() sends it
+    expect(await adapter.update(match!, items[0], { syncPrice: true })).toEqual([]);
+    expect(await adapter.setStock(match!, item('SKU-1', { stock: 0 }))).toBeNull();
+    expect(requests).toHaveLength(2);
+
+    expect(await adapter.flush!()).toEqual([
+      { sku: 'SKU-1', ok: true, message: 'Price updated 10.00 -> 12.00' },
+      { sku: 'SKU-1', ok: true, message: 'Stock set -> 0' }
+    ]);
+    expect(requests.slice(2).map(r => r.variables)).toEqual([
+      { productId: 'gid://shopify/Product/1', variants: [{ id: 'gid://shopify/ProductVariant/SKU-1', price: '12.00' }] },
+      {
+        input: {
+          name: 'available',
+          reason: 'correction',
+          ignoreCompareQuantity: true,
+          quantities: [{ inventoryItemId: 'gid://shopify/InventoryItem/SKU-1', locationId: 'gid://shopify/Location/77', quantity: 0 }]
+        }
+      }
+    ]);
+  });
+
+  it('should create a product with its variants and stock in one productSet call', async () => {
+    respond = (_query, variables) => ({
+      data: {
+        productSet: {
+          product: {
+            id: 'gid://shopify/Product/9',
+            title: variables.input.title,
+            variants: { nodes: [variantNode('TEE-R', '12.00'), variantNode('TEE-B', '12.00')] }
+          },
+          userErrors: []
+        }
+      }
+    });
+    const adapter = await shopifyDestination.connect(connection('create.myshopify.com'), () => {});
+    const created = await adapter.create([
+      item('TEE-R', { title: 'Tee - Red', variantTitle: 'Red', productHandle: 'tee', stock: 3 }),
+      item('TEE-B', { title: 'Tee - Blue', variantTitle: 'Blue', productHandle: 'tee', weight: 200, weightUnit: 'g' })
+    ]);
+
+    expect(requests).toHaveLength(1);
+    const input = requests[0].variables.input;
+    expect(input).toMatchObject({
+      title: 'Tee',
+      status: 'ACTIVE',
+      productOptions: [{ name: 'Option', values: [{ name: 'Red' }, { name: 'Blue' }] }]
+    });
+    expect(input.variants[1]).toMatchObject({
+      optionValues: [{ optionName: 'Option', name: 'Blue' }],
+      inventoryItem: { sku: 'TEE-B', tracked: true, measurement: { weight: { value: 200, unit: 'GRAMS' } } },
+      inventoryQuantities: [{ locationId: 'gid://shopify/Location/77', name: 'available', quantity: 4 }]
+    });
+    // Stock was set by productSet, so the push skips setStock
+    expect(created?.variants.get('TEE-R')).toMatchObject({ id: 'gid://shopify/ProductVariant/TEE-R', stock: 3 });
+  });
+
+  it('should retry a throttled request once the cost bucket restores', async () => {
+    let calls = 0;
+    respond = () => (++calls === 1
+      ? { errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }] }
+      : { data: { productVariants: { nodes: [variantNode('SKU-1')] } } });
+    const adapter = await shopifyDestination.connect(connection('throttle.myshopify.com'), () => {});
+
+    expect(await adapter.find(item('SKU-1'))).not.toBeNull();
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should change product status with productUpdate and a ProductUpdateInput', async () => {
+    respond = () => ({ data: { productUpdate: { userErrors: [] } } });
+    const adapter = await shopifyDestination.connect(connection('status.myshopify.com'), () => {});
+    const match = { variant: { id: 'gid://shopify/ProductVariant/SKU-1', sku: 'SKU-1', raw: variantNode('SKU-1') }, product: null };
+
+    await adapter.archive(match);
+    await adapter.unpublish!(match);
+
+    expect(requests.map(r => r.query)).toEqual([
+      expect.stringContaining('productUpdate(product: $product)'),
+      expect.stringContaining('productUpdate(product: $product)')
+    ]);
+    expect(requests[0].query).toContain('$product: ProductUpdateInput!');
+    expect(requests.map(r => r.variables)).toEqual([
+      { product: { id: 'gid://shopify/Product/1', status: 'ARCHIVED' } },
+      { product: { id: 'gid://shopify/Product/1', status: 'DRAFT' } }
+    ]);
+  });
+});
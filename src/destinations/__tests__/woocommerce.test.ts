@@ -0,0 +1,425 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { ConnectionRow } from '../../db';
+import type { CatalogItem } from '../../models/types';
+import { readBody, startTestServer, type TestServer } from '../../__tests__/helpers';
+import { getDestinationDriver } from '..';
+import { wooDestination } from '../woocommerce';
+
+const item: CatalogItem = {
+  title: 'Mug',
+  sku: 'MUG-1',
+  price: '12.00',
+  currency: 'EUR',
+  stock: 7,
+  source: 'shopify',
+  metafields: [{ namespace: 'custom', key: 'material', type: 'single_line_text_field', value: 'Stoneware', owner: 'product' }]
+};
+
+describe('WooCommerce destination', () => {
+  let server: TestServer;
+  let baseUrl: string;
+  let writes: { method: string; path: string; body: any }[];
+  let lookups: string[];
+  let failingBatch: number | undefined;
+  const catalog = [
+    { id: 10, name: 'Mug', sku: 'MUG-1', regular_price: '10.00', manage_stock: true, stock_quantity: 7, parent_id: 0 },
+    { id: 31, name: 'Tee - Red', sku: 'TEE-R', regular_price: '15.00', manage_stock: true, stock_quantity: 2, parent_id: 30 }
+  ];
+  const tee = {
+    id: 30,
+    name: 'Tee',
+    type: 'variable',
+    attributes: [{ id: 0, name: 'Option', variation: true, visible: true, options: ['Red'] }],
+    meta_data: [{ id: 1, key: '_source_images', value: '["https://img/tee.jpg"]' }]
+  };
+  let terms: { categories: any[]; tags: any[] };
+  let termRequests: number;
+
+  beforeEach(async () => {
+    writes = [];
+    failingBatch = undefined;
+    lookups = [];
+    terms = { categories: [{ id: 5, name: 'Men', parent: 0 }], tags: [{ id: 8, name: 'Gift &amp; Home' }] };
+    termRequests = 0;
+    server = await startTestServer(async (req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const raw = await readBody(req);
+      const send = (body: any) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+      const term = url.pathname.match(/^\/wp-json\/wc\/v3\/products\/(categories|tags)$/);
+      if (term) {
+        termRequests++;
+        const list = terms[term[1] as 'categories' | 'tags'];
+        if (req.method === 'GET') return send(list.filter(t => t.name.replace('&amp;', '&').includes(url.searchParams.get('search') || '')));
+        const created = { id: (term[1] === 'tags' ? 200 : 100) + list.length, parent: 0, ...JSON.parse(raw) };
+        list.push(created);
+        return send(created);
+      }
+      if (req.method === 'GET' && url.pathname === '/wp-json/wc/v3/products') {
+        if (url.searchParams.get('include')) return send(url.searchParams.get('include') === '30' ? [tee] : []);
+        if (url.searchParams.get('search')) return send(url.searchParams.get('type') === 'variable' && 'tee'.includes(url.searchParams.get('search')!.toLowerCase()) ? [tee] : []);
+        lookups.push(url.searchParams.get('sku') || '');
+        const skus = (url.searchParams.get('sku') || '').split(',');
+        return send(catalog.filter(p => skus.includes(p.sku)));
+      }
+      if (req.method === 'GET' && url.pathname === '/wp-json/wc/v3/products/30') {
+        return send(tee);
+      }
+      if (req.method === 'GET' && url.pathname === '/wp-json/wc/v3/products/30/variations') {
+        return send(catalog.filter(p => p.parent_id === 30).map(({ parent_id, ...variation }) => variation));
+      }
+      if (req.method !== 'GET' && url.pathname.startsWith('/wp-json/wc/v3/products')) {
+        const body = JSON.parse(raw || '{}');
+        writes.push({ method: req.method!, path: url.pathname, body });
+        if (!url.pathname.endsWith('/batch')) return send({ id: 40, ...body });
+        if (writes.filter(w => w.path.endsWith('/batch')).length === failingBatch) {
+          res.writeHead(500);
+          return res.end('Internal Server Error');
+        }
+        // Batch responses list results in request order; unknown ids are rejected one by one
+        return send({
+          create: (body.create ?? []).map((p: any, i: number) => ({ id: 20 + i, name: p.name, sku: p.sku })),
+          update: (body.update ?? []).map((u: any) => [...catalog, tee].some(p => p.id === u.id)
+            ? { id: u.id }
+            : { id: 0, error: { code: 'woocommerce_rest_product_invalid_id', message: 'Invalid ID.' } })
+        });
+      }
+      res.writeHead(404);
+      res.end();
+    });
+    baseUrl = server.url;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const connection = (overrides: Partial<ConnectionRow> = {}): ConnectionRow => ({
+    id: 'conn-1',
+    installation_id: 'inst-1',
+    type: 'woocommerce',
+    base_url: `${baseUrl}/`,
+    consumer_key: 'ck_test',
+    consumer_secret: 'cs_test',
+    sync_price: 1,
+    create_products: 1,
+    sync_categories: 0,
+    sync_tags: 0,
+    ...overrides
+  } as ConnectionRow);
+
+  it('should be registered for the woocommerce connection type', () => {
+    expect(getDestinationDriver('woocommerce')).toBe(wooDestination);
+    expect(() => getDestinationDriver('ftp')).toThrow('Unsupported destination type: ftp');
+  });
+
+  it('should reject a connection without credentials', async () => {
+    await expect(wooDestination.connect({ ...connection(), consumer_secret: null } as ConnectionRow, () => {}))
+      .rejects.toThrow('Invalid Woo connection');
+  });
+
+  it('should find by SKU and batch price, meta and stock writes until flush', async () => {
+    const adapter = await wooDestination.connect(connection(), () => {});
+    const match = await adapter.find(item);
+
+    expect(match?.variant).toMatchObject({ id: '10', sku: 'MUG-1', price: '10.00', stock: 7 });
+    expect(await adapter.find({ ...item, sku: 'NOPE' })).toBeNull();
+
+    expect(await adapter.update(match!, item, { syncPrice: true })).toEqual([]);
+    expect(await adapter.setStock(match!, { ...item, stock: 0 })).toBeNull();
+    expect(writes).toEqual([]);
+
+    expect(await adapter.flush!()).toEqual([
+      { sku: 'MUG-1', ok: true, message: 'Price updated 10.00 -> 12.00' },
+      { sku: 'MUG-1', ok: true, message: 'Meta updated (1 field(s))' },
+      { sku: 'MUG-1', ok: true, message: 'Stock set -> 0' }
+    ]);
+    expect(writes).toEqual([{
+      method: 'POST',
+      path: '/wp-json/wc/v3/products/batch',
+      body: {
+        create: [],
+        update: [{
+          id: 10,
+          regular_price: '12.00',
+          meta_data: [{ key: 'custom.material', value: 'Stoneware' }],
+          manage_stock: true,
+          stock_quantity: 0,
+          stock_status: 'outofstock'
+        }]
+      }
+    }]);
+  });
+
+  it('should resolve SKUs in bulk and send variations to their parent batch', async () => {
+    const adapter = await wooDestination.connect(connection(), () => {});
+    const items = Array.from({ length: 120 }, (_, i) => ({ ...item, sku: `SKU-${i}` }));
+    items.push({ ...item, sku: 'TEE-R' });
+    await adapter.prefetch!(items);
+
+    expect(lookups).toHaveLength(2);
+    expect(lookups[0].split(',')).toHaveLength(100);
+    expect(await adapter.find(items[0])).toBeNull();
+    const tee = await adapter.find({ ...item, sku: 'TEE-R' });
+    expect(lookups).toHaveLength(2);
+
+    await adapter.setStock(tee!, { ...item, sku: 'TEE-R', stock: 5 });
+    await adapter.flush!();
+    expect(writes).toEqual([{
+      method: 'POST',
+      path: '/wp-json/wc/v3/products/30/variations/batch',
+      body: { create: [], update: [{ id: 31, manage_stock: true, stock_quantity: 5, stock_status: 'instock' }] }
+    }]);
+  });
+
+  it('should create simple products in a batch and map errors back per item', async () => {
+    const adapter = await wooDestination.connect(connection(), () => {});
+    const created = await adapter.create([{ ...item, sku: 'MUG-2' }]);
+    expect(created?.deferred).toBe(true);
+    await adapter.create([{ ...item, sku: 'MUG-3', title: 'Big mug' }]);
+    expect(writes).toEqual([]);
+
+    const gone = { variant: { id: '99', sku: 'OLD-1', price: '1.00', stock: 1, raw: { id: 99 } }, product: null };
+    await adapter.setStock(gone, { ...item, sku: 'OLD-1', stock: 3 });
+
+    expect(await adapter.flush!()).toEqual([
+      { sku: 'MUG-2', ok: true, message: 'Created in WooCommerce: Mug' },
+      { sku: 'MUG-3', ok: true, message: 'Created in WooCommerce: Big mug' },
+      { sku: 'OLD-1', ok: false, message: 'Woo update failed: Invalid ID.' }
+    ]);
+    expect(writes).toHaveLength(1);
+    expect(writes[0].body.create[1]).toMatchObject({ name: 'Big mug', type: 'simple', sku: 'MUG-3', stock_quantity: 7, status: 'publish' });
+  });
+
+  it('should fail every SKU of a batch that did not land and still send the others', async () => {
+    failingBatch = 2;
+    const adapter = await wooDestination.connect(connection(), () => {});
+    for (let i = 0; i < 250; i++) await adapter.create([{ ...item, sku: `MUG-${i}` }]);
+
+    const results = (await adapter.flush!()) ?? [];
+    expect(writes.map(w => w.body.create.length)).toEqual([100, 100, 50]);
+    expect(results).toHaveLength(250);
+    expect(results.filter(r => !r.ok).map(r => r.sku)).toEqual(Array.from({ length: 100 }, (_, i) => `MUG-${100 + i}`));
+    expect(results[100]).toEqual({ sku: 'MUG-100', ok: false, message: 'Woo create failed: Woo batch failed 500: Internal Server Error' });
+    expect(results[249]).toEqual({ sku: 'MUG-249', ok: true, message: 'Created in WooCommerce: Mug' });
+  });
+
+  it('should create a variable product with a variation per item', async () => {
+    const adapter = await wooDestination.connect(connection(), () => {});
+    const created = await adapter.create([
+      { ...item, sku: 'SHIRT-RS', title: 'Shirt - Red / S', variantTitle: 'Red / S', images: ['https://img/shirt.jpg'], imageUrl: 'https://img/red.jpg' },
+      { ...item, sku: 'SHIRT-RM', title: 'Shirt - Red / M', variantTitle: 'Red / M', stock: 0 }
+    ]);
+
+    expect(created?.product.id).toBe('40');
+    expect(writes[0]).toMatchObject({
+      method: 'POST',
+      path: '/wp-json/wc/v3/products',
+      body: {
+        name: 'Shirt',
+        type: 'variable',
+        images: [{ src: 'https://img/shirt.jpg' }],
+        attributes: [
+          { name: 'Option 1', position: 0, visible: true, variation: true, options: ['Red'] },
+          { name: 'Option 2', position: 1, visible: true, variation: true, options: ['S', 'M'] }
+        ]
+      }
+    });
+    expect(writes[0].body.sku).toBeUndefined();
+
+    expect(await adapter.flush!()).toEqual([
+      { sku: 'SHIRT-RS', ok: true, message: 'Created in WooCommerce: Shirt - Red / S' },
+      { sku: 'SHIRT-RM', ok: true, message: 'Created in WooCommerce: Shirt - Red / M' }
+    ]);
+    expect(writes[1].path).toBe('/wp-json/wc/v3/products/40/variations/batch');
+    expect(writes[1].body.create).toEqual([
+      expect.objectContaining({
+        sku: 'SHIRT-RS',
+        stock_quantity: 7,
+        image: { src: 'https://img/red.jpg' },
+        attributes: [{ name: 'Option 1', option: 'Red' }, { name: 'Option 2', option: 'S' }]
+      }),
+      expect.objectContaining({ sku: 'SHIRT-RM', stock_status: 'outofstock', attributes: [{ name: 'Option 1', option: 'Red' }, { name: 'Option 2', option: 'M' }] })
+    ]);
+  });
+
+  it('should name the attributes after the source options', async () => {
+    const adapter = await wooDestination.connect(connection(), () => {});
+    await adapter.create([
+      { ...item, sku: 'SHIRT-RS', title: 'Shirt - Red / S', variantTitle: 'Red / S', optionNames: ['Color', 'Size'] },
+      { ...item, sku: 'SHIRT-RM', title: 'Shirt - Red / M', variantTitle: 'Red / M', optionNames: ['Color', 'Size'] }
+    ]);
+
+    expect(writes[0].body.attributes.map((a: any) => a.name)).toEqual(['Color', 'Size']);
+    expect(writes[1].body.create[1].attributes).toEqual([{ name: 'Color', option: 'Red' }, { name: 'Size', option: 'M' }]);
+  });
+
+  it('should delete the new variable parent when its variations fail', async () => {
+    failingBatch = 1;
+    const adapter = await wooDestination.connect(connection(), () => {});
+    await expect(adapter.create([
+      { ...item, sku: 'SHIRT-RS', title: 'Shirt - Red / S', variantTitle: 'Red / S' },
+      { ...item, sku: 'SHIRT-RM', title: 'Shirt - Red / M', variantTitle: 'Red / M' }
+    ])).rejects.toThrow('Woo batch failed 500');
+
+    expect(writes.map(w => `${w.method} ${w.path}`)).toEqual([
+      'POST /wp-json/wc/v3/products',
+      'POST /wp-json/wc/v3/products/40/variations/batch',
+      'DELETE /wp-json/wc/v3/products/40'
+    ]);
+    expect(await adapter.flush!()).toEqual([]);
+  });
+
+  it('should find a variable product by title with its variations', async () => {
+    const adapter = await wooDestination.connect(connection(), () => {});
+    const sameTitle = await adapter.findByTitle!('tee');
+    expect(sameTitle?.product).toMatchObject({ id: '30', title: 'Tee' });
+    expect(sameTitle?.variants).toEqual([expect.objectContaining({ id: '31', sku: 'TEE-R', raw: expect.objectContaining({ parent_id: 30 }) })]);
+    expect(await adapter.findByTitle!('Mug')).toBeNull();
+  });
+
+  it('should add a missing variation to the parent of an existing one', async () => {
+    const adapter = await wooDestination.connect(connection(), () => {});
+    const match = await adapter.find({ ...item, sku: 'TEE-R' });
+    expect(match?.product?.id).toBe('30');
+
+    const blue = { ...item, sku: 'TEE-B', title: 'Tee - Blue', variantTitle: 'Blue' };
+    expect(await adapter.addVariant!(match!.product!, blue)).toBeNull();
+    expect(writes).toEqual([{
+      method: 'PUT',
+      path: '/wp-json/wc/v3/products/30',
+      body: { attributes: [{ id: 0, name: 'Option', variation: true, visible: true, options: ['Red', 'Blue'] }] }
+    }]);
+
+    expect(await adapter.flush!()).toEqual([{ sku: 'TEE-B', ok: true, message: 'Created in WooCommerce: Tee - Blue' }]);
+    expect(writes[1]).toMatchObject({
+      path: '/wp-json/wc/v3/products/30/variations/batch',
+      body: { create: [{ sku: 'TEE-B', attributes: [{ name: 'Option', option: 'Blue' }] }] }
+    });
+  });
+
+  it('should find or create nested categories, collections and tags once per connection', async () => {
+    const conn = connection({ id: 'conn-terms', sync_categories: 1, sync_tags: 1, sync_collections: 1 });
+    const adapter = await wooDestination.connect(conn, () => {});
+    const tagged = {
+      ...item,
+      sku: 'BOOT-1',
+      category: 'Men > Shoes',
+      tags: ['Gift & Home', 'new'],
+      collections: [{ id: '1', title: 'Sale', handle: 'sale', collection_type: 'custom' as const }]
+    };
+    await adapter.create([tagged]);
+    await adapter.flush!();
+
+    expect(terms.categories).toContainEqual({ id: 101, name: 'Shoes', parent: 5 });
+    expect(terms.categories).toContainEqual({ id: 102, name: 'Sale', parent: 0 });
+    expect(writes[0].body.create[0]).toMatchObject({
+      categories: [{ id: 101 }, { id: 102 }],
+      tags: [{ id: 8 }, { id: 201 }]
+    });
+
+    // Term ids are cached for the connection, across adapters
+    const requests = termRequests;
+    const again = await wooDestination.connect(conn, () => {});
+    await again.create([{ ...tagged, sku: 'BOOT-2' }]);
+    expect(termRequests).toBe(requests);
+  });
+
+  it('should replace images when the source images change', async () => {
+    const adapter = await wooDestination.connect(connection({ content_fields: '["images"]' }), () => {});
+    await adapter.prefetch!([{ ...item, sku: 'MUG-1' }, { ...item, sku: 'TEE-R' }]);
+
+    const mug = await adapter.find(item);
+    await adapter.update(mug!, { ...item, images: ['https://img/mug.jpg'] }, { syncPrice: false });
+    // The parent's images are unchanged; the variation gets its own image
+    const teeRed = await adapter.find({ ...item, sku: 'TEE-R' });
+    await adapter.update(teeRed!, { ...item, sku: 'TEE-R', metafields: [], images: ['https://img/tee.jpg'], imageUrl: 'https://img/red.jpg' }, { syncPrice: false });
+
+    expect(await adapter.flush!()).toEqual([
+      { sku: 'MUG-1', ok: true, message: 'Meta updated (1 field(s))' },
+      { sku: 'MUG-1', ok: true, message: 'Images updated (1)' },
+      { sku: 'TEE-R', ok: true, message: 'Image updated' }
+    ]);
+    expect(writes.map(w => w.body.update[0])).toEqual([
+      {
+        id: 10,
+        images: [{ src: 'https://img/mug.jpg' }],
+        meta_data: [{ key: 'custom.material', value: 'Stoneware' }, { key: '_source_images', value: '["https://img/mug.jpg"]' }]
+      },
+      { id: 31, image: { src: 'https://img/red.jpg' }, meta_data: [{ key: '_source_image', value: 'https://img/red.jpg' }] }
+    ]);
+  });
+
+  it('should leave images alone unless selected and record those already on the product', async () => {
+    const withImages = { ...catalog[0], images: [{ id: 3, src: 'https://shop/wp-content/uploads/mug-1.jpg' }] };
+    const mug = { variant: { id: '10', sku: 'MUG-1', price: '12.00', raw: withImages }, product: null };
+    const source = { ...item, metafields: [], images: ['https://cdn/mug.jpg?v=2'] };
+
+    const unselected = await wooDestination.connect(connection(), () => {});
+    await unselected.update(mug, source, { syncPrice: false });
+    expect(await unselected.flush!()).toEqual([]);
+
+    const selected = await wooDestination.connect(connection({ content_fields: '["images"]' }), () => {});
+    await selected.update(mug, source, { syncPrice: false });
+    expect(await selected.flush!()).toEqual([{ sku: 'MUG-1', ok: true, message: 'Source images recorded' }]);
+    expect(writes[0].body.update).toEqual([{ id: 10, meta_data: [{ key: '_source_images', value: '["https://cdn/mug.jpg?v=2"]' }] }]);
+  });
+
+  it('should draft or hide sold-out products and undo it once restocked', async () => {
+    const adapter = await wooDestination.connect(connection({ product_status: 1 }), () => {});
+    const mug = { id: '10', title: 'Mug', raw: { id: 10, status: 'publish' } };
+
+    expect(await adapter.setSoldOut!(mug, true, 'draft')).toBe('Set to draft (sold out)');
+    expect(await adapter.setSoldOut!(mug, true, 'draft')).toBeNull();
+    expect(await adapter.setSoldOut!(mug, false, 'draft')).toBe('Published (back in stock)');
+    // A variation's product is its parent, loaded on demand
+    expect(await adapter.setSoldOut!({ id: '30', title: 'Tee', raw: null }, true, 'hide')).toBe('Hidden from catalog (sold out)');
+    expect(await adapter.setSoldOut!({ id: '30', title: 'Tee', raw: null }, false, 'hide')).toBe('Visible in catalog (back in stock)');
+
+    expect(writes.map(w => [w.method, w.path, w.body])).toEqual([
+      ['PUT', '/wp-json/wc/v3/products/10', { status: 'draft' }],
+      ['PUT', '/wp-json/wc/v3/products/10', { status: 'publish' }],
+      ['PUT', '/wp-json/wc/v3/products/30', { catalog_visibility: 'hidden' }],
+      ['PUT', '/wp-json/wc/v3/products/30', { catalog_visibility: 'visible' }]
+    ]);
+  });
+
+  it('should leave a restocked draft unpublished when the connection creates drafts', async () => {
+    const adapter = await wooDestination.connect(connection({ product_status: 0 }), () => {});
+
+    expect(await adapter.setSoldOut!({ id: '10', title: 'Mug', raw: { id: 10, status: 'draft' } }, false, 'draft')).toBeNull();
+    expect(writes).toEqual([]);
+  });
+
+  it('should queue content updates for the product and weight for each variant', async () => {
+    const adapter = await wooDestination.connect(connection(), () => {});
+    await adapter.prefetch!([{ ...item, sku: 'MUG-1' }, { ...item, sku: 'TEE-R' }]);
+    const mug = await adapter.find(item);
+    const teeRed = await adapter.find({ ...item, sku: 'TEE-R' });
+
+    await adapter.updateContent!(mug!.product!, [
+      { item: { ...item, title: 'Big Mug', description: '<p>Stoneware</p>', weight: 0.4 }, variant: mug!.variant, fields: ['title', 'description', 'weight'] }
+    ]);
+    await adapter.updateContent!(teeRed!.product!, [
+      { item: { ...item, sku: 'TEE-R', title: 'Organic Tee - Red', variantTitle: 'Red', weight: 0.2 }, variant: teeRed!.variant, fields: ['title', 'weight'] }
+    ]);
+    expect(writes).toEqual([]);
+
+    expect(await adapter.flush!()).toEqual([
+      { sku: 'MUG-1', ok: true, message: 'Title updated -> Big Mug' },
+      { sku: 'MUG-1', ok: true, message: 'Description updated' },
+      { sku: 'MUG-1', ok: true, message: 'Weight updated -> 0.4' },
+      { sku: 'TEE-R', ok: true, message: 'Title updated -> Organic Tee' },
+      { sku: 'TEE-R', ok: true, message: 'Weight updated -> 0.2' }
+    ]);
+    expect(writes.map(w => [w.path, w.body.update])).toEqual([
+      ['/wp-json/wc/v3/products/batch', [
+        { id: 10, name: 'Big Mug', description: '<p>Stoneware</p>', weight: '0.4' },
+        { id: 30, name: 'Organic Tee' }
+      ]],
+      ['/wp-json/wc/v3/products/30/variations/batch', [{ id: 31, weight: '0.2' }]]
+    ]);
+  });
+});
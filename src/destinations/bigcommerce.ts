@@ -0,0 +1,297 @@
+/**
+ * BigCommerce destination
+ * Catalog API v3 adapter (store hash + API account access token).
+ */
+
+import { ConnectionRow } from '../db';
+import { retryWithBackoff, categorizeError, ErrorType } from '../utils/retry';
+import { decryptSecret } from '../utils/secrets';
+import { CatalogItem } from '../models/types';
+import type { DestinationAdapter, DestinationDriver, DestinationProduct, DestinationVariant } from './types';
+
+// Generic fetch function type compatible with both native fetch and node-fetch
+type FetchFn = (url: string, init?: { method?: string; headers?: Record<string, string>; body?: string }) => Promise<{ ok: boolean; status: number; json: () => Promise<any>; text: () => Promise<string>; headers: { get: (name: string) => string | null } }>;
+
+// Use Node.js built-in fetch (available in Node 18+)
+// Fallback to dynamic import of node-fetch if needed
+const getFetch = async (): Promise<FetchFn> => {
+  if (typeof globalThis.fetch !== 'undefined') {
+    return globalThis.fetch as unknown as FetchFn;
+  }
+  const nodeFetch = await import('node-fetch');
+  return nodeFetch.default as unknown as FetchFn;
+};
+
+// Catalog API root of a store (BIGCOMMERCE_API_URL overrides the host, e.g. for a sandbox)
+export function bigCommerceApiUrl(storeHash: string): string {
+  const host = (process.env.BIGCOMMERCE_API_URL || 'https://api.bigcommerce.com').replace(/\/+$/, '');
+  return `${host}/stores/${encodeURIComponent(storeHash)}/v3`;
+}
+
+type BigCommerceClient = <T = any>(method: string, path: string, body?: unknown) => Promise<T>;
+
+// JSON request with retry on 429/5xx; errors carry status and response like the other integrations
+function createClient(fetch: FetchFn, api: string, accessToken: string, log: (m: string) => void): BigCommerceClient {
+  const headers = {
+    'X-Auth-Token': accessToken,
+    'Content-Type': 'application/json',
+    'Accept': 'application/json'
+  };
+  return (method, path, body) => retryWithBackoff(async () => {
+    const response = await fetch(`${api}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      if (response.status === 429) log(`⚠️  Rate limited (429), retrying with backoff...`);
+      const error: any = new Error(`BigCommerce ${method} ${path.split('?')[0]} failed: ${response.status}${errorText ? ` - ${errorText}` : ''}`);
+      error.status = response.status;
+      error.response = response;
+      throw error;
+    }
+    if (response.status === 204) return null;
+    const data: any = await response.json();
+    return data?.data;
+  }, {
+    maxRetries: 3,
+    baseDelay: 1000,
+    maxDelay: 30000,
+    backoffMultiplier: 2
+  });
+}
+
+// Products without options sell through their base variant; stock then lives on the product
+function isSingleVariant(product: any): boolean {
+  return product?.inventory_tracking === 'product' || (product?.variants?.length ?? 0) <= 1;
+}
+
+function toProduct(product: any): DestinationProduct {
+  return { id: String(product.id), title: product.name, raw: product };
+}
+
+function toVariant(variant: any, product: any): DestinationVariant {
+  const price = variant.price ?? product?.price;
+  let stock: number | null = null;
+  if (product?.inventory_tracking === 'product') stock = product.inventory_level ?? null;
+  else if (product?.inventory_tracking === 'variant') stock = variant.inventory_level ?? null;
+  return { id: String(variant.id), sku: variant.sku, price: price != null ? String(price) : null, stock, raw: variant };
+}
+
+function samePrice(a: string | null | undefined, b: string): boolean {
+  return a != null && a !== '' && Number(a) === Number(b);
+}
+
+function variantOption(item: CatalogItem) {
+  return [{ option_display_name: 'Option', label: item.variantTitle || item.sku }];
+}
+
+function images(item: CatalogItem) {
+  const urls = item.images && item.images.length > 0 ? item.images : item.imageUrl ? [item.imageUrl] : [];
+  return urls.map((image_url, index) => ({ image_url, is_thumbnail: index === 0 }));
+}
+
+async function connect(conn: ConnectionRow, log: (m: string) => void): Promise<DestinationAdapter> {
+  if (!conn.store_hash || !conn.access_token) throw new Error('Invalid BigCommerce connection');
+  // Decrypt access token if encrypted (or use as-is if plain text)
+  const decryptedToken = decryptSecret(conn.access_token);
+  if (!decryptedToken) {
+    throw new Error('Access token is missing. Connection may need to be reconfigured.');
+  }
+
+  const bc = createClient(await getFetch(), bigCommerceApiUrl(conn.store_hash), decryptedToken, log);
+  const shouldSyncCategories = conn.sync_categories === 1;
+  const categoryCache = new Map<string, number | null>();
+  const categorizedProducts = new Set<string>();
+  log(`Destination: BigCommerce store ${conn.store_hash}`);
+
+  // Find or create a top-level category by name
+  async function findOrCreateCategory(name: string): Promise<number | null> {
+    const cacheKey = name.toLowerCase();
+    if (categoryCache.has(cacheKey)) return categoryCache.get(cacheKey)!;
+    let categoryId: number | null = null;
+    try {
+      const found: any[] = await bc('GET', `/catalog/categories?name=${encodeURIComponent(name)}`);
+      const existing = (found || []).find(c => String(c.name).toLowerCase() === cacheKey);
+      if (existing) {
+        categoryId = existing.id;
+      } else {
+        const created: any = await bc('POST', '/catalog/categories', { name, parent_id: 0 });
+        categoryId = created?.id ?? null;
+        log(`Created category: ${name}`);
+      }
+    } catch (e: any) {
+      log(`Error with category "${name}": ${e?.message || e}`);
+    }
+    categoryCache.set(cacheKey, categoryId);
+    return categoryId;
+  }
+
+  return {
+    name: 'BigCommerce',
+
+    async find(item) {
+      const variants: any[] = await bc('GET', `/catalog/variants?sku=${encodeURIComponent(item.sku)}`);
+      const v = (variants || []).find(candidate => candidate.sku === item.sku);
+      if (!v) {
+        log(`No exact SKU match found in destination for: ${item.sku}`);
+        return null;
+      }
+      const product: any = await bc('GET', `/catalog/products/${v.product_id}?include=variants`);
+      return { variant: toVariant(v, product), product: toProduct(product) };
+    },
+
+    async findByTitle(title) {
+      // Product names are unique per store, so a same-name product would block creation
+      const products: any[] = await bc('GET', `/catalog/products?name=${encodeURIComponent(title)}&include=variants`);
+      const product = (products || []).find(p => String(p.name).toLowerCase().trim() === title.toLowerCase().trim());
+      if (!product) return null;
+      log(`Found existing product by title: "${title}" (ID: ${product.id})`);
+      return { product: toProduct(product), variants: (product.variants || []).map((v: any) => toVariant(v, product)) };
+    },
+
+    async create(items) {
+      const first = items[0];
+      if (!first) return null;
+      // Get the base product title (without variant suffix)
+      const baseTitle = first.productHandle
+        ? first.title.replace(` - ${first.variantTitle}`, '').trim()
+        : first.title;
+      const hasOptions = items.length > 1 || (!!first.variantTitle && first.variantTitle !== 'Default Title');
+
+      const payload: any = {
+        name: baseTitle,
+        type: 'physical',
+        weight: first.weight || 0,
+        price: Number(first.price),
+        description: first.description || '',
+        is_visible: conn.product_status === 1,
+        inventory_tracking: hasOptions ? 'variant' : 'product',
+        images: images(first)
+      };
+      if (first.vendor) payload.brand_name = first.vendor;
+      if (conn.sync_tags === 1 && first.tags && first.tags.length > 0) {
+        payload.search_keywords = first.tags.join(',');
+      }
+      if (shouldSyncCategories && first.category) {
+        const categoryId = await findOrCreateCategory(first.category);
+        if (categoryId) payload.categories = [categoryId];
+      }
+      if (hasOptions) {
+        payload.variants = items.map(item => ({
+          sku: item.sku,
+          price: Number(item.price),
+          retail_price: item.compareAtPrice ? Number(item.compareAtPrice) : undefined,
+          upc: item.barcode || undefined,
+          inventory_level: Math.max(0, item.stock || 0),
+          option_values: variantOption(item)
+        }));
+      } else {
+        payload.sku = first.sku;
+        payload.inventory_level = Math.max(0, first.stock || 0);
+        if (first.compareAtPrice) payload.retail_price = Number(first.compareAtPrice);
+        if (first.barcode) payload.upc = first.barcode;
+      }
+
+      log(`Creating product as ${payload.is_visible ? 'visible' : 'hidden'} (product_status: ${conn.product_status})`);
+      const product: any = await bc('POST', '/catalog/products?include=variants', payload);
+      if (!product || !product.id) {
+        throw new Error('Product creation succeeded but response missing product data');
+      }
+      const variants = new Map<string, DestinationVariant>();
+      for (const v of product.variants || []) {
+        if (v.sku) variants.set(v.sku, toVariant(v, product));
+      }
+      log(`Created new product with ${items.length} variant(s): ${baseTitle}`);
+      return { product: toProduct(product), variants };
+    },
+
+    async addVariant(product, item) {
+      try {
+        if (product.raw?.inventory_tracking !== 'variant') {
+          await bc('PUT', `/catalog/products/${product.id}`, { inventory_tracking: 'variant' });
+          product.raw = { ...product.raw, inventory_tracking: 'variant' };
+        }
+        const v: any = await bc('POST', `/catalog/products/${product.id}/variants`, {
+          sku: item.sku,
+          price: Number(item.price),
+          upc: item.barcode || undefined,
+          inventory_level: Math.max(0, item.stock || 0),
+          option_values: variantOption(item)
+        });
+        log(`Added variant ${item.sku} to existing product`);
+        return toVariant(v, product.raw);
+      } catch (error: any) {
+        const errorType = categorizeError(error.status || error.response?.status, error);
+        if (errorType === ErrorType.PERMANENT) {
+          log(`❌ Failed to add variant ${item.sku}: ${error.message || error}`);
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async update(match, item, options) {
+      const changes: string[] = [];
+      const product = match.product?.raw;
+      const desiredPrice = String(item.price ?? '');
+      if (options.syncPrice && desiredPrice && !samePrice(match.variant.price, desiredPrice)) {
+        if (isSingleVariant(product)) {
+          await bc('PUT', `/catalog/products/${match.variant.raw.product_id}`, { price: Number(desiredPrice) });
+        } else {
+          await bc('PUT', `/catalog/products/${match.variant.raw.product_id}/variants/${match.variant.id}`, { price: Number(desiredPrice) });
+        }
+        changes.push(`Price updated ${match.variant.price ?? ''} -> ${desiredPrice}`);
+      }
+
+      // Add the source category to the product's categories (once per product and run)
+      const productId = String(match.variant.raw.product_id);
+      if (shouldSyncCategories && item.category && product && !categorizedProducts.has(productId)) {
+        categorizedProducts.add(productId);
+        const categoryId = await findOrCreateCategory(item.category);
+        const current: number[] = product.categories || [];
+        if (categoryId && !current.includes(categoryId)) {
+          await bc('PUT', `/catalog/products/${productId}`, { categories: [...current, categoryId] });
+          changes.push(`Category assigned: ${item.category}`);
+        }
+      }
+      return changes;
+    },
+
+    async setStock(match, item) {
+      if (item.stock == null) return null;
+      const level = Math.max(0, Number(item.stock));
+      const product = match.product?.raw;
+      const productId = match.variant.raw.product_id;
+      if (product?.inventory_tracking === 'product') {
+        await bc('PUT', `/catalog/products/${productId}`, { inventory_level: level });
+      } else {
+        if (product?.inventory_tracking !== 'variant') {
+          // Untracked product: start tracking stock per variant
+          await bc('PUT', `/catalog/products/${productId}`, { inventory_tracking: 'variant' });
+          if (product) product.inventory_tracking = 'variant';
+        }
+        await bc('PUT', `/catalog/products/${productId}/variants/${match.variant.id}`, { inventory_level: level });
+      }
+      return `Stock set -> ${level}`;
+    },
+
+    // Hidden and unavailable products stay in the control panel with their history
+    async archive(match) {
+      await bc('PUT', `/catalog/products/${match.variant.raw.product_id}`, { is_visible: false, availability: 'disabled' });
+    },
+
+    // A product keeps at least one variant, so deleting its last one deletes the product
+    async remove(match) {
+      const productId = match.variant.raw.product_id;
+      const variants = match.product?.raw?.variants?.length ?? 1;
+      await bc('DELETE', variants > 1 ? `/catalog/products/${productId}/variants/${match.variant.id}` : `/catalog/products/${productId}`);
+    }
+  };
+}
+
+export const bigCommerceDestination: DestinationDriver = {
+  logPrefix: 'bigcommerce',
+  connect
+};
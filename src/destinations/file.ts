@@ -0,0 +1,137 @@
+/**
+ * File export destination
+ * Renders the mapped catalog to one CSV, XML or JSON file per job and drops it on a
+ * local directory, an SFTP server or an S3-compatible bucket for the retailer's ERP to pick up.
+ */
+
+import { ConnectionRow } from '../db';
+import { toXml } from '../services/feedBuilder';
+import { toCsv } from '../utils/csv';
+import { decryptSecret } from '../utils/secrets';
+import { CatalogItem, FeedResponse } from '../models/types';
+import { createExportTarget, type FileExportTargetConfig } from './fileTargets';
+import type { DestinationAdapter, DestinationDriver } from './types';
+
+export type FileExportFormat = 'csv' | 'xml' | 'json';
+
+// Stored as connections.export_json; the SFTP key / S3 secret is the encrypted access_token
+export type FileExportConfig = {
+  format: FileExportFormat;
+  filename: string; // Template: {timestamp}, {date}, {connection}, {ext}
+  retention: number; // Exports kept in the target, oldest removed first
+  target: FileExportTargetConfig;
+};
+
+export const DEFAULT_EXPORT_FILENAME = 'catalog-{timestamp}.{ext}';
+export const DEFAULT_EXPORT_RETENTION = 7;
+
+const CSV_COLUMNS = [
+  'sku', 'title', 'price', 'compare_at_price', 'currency', 'stock', 'barcode', 'vendor', 'category',
+  'product_handle', 'variant_title', 'image_url', 'tags', 'updated_at'
+];
+
+export function parseFileExportConfig(json: string | null | undefined): FileExportConfig | null {
+  if (!json) return null;
+  try {
+    const config = JSON.parse(json);
+    return config?.format && config?.target?.type ? config : null;
+  } catch {
+    return null;
+  }
+}
+
+export function renderExport(items: CatalogItem[], format: FileExportFormat, generatedAt = new Date()): string {
+  const feed: FeedResponse = { version: '1.0', generatedAt: generatedAt.toISOString(), items };
+  if (format === 'xml') return toXml(feed);
+  if (format === 'json') return JSON.stringify(feed, null, 2);
+  return toCsv([
+    CSV_COLUMNS,
+    ...items.map(i => [
+      i.sku, i.title, i.price, i.compareAtPrice, i.currency, i.stock, i.barcode, i.vendor, i.category,
+      i.productHandle, i.variantTitle, i.imageUrl, i.tags?.join(', '), i.updatedAt
+    ])
+  ]);
+}
+
+// 2026-10-19T15:19:00.123Z -> 20261019T151900Z (sorts chronologically as text)
+const compactTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export function exportFilename(template: string, format: FileExportFormat, connectionId: string, date = new Date()): string {
+  return template
+    .replace(/\{timestamp\}/g, compactTimestamp(date))
+    .replace(/\{date\}/g, date.toISOString().slice(0, 10))
+    .replace(/\{connection\}/g, connectionId)
+    .replace(/\{ext\}/g, format);
+}
+
+// Names the template produces for this connection, so retention never touches other files
+export function exportFilenamePattern(template: string, format: FileExportFormat, connectionId: string): RegExp {
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const source = template.split(/(\{timestamp\}|\{date\}|\{connection\}|\{ext\})/).map(part => {
+    if (part === '{timestamp}') return '\\d{8}T\\d{6}Z';
+    if (part === '{date}') return '\\d{4}-\\d{2}-\\d{2}';
+    if (part === '{connection}') return escape(connectionId);
+    if (part === '{ext}') return escape(format);
+    return escape(part);
+  }).join('');
+  return new RegExp(`^${source}$`);
+}
+
+async function connect(conn: ConnectionRow, log: (m: string) => void): Promise<DestinationAdapter> {
+  const config = parseFileExportConfig(conn.export_json);
+  if (!config) throw new Error('Invalid file export connection');
+  const target = createExportTarget(config.target, decryptSecret(conn.access_token));
+  const filename = config.filename || DEFAULT_EXPORT_FILENAME;
+  const retention = config.retention > 0 ? config.retention : DEFAULT_EXPORT_RETENTION;
+  const items: CatalogItem[] = [];
+  // Each export is written from scratch, so every out-of-stock SKU is one the policy would not create
+  const leaveOutSoldOut = conn.out_of_stock_policy === 'skip_create' || conn.out_of_stock_policy === 'hide';
+  log(`Destination: ${config.format.toUpperCase()} export to ${target.location} (keeping ${retention})`);
+
+  return {
+    name: 'File export',
+
+    // Every item goes into the file: report it as existing with its stock already set.
+    // Out-of-stock items are reported missing when the policy leaves them out; the push worker then skips them
+    async find(item) {
+      if (leaveOutSoldOut && item.stock <= 0) return null;
+      return { variant: { id: item.sku, sku: item.sku, price: item.price, stock: item.stock, raw: null }, product: null };
+    },
+
+    async create() {
+      return null;
+    },
+
+    async update(match, item) {
+      items.push(item);
+      return [];
+    },
+
+    async setStock() {
+      return null;
+    },
+
+    // Discontinued items are simply absent from the next export
+    async archive() {},
+
+    async flush() {
+      const now = new Date();
+      const name = exportFilename(filename, config.format, conn.id, now);
+      await target.write(name, renderExport(items, config.format, now));
+      log(`Exported ${items.length} item(s) to ${name}`);
+
+      const pattern = exportFilenamePattern(filename, config.format, conn.id);
+      const previous = (await target.list()).filter(n => pattern.test(n)).sort();
+      for (const old of previous.slice(0, Math.max(previous.length - retention, 0))) {
+        await target.remove(old);
+        log(`Removed old export ${old}`);
+      }
+    }
+  };
+}
+
+export const fileDestination: DestinationDriver = {
+  logPrefix: 'file',
+  exportsFullCatalog: true,
+  connect
+};
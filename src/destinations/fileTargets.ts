@@ -0,0 +1,283 @@
+/**
+ * File export targets
+ * Where a file-export connection drops its files: a local directory (under FILE_EXPORT_DIR),
+ * an SFTP server (through the OpenSSH sftp client) or an S3-compatible bucket (SigV4 requests).
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+import { spawn } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ulid } from 'ulid';
+import { XMLParser } from 'fast-xml-parser';
+
+export type FileExportTargetConfig =
+  | { type: 'local'; directory: string }
+  | { type: 'sftp'; host: string; port?: number; username: string; directory: string; host_key?: string }
+  | { type: 's3'; endpoint: string; region: string; bucket: string; prefix?: string; access_key_id: string };
+
+export type ExportTarget = {
+  // Human-readable location for logs
+  readonly location: string;
+  // Write a file so readers never see it half-written
+  write(name: string, content: string): Promise<void>;
+  // File names currently in the target
+  list(): Promise<string[]>;
+  remove(name: string): Promise<void>;
+};
+
+// Root every local export directory is resolved under
+export function fileExportRoot(): string {
+  return path.resolve(process.env.FILE_EXPORT_DIR || './data/exports');
+}
+
+// Absolute path of a local export directory; rejects paths outside FILE_EXPORT_DIR
+export function resolveLocalExportDirectory(directory: string): string {
+  const root = fileExportRoot();
+  const resolved = path.resolve(root, directory);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error(`Export directory must be inside ${root}`);
+  }
+  return resolved;
+}
+
+function localTarget(directory: string): ExportTarget {
+  const dir = resolveLocalExportDirectory(directory);
+  return {
+    location: dir,
+    async write(name, content) {
+      await fs.mkdir(dir, { recursive: true });
+      // Same directory, so the rename is atomic
+      const tmp = path.join(dir, `.${name}.${ulid()}.tmp`);
+      try {
+        await fs.writeFile(tmp, content, 'utf8');
+        await fs.rename(tmp, path.join(dir, name));
+      } catch (error) {
+        await fs.rm(tmp, { force: true });
+        throw error;
+      }
+    },
+    async list() {
+      try {
+        return (await fs.readdir(dir, { withFileTypes: true })).filter(e => e.isFile()).map(e => e.name);
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return [];
+        throw error;
+      }
+    },
+    async remove(name) {
+      await fs.rm(path.join(dir, name), { force: true });
+    }
+  };
+}
+
+// An sftp session that has not finished by then is killed (SFTP_TIMEOUT_MS overrides it)
+const SFTP_TIMEOUT_MS = 5 * 60 * 1000;
+
+// known_hosts lines for the pinned server key(s): "ssh-ed25519 AAAA..." as printed by ssh-keyscan, one per line
+function knownHostsLines(target: Extract<FileExportTargetConfig, { type: 'sftp' }>): string {
+  const host = target.port && target.port !== 22 ? `[${target.host}]:${target.port}` : target.host;
+  return target.host_key!.split('\n').map(line => line.trim()).filter(Boolean).map(key => `${host} ${key}\n`).join('');
+}
+
+// Run an sftp batch script (key auth only: batch mode cannot prompt for a password).
+// With a pinned host key only that key is accepted; without one the first key seen is trusted
+async function runSftp(target: Extract<FileExportTargetConfig, { type: 'sftp' }>, privateKey: string, commands: string[], localFiles: Record<string, string> = {}): Promise<string> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-export-'));
+  try {
+    const keyPath = path.join(workDir, 'key');
+    await fs.writeFile(keyPath, privateKey.endsWith('\n') ? privateKey : `${privateKey}\n`, { mode: 0o600 });
+    const script = commands.map(c => c.replace(/\{local:([^}]+)\}/g, (_m, file: string) => path.join(workDir, file))).join('\n');
+    for (const [file, content] of Object.entries(localFiles)) {
+      await fs.writeFile(path.join(workDir, file), content, 'utf8');
+    }
+    let hostKeyOptions = ['-o', 'StrictHostKeyChecking=accept-new'];
+    if (target.host_key) {
+      const knownHostsPath = path.join(workDir, 'known_hosts');
+      await fs.writeFile(knownHostsPath, knownHostsLines(target), 'utf8');
+      hostKeyOptions = ['-o', 'StrictHostKeyChecking=yes', '-o', `UserKnownHostsFile=${knownHostsPath}`];
+    }
+    const timeoutMs = Number(process.env.SFTP_TIMEOUT_MS) || SFTP_TIMEOUT_MS;
+
+    return await new Promise<string>((resolve, reject) => {
+      const child = spawn(process.env.SFTP_BINARY || 'sftp', [
+        '-b', '-',
+        '-P', String(target.port || 22),
+        '-i', keyPath,
+        '-o', 'BatchMode=yes',
+        ...hostKeyOptions,
+        '-o', 'ConnectTimeout=30',
+        // A server that stops answering mid-transfer drops the session after 3 missed keepalives
+        '-o', 'ServerAliveInterval=15',
+        '-o', 'ServerAliveCountMax=3',
+        `${target.username}@${target.host}`
+      ]);
+      let stdout = '';
+      let stderr = '';
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new Error(`sftp to ${target.host} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+      child.stdout.on('data', chunk => (stdout += chunk));
+      child.stderr.on('data', chunk => (stderr += chunk));
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code === 0) resolve(stdout);
+        else reject(new Error(`sftp to ${target.host} failed (exit ${code}): ${stderr.trim() || stdout.trim()}`));
+      });
+      child.stdin.end(`${script}\n`);
+    });
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+function sftpTarget(target: Extract<FileExportTargetConfig, { type: 'sftp' }>, privateKey: string | null): ExportTarget {
+  if (!privateKey) throw new Error('SFTP export needs a private key');
+  const dir = target.directory.replace(/\/+$/, '') || '.';
+  const remote = (name: string) => `"${dir}/${name}"`;
+  return {
+    location: `sftp://${target.username}@${target.host}${target.port ? `:${target.port}` : ''}/${dir.replace(/^\//, '')}`,
+    async write(name, content) {
+      const tmp = `.${name}.${ulid()}.tmp`;
+      // "-" lets mkdir fail when the directory already exists
+      await runSftp(target, privateKey, [
+        `-mkdir "${dir}"`,
+        `put "{local:export}" ${remote(tmp)}`,
+        `rename ${remote(tmp)} ${remote(name)}`
+      ], { export: content });
+    },
+    async list() {
+      const output = await runSftp(target, privateKey, [`ls -1 "${dir}"`]);
+      return output.split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('sftp>'))
+        .map(line => path.posix.basename(line));
+    },
+    async remove(name) {
+      await runSftp(target, privateKey, [`rm ${remote(name)}`]);
+    }
+  };
+}
+
+const sha256Hex = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data, 'utf8').digest();
+
+// RFC 3986 encoding required by SigV4
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * AWS Signature Version 4 Authorization header for an S3 request.
+ * headers must include host, x-amz-date and x-amz-content-sha256.
+ */
+export function signS3Request(params: {
+  method: string;
+  path: string; // already encoded
+  query?: Record<string, string>;
+  headers: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}): string {
+  const amzDate = params.headers['x-amz-date'];
+  const date = amzDate.slice(0, 8);
+  const query = Object.entries(params.query || {})
+    .map(([k, v]) => [encodeRfc3986(k), encodeRfc3986(v)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&');
+  const headerNames = Object.keys(params.headers).map(h => h.toLowerCase()).sort();
+  const lowerHeaders = Object.fromEntries(Object.entries(params.headers).map(([k, v]) => [k.toLowerCase(), v.trim()]));
+  const canonicalHeaders = headerNames.map(h => `${h}:${lowerHeaders[h]}\n`).join('');
+  const signedHeaders = headerNames.join(';');
+  const canonicalRequest = [params.method, params.path, query, canonicalHeaders, signedHeaders, params.payloadHash].join('\n');
+  const scope = `${date}/${params.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${params.secretAccessKey}`, date), params.region), 's3'), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+  return `AWS4-HMAC-SHA256 Credential=${params.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+function s3Target(target: Extract<FileExportTargetConfig, { type: 's3' }>, secretAccessKey: string | null): ExportTarget {
+  if (!secretAccessKey) throw new Error('S3 export needs a secret access key');
+  const endpoint = new URL(target.endpoint);
+  const prefix = target.prefix ? `${target.prefix.replace(/^\/+|\/+$/g, '')}/` : '';
+  const basePath = endpoint.pathname.replace(/\/+$/, '');
+  // Path-style addressing works with AWS and the S3-compatible stores (MinIO, R2, Spaces, ...)
+  const objectPath = (key: string) => `${basePath}/${encodeRfc3986(target.bucket)}/${key.split('/').map(encodeRfc3986).join('/')}`;
+
+  async function request(method: string, requestPath: string, query: Record<string, string> = {}, body?: string) {
+    const payloadHash = sha256Hex(body ?? '');
+    const headers: Record<string, string> = {
+      host: endpoint.host,
+      'x-amz-date': new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, ''),
+      'x-amz-content-sha256': payloadHash
+    };
+    const authorization = signS3Request({
+      method, path: requestPath, query, headers, payloadHash,
+      region: target.region, accessKeyId: target.access_key_id, secretAccessKey: secretAccessKey!
+    });
+    const search = new URLSearchParams(query).toString();
+    const response = await fetch(`${endpoint.origin}${requestPath}${search ? `?${search}` : ''}`, {
+      method,
+      headers: { ...headers, Authorization: authorization },
+      body
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const error: any = new Error(`S3 ${method} ${requestPath} failed: ${response.status}${text ? ` - ${text.slice(0, 300)}` : ''}`);
+      error.status = response.status;
+      throw error;
+    }
+    return response;
+  }
+
+  return {
+    location: `s3://${target.bucket}/${prefix}`,
+    // A PUT only becomes visible once complete, so the object is written in place (S3 has no rename)
+    async write(name, content) {
+      await request('PUT', objectPath(`${prefix}${name}`), {}, content);
+    },
+    async list() {
+      const parser = new XMLParser();
+      const names: string[] = [];
+      let token: string | undefined;
+      do {
+        const query: Record<string, string> = { 'list-type': '2', prefix };
+        if (token) query['continuation-token'] = token;
+        const result = parser.parse(await (await request('GET', `${basePath}/${encodeRfc3986(target.bucket)}`, query)).text())?.ListBucketResult;
+        const contents = result?.Contents ? (Array.isArray(result.Contents) ? result.Contents : [result.Contents]) : [];
+        for (const object of contents) {
+          const key = String(object.Key);
+          // Only files directly under the prefix
+          if (!key.slice(prefix.length).includes('/')) names.push(key.slice(prefix.length));
+        }
+        token = result?.IsTruncated === true || result?.IsTruncated === 'true' ? result.NextContinuationToken : undefined;
+      } while (token);
+      return names;
+    },
+    async remove(name) {
+      await request('DELETE', objectPath(`${prefix}${name}`));
+    }
+  };
+}
+
+// secret: SFTP private key or S3 secret access key (decrypted)
+export function createExportTarget(config: FileExportTargetConfig, secret: string | null): ExportTarget {
+  switch (config.type) {
+    case 'local':
+      return localTarget(config.directory);
+    case 'sftp':
+      return sftpTarget(config, secret);
+    case 's3':
+      return s3Target(config, secret);
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * HTTP destination
+ * Posts signed batches of catalog events to a partner endpoint; a 2xx response acknowledges the batch.
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+import { ulid } from 'ulid';
+import { ConnectionRow, DeliveredSku, DestinationSkuRepo } from '../db';
+import { retryWithBackoff } from '../utils/retry';
+import { decryptSecret } from '../utils/secrets';
+import { CatalogItem } from '../models/types';
+import type { DeferredWriteResult, DestinationAdapter, DestinationDriver } from './types';
+
+// Generic fetch function type compatible with both native fetch and node-fetch
+type FetchFn = (url: string, init?: { method?: string; headers?: Record<string, string>; body?: string }) => Promise<{ ok: boolean; status: number; json: () => Promise<any>; text: () => Promise<string>; headers: { get: (name: string) => string | null } }>;
+
+// Use Node.js built-in fetch (available in Node 18+)
+// Fallback to dynamic import of node-fetch if needed
+const getFetch = async (): Promise<FetchFn> => {
+  if (typeof globalThis.fetch !== 'undefined') {
+    return globalThis.fetch as unknown as FetchFn;
+  }
+  const nodeFetch = await import('node-fetch');
+  return nodeFetch.default as unknown as FetchFn;
+};
+
+export const DEFAULT_HTTP_BATCH_SIZE = 50;
+
+/**
+ * create: full item, SKU not acknowledged before
+ * update: item content and (when sync_price is on) price, without stock
+ * stock: quantity only
+ * discontinue: the SKU was taken off sale
+ */
+export type HttpEvent =
+  | { type: 'create'; sku: string; item: CatalogItem }
+  | { type: 'update'; sku: string; item: Omit<CatalogItem, 'stock'> }
+  | { type: 'stock'; sku: string; stock: number }
+  | { type: 'discontinue'; sku: string };
+
+export type HttpBatch = {
+  connection_id: string;
+  batch_id: string;
+  sent_at: string;
+  events: HttpEvent[];
+};
+
+// Base64 HMAC-SHA256 of the raw request body (same scheme as Shopify webhooks)
+export function signHttpPayload(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body, 'utf8').digest('base64');
+}
+
+// Content/price event payload: stock travels in its own event
+function updatePayload(item: CatalogItem, syncPrice: boolean): Omit<CatalogItem, 'stock'> {
+  const { stock: _stock, inventory: _inventory, ...content } = item;
+  if (syncPrice) return content;
+  const { price: _price, compareAtPrice: _compareAtPrice, ...withoutPrice } = content;
+  return withoutPrice as Omit<CatalogItem, 'stock'>;
+}
+
+function contentHash(content: Omit<CatalogItem, 'stock'>): string {
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+async function connect(conn: ConnectionRow, log: (m: string) => void): Promise<DestinationAdapter> {
+  if (!conn.base_url || !conn.signing_secret) throw new Error('Invalid HTTP connection');
+  // Decrypt signing secret if encrypted (or use as-is if plain text)
+  const secret = decryptSecret(conn.signing_secret) ?? '';
+  if (!secret) {
+    throw new Error('Signing secret is missing. Connection may need to be reconfigured.');
+  }
+
+  const fetch = await getFetch();
+  const endpoint = conn.base_url;
+  const batchSize = conn.batch_size && conn.batch_size > 0 ? conn.batch_size : DEFAULT_HTTP_BATCH_SIZE;
+  // The endpoint has no lookup: SKUs it acknowledged before get update events, others create events.
+  // What it last acknowledged per SKU decides whether content or stock changed since.
+  const delivered = new Map((await DestinationSkuRepo.list(conn.id)).map(row => [row.sku, row]));
+  const queue: HttpEvent[] = [];
+  const failures: any[] = [];
+  const results: DeferredWriteResult[] = [];
+  let batches = 0;
+  log(`Destination: HTTP endpoint ${endpoint} (batches of ${batchSize}, ${delivered.size} SKU(s) delivered before)`);
+
+  // POST one batch; failures are kept for flush() so the job fails after the rest is delivered
+  async function send(events: HttpEvent[]) {
+    batches++;
+    const batch: HttpBatch = { connection_id: conn.id, batch_id: ulid(), sent_at: new Date().toISOString(), events };
+    const body = JSON.stringify(batch);
+    try {
+      await retryWithBackoff(async () => {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Feed-Hmac-Sha256': signHttpPayload(body, secret),
+            'X-Feed-Connection-Id': conn.id,
+            'X-Feed-Batch-Id': batch.batch_id
+          },
+          body
+        });
+        if (!response.ok) {
+          const errorText = await response.text().catch(() => '');
+          if (response.status === 429) log(`⚠️  Rate limited (429), retrying with backoff...`);
+          const error: any = new Error(`HTTP endpoint rejected batch ${batch.batch_id}: ${response.status}${errorText ? ` - ${errorText.slice(0, 500)}` : ''}`);
+          error.status = response.status;
+          error.response = response;
+          throw error;
+        }
+      }, {
+        maxRetries: 3,
+        baseDelay: 1000,
+        maxDelay: 30000,
+        backoffMultiplier: 2
+      });
+    } catch (error: any) {
+      failures.push(error);
+      log(`❌ Batch ${batch.batch_id} (${events.length} event(s)) not acknowledged: ${error?.message || error}`);
+      return;
+    }
+
+    // null: discontinued, so the SKU is no longer at the endpoint
+    const acknowledged = new Map<string, DeliveredSku | null>();
+    for (const event of events) {
+      if (event.type === 'discontinue') {
+        acknowledged.set(event.sku, null);
+        continue;
+      }
+      const previous = acknowledged.has(event.sku) ? acknowledged.get(event.sku) : delivered.get(event.sku);
+      const state = { ...(previous ?? { sku: event.sku, content_hash: null, stock: null }) };
+      if (event.type === 'create') {
+        state.content_hash = contentHash(updatePayload(event.item, conn.sync_price === 1));
+        state.stock = event.item.stock ?? null;
+        results.push({ sku: event.sku, ok: true, message: `Created in HTTP endpoint: ${event.item.title}` });
+      } else if (event.type === 'update') {
+        state.content_hash = contentHash(event.item);
+        results.push({ sku: event.sku, ok: true, message: 'Update delivered' });
+      } else {
+        state.stock = event.stock;
+        results.push({ sku: event.sku, ok: true, message: `Stock delivered -> ${event.stock}` });
+      }
+      acknowledged.set(event.sku, state);
+    }
+    const entries = Array.from(acknowledged.entries());
+    await DestinationSkuRepo.markDelivered(conn.id, entries.flatMap(([, state]) => (state ? [state] : [])));
+    await DestinationSkuRepo.forget(conn.id, entries.filter(([, state]) => !state).map(([sku]) => sku));
+    for (const [sku, state] of entries) {
+      if (state) delivered.set(sku, state);
+      else delivered.delete(sku);
+    }
+    log(`Batch ${batch.batch_id} acknowledged (${events.length} event(s))`);
+  }
+
+  async function enqueue(...events: HttpEvent[]) {
+    queue.push(...events);
+    while (queue.length >= batchSize) {
+      await send(queue.splice(0, batchSize));
+    }
+  }
+
+  // Events are reported by flush() once their batch is acknowledged
+  return {
+    name: 'HTTP endpoint',
+
+    async find(item) {
+      const state = delivered.get(item.sku);
+      if (!state) return null;
+      // Current price at the endpoint is unknown; stock is what it last acknowledged
+      return { variant: { id: item.sku, sku: item.sku, stock: state.stock, raw: null }, product: null };
+    },
+
+    async create(items) {
+      const first = items[0];
+      if (!first) return null;
+      await enqueue(...items.map(item => ({ type: 'create' as const, sku: item.sku, item })));
+      // Create events carry stock, so there is no separate stock event to push
+      return { product: { id: first.productId || first.sku, title: first.title, raw: null }, variants: new Map(), deferred: true };
+    },
+
+    async update(match, item, options) {
+      const content = updatePayload(item, options.syncPrice);
+      if (delivered.get(item.sku)?.content_hash === contentHash(content)) return [];
+      await enqueue({ type: 'update', sku: item.sku, item: content });
+      return [];
+    },
+
+    async setStock(match, item) {
+      if (item.stock == null || delivered.get(item.sku)?.stock === item.stock) return null;
+      await enqueue({ type: 'stock', sku: item.sku, stock: item.stock });
+      return null;
+    },
+
+    async archive(match) {
+      await enqueue({ type: 'discontinue', sku: match.variant.sku });
+    },
+
+    async flush() {
+      if (queue.length > 0) await send(queue.splice(0));
+      if (failures.length > 0) {
+        const last = failures[failures.length - 1];
+        const error: any = new Error(`${failures.length} of ${batches} batch(es) not acknowledged by ${endpoint}: ${last?.message || last}`);
+        error.status = last?.status;
+        throw error;
+      }
+      return results.splice(0);
+    }
+  };
+}
+
+export const httpDestination: DestinationDriver = {
+  logPrefix: 'http',
+  connect
+};
@@ -0,0 +1,31 @@
+/**
+ * Destination registry
+ * Adding a destination type: an adapter here, the type in CONNECTION_TYPES (db.ts) and
+ * the CHECK (type IN ...) lists of the PostgreSQL migrations.
+ */
+
+import type { ConnectionType } from '../db';
+import type { DestinationDriver } from './types';
+import { shopifyDestination } from './shopify';
+import { wooDestination } from './woocommerce';
+import { bigCommerceDestination } from './bigcommerce';
+import { magentoDestination } from './magento';
+import { httpDestination } from './http';
+import { fileDestination } from './file';
+
+export type { ContentChange, DeferredWriteResult, DestinationAdapter, DestinationDriver, DestinationMatch, DestinationProduct, DestinationVariant } from './types';
+
+export const destinationDrivers: Record<ConnectionType, DestinationDriver> = {
+  shopify: shopifyDestination,
+  woocommerce: wooDestination,
+  bigcommerce: bigCommerceDestination,
+  magento: magentoDestination,
+  http: httpDestination,
+  file: fileDestination
+};
+
+export function getDestinationDriver(type: string): DestinationDriver {
+  const driver = (destinationDrivers as Record<string, DestinationDriver | undefined>)[type];
+  if (!driver) throw new Error(`Unsupported destination type: ${type}`);
+  return driver;
+}
@@ -0,0 +1,347 @@
+/**
+ * Magento / Adobe Commerce destination
+ * REST API adapter (integration bearer token); stock goes to an MSI source.
+ */
+
+import { ConnectionRow } from '../db';
+import { retryWithBackoff, categorizeError, ErrorType } from '../utils/retry';
+import { decryptSecret } from '../utils/secrets';
+import { CatalogItem } from '../models/types';
+import type { DestinationAdapter, DestinationDriver, DestinationProduct, DestinationVariant } from './types';
+
+// Generic fetch function type compatible with both native fetch and node-fetch
+type FetchFn = (url: string, init?: { method?: string; headers?: Record<string, string>; body?: string }) => Promise<{ ok: boolean; status: number; json: () => Promise<any>; text: () => Promise<string>; headers: { get: (name: string) => string | null } }>;
+
+// Use Node.js built-in fetch (available in Node 18+)
+// Fallback to dynamic import of node-fetch if needed
+const getFetch = async (): Promise<FetchFn> => {
+  if (typeof globalThis.fetch !== 'undefined') {
+    return globalThis.fetch as unknown as FetchFn;
+  }
+  const nodeFetch = await import('node-fetch');
+  return nodeFetch.default as unknown as FetchFn;
+};
+
+// Default attribute set of a Magento install
+const DEFAULT_ATTRIBUTE_SET_ID = 4;
+const STATUS_ENABLED = 1;
+const STATUS_DISABLED = 2;
+const VISIBILITY_NOT_VISIBLE = 1;
+const VISIBILITY_CATALOG_SEARCH = 4;
+
+export const DEFAULT_MAGENTO_SOURCE_CODE = 'default';
+
+// REST root of a store; the "all" store scope saves product values globally instead of per store view
+export function magentoApiUrl(baseUrl: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/rest/all/V1`;
+}
+
+// Select attribute the variants of a configurable product are set up on (MAGENTO_VARIANT_ATTRIBUTE, default "color")
+function variantAttributeCode(): string {
+  return process.env.MAGENTO_VARIANT_ATTRIBUTE || 'color';
+}
+
+type MagentoClient = <T = any>(method: string, path: string, body?: unknown) => Promise<T>;
+
+// Magento error messages carry %1-style placeholders filled from "parameters"
+function magentoErrorMessage(text: string): string {
+  try {
+    const data = JSON.parse(text);
+    if (typeof data?.message === 'string') {
+      const params = data.parameters || [];
+      return data.message.replace(/%(\w+)/g, (placeholder: string, key: string) => {
+        const value = Array.isArray(params) ? params[Number(key) - 1] : params[key];
+        return value !== undefined ? String(value) : placeholder;
+      });
+    }
+  } catch {
+    // Not JSON, keep the raw body
+  }
+  return text;
+}
+
+// JSON request with retry on 429/5xx; errors carry status and response like the other integrations
+function createClient(fetch: FetchFn, api: string, accessToken: string, log: (m: string) => void): MagentoClient {
+  const headers = {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+    'Accept': 'application/json'
+  };
+  return (method, path, body) => retryWithBackoff(async () => {
+    const response = await fetch(`${api}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      if (response.status === 429) log(`⚠️  Rate limited (429), retrying with backoff...`);
+      const detail = errorText ? ` - ${magentoErrorMessage(errorText)}` : '';
+      const error: any = new Error(`Magento ${method} ${path.split('?')[0]} failed: ${response.status}${detail}`);
+      error.status = response.status;
+      error.response = response;
+      throw error;
+    }
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  }, {
+    maxRetries: 3,
+    baseDelay: 1000,
+    maxDelay: 30000,
+    backoffMultiplier: 2
+  });
+}
+
+function sku(value: string): string {
+  return encodeURIComponent(value);
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function toProduct(product: any): DestinationProduct {
+  return { id: String(product.id), title: product.name, raw: product };
+}
+
+// Salable stock lives in MSI source items, which the product payload doesn't report
+function toVariant(product: any): DestinationVariant {
+  return { id: String(product.id), sku: product.sku, price: product.price != null ? String(product.price) : null, stock: null, raw: product };
+}
+
+function samePrice(a: string | null | undefined, b: string): boolean {
+  return a != null && a !== '' && Number(a) === Number(b);
+}
+
+async function connect(conn: ConnectionRow, log: (m: string) => void): Promise<DestinationAdapter> {
+  if (!conn.base_url || !conn.access_token) throw new Error('Invalid Magento connection');
+  // Decrypt access token if encrypted (or use as-is if plain text)
+  const decryptedToken = decryptSecret(conn.access_token);
+  if (!decryptedToken) {
+    throw new Error('Access token is missing. Connection may need to be reconfigured.');
+  }
+
+  const mg = createClient(await getFetch(), magentoApiUrl(conn.base_url), decryptedToken, log);
+  const sourceCode = conn.dest_location_id || DEFAULT_MAGENTO_SOURCE_CODE;
+  const status = conn.product_status === 1 ? STATUS_ENABLED : STATUS_DISABLED;
+  const parentCache = new Map<string, any | null>();
+  let variantAttribute: any = null;
+  log(`Destination: Magento store ${conn.base_url} (source: ${sourceCode})`);
+
+  // Product by SKU, or null when the store doesn't have it
+  async function getProduct(productSku: string): Promise<any | null> {
+    try {
+      return await mg('GET', `/products/${sku(productSku)}`);
+    } catch (error: any) {
+      if (error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  // Configurable product a grouped item belongs to (its SKU is the source product handle)
+  async function findParent(parentSku: string): Promise<any | null> {
+    if (!parentCache.has(parentSku)) {
+      const product = await getProduct(parentSku);
+      parentCache.set(parentSku, product?.type_id === 'configurable' ? product : null);
+    }
+    return parentCache.get(parentSku)!;
+  }
+
+  // Option value of the variant attribute for a label, added to the attribute when missing
+  async function variantOptionValue(label: string): Promise<string> {
+    const code = variantAttributeCode();
+    if (!variantAttribute) {
+      variantAttribute = await mg('GET', `/products/attributes/${encodeURIComponent(code)}`);
+    }
+    const findOption = () => (variantAttribute.options || [])
+      .find((o: any) => o.value !== '' && String(o.label).toLowerCase() === label.toLowerCase());
+    let option = findOption();
+    if (!option) {
+      await mg('POST', `/products/attributes/${encodeURIComponent(code)}/options`, { option: { label } });
+      variantAttribute = await mg('GET', `/products/attributes/${encodeURIComponent(code)}`);
+      option = findOption();
+      if (!option) throw new Error(`Could not add option "${label}" to attribute ${code}`);
+      log(`Added ${code} option: ${label}`);
+    }
+    return String(option.value);
+  }
+
+  function customAttributes(item: CatalogItem, urlKey: string, extra: { attribute_code: string; value: string }[] = []) {
+    const attributes = [{ attribute_code: 'url_key', value: urlKey }, ...extra];
+    if (item.description) attributes.push({ attribute_code: 'description', value: item.description });
+    if (conn.sync_tags === 1 && item.tags && item.tags.length > 0) {
+      attributes.push({ attribute_code: 'meta_keyword', value: item.tags.join(',') });
+    }
+    return attributes;
+  }
+
+  function simplePayload(item: CatalogItem, name: string, visibility: number, extra: { attribute_code: string; value: string }[] = []) {
+    return {
+      sku: item.sku,
+      name,
+      attribute_set_id: DEFAULT_ATTRIBUTE_SET_ID,
+      type_id: 'simple',
+      price: Number(item.price),
+      status,
+      visibility,
+      weight: item.weight || 0,
+      custom_attributes: customAttributes(item, slugify(item.sku), extra)
+    };
+  }
+
+  // Simple product that sells as one variant of a configurable product
+  async function createChild(item: CatalogItem, baseTitle: string): Promise<any> {
+    const label = item.variantTitle || item.sku;
+    const value = await variantOptionValue(label);
+    return mg('POST', '/products', {
+      product: simplePayload(item, `${baseTitle} - ${label}`, VISIBILITY_NOT_VISIBLE, [{ attribute_code: variantAttributeCode(), value }])
+    });
+  }
+
+  return {
+    name: 'Magento',
+
+    async find(item) {
+      const product = await getProduct(item.sku);
+      if (!product) {
+        log(`No exact SKU match found in destination for: ${item.sku}`);
+        return null;
+      }
+      const parent = item.productHandle && item.productHandle !== item.sku ? await findParent(item.productHandle) : null;
+      return { variant: toVariant(product), product: toProduct(parent ?? product) };
+    },
+
+    async create(items) {
+      const first = items[0];
+      if (!first) return null;
+      // Get the base product title (without variant suffix)
+      const baseTitle = first.productHandle
+        ? first.title.replace(` - ${first.variantTitle}`, '').trim()
+        : first.title;
+      const hasOptions = items.length > 1 || (!!first.variantTitle && first.variantTitle !== 'Default Title');
+      log(`Creating product as ${status === STATUS_ENABLED ? 'enabled' : 'disabled'} (product_status: ${conn.product_status})`);
+
+      if (!hasOptions) {
+        const product: any = await mg('POST', '/products', {
+          product: simplePayload(first, baseTitle, VISIBILITY_CATALOG_SEARCH)
+        });
+        if (!product || !product.id) {
+          throw new Error('Product creation succeeded but response missing product data');
+        }
+        log(`Created new simple product: ${baseTitle}`);
+        return { product: toProduct(product), variants: new Map([[product.sku, toVariant(product)]]) };
+      }
+
+      // Configurable product: the parent first, then a hidden simple product per variant linked to it.
+      // A variant that fails takes the products created so far with it, so no orphan is left behind.
+      const values: number[] = [];
+      for (const item of items) {
+        values.push(Number(await variantOptionValue(item.variantTitle || item.sku)));
+      }
+      const attribute = variantAttribute;
+      const parentSku = first.productHandle || slugify(baseTitle);
+      const parent: any = await mg('POST', '/products', {
+        product: {
+          sku: parentSku,
+          name: baseTitle,
+          attribute_set_id: DEFAULT_ATTRIBUTE_SET_ID,
+          type_id: 'configurable',
+          status,
+          visibility: VISIBILITY_CATALOG_SEARCH,
+          custom_attributes: customAttributes(first, slugify(parentSku)),
+          extension_attributes: {
+            configurable_product_options: [{
+              attribute_id: String(attribute.attribute_id),
+              label: attribute.default_frontend_label || attribute.attribute_code,
+              position: 0,
+              values: values.map(value => ({ value_index: value }))
+            }]
+          }
+        }
+      });
+      if (!parent || !parent.id) {
+        throw new Error('Product creation succeeded but response missing product data');
+      }
+      const children: any[] = [];
+      try {
+        for (const item of items) {
+          const child = await createChild(item, baseTitle);
+          children.push(child);
+          await mg('POST', `/configurable-products/${sku(parentSku)}/child`, { childSku: child.sku });
+        }
+      } catch (error) {
+        log(`❌ Creating the variants of ${parentSku} failed, removing the ${children.length + 1} product(s) created so far`);
+        for (const product of [...children, parent]) {
+          await mg('DELETE', `/products/${sku(product.sku)}`)
+            .catch((e: any) => log(`⚠️  Could not remove ${product.sku}: ${e?.message || e}`));
+        }
+        throw error;
+      }
+      parentCache.set(parentSku, parent);
+      const variants = new Map<string, DestinationVariant>();
+      for (const child of children) {
+        variants.set(child.sku, toVariant(child));
+      }
+      log(`Created new configurable product with ${children.length} variant(s): ${baseTitle}`);
+      return { product: toProduct(parent), variants };
+    },
+
+    async addVariant(product, item) {
+      if (product.raw?.type_id !== 'configurable') {
+        log(`❌ Failed to add variant ${item.sku}: product ${product.raw?.sku} is not configurable`);
+        return null;
+      }
+      try {
+        const child: any = await createChild(item, product.title || item.title);
+        await mg('POST', `/configurable-products/${sku(product.raw.sku)}/child`, { childSku: child.sku });
+        log(`Added variant ${item.sku} to existing product`);
+        return toVariant(child);
+      } catch (error: any) {
+        const errorType = categorizeError(error.status || error.response?.status, error);
+        if (errorType === ErrorType.PERMANENT) {
+          log(`❌ Failed to add variant ${item.sku}: ${error.message || error}`);
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async update(match, item, options) {
+      const changes: string[] = [];
+      const desiredPrice = String(item.price ?? '');
+      if (options.syncPrice && desiredPrice && !samePrice(match.variant.price, desiredPrice)) {
+        await mg('PUT', `/products/${sku(match.variant.sku)}`, { product: { sku: match.variant.sku, price: Number(desiredPrice) } });
+        changes.push(`Price updated ${match.variant.price ?? ''} -> ${desiredPrice}`);
+      }
+      return changes;
+    },
+
+    async setStock(match, item) {
+      if (item.stock == null) return null;
+      const quantity = Math.max(0, Number(item.stock));
+      await mg('POST', '/inventory/source-items', {
+        sourceItems: [{ sku: match.variant.sku, source_code: sourceCode, quantity, status: quantity > 0 ? 1 : 0 }]
+      });
+      return `Stock set -> ${quantity}`;
+    },
+
+    // Disabled products stay in the admin with their history
+    async archive(match) {
+      await mg('PUT', `/products/${sku(match.variant.sku)}`, { product: { sku: match.variant.sku, status: STATUS_DISABLED } });
+    },
+
+    // Variants are simple products of their own: deleting one takes it out of its configurable product
+    async remove(match) {
+      try {
+        await mg('DELETE', `/products/${sku(match.variant.sku)}`);
+      } catch (error: any) {
+        if (error.status !== 404) throw error;
+      }
+    }
+  };
+}
+
+export const magentoDestination: DestinationDriver = {
+  logPrefix: 'magento',
+  connect
+};
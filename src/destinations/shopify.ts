@@ -0,0 +1,1057 @@
+/**
+ * Shopify destination
+ * REST Admin API adapter; metafields go through GraphQL metafieldsSet.
+ * Connections with use_graphql on get the GraphQL adapter (shopifyGraphql.ts) instead.
+ */
+
+import { AuditRepo, ConnectionRow } from '../db';
+import { getShopifyRateLimiter } from '../utils/rateLimiter';
+import { retryWithBackoff, categorizeError, ErrorType } from '../utils/retry';
+import { decryptSecret } from '../utils/secrets';
+import { CatalogItem, CollectionInfo } from '../models/types';
+import { contentImages } from '../models/contentFields';
+import type { DestinationAdapter, DestinationDriver, DestinationProduct, DestinationVariant } from './types';
+import { createShopifyGraphqlAdapter } from './shopifyGraphql';
+
+// Generic fetch function type compatible with both native fetch and node-fetch
+type FetchFn = (url: string, init?: { method?: string; headers?: Record<string, string>; body?: string }) => Promise<{ ok: boolean; status: number; json: () => Promise<any>; text: () => Promise<string>; headers: { get: (name: string) => string | null } }>;
+
+// Use Node.js built-in fetch (available in Node 18+)
+// Fallback to dynamic import of node-fetch if needed
+const getFetch = async (): Promise<FetchFn> => {
+  if (typeof globalThis.fetch !== 'undefined') {
+    return globalThis.fetch as unknown as FetchFn;
+  }
+  const nodeFetch = await import('node-fetch');
+  return nodeFetch.default as unknown as FetchFn;
+};
+
+/**
+ * Wrapper for Shopify API calls with rate limiting and retry logic
+ */
+async function shopifyApiCall<T>(
+  domain: string,
+  isInventory: boolean,
+  fn: () => Promise<T>,
+  log?: (m: string) => void
+): Promise<T> {
+  const rateLimiter = getShopifyRateLimiter();
+  
+  return retryWithBackoff(async () => {
+    try {
+      if (isInventory) {
+        return await rateLimiter.executeInventory(domain, fn);
+      } else {
+        return await rateLimiter.executeRest(domain, fn);
+      }
+    } catch (error: any) {
+      const status = error.status || error.response?.status;
+      const errorType = categorizeError(status, error);
+      
+      if (errorType === ErrorType.PERMANENT) {
+        // Don't retry permanent errors
+        throw error;
+      }
+      
+      // Log retry attempts
+      if (status === 429) {
+        log?.(`⚠️  Rate limited (429), retrying with backoff...`);
+      } else if (status && status >= 500) {
+        log?.(`⚠️  Server error (${status}), retrying...`);
+      }
+      
+      throw error;
+    }
+  }, {
+    maxRetries: 3,
+    baseDelay: 1000,
+    maxDelay: 30000,
+    backoffMultiplier: 2
+  });
+}
+
+// Helper to find product in destination by SKU only (strict matching)
+async function findProductInDestination(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  item: CatalogItem,
+  log?: (m: string) => void
+): Promise<{ variant: any; product: any } | null> {
+  // Only search by SKU - strict matching to avoid wrong product updates
+  const skuUrl = `https://${domain}/admin/api/${apiVersion}/variants.json?sku=${encodeURIComponent(item.sku)}`;
+  
+  try {
+    const skuRes = await shopifyApiCall(
+      domain,
+      false, // Variants API is REST, not inventory
+      async () => {
+        const response = await fetch(skuUrl, { headers });
+        if (!response.ok && response.status !== 404) {
+          const error: any = new Error(`HTTP ${response.status}`);
+          error.status = response.status;
+          error.response = response;
+          throw error;
+        }
+        return response;
+      },
+      log
+    );
+
+    if (skuRes.ok) {
+      const skuData: any = await skuRes.json();
+      if (skuData.variants && skuData.variants.length > 0) {
+        const v = skuData.variants[0];
+        // Verify the SKU matches exactly (Shopify search can be fuzzy)
+        if (v.sku === item.sku) {
+          log?.(`Found matching SKU in destination: ${item.sku}`);
+          // Fetch the full product
+          const prodUrl = `https://${domain}/admin/api/${apiVersion}/products/${v.product_id}.json`;
+          const prodRes = await shopifyApiCall(
+            domain,
+            false,
+            async () => {
+              const response = await fetch(prodUrl, { headers });
+              if (!response.ok) {
+                const error: any = new Error(`HTTP ${response.status}`);
+                error.status = response.status;
+                error.response = response;
+                throw error;
+              }
+              return response;
+            },
+            log
+          );
+          
+          if (prodRes.ok) {
+            const prodData: any = await prodRes.json();
+            return { variant: v, product: prodData.product };
+          }
+          return { variant: v, product: null };
+        } else {
+          log?.(`SKU search returned non-exact match: searched "${item.sku}", found "${v.sku}" - skipping`);
+        }
+      }
+    }
+  } catch (error: any) {
+    const status = error.status || error.response?.status;
+    const errorType = categorizeError(status, error);
+    
+    // 404 is expected when product doesn't exist - not an error
+    if (status === 404) {
+      log?.(`No exact SKU match found in destination for: ${item.sku}`);
+      return null;
+    }
+    
+    // Permanent errors - don't retry
+    if (errorType === ErrorType.PERMANENT) {
+      log?.(`❌ Permanent error finding product: ${error.message || error}`);
+      return null;
+    }
+    
+    // Transient errors are already retried by shopifyApiCall
+    log?.(`⚠️  Error finding product (will retry): ${error.message || error}`);
+    throw error; // Re-throw to trigger retry
+  }
+
+  // SKU not found - log this for debugging
+  log?.(`No exact SKU match found in destination for: ${item.sku}`);
+  return null;
+}
+
+// Helper to find product by title to prevent duplicates
+async function findProductByTitle(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  title: string,
+  log?: (m: string) => void
+): Promise<{ product: any; variants: any[] } | null> {
+  try {
+    // Search for products by title (Shopify API supports title search)
+    const searchUrl = `https://${domain}/admin/api/${apiVersion}/products.json?title=${encodeURIComponent(title)}&limit=10`;
+    
+    const searchRes = await shopifyApiCall(
+      domain,
+      false, // Product search is REST API
+      async () => {
+        const response = await fetch(searchUrl, { headers });
+        if (!response.ok && response.status !== 404) {
+          const error: any = new Error(`HTTP ${response.status}`);
+          error.status = response.status;
+          error.response = response;
+          throw error;
+        }
+        return response;
+      },
+      log
+    );
+    
+    if (searchRes.ok) {
+      const searchData: any = await searchRes.json();
+      const products = searchData.products || [];
+      
+      // Find exact title match (case-insensitive)
+      const exactMatch = products.find((p: any) => 
+        p.title.toLowerCase().trim() === title.toLowerCase().trim()
+      );
+      
+      if (exactMatch) {
+        log?.(`Found existing product by title: "${title}" (ID: ${exactMatch.id})`);
+        return {
+          product: exactMatch,
+          variants: exactMatch.variants || []
+        };
+      }
+    }
+  } catch (e: any) {
+    const status = e.status || e.response?.status;
+    const errorType = categorizeError(status, e);
+    
+    // 404 is expected when product doesn't exist - not an error
+    if (status === 404) {
+      return null;
+    }
+    
+    // Permanent errors - don't retry, just log
+    if (errorType === ErrorType.PERMANENT) {
+      log?.(`❌ Permanent error searching for product by title: ${e?.message || e}`);
+      return null;
+    }
+    
+    // Transient errors are already retried by shopifyApiCall
+    log?.(`⚠️  Error searching for product by title (will retry): ${e?.message || e}`);
+    throw e; // Re-throw to trigger retry
+  }
+  
+  return null;
+}
+
+// Cache for destination collections (title -> collection data)
+const destCollectionCache = new Map<string, { id: string; title: string; handle: string; collection_type: 'smart' | 'custom' }>();
+
+// Helper to find or create a collection in destination with proper type and rules
+async function findOrCreateCollection(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  sourceCollection: CollectionInfo,
+  log: (m: string) => void
+): Promise<{ id: string; title: string; handle: string; collection_type: 'smart' | 'custom' } | null> {
+  const cacheKey = sourceCollection.title;
+  
+  // Check cache first
+  if (destCollectionCache.has(cacheKey)) {
+    return destCollectionCache.get(cacheKey)!;
+  }
+
+  try {
+    // First check if smart collection exists with same title
+    if (sourceCollection.collection_type === 'smart') {
+      const smartSearchUrl = `https://${domain}/admin/api/${apiVersion}/smart_collections.json?title=${encodeURIComponent(sourceCollection.title)}`;
+      const smartSearchRes = await fetch(smartSearchUrl, { headers });
+      
+      if (smartSearchRes.ok) {
+        const smartData: any = await smartSearchRes.json();
+        const smartCollections = smartData.smart_collections || [];
+        const existingSmart = smartCollections.find((c: any) => c.title.toLowerCase() === sourceCollection.title.toLowerCase());
+        
+        if (existingSmart) {
+          const result = { id: String(existingSmart.id), title: existingSmart.title, handle: existingSmart.handle, collection_type: 'smart' as const };
+          destCollectionCache.set(cacheKey, result);
+          log(`Found existing smart collection: ${sourceCollection.title}`);
+          return result;
+        }
+      }
+      
+      // Create smart collection with rules
+      const createSmartUrl = `https://${domain}/admin/api/${apiVersion}/smart_collections.json`;
+      const smartPayload: any = {
+        smart_collection: {
+          title: sourceCollection.title,
+          body_html: sourceCollection.body_html || '',
+          published: true,
+          disjunctive: sourceCollection.disjunctive || false,
+          rules: sourceCollection.rules || []
+        }
+      };
+      
+      // Add sort order if specified
+      if (sourceCollection.sort_order) {
+        smartPayload.smart_collection.sort_order = sourceCollection.sort_order;
+      }
+      
+      const createSmartRes = await fetch(createSmartUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(smartPayload)
+      });
+      
+      if (createSmartRes.ok) {
+        const createData: any = await createSmartRes.json();
+        const newColl = createData.smart_collection;
+        if (newColl) {
+          const result = { id: String(newColl.id), title: newColl.title, handle: newColl.handle, collection_type: 'smart' as const };
+          destCollectionCache.set(cacheKey, result);
+          log(`Created smart collection with ${sourceCollection.rules?.length || 0} rule(s): ${sourceCollection.title}`);
+          return result;
+        }
+      } else {
+        const errorText = await createSmartRes.text();
+        log(`Failed to create smart collection "${sourceCollection.title}": ${createSmartRes.status} - ${errorText}`);
+        // Fall through to try creating as custom collection
+      }
+    }
+    
+    // Search for existing custom collection by title
+    const searchUrl = `https://${domain}/admin/api/${apiVersion}/custom_collections.json?title=${encodeURIComponent(sourceCollection.title)}`;
+    const searchRes = await fetch(searchUrl, { headers });
+    
+    if (searchRes.ok) {
+      const searchData: any = await searchRes.json();
+      const collections = searchData.custom_collections || [];
+      
+      // Find exact match
+      const existing = collections.find((c: any) => c.title.toLowerCase() === sourceCollection.title.toLowerCase());
+      if (existing) {
+        const result = { id: String(existing.id), title: existing.title, handle: existing.handle, collection_type: 'custom' as const };
+        destCollectionCache.set(cacheKey, result);
+        log(`Found existing custom collection: ${sourceCollection.title}`);
+        return result;
+      }
+    }
+
+    // Collection doesn't exist, create as custom collection
+    const createUrl = `https://${domain}/admin/api/${apiVersion}/custom_collections.json`;
+    const customPayload: any = {
+      custom_collection: {
+        title: sourceCollection.title,
+        body_html: sourceCollection.body_html || '',
+        published: true
+      }
+    };
+    
+    // Add sort order if specified
+    if (sourceCollection.sort_order) {
+      customPayload.custom_collection.sort_order = sourceCollection.sort_order;
+    }
+    
+    const createRes = await fetch(createUrl, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(customPayload)
+    });
+
+    if (createRes.ok) {
+      const createData: any = await createRes.json();
+      const newColl = createData.custom_collection;
+      if (newColl) {
+        const result = { id: String(newColl.id), title: newColl.title, handle: newColl.handle, collection_type: 'custom' as const };
+        destCollectionCache.set(cacheKey, result);
+        log(`Created custom collection: ${sourceCollection.title}`);
+        return result;
+      }
+    } else {
+      const errorText = await createRes.text();
+      log(`Failed to create custom collection "${sourceCollection.title}": ${createRes.status} - ${errorText}`);
+    }
+  } catch (e: any) {
+    log(`Error with collection "${sourceCollection.title}": ${e?.message || e}`);
+  }
+
+  return null;
+}
+
+// Helper to add a product to a collection
+async function addProductToCollection(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  productId: string,
+  collectionId: string,
+  log: (m: string) => void
+): Promise<boolean> {
+  try {
+    const url = `https://${domain}/admin/api/${apiVersion}/collects.json`;
+    
+    // Use rate limiter for collection operations
+    const res = await shopifyApiCall(
+      domain,
+      false, // Collection operations are REST API
+      async () => {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            collect: {
+              product_id: Number(productId),
+              collection_id: Number(collectionId)
+            }
+          })
+        });
+        
+        if (!response.ok && response.status !== 422) {
+          // 422 might be "already exists" which is OK
+          const error: any = new Error(`HTTP ${response.status}`);
+          error.status = response.status;
+          error.response = response;
+          throw error;
+        }
+        
+        return response;
+      },
+      log
+    );
+
+    if (res.ok) {
+      return true;
+    } else {
+      const errorText = await res.text();
+      // Ignore "already exists" errors
+      if (!errorText.includes('already exists')) {
+        log(`Failed to add product to collection: ${res.status} - ${errorText}`);
+      }
+    }
+  } catch (e: any) {
+    log(`Error adding product to collection: ${e?.message || e}`);
+  }
+  return false;
+}
+
+// Base product title (without variant suffix)
+function productTitle(item: CatalogItem): string {
+  return item.productHandle ? item.title.replace(` - ${item.variantTitle}`, '').trim() : item.title;
+}
+
+// Helper to create a new product in Shopify destination with multiple variants
+async function createProductInShopify(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  items: CatalogItem[], // Array of variants for the same product
+  conn: ConnectionRow,
+  log: (m: string) => void
+): Promise<{ variants: Map<string, any>; product: any } | null> {
+  const shouldSyncCategories = conn.sync_categories === 1;
+  const shouldSyncTags = conn.sync_tags === 1;
+  const firstItem = items[0];
+  if (!firstItem) {
+    log('No items to create product');
+    return null;
+  }
+  
+  const baseTitle = productTitle(firstItem);
+  
+  // Build variants array
+  const variants = items.map((item, index) => ({
+    sku: item.sku,
+    barcode: item.barcode || '',
+    price: item.price,
+    compare_at_price: item.compareAtPrice || null,
+    inventory_management: 'shopify',
+    inventory_policy: 'deny',
+    weight: item.weight || 0,
+    weight_unit: item.weightUnit || 'kg',
+    option1: item.variantTitle || 'Default Title',
+    position: index + 1,
+  }));
+
+  // Determine option name from variant titles
+  const hasVariants = items.length > 1 || (items[0].variantTitle && items[0].variantTitle !== 'Default Title');
+  
+  // Determine product status: 'active' if product_status is 1, otherwise 'draft'
+  const productStatus = conn.product_status === 1 ? 'active' : 'draft';
+  log(`Creating product as ${productStatus} (product_status: ${conn.product_status})`);
+  
+  // Build the product payload; only include tags when sync_tags is enabled
+  const productPayload: any = {
+    product: {
+      title: baseTitle,
+      body_html: firstItem.description || '',
+      vendor: firstItem.vendor || '',
+      product_type: shouldSyncCategories ? (firstItem.category || '') : '',
+      tags: shouldSyncTags ? (firstItem.tags?.join(', ') || '') : '',
+      status: productStatus,
+      variants: variants
+    }
+  };
+
+  // Add options if there are multiple variants
+  if (hasVariants) {
+    productPayload.product.options = [{ name: 'Option', values: items.map(i => i.variantTitle || 'Default Title') }];
+  }
+
+  // Add images if available (from first item, as they're usually shared)
+  if (firstItem.images && firstItem.images.length > 0) {
+    productPayload.product.images = firstItem.images.map(src => ({ src }));
+  } else if (firstItem.imageUrl) {
+    productPayload.product.images = [{ src: firstItem.imageUrl }];
+  }
+
+  const createUrl = `https://${domain}/admin/api/${apiVersion}/products.json`;
+  const createRes = await fetch(createUrl, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(productPayload)
+  });
+
+  if (!createRes.ok) {
+    const errorText = await createRes.text();
+    log(`❌ Shopify API error ${createRes.status}: ${errorText}`);
+    throw new Error(`Failed to create product: ${createRes.status} - ${errorText}`);
+  }
+
+  const createData: any = await createRes.json();
+  const newProduct = createData.product;
+  
+  if (!newProduct || !newProduct.id) {
+    log(`❌ Invalid product creation response: ${JSON.stringify(createData).substring(0, 200)}`);
+    throw new Error(`Product creation succeeded but response missing product data`);
+  }
+  
+  // Map SKUs to created variants
+  const variantMap = new Map<string, any>();
+  for (const v of newProduct.variants || []) {
+    if (v.sku) {
+      variantMap.set(v.sku, v);
+    }
+  }
+  
+  if (variantMap.size === 0) {
+    log(`⚠️  Warning: Product created but no variants with SKUs found in response`);
+  }
+
+  log(`Created new product with ${items.length} variant(s): ${baseTitle}`);
+  return { variants: variantMap, product: newProduct };
+}
+
+// Helper to add a variant to an existing product
+async function addVariantToProduct(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  productId: string,
+  item: CatalogItem,
+  log: (m: string) => void
+): Promise<any | null> {
+  const variantPayload = {
+    variant: {
+      sku: item.sku,
+      barcode: item.barcode || '',
+      price: item.price,
+      compare_at_price: item.compareAtPrice || null,
+      inventory_management: 'shopify',
+      inventory_policy: 'deny',
+      weight: item.weight || 0,
+      weight_unit: item.weightUnit || 'kg',
+      option1: item.variantTitle || 'Default Title',
+    }
+  };
+
+  const addUrl = `https://${domain}/admin/api/${apiVersion}/products/${productId}/variants.json`;
+  
+  // Use rate limiter for variant addition
+  try {
+    const addRes = await shopifyApiCall(
+      domain,
+      false, // Variant addition is REST API
+      async () => {
+        const response = await fetch(addUrl, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(variantPayload)
+        });
+        
+        if (!response.ok) {
+          const errorText = await response.text();
+          const error: any = new Error(`Failed to add variant: ${response.status} - ${errorText}`);
+          error.status = response.status;
+          error.response = response;
+          throw error;
+        }
+        
+        return response;
+      },
+      log
+    );
+
+    const addData: any = await addRes.json();
+    log(`Added variant ${item.sku} to existing product`);
+    return addData.variant;
+  } catch (error: any) {
+    const errorType = categorizeError(error.status || error.response?.status, error);
+    if (errorType === ErrorType.PERMANENT) {
+      log(`❌ Failed to add variant ${item.sku}: ${error.message || error}`);
+      return null;
+    }
+    // Transient errors are already retried by shopifyApiCall
+    throw error;
+  }
+}
+
+// metafieldsSet accepts at most 25 metafields per call
+const METAFIELDS_SET_BATCH = 25;
+
+/**
+ * Write the (mapped) source metafields of a product group to the destination
+ * metafieldsSet upserts by owner/namespace/key, so repeated syncs do not duplicate them.
+ */
+async function setShopifyMetafields(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  productId: string,
+  variants: { item: CatalogItem; variant: any }[],
+  conn: ConnectionRow,
+  log: (m: string) => void
+) {
+  const inputs: { ownerId: string; namespace: string; key: string; type: string; value: string }[] = [];
+  const productFields = (variants[0]?.item.metafields ?? []).filter(m => m.owner === 'product');
+  for (const m of productFields) {
+    inputs.push({ ownerId: `gid://shopify/Product/${productId}`, namespace: m.namespace, key: m.key, type: m.type, value: m.value });
+  }
+  for (const { item, variant } of variants) {
+    for (const m of item.metafields ?? []) {
+      if (m.owner !== 'variant') continue;
+      inputs.push({ ownerId: `gid://shopify/ProductVariant/${variant.id}`, namespace: m.namespace, key: m.key, type: m.type, value: m.value });
+    }
+  }
+  // Shopify metafields need a namespace; un-namespaced mappings only apply to WooCommerce
+  const valid = inputs.filter(m => m.namespace);
+  if (valid.length === 0) return;
+
+  const mutation = `mutation SetMetafields($metafields: [MetafieldsSetInput!]!) {
+  metafieldsSet(metafields: $metafields) {
+    userErrors { field message }
+  }
+}`;
+  const url = `https://${domain}/admin/api/${apiVersion}/graphql.json`;
+  for (let i = 0; i < valid.length; i += METAFIELDS_SET_BATCH) {
+    const batch = valid.slice(i, i + METAFIELDS_SET_BATCH);
+    try {
+      const res = await shopifyApiCall(
+        domain,
+        false,
+        async () => {
+          const response = await fetch(url, { method: 'POST', headers, body: JSON.stringify({ query: mutation, variables: { metafields: batch } }) });
+          if (!response.ok) {
+            const error: any = new Error(`Failed to set metafields: ${response.status}`);
+            error.status = response.status;
+            error.response = response;
+            throw error;
+          }
+          return response;
+        },
+        log
+      );
+      const data: any = await res.json();
+      const userErrors = data?.data?.metafieldsSet?.userErrors || [];
+      const errors = data?.errors ? [JSON.stringify(data.errors)] : userErrors.map((e: any) => e.message);
+      if (errors.length > 0) {
+        const msg = `Failed to set metafields: ${errors.join('; ')}`;
+        log(`❌ ${msg} (product ${productId})`);
+        await AuditRepo.write({ level: 'error', connection_id: conn.id, sku: variants[0]?.item.sku, message: msg });
+      } else {
+        log(`Set ${batch.length} metafield(s) on product ${productId}`);
+      }
+    } catch (error: any) {
+      const errorType = categorizeError(error.status || error.response?.status, error);
+      if (errorType !== ErrorType.PERMANENT) throw error;
+      log(`❌ Failed to set metafields on product ${productId}: ${error.message || error}`);
+      await AuditRepo.write({ level: 'error', connection_id: conn.id, sku: variants[0]?.item.sku, message: `Failed to set metafields: ${error.message || error}` });
+    }
+  }
+}
+
+// Helper to update a variant's price
+async function updateVariantPrice(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  variantId: string,
+  price: string,
+  log: (m: string) => void
+) {
+  const upUrl = `https://${domain}/admin/api/${apiVersion}/variants/${variantId}.json`;
+  await shopifyApiCall(
+    domain,
+    false, // Variant updates are REST API
+    async () => {
+      const response = await fetch(upUrl, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ variant: { id: variantId, price } })
+      });
+
+      if (!response.ok) {
+        const error: any = new Error(`Failed to update price: ${response.status}`);
+        error.status = response.status;
+        error.response = response;
+        throw error;
+      }
+
+      return response;
+    },
+    log
+  );
+}
+
+// Helper to update product or variant fields (PUT of a partial product/variant)
+async function updateShopifyRecord(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  path: string,
+  body: any,
+  log: (m: string) => void
+) {
+  const upUrl = `https://${domain}/admin/api/${apiVersion}/${path}`;
+  await shopifyApiCall(
+    domain,
+    false,
+    async () => {
+      const response = await fetch(upUrl, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify(body)
+      });
+
+      if (!response.ok) {
+        const error: any = new Error(`Failed to update ${path}: ${response.status}`);
+        error.status = response.status;
+        error.response = response;
+        throw error;
+      }
+
+      return response;
+    },
+    log
+  );
+}
+
+// Helper to set a variant's available quantity at the destination location
+async function setInventoryLevel(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  locationId: string,
+  inventoryItemId: string,
+  available: number,
+  log: (m: string) => void
+) {
+  const invUrl = `https://${domain}/admin/api/${apiVersion}/inventory_levels/set.json`;
+  await shopifyApiCall(
+    domain,
+    true, // Inventory API has stricter rate limits (2 req/sec)
+    async () => {
+      const response = await fetch(invUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          location_id: Number(locationId),
+          inventory_item_id: Number(inventoryItemId),
+          available
+        })
+      });
+
+      if (!response.ok) {
+        const error: any = new Error(`Failed to update inventory: ${response.status}`);
+        error.status = response.status;
+        error.response = response;
+        throw error;
+      }
+
+      return response;
+    },
+    log
+  );
+}
+
+// Helper to change a product's status: archived (kept in Shopify, hidden from all sales channels), draft or active
+async function setProductStatus(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  productId: string,
+  status: 'archived' | 'draft' | 'active',
+  log: (m: string) => void
+) {
+  const url = `https://${domain}/admin/api/${apiVersion}/products/${productId}.json`;
+  await shopifyApiCall(
+    domain,
+    false,
+    async () => {
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ product: { id: Number(productId), status } })
+      });
+
+      if (!response.ok) {
+        const error: any = new Error(`Failed to set product status to ${status}: ${response.status}`);
+        error.status = response.status;
+        error.response = response;
+        throw error;
+      }
+
+      return response;
+    },
+    log
+  );
+}
+
+// Helper to delete a product, or one of its variants; already gone counts as deleted
+async function deleteFromShopify(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  path: string,
+  log: (m: string) => void
+) {
+  const url = `https://${domain}/admin/api/${apiVersion}/${path}`;
+  await shopifyApiCall(
+    domain,
+    false,
+    async () => {
+      const response = await fetch(url, { method: 'DELETE', headers });
+
+      if (!response.ok && response.status !== 404) {
+        const error: any = new Error(`Failed to delete ${path}: ${response.status}`);
+        error.status = response.status;
+        error.response = response;
+        throw error;
+      }
+
+      return response;
+    },
+    log
+  );
+}
+
+// Variant count of a product; a product always has at least one
+async function countVariants(
+  fetch: FetchFn,
+  headers: Record<string, string>,
+  domain: string,
+  apiVersion: string,
+  productId: string,
+  log: (m: string) => void
+): Promise<number> {
+  const url = `https://${domain}/admin/api/${apiVersion}/products/${productId}.json?fields=id,variants`;
+  const response = await shopifyApiCall(
+    domain,
+    false,
+    async () => {
+      const res = await fetch(url, { headers });
+      if (!res.ok) {
+        const error: any = new Error(`Failed to fetch product: ${res.status}`);
+        error.status = res.status;
+        error.response = res;
+        throw error;
+      }
+      return res;
+    },
+    log
+  );
+  const data: any = await response.json();
+  return data?.product?.variants?.length ?? 1;
+}
+
+function toProduct(product: any): DestinationProduct {
+  return { id: String(product.id), title: product.title, raw: product };
+}
+
+// Shopify's inventory_quantity sums all locations, so stock is left unknown
+function toVariant(variant: any): DestinationVariant {
+  return { id: String(variant.id), sku: variant.sku, price: variant.price != null ? String(variant.price) : null, raw: variant };
+}
+
+function toCreated(created: { variants: Map<string, any>; product: any }) {
+  const variants = new Map<string, DestinationVariant>();
+  for (const [sku, v] of created.variants) variants.set(sku, toVariant(v));
+  return { product: toProduct(created.product), variants };
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+async function connect(conn: ConnectionRow, log: (m: string) => void): Promise<DestinationAdapter> {
+  if (!conn.dest_shop_domain || !conn.access_token) throw new Error('Invalid Shopify connection');
+  // Decrypt access token if encrypted (or use as-is if plain text)
+  const decryptedToken = decryptSecret(conn.access_token);
+  if (!decryptedToken) {
+    throw new Error('Access token is missing. Connection may need to be reconfigured.');
+  }
+
+  const fetch = await getFetch();
+  const domain = conn.dest_shop_domain;
+  const headers = {
+    'X-Shopify-Access-Token': decryptedToken,
+    'Content-Type': 'application/json'
+  };
+  const apiVersion = process.env.DEST_API_VERSION || '2024-10';
+
+  const rest: DestinationAdapter = {
+    name: 'Shopify',
+
+    async find(item) {
+      const found = await findProductInDestination(fetch, headers, domain, apiVersion, item, log);
+      await sleep(100); // Small delay between lookups
+      if (!found) return null;
+      return { variant: toVariant(found.variant), product: found.product ? toProduct(found.product) : null };
+    },
+
+    async findByTitle(title) {
+      const found = await findProductByTitle(fetch, headers, domain, apiVersion, title, log);
+      if (!found || !found.product) return null;
+      return { product: toProduct(found.product), variants: found.variants.map(toVariant) };
+    },
+
+    async create(items) {
+      const created = await createProductInShopify(fetch, headers, domain, apiVersion, items, conn, log);
+      await sleep(500); // Longer delay after product creation
+      return created && created.product ? toCreated(created) : null;
+    },
+
+    async addVariant(product, item) {
+      const variant = await addVariantToProduct(fetch, headers, domain, apiVersion, product.id, item, log);
+      await sleep(250); // Rate limit: 250ms between variant additions
+      return variant ? toVariant(variant) : null;
+    },
+
+    async update(match, item, options) {
+      const changes: string[] = [];
+      const currentPrice = String(match.variant.price ?? '');
+      const desiredPrice = String(item.price ?? '');
+      if (options.syncPrice && desiredPrice && desiredPrice !== currentPrice) {
+        await updateVariantPrice(fetch, headers, domain, apiVersion, match.variant.id, desiredPrice, log);
+        changes.push(`Price updated ${currentPrice} -> ${desiredPrice}`);
+      }
+      return changes;
+    },
+
+    async setStock(match, item) {
+      // Stock is only pushed when a destination location is configured
+      const inventoryItemId = match.variant.raw?.inventory_item_id;
+      if (!conn.dest_location_id || inventoryItemId == null || item.stock == null) return null;
+      await setInventoryLevel(fetch, headers, domain, apiVersion, conn.dest_location_id, String(inventoryItemId), Number(item.stock), log);
+      await sleep(200);
+      return `Stock set -> ${item.stock}`;
+    },
+
+    async archive(match) {
+      const productId = match.product?.id ?? match.variant.raw?.product_id;
+      if (productId == null) return;
+      await setProductStatus(fetch, headers, domain, apiVersion, String(productId), 'archived', log);
+    },
+
+    async unpublish(match) {
+      const productId = match.product?.id ?? match.variant.raw?.product_id;
+      if (productId == null) return;
+      await setProductStatus(fetch, headers, domain, apiVersion, String(productId), 'draft', log);
+    },
+
+    // The last variant of a product cannot be deleted on its own, so the product goes with it
+    async remove(match) {
+      const productId = match.product?.id ?? match.variant.raw?.product_id;
+      if (productId == null) return;
+      const variants = Array.isArray(match.product?.raw?.variants)
+        ? match.product!.raw.variants.length
+        : await countVariants(fetch, headers, domain, apiVersion, String(productId), log);
+      const path = variants > 1 ? `products/${productId}/variants/${match.variant.id}.json` : `products/${productId}.json`;
+      await deleteFromShopify(fetch, headers, domain, apiVersion, path, log);
+    },
+
+    // Shopify cannot hide a product from the catalog only, so both modes draft it; a restocked
+    // product goes back to active only when the connection creates active products
+    async setSoldOut(product, soldOut) {
+      const status = product.raw?.status;
+      const target = soldOut ? (status === 'active' ? 'draft' : null) : (status === 'draft' && conn.product_status === 1 ? 'active' : null);
+      if (!target) return null;
+      await setProductStatus(fetch, headers, domain, apiVersion, product.id, target, log);
+      product.raw.status = target;
+      return soldOut ? 'Set to draft (sold out)' : 'Set to active (back in stock)';
+    },
+
+    // Product fields come from the first variant that changed one, in a single product update
+    async updateContent(product, changes) {
+      const applied: { sku: string; message: string }[] = [];
+      const productChange = changes.find(c => c.fields.some(f => f !== 'weight'));
+      if (productChange) {
+        const { item, fields } = productChange;
+        const body: any = { id: Number(product.id) };
+        const messages: string[] = [];
+        if (fields.includes('title')) {
+          body.title = productTitle(item);
+          messages.push(`Title updated -> ${body.title}`);
+        }
+        if (fields.includes('description')) {
+          body.body_html = item.description || '';
+          messages.push('Description updated');
+        }
+        if (fields.includes('vendor')) {
+          body.vendor = item.vendor || '';
+          messages.push(`Vendor updated -> ${body.vendor}`);
+        }
+        if (fields.includes('images')) {
+          const images = contentImages(item);
+          body.images = images.map(src => ({ src }));
+          messages.push(images.length > 0 ? `Images updated (${images.length})` : 'Images removed');
+        }
+        await updateShopifyRecord(fetch, headers, domain, apiVersion, `products/${product.id}.json`, { product: body }, log);
+        applied.push(...messages.map(message => ({ sku: item.sku, message })));
+      }
+      for (const { item, variant, fields } of changes) {
+        if (!fields.includes('weight')) continue;
+        const weight = { weight: item.weight ?? 0, weight_unit: item.weightUnit || 'kg' };
+        await updateShopifyRecord(fetch, headers, domain, apiVersion, `variants/${variant.id}.json`, { variant: { id: Number(variant.id), ...weight } }, log);
+        applied.push({ sku: item.sku, message: `Weight updated -> ${weight.weight} ${weight.weight_unit}` });
+        await sleep(100);
+      }
+      return applied;
+    },
+
+    async setMetafields(product, variants) {
+      await setShopifyMetafields(fetch, headers, domain, apiVersion, product.id, variants, conn, log);
+    },
+
+    async syncCollections(product, collections) {
+      log(`Syncing ${collections.length} collection(s) for product ${product.id}`);
+      for (const sourceCollection of collections) {
+        // Find or create the collection in destination (with same type and rules)
+        const destCollection = await findOrCreateCollection(fetch, headers, domain, apiVersion, sourceCollection, log);
+        if (destCollection) {
+          // Only add to custom collections manually - smart collections auto-include products based on rules
+          if (destCollection.collection_type === 'custom') {
+            await addProductToCollection(fetch, headers, domain, apiVersion, product.id, destCollection.id, log);
+          } else {
+            log(`Product will be auto-added to smart collection "${destCollection.title}" based on rules`);
+          }
+        }
+        await sleep(100);
+      }
+    }
+  };
+
+  if (conn.use_graphql === 1) {
+    return createShopifyGraphqlAdapter(conn, decryptedToken, apiVersion, rest, log);
+  }
+  log(`Destination: ${domain}, Location ID: ${conn.dest_location_id}`);
+  return rest;
+}
+
+export const shopifyDestination: DestinationDriver = {
+  logPrefix: 'shopify',
+  connect
+};
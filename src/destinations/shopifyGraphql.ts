@@ -0,0 +1,424 @@
+/**
+ * Shopify destination (GraphQL Admin API)
+ * Batched SKU lookups, productSet creates, productVariantsBulkUpdate prices and
+ * inventorySetQuantities stock, throttled on the query cost Shopify reports.
+ * Metafields and collections go through the REST adapter.
+ */
+
+import { ConnectionRow } from '../db';
+import { getGraphqlCostLimiter } from '../utils/rateLimiter';
+import { retryWithBackoff } from '../utils/retry';
+import { CatalogItem } from '../models/types';
+import type { CreatedProduct, DeferredWriteResult, DestinationAdapter, DestinationProduct, DestinationVariant } from './types';
+
+// Generic fetch function type compatible with both native fetch and node-fetch
+type FetchFn = (url: string, init?: { method?: string; headers?: Record<string, string>; body?: string }) => Promise<{ ok: boolean; status: number; json: () => Promise<any>; text: () => Promise<string>; headers: { get: (name: string) => string | null } }>;
+
+// Use Node.js built-in fetch (available in Node 18+)
+// Fallback to dynamic import of node-fetch if needed
+const getFetch = async (): Promise<FetchFn> => {
+  if (typeof globalThis.fetch !== 'undefined') {
+    return globalThis.fetch as unknown as FetchFn;
+  }
+  const nodeFetch = await import('node-fetch');
+  return nodeFetch.default as unknown as FetchFn;
+};
+
+const LOOKUP_BATCH = 25; // SKUs per productVariants search
+const LOOKUP_PAGE = 100; // Variants returned per search (SKU search can match more than the exact SKU)
+const PRICE_BATCH = 100; // Variants per productVariantsBulkUpdate
+const INVENTORY_BATCH = 250; // Quantities per inventorySetQuantities
+const MAX_THROTTLED_RETRIES = 5;
+const DEFAULT_QUERY_COST = 50; // Estimate until Shopify reports a query's requestedQueryCost
+
+const VARIANT_FIELDS = 'id sku price inventoryItem { id }';
+const PRODUCT_FIELDS = 'id title status options { name }';
+
+const FIND_VARIANTS = `query FindVariants($query: String!, $first: Int!) {
+  productVariants(first: $first, query: $query) {
+    nodes { ${VARIANT_FIELDS} product { ${PRODUCT_FIELDS} } }
+  }
+}`;
+
+const FIND_PRODUCTS_BY_TITLE = `query FindProductsByTitle($query: String!) {
+  products(first: 10, query: $query) {
+    nodes { ${PRODUCT_FIELDS} variants(first: 100) { nodes { ${VARIANT_FIELDS} } } }
+  }
+}`;
+
+const PRODUCT_SET = `mutation ProductSet($input: ProductSetInput!) {
+  productSet(synchronous: true, input: $input) {
+    product { ${PRODUCT_FIELDS} variants(first: 250) { nodes { ${VARIANT_FIELDS} } } }
+    userErrors { field message }
+  }
+}`;
+
+const VARIANTS_BULK_CREATE = `mutation AddVariants($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+  productVariantsBulkCreate(productId: $productId, variants: $variants) {
+    productVariants { ${VARIANT_FIELDS} }
+    userErrors { field message }
+  }
+}`;
+
+const VARIANTS_BULK_UPDATE = `mutation UpdateVariants($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+  productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+    userErrors { field message }
+  }
+}`;
+
+const INVENTORY_SET_QUANTITIES = `mutation SetQuantities($input: InventorySetQuantitiesInput!) {
+  inventorySetQuantities(input: $input) {
+    userErrors { field message }
+  }
+}`;
+
+const PRODUCT_SET_STATUS = `mutation SetProductStatus($product: ProductUpdateInput!) {
+  productUpdate(product: $product) {
+    userErrors { field message }
+  }
+}`;
+
+// Numeric REST id <-> GraphQL global id
+export const toGid = (type: string, id: string | number) => (String(id).startsWith('gid://') ? String(id) : `gid://shopify/${type}/${id}`);
+export const toLegacyId = (id: string) => id.split('/').pop() || id;
+
+const WEIGHT_UNITS: Record<string, string> = { kg: 'KILOGRAMS', g: 'GRAMS', lb: 'POUNDS', oz: 'OUNCES' };
+
+// Exact-value search term for the Admin API query syntax
+const searchTerm = (field: string, value: string) => `${field}:"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+function toProduct(node: any): DestinationProduct {
+  return { id: node.id, title: node.title, raw: node };
+}
+
+// Available quantity is per location and not queried, so stock is left unknown
+function toVariant(node: any): DestinationVariant {
+  return { id: node.id, sku: node.sku, price: node.price != null ? String(node.price) : null, raw: node };
+}
+
+function userErrorsOf(operation: string, userErrors: { message: string }[] | undefined) {
+  if (!userErrors?.length) return null;
+  const error: any = new Error(`${operation} failed: ${userErrors.map(e => e.message).join('; ')}`);
+  error.status = 422;
+  return error;
+}
+
+type PendingPrice = { sku: string; from: string; variant: { id: string; price: string } };
+type PendingStock = { sku: string; quantity: { inventoryItemId: string; locationId: string; quantity: number } };
+
+/**
+ * GraphQL adapter for a Shopify connection with use_graphql on
+ * rest: the connection's REST adapter, used for metafields and collections
+ */
+export async function createShopifyGraphqlAdapter(
+  conn: ConnectionRow,
+  accessToken: string,
+  apiVersion: string,
+  rest: DestinationAdapter,
+  log: (m: string) => void
+): Promise<DestinationAdapter> {
+  const fetch = await getFetch();
+  const domain = conn.dest_shop_domain!;
+  const url = `https://${domain}/admin/api/${apiVersion}/graphql.json`;
+  const headers = { 'X-Shopify-Access-Token': accessToken, 'Content-Type': 'application/json' };
+  const locationId = conn.dest_location_id ? toGid('Location', conn.dest_location_id) : null;
+  const limiter = getGraphqlCostLimiter();
+  const queryCosts = new Map<string, number>();
+
+  // SKU -> variant node found by prefetch() or find(); lookedUp: SKUs whose absence is known
+  const variantCache = new Map<string, any>();
+  const lookedUp = new Set<string>();
+  // Queued writes keep their SKU and previous value so flush() can report what was applied
+  const pendingPrices = new Map<string, PendingPrice[]>(); // product gid -> variants
+  const pendingStock: PendingStock[] = [];
+  const failures: any[] = [];
+  const results: DeferredWriteResult[] = [];
+  log(`Destination: ${domain} (GraphQL ${apiVersion}), Location ID: ${conn.dest_location_id}`);
+
+  async function graphql(query: string, variables: Record<string, unknown>): Promise<any> {
+    for (let attempt = 0; ; attempt++) {
+      await limiter.reserve(domain, queryCosts.get(query) ?? DEFAULT_QUERY_COST);
+      const body: any = await retryWithBackoff(async () => {
+        const response = await fetch(url, { method: 'POST', headers, body: JSON.stringify({ query, variables }) });
+        if (!response.ok) {
+          const errorText = await response.text().catch(() => '');
+          if (response.status === 429) log(`⚠️  Rate limited (429), retrying with backoff...`);
+          const error: any = new Error(`Shopify GraphQL request failed: ${response.status}${errorText ? ` - ${errorText.slice(0, 300)}` : ''}`);
+          error.status = response.status;
+          error.response = response;
+          throw error;
+        }
+        return response.json();
+      }, {
+        maxRetries: 3,
+        baseDelay: 1000,
+        maxDelay: 30000,
+        backoffMultiplier: 2
+      });
+
+      const cost = body?.extensions?.cost;
+      if (cost?.throttleStatus) limiter.update(domain, cost.throttleStatus);
+      if (cost?.requestedQueryCost != null) queryCosts.set(query, cost.requestedQueryCost);
+
+      const errors: any[] = body?.errors ?? [];
+      if (errors.length === 0) return body?.data;
+      const throttled = errors.some(e => e?.extensions?.code === 'THROTTLED');
+      if (throttled && attempt < MAX_THROTTLED_RETRIES) {
+        // The bucket was just updated from the response, so reserve() waits for it to restore
+        log(`⚠️  GraphQL cost limit reached, waiting for the bucket to restore...`);
+        continue;
+      }
+      const error: any = new Error(`Shopify GraphQL error: ${errors.map(e => e?.message || JSON.stringify(e)).join('; ')}`);
+      if (throttled) error.status = 429;
+      throw error;
+    }
+  }
+
+  async function findVariants(skus: string[], first: number): Promise<any[]> {
+    const data = await graphql(FIND_VARIANTS, { query: skus.map(sku => searchTerm('sku', sku)).join(' OR '), first });
+    return data?.productVariants?.nodes ?? [];
+  }
+
+  function variantInput(item: CatalogItem, optionName: string) {
+    return {
+      optionValues: [{ optionName, name: item.variantTitle || 'Default Title' }],
+      price: item.price,
+      compareAtPrice: item.compareAtPrice || null,
+      barcode: item.barcode || null,
+      inventoryPolicy: 'DENY',
+      inventoryItem: {
+        sku: item.sku,
+        tracked: true,
+        ...(item.weight ? { measurement: { weight: { value: item.weight, unit: WEIGHT_UNITS[item.weightUnit || 'kg'] || 'KILOGRAMS' } } } : {})
+      }
+    };
+  }
+
+  async function sendStock(entries: PendingStock[]) {
+    try {
+      const data = await graphql(INVENTORY_SET_QUANTITIES, {
+        input: { name: 'available', reason: 'correction', ignoreCompareQuantity: true, quantities: entries.map(e => e.quantity) }
+      });
+      const error = userErrorsOf('Set inventory quantities', data?.inventorySetQuantities?.userErrors);
+      if (error) throw error;
+      log(`Set stock for ${entries.length} variant(s)`);
+      for (const e of entries) results.push({ sku: e.sku, ok: true, message: `Stock set -> ${e.quantity.quantity}` });
+    } catch (error: any) {
+      failures.push(error);
+      log(`❌ Stock batch of ${entries.length} not applied: ${error?.message || error}`);
+    }
+  }
+
+  async function sendPrices(productId: string, entries: PendingPrice[]) {
+    try {
+      const data = await graphql(VARIANTS_BULK_UPDATE, { productId, variants: entries.map(e => e.variant) });
+      const error = userErrorsOf('Update variant prices', data?.productVariantsBulkUpdate?.userErrors);
+      if (error) throw error;
+      for (const e of entries) results.push({ sku: e.sku, ok: true, message: `Price updated ${e.from} -> ${e.variant.price}` });
+    } catch (error: any) {
+      failures.push(error);
+      log(`❌ Price updates for product ${productId} not applied: ${error?.message || error}`);
+    }
+  }
+
+  return {
+    name: 'Shopify',
+
+    // One search per LOOKUP_BATCH SKUs instead of a variant search plus product GET per SKU
+    async prefetch(items) {
+      const skus = Array.from(new Set(items.map(i => i.sku).filter(sku => sku && !variantCache.has(sku) && !lookedUp.has(sku))));
+      for (let i = 0; i < skus.length; i += LOOKUP_BATCH) {
+        const batch = skus.slice(i, i + LOOKUP_BATCH);
+        const nodes = await findVariants(batch, LOOKUP_PAGE);
+        // Search is not exact: keep exact SKU matches only
+        for (const node of nodes) {
+          if (batch.includes(node.sku) && !variantCache.has(node.sku)) variantCache.set(node.sku, node);
+        }
+        // A full page may have cut off exact matches: leave the batch's missing SKUs to find()
+        if (nodes.length < LOOKUP_PAGE) batch.forEach(sku => lookedUp.add(sku));
+      }
+      log(`Looked up ${skus.length} SKU(s) in ${Math.ceil(skus.length / LOOKUP_BATCH)} request(s), ${variantCache.size} found`);
+    },
+
+    async find(item) {
+      let node = variantCache.get(item.sku);
+      if (!node && !lookedUp.has(item.sku)) {
+        node = (await findVariants([item.sku], 10)).find(n => n.sku === item.sku);
+        lookedUp.add(item.sku);
+        if (node) variantCache.set(item.sku, node);
+      }
+      if (!node) {
+        log(`No exact SKU match found in destination for: ${item.sku}`);
+        return null;
+      }
+      return { variant: toVariant(node), product: node.product ? toProduct(node.product) : null };
+    },
+
+    async findByTitle(title) {
+      const data = await graphql(FIND_PRODUCTS_BY_TITLE, { query: searchTerm('title', title) });
+      const match = (data?.products?.nodes ?? []).find((p: any) => p.title.toLowerCase().trim() === title.toLowerCase().trim());
+      if (!match) return null;
+      log(`Found existing product by title: "${title}" (ID: ${match.id})`);
+      return { product: toProduct(match), variants: (match.variants?.nodes ?? []).map(toVariant) };
+    },
+
+    // productSet creates the product, its variants and (with a location) their stock in one call
+    async create(items): Promise<CreatedProduct | null> {
+      const firstItem = items[0];
+      if (!firstItem) return null;
+      const baseTitle = firstItem.productHandle
+        ? firstItem.title.replace(` - ${firstItem.variantTitle}`, '').trim()
+        : firstItem.title;
+      const hasVariants = items.length > 1 || (firstItem.variantTitle && firstItem.variantTitle !== 'Default Title');
+      const optionName = hasVariants ? 'Option' : 'Title';
+      const productStatus = conn.product_status === 1 ? 'ACTIVE' : 'DRAFT';
+      const images = firstItem.images?.length ? firstItem.images : firstItem.imageUrl ? [firstItem.imageUrl] : [];
+      log(`Creating product as ${productStatus.toLowerCase()} (product_status: ${conn.product_status})`);
+
+      const input = {
+        title: baseTitle,
+        descriptionHtml: firstItem.description || '',
+        vendor: firstItem.vendor || '',
+        productType: conn.sync_categories === 1 ? (firstItem.category || '') : '',
+        tags: conn.sync_tags === 1 ? (firstItem.tags ?? []) : [],
+        status: productStatus,
+        productOptions: [{ name: optionName, values: items.map(i => ({ name: i.variantTitle || 'Default Title' })) }],
+        files: images.map(src => ({ originalSource: src, contentType: 'IMAGE' })),
+        variants: items.map(item => ({
+          ...variantInput(item, optionName),
+          ...(locationId && item.stock != null ? { inventoryQuantities: [{ locationId, name: 'available', quantity: item.stock }] } : {})
+        }))
+      };
+
+      const data = await graphql(PRODUCT_SET, { input });
+      const error = userErrorsOf('Create product', data?.productSet?.userErrors);
+      if (error) {
+        log(`❌ ${error.message}`);
+        throw error;
+      }
+      const product = data?.productSet?.product;
+      if (!product?.id) throw new Error('Product creation succeeded but response missing product data');
+
+      const stockBySku = new Map(items.map(i => [i.sku, i.stock]));
+      const variants = new Map<string, DestinationVariant>();
+      for (const node of product.variants?.nodes ?? []) {
+        if (!node.sku) continue;
+        variants.set(node.sku, { ...toVariant(node), stock: locationId ? stockBySku.get(node.sku) ?? null : null });
+      }
+      log(`Created new product with ${items.length} variant(s): ${baseTitle}`);
+      return { product: toProduct(product), variants };
+    },
+
+    async addVariant(product, item) {
+      const optionName = product.raw?.options?.[0]?.name || 'Option';
+      const variant = {
+        ...variantInput(item, optionName),
+        ...(locationId && item.stock != null ? { inventoryQuantities: [{ locationId, availableQuantity: item.stock }] } : {})
+      };
+      const data = await graphql(VARIANTS_BULK_CREATE, { productId: product.id, variants: [variant] });
+      const error = userErrorsOf('Add variant', data?.productVariantsBulkCreate?.userErrors);
+      if (error) {
+        log(`❌ Failed to add variant ${item.sku}: ${error.message}`);
+        return null;
+      }
+      const node = data?.productVariantsBulkCreate?.productVariants?.[0];
+      if (!node) return null;
+      log(`Added variant ${item.sku} to existing product`);
+      return { ...toVariant(node), stock: locationId ? item.stock : null };
+    },
+
+    // Price changes are sent per product with productVariantsBulkUpdate on flush(), which reports them
+    async update(match, item, options) {
+      const currentPrice = String(match.variant.price ?? '');
+      const desiredPrice = String(item.price ?? '');
+      const productId = match.product?.id ?? match.variant.raw?.product?.id;
+      if (!options.syncPrice || !desiredPrice || desiredPrice === currentPrice || !productId) return [];
+      if (!pendingPrices.has(productId)) pendingPrices.set(productId, []);
+      pendingPrices.get(productId)!.push({ sku: item.sku, from: currentPrice, variant: { id: match.variant.id, price: desiredPrice } });
+      return [];
+    },
+
+    // Reported by flush() (or the batch it fills) once inventorySetQuantities applied it
+    async setStock(match, item) {
+      // Stock is only pushed when a destination location is configured
+      const inventoryItemId = match.variant.raw?.inventoryItem?.id;
+      if (!locationId || !inventoryItemId || item.stock == null) return null;
+      pendingStock.push({ sku: item.sku, quantity: { inventoryItemId, locationId, quantity: Number(item.stock) } });
+      if (pendingStock.length >= INVENTORY_BATCH) await sendStock(pendingStock.splice(0));
+      return null;
+    },
+
+    async archive(match) {
+      const productId = match.product?.id ?? match.variant.raw?.product?.id;
+      if (!productId) return;
+      const data = await graphql(PRODUCT_SET_STATUS, { product: { id: productId, status: 'ARCHIVED' } });
+      const error = userErrorsOf('Archive product', data?.productUpdate?.userErrors);
+      if (error) throw error;
+    },
+
+    async unpublish(match) {
+      const productId = match.product?.id ?? match.variant.raw?.product?.id;
+      if (!productId) return;
+      const data = await graphql(PRODUCT_SET_STATUS, { product: { id: productId, status: 'DRAFT' } });
+      const error = userErrorsOf('Set product to draft', data?.productUpdate?.userErrors);
+      if (error) throw error;
+    },
+
+    // Both modes draft, as with REST
+    async setSoldOut(product, soldOut) {
+      const status = product.raw?.status;
+      const target = soldOut ? (status === 'ACTIVE' ? 'DRAFT' : null) : (status === 'DRAFT' && conn.product_status === 1 ? 'ACTIVE' : null);
+      if (!target) return null;
+      const data = await graphql(PRODUCT_SET_STATUS, { product: { id: product.id, status: target } });
+      const error = userErrorsOf('Set product status', data?.productUpdate?.userErrors);
+      if (error) throw error;
+      product.raw.status = target;
+      return soldOut ? 'Set to draft (sold out)' : 'Set to active (back in stock)';
+    },
+
+    async remove(match) {
+      const productId = match.product?.id ?? match.variant.raw?.product?.id;
+      if (!productId) return;
+      await rest.remove!({
+        variant: { ...match.variant, id: toLegacyId(match.variant.id) },
+        product: { id: toLegacyId(productId), raw: null }
+      });
+    },
+
+    async updateContent(product, changes) {
+      return rest.updateContent!(
+        { ...product, id: toLegacyId(product.id) },
+        changes.map(c => ({ ...c, variant: { ...c.variant, id: toLegacyId(c.variant.id) } }))
+      );
+    },
+
+    async setMetafields(product, variants) {
+      await rest.setMetafields!(
+        { ...product, id: toLegacyId(product.id) },
+        variants.map(v => ({ item: v.item, variant: { ...v.variant, id: toLegacyId(v.variant.id) } }))
+      );
+    },
+
+    async syncCollections(product, collections) {
+      await rest.syncCollections!({ ...product, id: toLegacyId(product.id) }, collections);
+    },
+
+    async flush() {
+      for (const [productId, variants] of pendingPrices) {
+        for (let i = 0; i < variants.length; i += PRICE_BATCH) {
+          await sendPrices(productId, variants.slice(i, i + PRICE_BATCH));
+        }
+      }
+      pendingPrices.clear();
+      if (pendingStock.length > 0) await sendStock(pendingStock.splice(0));
+
+      if (failures.length > 0) {
+        const last = failures[failures.length - 1];
+        const error: any = new Error(`${failures.length} Shopify GraphQL batch(es) failed: ${last?.message || last}`);
+        error.status = last?.status;
+        throw error;
+      }
+      return results.splice(0);
+    }
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Destination Adapter contract
+ * One adapter per connection type; the push worker owns loading, rules, grouping,
+ * create/update decisions and audit, and calls the adapter for store-specific I/O.
+ */
+
+import type { ConnectionRow } from '../db';
+import type { CatalogItem, CollectionInfo } from '../models/types';
+import type { ContentField } from '../models/contentFields';
+
+// A product in the destination store
+export type DestinationProduct = {
+  id: string;
+  title?: string;
+  raw: any; // Destination API payload
+};
+
+// A sellable unit in the destination store (a variant, or a simple product)
+export type DestinationVariant = {
+  id: string;
+  sku: string;
+  price?: string | null; // Current price, used to skip no-op price updates
+  stock?: number | null; // Current stock, when the destination reports the stock the push sets
+  raw: any;
+};
+
+export type DestinationMatch = {
+  variant: DestinationVariant;
+  product: DestinationProduct | null;
+};
+
+export type CreatedProduct = {
+  product: DestinationProduct;
+  variants: Map<string, DestinationVariant>; // SKU -> created variant
+  // Creation was queued: flush() reports the outcome per SKU, variants is empty
+  deferred?: boolean;
+};
+
+// Outcome of a write the adapter queued, reported by flush()
+export type DeferredWriteResult = {
+  sku: string;
+  ok: boolean;
+  message: string; // Applied change, or the error
+};
+
+// Content fields of an existing variant that changed since they were last pushed
+export type ContentChange = {
+  item: CatalogItem;
+  variant: DestinationVariant;
+  fields: ContentField[];
+};
+
+export type UpdateOptions = {
+  syncPrice: boolean;
+};
+
+export interface DestinationAdapter {
+  // Store name used in logs ("Shopify", "WooCommerce")
+  readonly name: string;
+  // No longer read: out-of-stock items follow the connection's out_of_stock_policy
+  readonly skipOutOfStock?: boolean;
+
+  // Find a variant by exact SKU
+  find(item: CatalogItem): Promise<DestinationMatch | null>;
+  // Create a product from the items of one product group
+  create(items: CatalogItem[]): Promise<CreatedProduct | null>;
+  // Push content/price changes; returns the applied changes for the audit log
+  update(match: DestinationMatch, item: CatalogItem, options: UpdateOptions): Promise<string[]>;
+  // Set stock; returns the applied change for the audit log
+  setStock(match: DestinationMatch, item: CatalogItem): Promise<string | null>;
+  // Take a product off sale without deleting it
+  archive(match: DestinationMatch): Promise<void>;
+  // Optional: set the product back to draft (hidden, not archived)
+  unpublish?(match: DestinationMatch): Promise<void>;
+  // Optional: delete the variant, or the product when it has no other variant
+  remove?(match: DestinationMatch): Promise<void>;
+  // Optional: take a sold-out product off the storefront (draft, or hidden from the catalog) or put it
+  // back once restocked; returns the applied change, null when the product is already in that state
+  setSoldOut?(product: DestinationProduct, soldOut: boolean, mode: 'draft' | 'hide'): Promise<string | null>;
+
+  // Optional: product with the same title, so new variants join it instead of duplicating it
+  findByTitle?(title: string): Promise<{ product: DestinationProduct; variants: DestinationVariant[] } | null>;
+  // Optional: add a variant to an existing product
+  addVariant?(product: DestinationProduct, item: CatalogItem): Promise<DestinationVariant | null>;
+  // Optional: write the product group's metafields
+  setMetafields?(product: DestinationProduct, variants: { item: CatalogItem; variant: DestinationVariant }[]): Promise<void>;
+  // Optional: write the changed content fields of an existing product (product-level fields once, weight
+  // per variant); returns the applied changes per SKU, or leaves them to flush()
+  updateContent?(product: DestinationProduct, changes: ContentChange[]): Promise<{ sku: string; message: string }[]>;
+  // Optional: content fields updateContent keeps in sync, every field when unset; the others are only sent on create
+  readonly contentFields?: readonly ContentField[];
+  // Optional: put the product into the source collections
+  syncCollections?(product: DestinationProduct, collections: CollectionInfo[]): Promise<void>;
+  // Optional: look up the SKUs of the whole push in batches before find() is called per item
+  prefetch?(items: CatalogItem[]): Promise<void>;
+  // Optional: deliver writes the adapter batched; throws when the destination did not accept them,
+  // or returns per-SKU outcomes when it reports them item by item
+  flush?(): Promise<DeferredWriteResult[] | void>;
+}
+
+// Registry entry for a connection type
+export type DestinationDriver = {
+  logPrefix: string;
+  // Every job pushes the whole catalog (exports replace the previous file, so delta jobs are not scoped to their SKUs)
+  exportsFullCatalog?: boolean;
+  // Validate the connection's credentials and build its adapter
+  connect(conn: ConnectionRow, log: (m: string) => void): Promise<DestinationAdapter>;
+};
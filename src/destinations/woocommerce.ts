@@ -0,0 +1,820 @@
+/**
+ * WooCommerce destination
+ * REST API v3 adapter. A product group with variants becomes a variable product with
+ * one variation per item, a single item a simple product. SKU lookups and writes go
+ * through the batch endpoints, 100 at a time.
+ */
+
+import { ConnectionRow } from '../db';
+import { decryptSecret } from '../utils/secrets';
+import { CatalogItem } from '../models/types';
+import { metafieldMetaKey } from '../models/metafields';
+import { parseContentFields } from '../models/contentFields';
+import type { DeferredWriteResult, DestinationAdapter, DestinationDriver, DestinationProduct, DestinationVariant } from './types';
+
+// Generic fetch function type compatible with both native fetch and node-fetch
+type FetchFn = (url: string, init?: { method?: string; headers?: Record<string, string>; body?: string }) => Promise<{ ok: boolean; status: number; json: () => Promise<any>; text: () => Promise<string>; headers: { get: (name: string) => string | null } }>;
+
+// Use Node.js built-in fetch (available in Node 18+)
+// Fallback to dynamic import of node-fetch if needed
+const getFetch = async (): Promise<FetchFn> => {
+  if (typeof globalThis.fetch !== 'undefined') {
+    return globalThis.fetch as unknown as FetchFn;
+  }
+  const nodeFetch = await import('node-fetch');
+  return nodeFetch.default as unknown as FetchFn;
+};
+
+// WooCommerce meta_data for the (mapped) source metafields; a variant value overrides the product's
+function wooMetafieldMeta(item: CatalogItem): { key: string; value: string }[] {
+  const meta = new Map<string, string>();
+  for (const m of item.metafields ?? []) {
+    if (m.owner === 'product') meta.set(metafieldMetaKey(m), m.value);
+  }
+  for (const m of item.metafields ?? []) {
+    if (m.owner === 'variant') meta.set(metafieldMetaKey(m), m.value);
+  }
+  return Array.from(meta, ([key, value]) => ({ key, value }));
+}
+
+// Source image URLs last pushed to a product (JSON array) or variation; WooCommerce re-hosts
+// images under new URLs, so changes are detected against these instead of the product's images
+const SOURCE_IMAGES_META = '_source_images';
+const SOURCE_IMAGE_META = '_source_image';
+
+// Category and tag ids per connection (lowercase category path or tag name -> term id)
+const wooCategoryCache = new Map<string, Map<string, number>>();
+const wooTagCache = new Map<string, Map<string, number>>();
+
+type ProductTerms = { categories: number[]; tags: number[] };
+
+// Term names come back HTML-escaped ("Men &amp; Women")
+function decodeTermName(name: string): string {
+  return name.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#0?39;/g, "'");
+}
+
+function metaValue(product: any, key: string): string | undefined {
+  return (product?.meta_data ?? []).find((m: any) => m.key === key)?.value;
+}
+
+// File name of an image URL without its extension; WooCommerce keeps it when re-hosting (adding -1, -scaled, ...)
+function imageFileName(src: string): string {
+  return (src.split('?')[0].split('/').pop() || '').replace(/\.[a-z0-9]+$/i, '').toLowerCase();
+}
+
+// Whether a product without the source image meta (created before it was written) already shows every source image
+function hasImageFiles(current: string[], images: string[]): boolean {
+  const names = current.map(imageFileName);
+  return images.every(src => {
+    const name = imageFileName(src);
+    return names.some(n => n === name || n.startsWith(`${name}-`));
+  });
+}
+
+function sameIds(current: { id: number }[] | undefined, ids: number[]): boolean {
+  const have = (current ?? []).map(t => t.id).sort((a, b) => a - b);
+  const want = [...ids].sort((a, b) => a - b);
+  return have.length === want.length && have.every((id, i) => id === want[i]);
+}
+
+// Images of a simple product; a variable parent only takes the product-level images
+function productImages(item: CatalogItem, variable: boolean): string[] {
+  if (item.images && item.images.length > 0) return item.images;
+  return !variable && item.imageUrl ? [item.imageUrl] : [];
+}
+
+function variationImage(item: CatalogItem): string | undefined {
+  return item.imageUrl || item.images?.[0];
+}
+
+// Product-level fields shared by simple and variable products: description, tags, images, categories
+function productContent(item: CatalogItem, images: string[], terms: ProductTerms): any {
+  const content: any = {
+    description: item.description || '',
+    short_description: '',
+    status: 'publish'
+  };
+  if (terms.tags.length > 0) {
+    content.tags = terms.tags.map(id => ({ id }));
+  }
+  if (terms.categories.length > 0) {
+    content.categories = terms.categories.map(id => ({ id }));
+  }
+  if (images.length > 0) {
+    content.images = images.map(src => ({ src }));
+  }
+  return content;
+}
+
+// Barcode and source metafields as meta_data
+function itemMeta(item: CatalogItem): { key: string; value: string }[] {
+  const meta = item.barcode ? [{ key: '_barcode', value: item.barcode }, { key: 'barcode', value: item.barcode }] : [];
+  return [...meta, ...wooMetafieldMeta(item)];
+}
+
+// Price, SKU, stock and meta of a simple product or a variation
+function sellableFields(item: CatalogItem): any {
+  const fields: any = {
+    regular_price: item.price,
+    sku: item.sku,
+    manage_stock: true,
+    stock_quantity: item.stock || 0,
+    stock_status: (item.stock || 0) > 0 ? 'instock' : 'outofstock'
+  };
+  const meta = itemMeta(item);
+  if (meta.length > 0) fields.meta_data = meta;
+  return fields;
+}
+
+// Product payload for a new simple product
+function buildProductPayload(item: CatalogItem, terms: ProductTerms): any {
+  const images = productImages(item, false);
+  const payload: any = {
+    name: item.title,
+    type: 'simple',
+    ...productContent(item, images, terms),
+    ...sellableFields(item)
+  };
+  payload.meta_data = [...(payload.meta_data ?? []), { key: SOURCE_IMAGES_META, value: JSON.stringify(images) }];
+  return payload;
+}
+
+// Attribute values of a variation, from its variantTitle ("Red / M" -> "Option 1" Red, "Option 2" M)
+function variationOptions(item: CatalogItem, names: string[]): { name: string; option: string }[] {
+  const title = item.variantTitle && item.variantTitle !== 'Default Title' ? item.variantTitle : item.sku;
+  const parts = title.split(' / ').map(p => p.trim());
+  if (names.length > 1 && parts.length === names.length) {
+    return names.map((name, i) => ({ name, option: parts[i] }));
+  }
+  return [{ name: names[0], option: title }];
+}
+
+// One attribute per variantTitle part when every variant has the same number of parts, else a single "Option";
+// named after the source options (Color, Size) when the source reports one name per part
+function variationAttributeNames(items: CatalogItem[]): string[] {
+  const counts = new Set(items.map(i => (i.variantTitle || '').split(' / ').length));
+  const count = counts.size === 1 ? Array.from(counts)[0] : 1;
+  const sourceNames = items[0].optionNames;
+  if (sourceNames?.length === count && items.every(i => i.optionNames?.join('/') === sourceNames.join('/'))) return sourceNames;
+  return count > 1 ? Array.from({ length: count }, (_, i) => `Option ${i + 1}`) : ['Option'];
+}
+
+function variationPayload(item: CatalogItem, names: string[]): any {
+  const payload: any = { ...sellableFields(item), attributes: variationOptions(item, names) };
+  const image = variationImage(item);
+  if (image) {
+    payload.image = { src: image };
+    payload.meta_data = [...(payload.meta_data ?? []), { key: SOURCE_IMAGE_META, value: image }];
+  }
+  return payload;
+}
+
+// Name of a variable parent: the title without the variant suffix
+function parentName(item: CatalogItem): string {
+  return item.variantTitle ? item.title.replace(` - ${item.variantTitle}`, '').trim() : item.title;
+}
+
+// Parent of a variable product: attributes with every option value of the group, no SKU/price/stock of its own
+function buildVariableProductPayload(items: CatalogItem[], terms: ProductTerms): { payload: any; names: string[] } {
+  const first = items[0];
+  const names = variationAttributeNames(items);
+  const options = items.map(i => variationOptions(i, names));
+  const images = productImages(first, true);
+  const productMeta = wooMetafieldMeta({ ...first, metafields: first.metafields?.filter(m => m.owner === 'product') });
+  const payload: any = {
+    name: parentName(first),
+    type: 'variable',
+    ...productContent(first, images, terms),
+    attributes: names.map((name, position) => ({
+      name,
+      position,
+      visible: true,
+      variation: true,
+      options: Array.from(new Set(options.map(o => o.find(a => a.name === name)?.option).filter(Boolean)))
+    })),
+    meta_data: [...productMeta, { key: SOURCE_IMAGES_META, value: JSON.stringify(images) }]
+  };
+  return { payload, names };
+}
+
+// Helper to update a product or variation; WooCommerce merges meta_data entries by key
+async function updateProduct(fetch: FetchFn, base: string, auth: URLSearchParams, path: string, body: any) {
+  const upUrl = `${base}/wp-json/wc/v3/${path}?${auth.toString()}`;
+  const ures = await fetch(upUrl, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!ures.ok) {
+    const t = await ures.text();
+    const error: any = new Error(`Woo update failed ${ures.status}: ${t}`);
+    error.status = ures.status;
+    throw error;
+  }
+  return ures.json();
+}
+
+// Helper to delete a product or variation for good (force skips the trash); already gone counts as deleted
+async function deleteProduct(fetch: FetchFn, base: string, auth: URLSearchParams, path: string) {
+  const delUrl = `${base}/wp-json/wc/v3/${path}?${auth.toString()}&force=true`;
+  const dres = await fetch(delUrl, { method: 'DELETE' });
+  if (!dres.ok && dres.status !== 404) {
+    const t = await dres.text();
+    const error: any = new Error(`Woo delete failed ${dres.status}: ${t}`);
+    error.status = dres.status;
+    throw error;
+  }
+}
+
+function toProduct(product: any): DestinationProduct {
+  return { id: String(product.id), title: product.name, raw: product };
+}
+
+// REST path of a simple/parent product or of a variation
+function productPath(product: any): string {
+  return product.parent_id ? `products/${product.parent_id}/variations/${product.id}` : `products/${product.id}`;
+}
+
+function toVariant(product: any): DestinationVariant {
+  return {
+    id: String(product.id),
+    sku: product.sku,
+    price: product.regular_price != null ? String(product.regular_price) : null,
+    stock: product.manage_stock ? product.stock_quantity ?? null : null,
+    raw: product
+  };
+}
+
+// WooCommerce accepts up to 100 objects per batch request (and per_page is capped at 100)
+const WOO_BATCH_SIZE = 100;
+
+type PendingCreate = { sku: string; title: string; parentId: string | null; payload: any };
+type PendingUpdate = { sku: string; id: string; parentId: string | null; body: any; changes: string[] };
+
+async function connect(conn: ConnectionRow, log: (m: string) => void): Promise<DestinationAdapter> {
+  if (!conn.base_url || !conn.consumer_key || !conn.consumer_secret) throw new Error('Invalid Woo connection');
+  // Decrypt consumer secret if encrypted (or use as-is if plain text)
+  const decryptedSecret = decryptSecret(conn.consumer_secret);
+  if (!decryptedSecret) {
+    throw new Error('Consumer secret is missing. Connection may need to be reconfigured.');
+  }
+
+  const fetch = await getFetch();
+  const auth = new URLSearchParams({
+    consumer_key: conn.consumer_key,
+    consumer_secret: decryptedSecret
+  });
+  const base = conn.base_url.replace(/\/$/, '');
+
+  // SKU lookups done by prefetch; a SKU looked up but missing from `found` does not exist
+  const found = new Map<string, any>();
+  const lookedUp = new Set<string>();
+  // Writes waiting for the next batch request; updates are keyed by product/variation id
+  const pendingCreates: PendingCreate[] = [];
+  const pendingUpdates = new Map<string, PendingUpdate>();
+  const results: DeferredWriteResult[] = [];
+  // Variable products by id, loaded (or created) for adding variations and syncing their content
+  const parents = new Map<string, any>();
+  // Products whose categories, tags and images were compared in this push
+  const contentChecked = new Set<string>();
+  // Images of existing products follow the source only when content_fields selects them
+  const syncImages = parseContentFields(conn.content_fields).includes('images');
+  if (!wooCategoryCache.has(conn.id)) wooCategoryCache.set(conn.id, new Map());
+  if (!wooTagCache.has(conn.id)) wooTagCache.set(conn.id, new Map());
+  const categoryIds = wooCategoryCache.get(conn.id)!;
+  const tagIds = wooTagCache.get(conn.id)!;
+
+  async function searchSkus(skus: string[]): Promise<any[]> {
+    const searchUrl = `${base}/wp-json/wc/v3/products?${auth.toString()}&sku=${encodeURIComponent(skus.join(','))}&per_page=${WOO_BATCH_SIZE}`;
+    const res = await fetch(searchUrl);
+    if (!res.ok) {
+      const error: any = new Error(`Woo search status ${res.status}`);
+      error.status = res.status;
+      throw error;
+    }
+    const products: any = await res.json();
+    return Array.isArray(products) ? products : [];
+  }
+
+  // Every variation of a variable product, a page of 100 at a time
+  async function listVariations(parentId: string): Promise<any[]> {
+    const variations: any[] = [];
+    for (let page = 1; ; page++) {
+      const res = await fetch(`${base}/wp-json/wc/v3/products/${parentId}/variations?${auth.toString()}&per_page=${WOO_BATCH_SIZE}&page=${page}`);
+      if (!res.ok) {
+        const error: any = new Error(`Woo variations status ${res.status}`);
+        error.status = res.status;
+        throw error;
+      }
+      const batch: any = await res.json();
+      if (!Array.isArray(batch)) return variations;
+      variations.push(...batch);
+      if (batch.length < WOO_BATCH_SIZE) return variations;
+    }
+  }
+
+  async function searchTerms(taxonomy: 'categories' | 'tags', name: string): Promise<any[]> {
+    const res = await fetch(`${base}/wp-json/wc/v3/products/${taxonomy}?${auth.toString()}&search=${encodeURIComponent(name)}&per_page=100`);
+    if (!res.ok) return [];
+    const terms: any = await res.json();
+    return Array.isArray(terms) ? terms : [];
+  }
+
+  // A term that already exists (e.g. created by a concurrent push) comes back as term_exists with its id
+  async function createTerm(taxonomy: 'categories' | 'tags', body: { name: string; parent?: number }): Promise<number | null> {
+    const res = await fetch(`${base}/wp-json/wc/v3/products/${taxonomy}?${auth.toString()}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const data: any = await res.json().catch(() => null);
+    if (res.ok && data?.id) return data.id;
+    if (data?.code === 'term_exists' && data?.data?.resource_id) return data.data.resource_id;
+    log(`Failed to create ${taxonomy === 'tags' ? 'tag' : 'category'} "${body.name}": ${res.status}`);
+    return null;
+  }
+
+  // "Men > Shoes": each level is found or created under the one before it
+  async function categoryId(path: string): Promise<number | null> {
+    const names = path.split('>').map(n => n.trim()).filter(Boolean);
+    let parent = 0;
+    for (let i = 0; i < names.length; i++) {
+      const key = names.slice(0, i + 1).join(' > ').toLowerCase();
+      let id = categoryIds.get(key);
+      if (id == null) {
+        const existing = (await searchTerms('categories', names[i]))
+          .find(c => decodeTermName(c.name).toLowerCase() === names[i].toLowerCase() && c.parent === parent);
+        id = existing ? existing.id : await createTerm('categories', { name: names[i], parent }) ?? undefined;
+        if (id == null) return null;
+        if (!existing) log(`Created category: ${names.slice(0, i + 1).join(' > ')}`);
+        categoryIds.set(key, id);
+      }
+      parent = id;
+    }
+    return names.length > 0 ? parent : null;
+  }
+
+  async function tagId(name: string): Promise<number | null> {
+    const key = name.toLowerCase();
+    let id = tagIds.get(key);
+    if (id == null) {
+      const existing = (await searchTerms('tags', name)).find(t => decodeTermName(t.name).toLowerCase() === key);
+      id = existing ? existing.id : await createTerm('tags', { name }) ?? undefined;
+      if (id == null) return null;
+      tagIds.set(key, id);
+    }
+    return id;
+  }
+
+  // Categories from the item's category (sync_categories) and collections (sync_collections), tags (sync_tags)
+  async function productTerms(item: CatalogItem): Promise<ProductTerms> {
+    const paths = [
+      ...(conn.sync_categories === 1 && item.category ? [item.category] : []),
+      ...(conn.sync_collections === 1 ? (item.collections ?? []).map(c => c.title) : [])
+    ];
+    const terms: ProductTerms = { categories: [], tags: [] };
+    for (const path of paths) {
+      const id = await categoryId(path);
+      if (id != null && !terms.categories.includes(id)) terms.categories.push(id);
+    }
+    if (conn.sync_tags === 1) {
+      for (const tag of item.tags ?? []) {
+        const name = String(tag).trim();
+        const id = name ? await tagId(name) : null;
+        if (id != null && !terms.tags.includes(id)) terms.tags.push(id);
+      }
+    }
+    return terms;
+  }
+
+  // Categories, tags and images of an existing simple product or variable parent that differ from the source
+  async function productContentChanges(product: any, item: CatalogItem): Promise<{ body: any; changes: string[] }> {
+    const body: any = {};
+    const changes: string[] = [];
+    const terms = await productTerms(item);
+    if (terms.categories.length > 0 && !sameIds(product.categories, terms.categories)) {
+      body.categories = terms.categories.map(id => ({ id }));
+      changes.push(`Categories updated (${terms.categories.length})`);
+    }
+    if (terms.tags.length > 0 && !sameIds(product.tags, terms.tags)) {
+      body.tags = terms.tags.map(id => ({ id }));
+      changes.push(`Tags updated (${terms.tags.length})`);
+    }
+    if (!syncImages) return { body, changes };
+    const images = productImages(item, product.type === 'variable');
+    const value = JSON.stringify(images);
+    const pushed = metaValue(product, SOURCE_IMAGES_META);
+    if (pushed === undefined && hasImageFiles((product.images ?? []).map((i: any) => i.src), images)) {
+      // Seeded without uploading the images again
+      if (images.length > 0) {
+        body.meta_data = [{ key: SOURCE_IMAGES_META, value }];
+        changes.push('Source images recorded');
+      }
+    } else if (value !== (pushed ?? '[]')) {
+      body.images = images.map(src => ({ src }));
+      body.meta_data = [{ key: SOURCE_IMAGES_META, value }];
+      changes.push(images.length > 0 ? `Images updated (${images.length})` : 'Images removed');
+    }
+    return { body, changes };
+  }
+
+  // One batch request; the response lists create/update results in request order
+  async function sendBatch(path: string, creates: PendingCreate[], updates: PendingUpdate[]) {
+    const batchUrl = `${base}/wp-json/wc/v3/${path}?${auth.toString()}`;
+    const res = await fetch(batchUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        create: creates.map(c => c.payload),
+        update: updates.map(u => ({ id: Number(u.id), ...u.body }))
+      })
+    });
+    if (!res.ok) {
+      const t = await res.text();
+      const error: any = new Error(`Woo batch failed ${res.status}: ${t}`);
+      error.status = res.status;
+      throw error;
+    }
+    const data: any = await res.json();
+    creates.forEach((c, i) => {
+      const entry = data?.create?.[i];
+      if (entry && !entry.error && entry.id) {
+        found.set(c.sku, entry);
+        results.push({ sku: c.sku, ok: true, message: `Created in WooCommerce: ${c.title}` });
+      } else {
+        results.push({ sku: c.sku, ok: false, message: `Woo create failed: ${entry?.error?.message || 'no result returned'}` });
+      }
+    });
+    updates.forEach((u, i) => {
+      const entry = data?.update?.[i];
+      if (entry && !entry.error) {
+        for (const message of u.changes) results.push({ sku: u.sku, ok: true, message });
+      } else {
+        results.push({ sku: u.sku, ok: false, message: `Woo update failed: ${entry?.error?.message || 'no result returned'}` });
+      }
+    });
+    log(`Sent ${path}: ${creates.length} create(s), ${updates.length} update(s)`);
+  }
+
+  // A chunk that did not land fails each of its SKUs; the other chunks are still sent
+  function failChunk(creates: PendingCreate[], updates: PendingUpdate[], error: any) {
+    for (const c of creates) results.push({ sku: c.sku, ok: false, message: `Woo create failed: ${error.message}` });
+    for (const u of updates) results.push({ sku: u.sku, ok: false, message: `Woo update failed: ${error.message}` });
+    log(`❌ ${error.message}`);
+  }
+
+  // Products go through /products/batch, variations through their parent's /variations/batch
+  async function sendPending() {
+    const creates = pendingCreates.splice(0);
+    const updates = Array.from(pendingUpdates.values());
+    pendingUpdates.clear();
+
+    const byParent = new Map<string | null, { creates: PendingCreate[]; updates: PendingUpdate[] }>();
+    const entry = (parentId: string | null) => {
+      if (!byParent.has(parentId)) byParent.set(parentId, { creates: [], updates: [] });
+      return byParent.get(parentId)!;
+    };
+    for (const c of creates) entry(c.parentId).creates.push(c);
+    for (const u of updates) entry(u.parentId).updates.push(u);
+
+    for (const [parentId, batch] of byParent) {
+      const path = parentId ? `products/${parentId}/variations/batch` : 'products/batch';
+      while (batch.creates.length > 0 || batch.updates.length > 0) {
+        const createChunk = batch.creates.splice(0, WOO_BATCH_SIZE);
+        const updateChunk = batch.updates.splice(0, WOO_BATCH_SIZE - createChunk.length);
+        try {
+          await sendBatch(path, createChunk, updateChunk);
+        } catch (error: any) {
+          failChunk(createChunk, updateChunk, error);
+        }
+      }
+    }
+  }
+
+  async function queueCreate(create: PendingCreate) {
+    if (pendingCreates.length + pendingUpdates.size >= WOO_BATCH_SIZE) await sendPending();
+    pendingCreates.push(create);
+  }
+
+  async function loadParent(id: string): Promise<any> {
+    if (!parents.has(id)) {
+      const res = await fetch(`${base}/wp-json/wc/v3/products/${id}?${auth.toString()}`);
+      if (!res.ok) {
+        const error: any = new Error(`Woo product status ${res.status}`);
+        error.status = res.status;
+        throw error;
+      }
+      parents.set(id, await res.json());
+    }
+    return parents.get(id);
+  }
+
+  async function queueUpdate(id: string, parentId: string | null, sku: string, body: any, changes: string[]) {
+    const existing = pendingUpdates.get(id);
+    if (existing) {
+      const meta = [...(existing.body.meta_data ?? []), ...(body.meta_data ?? [])];
+      existing.body = { ...existing.body, ...body, ...(meta.length > 0 ? { meta_data: meta } : {}) };
+      existing.changes.push(...changes);
+      return;
+    }
+    if (pendingCreates.length + pendingUpdates.size >= WOO_BATCH_SIZE) await sendPending();
+    pendingUpdates.set(id, { sku, id, parentId, body, changes: [...changes] });
+  }
+
+  return {
+    name: 'WooCommerce',
+    // WooCommerce has no vendor field
+    contentFields: ['title', 'description', 'images', 'weight'],
+
+    // Resolve SKUs 100 at a time; WooCommerce splits the sku filter on commas
+    async prefetch(items) {
+      const skus = Array.from(new Set(items.map(i => i.sku)))
+        .filter(sku => sku && !sku.includes(',') && !lookedUp.has(sku));
+      for (let i = 0; i < skus.length; i += WOO_BATCH_SIZE) {
+        const chunk = skus.slice(i, i + WOO_BATCH_SIZE);
+        for (const product of await searchSkus(chunk)) {
+          if (product?.sku && chunk.includes(product.sku) && !found.has(product.sku)) found.set(product.sku, product);
+        }
+        for (const sku of chunk) lookedUp.add(sku);
+      }
+      // Parents of the variations found, for adding variations and comparing their content
+      const parentIds = Array.from(new Set(Array.from(found.values()).filter(p => p.parent_id).map(p => String(p.parent_id))))
+        .filter(id => !parents.has(id));
+      for (let i = 0; i < parentIds.length; i += WOO_BATCH_SIZE) {
+        const chunk = parentIds.slice(i, i + WOO_BATCH_SIZE);
+        const res = await fetch(`${base}/wp-json/wc/v3/products?${auth.toString()}&include=${chunk.join(',')}&per_page=${WOO_BATCH_SIZE}`);
+        if (!res.ok) {
+          const error: any = new Error(`Woo search status ${res.status}`);
+          error.status = res.status;
+          throw error;
+        }
+        const products: any = await res.json();
+        for (const product of Array.isArray(products) ? products : []) parents.set(String(product.id), product);
+      }
+    },
+
+    async find(item) {
+      let product = found.get(item.sku);
+      if (!product && !lookedUp.has(item.sku)) {
+        // Search product by SKU
+        const products = await searchSkus([item.sku]);
+        product = products.length > 0 ? products[0] : null;
+      }
+      if (!product) {
+        if (item.barcode) {
+          // WooCommerce doesn't have native barcode search; that needs a custom search or plugin
+          log(`Product not found by SKU, barcode search not implemented for WooCommerce: ${item.sku}`);
+        }
+        return null;
+      }
+      // A variation belongs to its variable parent, which new variations of the group join
+      const parent = product.parent_id ? { id: String(product.parent_id), title: product.name, raw: null } : toProduct(product);
+      return { variant: toVariant(product), product: parent };
+    },
+
+    // Variable products only: a simple product cannot take variations. Its variations are listed as variants
+    async findByTitle(title) {
+      const res = await fetch(`${base}/wp-json/wc/v3/products?${auth.toString()}&search=${encodeURIComponent(title)}&type=variable&per_page=${WOO_BATCH_SIZE}`);
+      if (!res.ok) {
+        const error: any = new Error(`Woo search status ${res.status}`);
+        error.status = res.status;
+        throw error;
+      }
+      const products: any = await res.json();
+      const key = title.toLowerCase().trim();
+      const product = (Array.isArray(products) ? products : []).find(p => decodeTermName(String(p.name)).toLowerCase().trim() === key);
+      if (!product) return null;
+      parents.set(String(product.id), product);
+      const variations = await listVariations(String(product.id));
+      log(`Found existing product by title: "${title}" (ID: ${product.id})`);
+      return {
+        product: toProduct(product),
+        variants: variations.map(v => toVariant({ ...v, parent_id: product.id }))
+      };
+    },
+
+    // A group with variants becomes a variable product: the parent and its variations are created right away,
+    // and the parent is deleted again when no variation was accepted; a single item becomes a simple product
+    async create(items) {
+      const first = items[0];
+      const hasVariants = items.length > 1 || (!!first.variantTitle && first.variantTitle !== 'Default Title');
+      if (!hasVariants) {
+        const payload = buildProductPayload(first, await productTerms(first));
+        await queueCreate({ sku: first.sku, title: first.title, parentId: null, payload });
+        return { product: { id: '', title: first.title, raw: null }, variants: new Map(), deferred: true };
+      }
+
+      const { payload, names } = buildVariableProductPayload(items, await productTerms(first));
+      const createUrl = `${base}/wp-json/wc/v3/products?${auth.toString()}`;
+      const res = await fetch(createUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      });
+      if (!res.ok) {
+        const t = await res.text();
+        const error: any = new Error(`Woo create failed ${res.status}: ${t}`);
+        error.status = res.status;
+        throw error;
+      }
+      const parent: any = await res.json();
+      const parentId = String(parent.id);
+      log(`Created variable product ${parent.id} with attribute(s) ${names.join(', ')}: ${payload.name}`);
+
+      // Outcome per variation comes from flush(), like batched creates
+      const variations = items.map(item => ({ sku: item.sku, title: item.title, parentId, payload: variationPayload(item, names) }));
+      const reported = results.length;
+      try {
+        for (let i = 0; i < variations.length; i += WOO_BATCH_SIZE) {
+          await sendBatch(`products/${parentId}/variations/batch`, variations.slice(i, i + WOO_BATCH_SIZE), []);
+        }
+      } catch (error) {
+        results.splice(reported);
+        for (const v of variations) found.delete(v.sku);
+        await deleteProduct(fetch, base, auth, `products/${parentId}`);
+        log(`Deleted variable product ${parentId} after its variations failed`);
+        throw error;
+      }
+      if (!results.slice(reported).some(r => r.ok)) {
+        await deleteProduct(fetch, base, auth, `products/${parentId}`);
+        log(`Deleted variable product ${parentId}: none of its variations was created`);
+        return { product: { id: '', title: payload.name, raw: null }, variants: new Map(), deferred: true };
+      }
+      parents.set(parentId, parent);
+      return { product: toProduct(parent), variants: new Map(), deferred: true };
+    },
+
+    // New variation of an existing variable product; its option values are added to the parent first
+    async addVariant(product, item) {
+      const parent = await loadParent(product.id);
+      if (parent?.type !== 'variable') {
+        const message = `Woo create failed: product ${product.id} is not a variable product`;
+        log(`❌ ${message} (${item.sku})`);
+        results.push({ sku: item.sku, ok: false, message });
+        return null;
+      }
+      parent.attributes = parent.attributes ?? [];
+      const variationAttributes = parent.attributes.filter((a: any) => a.variation);
+      const names = variationAttributes.length > 0 ? variationAttributes.map((a: any) => a.name) : ['Option'];
+      const options = variationOptions(item, names);
+      let attributesChanged = false;
+      for (const { name, option } of options) {
+        let attribute = parent.attributes.find((a: any) => a.name === name);
+        if (!attribute) {
+          attribute = { name, visible: true, variation: true, options: [] };
+          parent.attributes.push(attribute);
+        }
+        if (!attribute.options.includes(option)) {
+          attribute.options.push(option);
+          attributesChanged = true;
+        }
+      }
+      if (attributesChanged) {
+        await updateProduct(fetch, base, auth, `products/${parent.id}`, { attributes: parent.attributes });
+      }
+      // Outcome comes from flush(), like creates
+      await queueCreate({ sku: item.sku, title: item.title, parentId: String(parent.id), payload: variationPayload(item, names) });
+      return null;
+    },
+
+    async update(match, item, options) {
+      const body: any = {};
+      const changes: string[] = [];
+      const desiredPrice = item.price != null ? String(item.price) : '';
+      if (options.syncPrice && desiredPrice && desiredPrice !== match.variant.price) {
+        body.regular_price = desiredPrice;
+        changes.push(`Price updated ${match.variant.price ?? ''} -> ${desiredPrice}`);
+      }
+      // Source metafields
+      const metafieldMeta = wooMetafieldMeta(item);
+      if (metafieldMeta.length > 0) {
+        body.meta_data = metafieldMeta;
+        changes.push(`Meta updated (${metafieldMeta.length} field(s))`);
+      }
+
+      const raw = match.variant.raw ?? {};
+      const parentId = raw.parent_id ? String(raw.parent_id) : null;
+      if (parentId) {
+        // The variation's own image; categories, tags and images belong to the parent, compared once per push
+        const image = syncImages ? variationImage(item) : undefined;
+        const pushed = metaValue(raw, SOURCE_IMAGE_META);
+        if (image && pushed === undefined && hasImageFiles(raw.image?.src ? [raw.image.src] : [], [image])) {
+          body.meta_data = [...(body.meta_data ?? []), { key: SOURCE_IMAGE_META, value: image }];
+          changes.push('Source image recorded');
+        } else if (image && image !== pushed) {
+          body.image = { src: image };
+          body.meta_data = [...(body.meta_data ?? []), { key: SOURCE_IMAGE_META, value: image }];
+          changes.push('Image updated');
+        }
+        if (!contentChecked.has(parentId)) {
+          contentChecked.add(parentId);
+          const parent = await loadParent(parentId);
+          const content = await productContentChanges(parent, item);
+          if (content.changes.length > 0) await queueUpdate(parentId, null, item.sku, content.body, content.changes);
+        }
+      } else if (!contentChecked.has(match.variant.id)) {
+        contentChecked.add(match.variant.id);
+        const content = await productContentChanges(raw, item);
+        if (content.changes.length > 0) {
+          Object.assign(body, content.body, { meta_data: [...(body.meta_data ?? []), ...(content.body.meta_data ?? [])] });
+          if (body.meta_data.length === 0) delete body.meta_data;
+          changes.push(...content.changes);
+        }
+      }
+
+      // Reported per item by flush once the batch is sent
+      if (changes.length > 0) await queueUpdate(match.variant.id, parentId, item.sku, body, changes);
+      return [];
+    },
+
+    async setStock(match, item) {
+      if (item.stock == null) return null;
+      const parentId = match.variant.raw?.parent_id ? String(match.variant.raw.parent_id) : null;
+      await queueUpdate(match.variant.id, parentId, item.sku, {
+        manage_stock: true,
+        stock_quantity: Number(item.stock),
+        stock_status: item.stock > 0 ? 'instock' : 'outofstock'
+      }, [`Stock set -> ${item.stock}`]);
+      return null;
+    },
+
+    // Private products stay in the admin but leave the storefront
+    async archive(match) {
+      await updateProduct(fetch, base, auth, productPath(match.variant.raw ?? { id: match.variant.id }), { status: 'private' });
+    },
+
+    // Draft applies to the whole product: the variable parent of a variation
+    async unpublish(match) {
+      const parentId = match.variant.raw?.parent_id;
+      await updateProduct(fetch, base, auth, `products/${parentId || match.variant.id}`, { status: 'draft' });
+    },
+
+    // Images are compared with the source by update() itself, so title, description and weight are
+    // left; queued like the other writes and reported by flush
+    async updateContent(product, changes) {
+      const productChange = changes.find(c => c.fields.includes('title') || c.fields.includes('description'));
+      if (productChange && product.id) {
+        const { item, variant, fields } = productChange;
+        const variable = !!variant.raw?.parent_id;
+        const body: any = {};
+        const messages: string[] = [];
+        if (fields.includes('title')) {
+          body.name = variable ? parentName(item) : item.title;
+          messages.push(`Title updated -> ${body.name}`);
+        }
+        if (fields.includes('description')) {
+          body.description = item.description || '';
+          messages.push('Description updated');
+        }
+        await queueUpdate(product.id, null, item.sku, body, messages);
+      }
+      for (const { item, variant, fields } of changes) {
+        if (!fields.includes('weight')) continue;
+        const parentId = variant.raw?.parent_id ? String(variant.raw.parent_id) : null;
+        const weight = item.weight != null ? String(item.weight) : '';
+        await queueUpdate(variant.id, parentId, item.sku, { weight }, [`Weight updated -> ${weight || 'none'}`]);
+      }
+      return [];
+    },
+
+    // Draft unpublishes the product; hide keeps it published but out of the shop and search results.
+    // A restocked draft is published again only when the connection publishes the products it creates
+    async setSoldOut(product, soldOut, mode) {
+      if (!product.id) return null; // Creation still queued
+      const current = product.raw ?? await loadParent(product.id);
+      let body: any = null;
+      let change = '';
+      if (mode === 'draft' && soldOut && current.status === 'publish') {
+        body = { status: 'draft' };
+        change = 'Set to draft (sold out)';
+      } else if (mode === 'draft' && !soldOut && current.status === 'draft' && conn.product_status === 1) {
+        body = { status: 'publish' };
+        change = 'Published (back in stock)';
+      } else if (mode === 'hide' && soldOut && current.catalog_visibility !== 'hidden') {
+        body = { catalog_visibility: 'hidden' };
+        change = 'Hidden from catalog (sold out)';
+      } else if (mode === 'hide' && !soldOut && current.catalog_visibility === 'hidden') {
+        body = { catalog_visibility: 'visible' };
+        change = 'Visible in catalog (back in stock)';
+      }
+      if (!body) return null;
+      await updateProduct(fetch, base, auth, `products/${product.id}`, body);
+      Object.assign(current, body);
+      return change;
+    },
+
+    async remove(match) {
+      await deleteProduct(fetch, base, auth, productPath(match.variant.raw ?? { id: match.variant.id }));
+    },
+
+    async flush() {
+      await sendPending();
+      return results.splice(0);
+    }
+  };
+}
+
+export const wooDestination: DestinationDriver = {
+  logPrefix: 'woo',
+  connect
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { parseFileCatalog } from '../fileCatalog';
+import { parseCsv } from '../../utils/csv';
+
+describe('parseCsv', () => {
+  it('should handle quotes, escaped quotes, embedded newlines and CRLF', () => {
+    const text = '﻿sku,title\r\n"A-1","Shirt, ""blue"""\r\nB-2,"Two\nlines"\r\nC-3,Mug';
+
+    expect(parseCsv(text)).toEqual([
+      ['sku', 'title'],
+      ['A-1', 'Shirt, "blue"'],
+      ['B-2', 'Two\nlines'],
+      ['C-3', 'Mug']
+    ]);
+  });
+
+  it('should reject an unterminated quoted field', () => {
+    expect(() => parseCsv('sku,title\nA-1,"Shirt')).toThrow(/Unterminated/);
+  });
+});
+
+describe('parseFileCatalog', () => {
+  const sheet = [
+    'Name;Price;Code;Qty;Tags',
+    'Shirt;19.9;SHIRT-1;4;summer, sale',
+    ';;;;',
+    'Mug;abc;MUG-1;2;',
+    'Cap;5;SHIRT-1;1;',
+    'Hat;7;HAT-1;-;'
+  ].join('\n');
+
+  it('should map columns by letter and header name and report invalid rows', () => {
+    const result = parseFileCatalog(sheet, {
+      columns: { title: 'A', price: 'price', sku: 'C', stock: '4', tags: 'E' },
+      delimiter: ';',
+      currency: 'eur'
+    });
+
+    expect(result.rowCount).toBe(4);
+    expect(result.items).toEqual([
+      {
+        title: 'Shirt',
+        sku: 'SHIRT-1',
+        barcode: undefined,
+        price: '19.90',
+        compareAtPrice: undefined,
+        currency: 'EUR',
+        stock: 4,
+        imageUrl: undefined,
+        images: undefined,
+        category: undefined,
+        description: undefined,
+        vendor: undefined,
+        tags: ['summer', 'sale'],
+        weight: undefined,
+        weightUnit: undefined,
+        variantTitle: undefined,
+        productId: undefined,
+        source: 'file'
+      }
+    ]);
+    expect(result.errors).toEqual([
+      { row: 4, sku: 'MUG-1', errors: ['price "abc" is not a valid amount'] },
+      { row: 5, sku: 'SHIRT-1', errors: ['duplicate sku (first seen on row 2)'] },
+      { row: 6, sku: 'HAT-1', errors: ['stock "-" is not a whole number'] }
+    ]);
+  });
+
+  it('should throw when the mapping does not fit the file', () => {
+    expect(() =>
+      parseFileCatalog(sheet, { columns: { title: 'A', price: 'B', sku: 'SKU #', stock: 'D' }, delimiter: ';' })
+    ).toThrow(/Column "SKU #" not found/);
+    expect(() => parseFileCatalog(sheet, { columns: { sku: 'C' } })).toThrow(/missing required fields: title, price, stock/);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fetchShopifyCatalog } from '../shopify';
+import { startTestServer, type TestServer } from '../../__tests__/helpers';
+
+const product = (id: number) => ({
+  id,
+  title: `Product ${id}`,
+  body_html: null,
+  vendor: 'Acme',
+  product_type: 'Gear',
+  handle: `product-${id}`,
+  tags: '',
+  status: 'active',
+  images: [],
+  updated_at: '2024-05-01T00:00:00Z',
+  variants: [
+    {
+      id: id * 10,
+      title: 'Default Title',
+      sku: `SKU-${id}`,
+      barcode: null,
+      price: '5.00',
+      compare_at_price: null,
+      inventory_item_id: id * 100,
+      inventory_quantity: 2,
+      weight: 0,
+      weight_unit: 'kg',
+      image_id: null
+    }
+  ]
+});
+
+describe('fetchShopifyCatalog', () => {
+  let server: TestServer;
+  let baseUrl: string;
+  let requests: string[];
+  let graphqlQueries: string[];
+
+  beforeEach(async () => {
+    requests = [];
+    graphqlQueries = [];
+    server = await startTestServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push(url.pathname + url.search);
+      const path = url.pathname.replace('/admin/api/2024-10', '');
+      const send = (body: any, headers: Record<string, string> = {}) => {
+        res.writeHead(200, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(body));
+      };
+
+      if (path === '/products.json' && url.searchParams.get('collection_id') === '900') {
+        return send({ products: [{ id: 1 }, { id: 3 }] });
+      }
+      if (path === '/products.json') {
+        // Two pages linked through the Link header
+        if (url.searchParams.get('page_info') === 'next') {
+          return send({ products: [product(3)] });
+        }
+        return send(
+          { products: [product(1), product(2)] },
+          { Link: `<${baseUrl}/admin/api/2024-10/products.json?page_info=next&limit=250>; rel="next"` }
+        );
+      }
+      if (path === '/smart_collections.json') {
+        return send({
+          smart_collections: [
+            { id: 900, title: 'Gear', handle: 'gear', disjunctive: false, rules: [{ column: 'type', relation: 'equals', condition: 'Gear' }] }
+          ]
+        });
+      }
+      if (path === '/custom_collections.json') {
+        return send({ custom_collections: [{ id: 800, title: 'Featured', handle: 'featured' }] });
+      }
+      if (path === '/collects.json') {
+        return send({ collects: [{ collection_id: 800, product_id: 2 }, { collection_id: 800, product_id: 3 }] });
+      }
+      if (path === '/locations.json') {
+        return send({
+          locations: [
+            { id: 11, name: 'Warehouse', active: true },
+            { id: 12, name: 'Store', active: true },
+            { id: 13, name: 'Closed', active: false }
+          ]
+        });
+      }
+      if (path === '/graphql.json') {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          const { query, variables } = JSON.parse(body);
+          graphqlQueries.push(query);
+          const nodes = variables.ids.map((id: string) => ({
+            id,
+            m0:
+              id === 'gid://shopify/Product/1'
+                ? { namespace: 'custom', key: 'material', type: 'single_line_text_field', value: 'Steel' }
+                : id === 'gid://shopify/ProductVariant/20'
+                  ? { namespace: 'custom', key: 'material', type: 'single_line_text_field', value: 'Wood' }
+                  : null
+          }));
+          send({ data: { nodes } });
+        });
+        return;
+      }
+      if (path === '/inventory_levels.json') {
+        return send({
+          inventory_levels: [
+            { inventory_item_id: 100, location_id: 11, available: 1 },
+            { inventory_item_id: 100, location_id: 12, available: 1 },
+            { inventory_item_id: 100, location_id: 13, available: 5 },
+            { inventory_item_id: 200, location_id: 11, available: null }
+          ]
+        });
+      }
+      res.writeHead(404);
+      res.end();
+    });
+    baseUrl = server.url;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const source = () => ({ shopDomain: 'source.myshopify.com', accessToken: 'shpat_test', apiVersion: '2024-10', baseUrl });
+
+  it('should attach collections from a single index instead of per-product lookups', async () => {
+    const items = await fetchShopifyCatalog(source());
+
+    expect(items.map(i => i.sku)).toEqual(['SKU-1', 'SKU-2', 'SKU-3']);
+    expect(items[0].collections?.map(c => c.title)).toEqual(['Gear']);
+    expect(items[1].collections?.map(c => c.title)).toEqual(['Featured']);
+    expect(items[2].collections?.map(c => `${c.collection_type}:${c.title}`).sort()).toEqual(['custom:Featured', 'smart:Gear']);
+    expect(items[0].collections?.[0].rules).toEqual([{ column: 'type', relation: 'equals', condition: 'Gear' }]);
+
+    // 2 product pages + smart/custom collection lists + collects + 1 smart collection membership
+    // + locations + 1 batch of inventory levels
+    expect(requests).toHaveLength(8);
+    expect(requests.some(r => r.includes('product_id='))).toBe(false);
+  });
+
+  it('should reuse the collection index for incremental fetches and rebuild it for full ones', async () => {
+    const collectionRequests = () => requests.filter(r => /collect|collection_id/.test(r)).length;
+    await fetchShopifyCatalog(source());
+    expect(collectionRequests()).toBe(4);
+
+    const items = await fetchShopifyCatalog(source(), { updatedAtMin: '2024-05-01T00:00:00Z' });
+    expect(items[0].collections?.map(c => c.title)).toEqual(['Gear']);
+    expect(collectionRequests()).toBe(4);
+
+    await fetchShopifyCatalog(source());
+    expect(collectionRequests()).toBe(8);
+  });
+
+  it('should attach per-location stock at active locations and keep the aggregate stock', async () => {
+    const items = await fetchShopifyCatalog(source());
+
+    expect(requests.filter(r => r.includes('/inventory_levels.json'))).toEqual([
+      '/admin/api/2024-10/inventory_levels.json?inventory_item_ids=100,200,300&limit=250'
+    ]);
+    expect(items[0].stock).toBe(2);
+    expect(items[0].inventory).toEqual([
+      { locationId: '11', locationName: 'Warehouse', available: 1 },
+      { locationId: '12', locationName: 'Store', available: 1 }
+    ]);
+    expect(items[1].inventory).toEqual([{ locationId: '11', locationName: 'Warehouse', available: 0 }]);
+    expect(items[2].inventory).toBeUndefined();
+  });
+
+  it('should read configured metafields of products and variants in one GraphQL batch', async () => {
+    const items = await fetchShopifyCatalog(source(), { metafields: ['custom.material'] });
+
+    expect(graphqlQueries).toHaveLength(1);
+    expect(graphqlQueries[0]).toContain('m0: metafield(namespace: "custom", key: "material")');
+    expect(items[0].metafields).toEqual([
+      { namespace: 'custom', key: 'material', type: 'single_line_text_field', value: 'Steel', owner: 'product' }
+    ]);
+    expect(items[1].metafields).toEqual([
+      { namespace: 'custom', key: 'material', type: 'single_line_text_field', value: 'Wood', owner: 'variant' }
+    ]);
+    expect(items[2].metafields).toBeUndefined();
+  });
+
+  it('should throw instead of returning a partial catalog when a page fails', async () => {
+    server.server.removeAllListeners('request');
+    server.server.on('request', (_req, res) => {
+      res.writeHead(403);
+      res.end();
+    });
+
+    await expect(fetchShopifyCatalog(source())).rejects.toThrow(/HTTP 403/);
+  });
+});
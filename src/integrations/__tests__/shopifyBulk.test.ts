@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fetchShopifyCatalogBulk, catalogBulkQuery, inventoryBulkQuery } from '../shopifyBulk';
+import type { ShopifySource } from '../shopify';
+import { startTestServer, type TestServer } from '../../__tests__/helpers';
+
+const CATALOG_LINES = [
+  {
+    id: 'gid://shopify/Product/1',
+    title: 'Shirt',
+    handle: 'shirt',
+    descriptionHtml: '<p>Cotton</p>',
+    vendor: 'Acme',
+    productType: 'Apparel',
+    tags: ['summer', ' sale '],
+    updatedAt: '2024-05-01T00:00:00Z'
+  },
+  { id: 'gid://shopify/ProductImage/11', url: 'https://cdn.example.com/shirt.jpg', altText: null, __parentId: 'gid://shopify/Product/1' },
+  {
+    id: 'gid://shopify/Collection/21',
+    title: 'Summer',
+    handle: 'summer',
+    descriptionHtml: '',
+    sortOrder: 'BEST_SELLING',
+    image: null,
+    ruleSet: { appliedDisjunctively: false, rules: [{ column: 'TAG', relation: 'EQUALS', condition: 'summer' }] },
+    __parentId: 'gid://shopify/Product/1'
+  },
+  {
+    id: 'gid://shopify/ProductVariant/31',
+    title: 'Small',
+    sku: 'SHIRT-S',
+    barcode: '123',
+    price: '19.99',
+    compareAtPrice: '24.99',
+    inventoryQuantity: 7,
+    image: null,
+    inventoryItem: { id: 'gid://shopify/InventoryItem/41', measurement: { weight: { value: 0.2, unit: 'KILOGRAMS' } } },
+    __parentId: 'gid://shopify/Product/1'
+  },
+  {
+    id: 'gid://shopify/ProductVariant/32',
+    title: 'Large',
+    sku: '',
+    price: '19.99',
+    inventoryQuantity: 3,
+    __parentId: 'gid://shopify/Product/1'
+  },
+  { id: 'gid://shopify/Product/2', title: 'Mug', handle: 'mug', tags: [], updatedAt: '2024-05-02T00:00:00Z' },
+  {
+    id: 'gid://shopify/ProductVariant/33',
+    title: 'Default Title',
+    sku: 'MUG',
+    price: '9.00',
+    inventoryQuantity: 0,
+    __parentId: 'gid://shopify/Product/2'
+  }
+];
+
+const INVENTORY_LINES = [
+  { id: 'gid://shopify/InventoryItem/41' },
+  {
+    id: 'gid://shopify/InventoryLevel/51?inventory_item_id=41',
+    location: { id: 'gid://shopify/Location/61', name: 'Warehouse', isActive: true },
+    quantities: [{ name: 'available', quantity: 5 }],
+    __parentId: 'gid://shopify/InventoryItem/41'
+  },
+  {
+    id: 'gid://shopify/InventoryLevel/52?inventory_item_id=41',
+    location: { id: 'gid://shopify/Location/62', name: 'Store', isActive: true },
+    quantities: [{ name: 'available', quantity: 2 }],
+    __parentId: 'gid://shopify/InventoryItem/41'
+  },
+  {
+    id: 'gid://shopify/InventoryLevel/53?inventory_item_id=41',
+    location: { id: 'gid://shopify/Location/63', name: 'Closed', isActive: false },
+    quantities: [{ name: 'available', quantity: 9 }],
+    __parentId: 'gid://shopify/InventoryItem/41'
+  },
+  { id: 'gid://shopify/InventoryItem/42' },
+  {
+    id: 'gid://shopify/InventoryLevel/54?inventory_item_id=42',
+    location: { id: 'gid://shopify/Location/61', name: 'Warehouse', isActive: true },
+    quantities: [{ name: 'available', quantity: 1 }],
+    __parentId: 'gid://shopify/InventoryItem/42'
+  }
+];
+
+// Nesting level of every connection (edges selection) in a query, top-level connections being 1
+function connectionDepths(query: string): number[] {
+  const depths: number[] = [];
+  const open: boolean[] = [];
+  for (const token of query.match(/edges\s*\{|\{|\}/g) || []) {
+    if (token === '}') {
+      open.pop();
+      continue;
+    }
+    const isConnection = token.startsWith('edges');
+    open.push(isConnection);
+    if (isConnection) depths.push(open.filter(Boolean).length);
+  }
+  return depths;
+}
+
+type MockState = {
+  statuses: string[];
+  polls: Record<string, number>; // Status polls per bulk operation id
+  userErrors: { field: string[]; message: string }[];
+  tokens: string[];
+  bulkQueries: string[];
+};
+
+const RESULTS: Record<string, object[]> = {
+  'gid://shopify/BulkOperation/1': CATALOG_LINES,
+  'gid://shopify/BulkOperation/2': INVENTORY_LINES
+};
+
+describe('fetchShopifyCatalogBulk', () => {
+  let server: TestServer;
+  let baseUrl: string;
+  let state: MockState;
+
+  beforeEach(async () => {
+    state = { statuses: ['RUNNING', 'COMPLETED'], polls: {}, userErrors: [], tokens: [], bulkQueries: [] };
+
+    server = await startTestServer((req, res) => {
+      if (req.url?.startsWith('/results/')) {
+        const lines = RESULTS[decodeURIComponent(req.url.slice('/results/'.length))];
+        res.writeHead(200, { 'Content-Type': 'application/jsonl' });
+        res.end(lines.map(l => JSON.stringify(l)).join('\n') + '\n');
+        return;
+      }
+
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        state.tokens.push(String(req.headers['x-shopify-access-token']));
+        const { query, variables } = JSON.parse(body);
+        let data: any;
+        if (query.includes('currencyCode')) {
+          data = { shop: { currencyCode: 'EUR' } };
+        } else if (query.includes('bulkOperationRunQuery')) {
+          state.bulkQueries.push(variables.query);
+          const id = `gid://shopify/BulkOperation/${state.bulkQueries.length}`;
+          data = {
+            bulkOperationRunQuery: {
+              bulkOperation: state.userErrors.length ? null : { id, status: 'CREATED' },
+              userErrors: state.userErrors
+            }
+          };
+        } else {
+          const id: string = variables.id;
+          const polls = state.polls[id] ?? 0;
+          const status = state.statuses[Math.min(polls, state.statuses.length - 1)];
+          state.polls[id] = polls + 1;
+          data = {
+            node: {
+              id,
+              status,
+              errorCode: status === 'FAILED' ? 'INTERNAL_SERVER_ERROR' : null,
+              objectCount: String(RESULTS[id].length),
+              url: status === 'COMPLETED' ? `${baseUrl}/results/${encodeURIComponent(id)}` : null
+            }
+          };
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ data }));
+      });
+    });
+    baseUrl = server.url;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const source = (): ShopifySource => ({
+    shopDomain: 'source.myshopify.com',
+    accessToken: 'shpat_test',
+    apiVersion: '2024-10',
+    baseUrl
+  });
+
+  it('should poll until complete and map the JSONL into catalog items', async () => {
+    const items = await fetchShopifyCatalogBulk(source(), { pollIntervalMs: 1 });
+
+    expect(state.polls).toEqual({ 'gid://shopify/BulkOperation/1': 2, 'gid://shopify/BulkOperation/2': 2 });
+    expect(state.tokens.every(t => t === 'shpat_test')).toBe(true);
+    expect(items.map(i => i.sku)).toEqual(['SHIRT-S', 'MUG']);
+
+    const shirt = items[0];
+    expect(shirt).toMatchObject({
+      title: 'Shirt - Small',
+      price: '19.99',
+      compareAtPrice: '24.99',
+      currency: 'EUR',
+      stock: 7,
+      imageUrl: 'https://cdn.example.com/shirt.jpg',
+      category: 'Apparel',
+      tags: ['summer', 'sale'],
+      weight: 0.2,
+      weightUnit: 'kg',
+      productId: '1',
+      variantId: '31',
+      inventoryItemId: '41',
+      source: 'shopify'
+    });
+    expect(shirt.collections).toEqual([
+      {
+        id: '21',
+        title: 'Summer',
+        handle: 'summer',
+        body_html: undefined,
+        sort_order: 'best-selling',
+        collection_type: 'smart',
+        disjunctive: false,
+        rules: [{ column: 'tag', relation: 'equals', condition: 'summer' }],
+        image: undefined
+      }
+    ]);
+    expect(shirt.inventory).toEqual([
+      { locationId: '61', locationName: 'Warehouse', available: 5 },
+      { locationId: '62', locationName: 'Store', available: 2 }
+    ]);
+
+    const mug = items[1];
+    expect(mug.title).toBe('Mug');
+    expect(mug.variantTitle).toBeUndefined();
+    expect(mug.collections).toBeUndefined();
+    expect(mug.inventory).toBeUndefined();
+  });
+
+  it('should keep each bulk query within the connection limits', async () => {
+    await fetchShopifyCatalogBulk(source(), { pollIntervalMs: 1, metafields: ['custom.material'] });
+
+    expect(state.bulkQueries).toEqual([catalogBulkQuery(undefined, ['custom.material']), inventoryBulkQuery()]);
+    for (const query of state.bulkQueries) {
+      const depths = connectionDepths(query);
+      expect(depths.length).toBeLessThanOrEqual(5);
+      expect(Math.max(...depths)).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it('should throw when the bulk operation fails', async () => {
+    state.statuses = ['FAILED'];
+
+    await expect(fetchShopifyCatalogBulk(source(), { pollIntervalMs: 1 })).rejects.toThrow(/failed \(INTERNAL_SERVER_ERROR\)/);
+  });
+
+  it('should surface userErrors when the operation cannot start', async () => {
+    state.userErrors = [{ field: ['query'], message: 'A bulk query operation for this app and shop is already in progress' }];
+
+    await expect(fetchShopifyCatalogBulk(source(), { pollIntervalMs: 1 })).rejects.toThrow(/already in progress/);
+  });
+
+  it('should time out while the operation is still running', async () => {
+    state.statuses = ['RUNNING'];
+
+    await expect(fetchShopifyCatalogBulk(source(), { pollIntervalMs: 5, timeoutMs: 20 })).rejects.toThrow(/did not finish/);
+  });
+});
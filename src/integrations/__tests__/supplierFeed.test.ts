@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { ServerResponse } from 'node:http';
+import { fetchSupplierFeed } from '../supplierFeed';
+import { toXml } from '../../services/feedBuilder';
+import type { CatalogItem } from '../../models/types';
+import { startTestServer, type TestServer } from '../../__tests__/helpers';
+
+const catalogItem = (n: number): CatalogItem => ({
+  title: `Product ${n}`,
+  sku: `00${n}`,
+  price: '9.50',
+  currency: 'EUR',
+  stock: n,
+  tags: ['a', 'b'],
+  updatedAt: '2024-05-01T00:00:00.000Z',
+  source: 'shopify'
+});
+
+describe('fetchSupplierFeed', () => {
+  let server: TestServer;
+  let baseUrl: string;
+  let requests: { url: string; apiKey?: string }[];
+  let handler: (url: URL, res: ServerResponse) => void;
+
+  beforeEach(async () => {
+    requests = [];
+    server = await startTestServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push({ url: url.pathname + url.search, apiKey: req.headers['x-api-key'] as string | undefined });
+      handler(url, res);
+    });
+    baseUrl = server.url;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should follow the pages of another instance feed.json', async () => {
+    const all = [1, 2, 3].map(catalogItem);
+    handler = (url, res) => {
+      const page = Number(url.searchParams.get('page') || 1);
+      const limit = Number(url.searchParams.get('limit'));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ version: '1.0', page, limit, total: all.length, items: all.slice((page - 1) * limit, page * limit) }));
+    };
+
+    const items = await fetchSupplierFeed({
+      url: `${baseUrl}/v1/feed.json?limit=2`,
+      authHeaderName: 'X-API-Key',
+      authHeaderValue: 'rk_test'
+    });
+
+    expect(requests.map(r => r.url)).toEqual(['/v1/feed.json?limit=2', '/v1/feed.json?limit=2&page=2']);
+    expect(requests.every(r => r.apiKey === 'rk_test')).toBe(true);
+    expect(items.map(i => i.sku)).toEqual(['001', '002', '003']);
+    expect(items[0]).toMatchObject({ title: 'Product 1', price: '9.50', currency: 'EUR', stock: 1, tags: ['a', 'b'], source: 'feed' });
+  });
+
+  it('should read another instance feed.xml without turning SKUs into numbers', async () => {
+    handler = (_url, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/xml' });
+      res.end(toXml({ version: '1.0', generatedAt: '2024-05-01T00:00:00.000Z', items: [catalogItem(7)] }));
+    };
+
+    const items = await fetchSupplierFeed({ url: `${baseUrl}/v1/feed.xml` });
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ sku: '007', title: 'Product 7', price: '9.50', currency: 'EUR', stock: 7, source: 'feed' });
+  });
+
+  it('should apply a field mapping and skip items without sku, title or price', async () => {
+    handler = (_url, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/xml' });
+      res.end(`<?xml version="1.0"?>
+        <catalog><products>
+          <product code="A-1"><name>Lamp</name><pricing><net>12.5</net></pricing><qty>4</qty><keywords>home, light</keywords></product>
+          <product code="A-2"><name>Broken</name><pricing><net>n/a</net></pricing></product>
+        </products></catalog>`);
+    };
+
+    const items = await fetchSupplierFeed({
+      url: `${baseUrl}/supplier.xml`,
+      mapping: {
+        items_path: 'catalog.products.product',
+        fields: { sku: '@_code', title: 'name', price: 'pricing.net', stock: 'qty', tags: 'keywords' },
+        currency: 'GBP'
+      }
+    });
+
+    expect(items).toEqual([
+      expect.objectContaining({ sku: 'A-1', title: 'Lamp', price: '12.5', stock: 4, currency: 'GBP', tags: ['home', 'light'] })
+    ]);
+  });
+
+  it('should throw instead of returning an empty catalog when the feed fails', async () => {
+    handler = (_url, res) => {
+      res.writeHead(403);
+      res.end();
+    };
+    await expect(fetchSupplierFeed({ url: `${baseUrl}/v1/feed.json` })).rejects.toThrow(/HTTP 403/);
+
+    handler = (_url, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ products: [] }));
+    };
+    await expect(fetchSupplierFeed({ url: `${baseUrl}/v1/feed.json` })).rejects.toThrow(/no item list at "items"/);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fetchWooCatalog } from '../woocommerce';
+import { startTestServer, type TestServer } from '../../__tests__/helpers';
+
+const simpleProduct = (id: number) => ({
+  id,
+  name: `Product ${id}`,
+  slug: `product-${id}`,
+  sku: `SKU-${id}`,
+  price: '10.00',
+  regular_price: '10.00',
+  on_sale: false,
+  stock_quantity: 5,
+  images: [],
+  categories: [],
+  tags: [],
+  variations: []
+});
+
+const variableProduct = {
+  id: 500,
+  name: 'Tee',
+  slug: 'tee',
+  sku: 'TEE',
+  description: '<p>Soft tee</p>',
+  weight: '0.3',
+  images: [{ src: 'https://cdn.example.com/tee.jpg' }, { src: 'https://cdn.example.com/tee-back.jpg' }],
+  categories: [{ name: 'Shirts' }],
+  tags: [{ name: 'cotton' }, { name: 'summer' }],
+  brands: [{ id: 1, name: 'Acme' }],
+  meta_data: [{ key: '_global_unique_id', value: '0001112223334' }],
+  variations: [501, 502],
+  date_modified_gmt: '2024-05-01T10:00:00'
+};
+
+const variations = [
+  {
+    id: 501,
+    sku: 'TEE-S',
+    price: '8.00',
+    regular_price: '12.00',
+    on_sale: true,
+    stock_quantity: 3,
+    image: { src: 'https://cdn.example.com/tee-back.jpg' },
+    attributes: [{ name: 'Size', option: 'S' }],
+    meta_data: [{ key: '_alg_ean', value: '5550001112223' }],
+    date_modified_gmt: '2024-05-02T10:00:00'
+  },
+  {
+    id: 502,
+    sku: 'TEE-L',
+    price: '12.00',
+    regular_price: '12.00',
+    on_sale: false,
+    stock_status: 'instock',
+    attributes: [{ name: 'Size', option: 'L' }],
+    meta_data: []
+  }
+];
+
+describe('fetchWooCatalog', () => {
+  let server: TestServer;
+  let baseUrl: string;
+  let productRequests: URLSearchParams[];
+
+  beforeEach(async () => {
+    productRequests = [];
+    // 2 full pages of simple products + a last page holding the variable product
+    const pages = [
+      Array.from({ length: 100 }, (_, i) => simpleProduct(i + 1)),
+      Array.from({ length: 100 }, (_, i) => simpleProduct(i + 101)),
+      [variableProduct]
+    ];
+
+    server = await startTestServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const send = (body: any, headers: Record<string, string> = {}) => {
+        res.writeHead(200, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(body));
+      };
+
+      if (url.pathname === '/wp-json/wc/v3/settings/general') {
+        return send([{ id: 'woocommerce_currency', value: 'EUR' }]);
+      }
+      if (url.pathname === '/wp-json/wc/v3/settings/products/woocommerce_weight_unit') {
+        return send({ id: 'woocommerce_weight_unit', value: 'kg' });
+      }
+      if (url.pathname === '/wp-json/wc/v3/products') {
+        productRequests.push(url.searchParams);
+        const page = Number(url.searchParams.get('page'));
+        return send(pages[page - 1] ?? [], { 'X-WP-TotalPages': String(pages.length) });
+      }
+      if (url.pathname === '/wp-json/wc/v3/products/500/variations') {
+        return send(variations, { 'X-WP-TotalPages': '1' });
+      }
+      res.writeHead(404);
+      res.end();
+    });
+    baseUrl = server.url;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const source = () => ({ baseUrl, consumerKey: 'ck_test', consumerSecret: 'cs_test' });
+
+  it('should page through every product page reported by X-WP-TotalPages', async () => {
+    const items = await fetchWooCatalog(source());
+
+    expect(productRequests.map(p => p.get('page'))).toEqual(['1', '2', '3']);
+    expect(items).toHaveLength(202);
+    expect(items[0]).toMatchObject({ sku: 'SKU-1', currency: 'EUR', productId: '1', source: 'woocommerce' });
+  });
+
+  it('should map variations with rich fields and group them by product', async () => {
+    const items = await fetchWooCatalog(source());
+    const small = items.find(i => i.sku === 'TEE-S')!;
+    const large = items.find(i => i.sku === 'TEE-L')!;
+
+    expect(small).toMatchObject({
+      title: 'Tee - S',
+      variantTitle: 'S',
+      optionNames: ['Size'],
+      price: '8.00',
+      compareAtPrice: '12.00',
+      currency: 'EUR',
+      stock: 3,
+      barcode: '5550001112223',
+      imageUrl: 'https://cdn.example.com/tee-back.jpg',
+      images: ['https://cdn.example.com/tee-back.jpg', 'https://cdn.example.com/tee.jpg'],
+      category: 'Shirts',
+      tags: ['cotton', 'summer'],
+      vendor: 'Acme',
+      description: '<p>Soft tee</p>',
+      weight: 0.3,
+      weightUnit: 'kg',
+      productId: '500',
+      variantId: '501',
+      updatedAt: '2024-05-02T10:00:00'
+    });
+    expect(large).toMatchObject({
+      compareAtPrice: undefined,
+      stock: 1,
+      barcode: '0001112223334',
+      imageUrl: 'https://cdn.example.com/tee.jpg',
+      productId: '500',
+      variantId: '502',
+      updatedAt: '2024-05-01T10:00:00'
+    });
+    // The parent SKU of a variable product is not an item of its own
+    expect(items.find(i => i.sku === 'TEE')).toBeUndefined();
+  });
+
+  it('should pass modified_after only to the product listing', async () => {
+    await fetchWooCatalog(source(), { modifiedAfter: '2024-05-01T00:00:00.000Z' });
+
+    expect(productRequests[0].get('modified_after')).toBe('2024-05-01T00:00:00');
+    expect(productRequests[0].get('dates_are_gmt')).toBe('true');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * File Catalog Source
+ * Maps CSV price/stock sheets uploaded by suppliers onto catalog items, using a
+ * column-mapping profile saved per installation.
+ */
+
+import { CatalogItem } from '../models/types';
+import { parseCsv } from '../utils/csv';
+
+export const FILE_CATALOG_FIELDS = [
+  'sku',
+  'title',
+  'price',
+  'stock',
+  'compare_at_price',
+  'currency',
+  'barcode',
+  'image_url',
+  'category',
+  'vendor',
+  'description',
+  'tags',
+  'weight',
+  'weight_unit',
+  'product_id',
+  'variant_title'
+] as const;
+
+export type FileCatalogField = typeof FILE_CATALOG_FIELDS[number];
+
+// Fields every profile must map
+export const REQUIRED_FILE_CATALOG_FIELDS: FileCatalogField[] = ['sku', 'title', 'price', 'stock'];
+
+/**
+ * Column-mapping profile
+ * A column is referenced by its header name (when the file has a header row),
+ * its spreadsheet letter ("C") or its 1-based position ("3").
+ */
+export type FileColumnMapping = {
+  columns: Partial<Record<FileCatalogField, string>>;
+  has_header?: boolean; // First row holds column names (default true)
+  delimiter?: string; // Field separator (default ',')
+  currency?: string; // Currency when no column is mapped or the cell is empty (default 'USD')
+};
+
+export type FileRowError = {
+  row: number; // Row number as shown in a spreadsheet (header = row 1)
+  sku?: string;
+  errors: string[];
+};
+
+export type FileCatalogParseResult = {
+  items: CatalogItem[];
+  errors: FileRowError[];
+  rowCount: number; // Non-empty data rows
+};
+
+// "A" -> 0, "C" -> 2, "AA" -> 26
+function letterIndex(ref: string): number {
+  let index = 0;
+  for (const ch of ref.toUpperCase()) {
+    index = index * 26 + (ch.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function resolveColumn(ref: string, header: string[] | null): number {
+  const trimmed = ref.trim();
+  if (header) {
+    const byName = header.findIndex(h => h.trim().toLowerCase() === trimmed.toLowerCase());
+    if (byName >= 0) return byName;
+  }
+  if (/^\d+$/.test(trimmed) && Number(trimmed) >= 1) return Number(trimmed) - 1;
+  if (/^[A-Za-z]{1,3}$/.test(trimmed)) return letterIndex(trimmed);
+  throw new Error(`Column "${ref}" not found${header ? ' in the header row' : ''}`);
+}
+
+function parseNumber(raw: string): number {
+  return raw === '' ? Number.NaN : Number(raw);
+}
+
+/**
+ * Parse an uploaded CSV into catalog items
+ * Rows that fail validation are reported in `errors` and left out of `items`.
+ * Throws if the file cannot be read or the mapping does not fit it.
+ */
+export function parseFileCatalog(text: string, mapping: FileColumnMapping): FileCatalogParseResult {
+  const missing = REQUIRED_FILE_CATALOG_FIELDS.filter(f => !mapping.columns[f]);
+  if (missing.length > 0) {
+    throw new Error(`Column mapping is missing required fields: ${missing.join(', ')}`);
+  }
+
+  const rows = parseCsv(text, mapping.delimiter || ',');
+  const hasHeader = mapping.has_header !== false;
+  const header = hasHeader ? rows[0] ?? [] : null;
+  const firstDataRow = hasHeader ? 1 : 0;
+
+  const columns = new Map<FileCatalogField, number>();
+  for (const field of FILE_CATALOG_FIELDS) {
+    const ref = mapping.columns[field];
+    if (ref) columns.set(field, resolveColumn(ref, header));
+  }
+
+  const items: CatalogItem[] = [];
+  const errors: FileRowError[] = [];
+  const seen = new Map<string, number>();
+  let rowCount = 0;
+
+  for (let r = firstDataRow; r < rows.length; r++) {
+    const cells = rows[r];
+    if (cells.every(c => c.trim() === '')) continue;
+    rowCount++;
+
+    const rowNumber = r + 1;
+    const cell = (field: FileCatalogField): string => {
+      const index = columns.get(field);
+      return index === undefined ? '' : (cells[index] ?? '').trim();
+    };
+    const rowErrors: string[] = [];
+
+    const sku = cell('sku');
+    const title = cell('title');
+    if (!sku) rowErrors.push('sku is required');
+    if (!title) rowErrors.push('title is required');
+    if (sku && seen.has(sku)) rowErrors.push(`duplicate sku (first seen on row ${seen.get(sku)})`);
+
+    const price = parseNumber(cell('price'));
+    if (!Number.isFinite(price) || price < 0) rowErrors.push(`price "${cell('price')}" is not a valid amount`);
+
+    const stock = parseNumber(cell('stock'));
+    if (!Number.isInteger(stock)) rowErrors.push(`stock "${cell('stock')}" is not a whole number`);
+
+    const compareAtRaw = cell('compare_at_price');
+    const compareAt = parseNumber(compareAtRaw);
+    if (compareAtRaw && (!Number.isFinite(compareAt) || compareAt < 0)) {
+      rowErrors.push(`compare_at_price "${compareAtRaw}" is not a valid amount`);
+    }
+
+    const weightRaw = cell('weight');
+    const weight = parseNumber(weightRaw);
+    if (weightRaw && (!Number.isFinite(weight) || weight < 0)) {
+      rowErrors.push(`weight "${weightRaw}" is not a valid number`);
+    }
+
+    const currency = (cell('currency') || mapping.currency || 'USD').toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) rowErrors.push(`currency "${currency}" is not an ISO 4217 code`);
+
+    if (rowErrors.length > 0) {
+      errors.push({ row: rowNumber, sku: sku || undefined, errors: rowErrors });
+      continue;
+    }
+    seen.set(sku, rowNumber);
+
+    const imageUrl = cell('image_url') || undefined;
+    const tags = cell('tags').split(',').map(t => t.trim()).filter(Boolean);
+    const variantTitle = cell('variant_title') || undefined;
+
+    items.push({
+      title: variantTitle ? `${title} - ${variantTitle}` : title,
+      sku,
+      barcode: cell('barcode') || undefined,
+      price: price.toFixed(2),
+      compareAtPrice: compareAtRaw ? compareAt.toFixed(2) : undefined,
+      currency,
+      stock,
+      imageUrl,
+      images: imageUrl ? [imageUrl] : undefined,
+      category: cell('category') || undefined,
+      description: cell('description') || undefined,
+      vendor: cell('vendor') || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      weight: weightRaw ? weight : undefined,
+      weightUnit: cell('weight_unit') || undefined,
+      variantTitle,
+      productId: cell('product_id') || undefined,
+      source: 'file'
+    });
+  }
+
+  return { items, errors, rowCount };
+}
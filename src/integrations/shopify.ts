@@ -1,8 +1,9 @@
-import { config } from '../config';
-import { CatalogItem } from '../models/types';
+import { CatalogItem, CatalogMetafield, LocationStock } from '../models/types';
+import { splitMetafieldKey } from '../models/metafields';
+import { retryWithBackoff } from '../utils/retry';
 
 // Generic fetch function type compatible with both native fetch and node-fetch
-type FetchFn = (url: string, init?: { headers?: Record<string, string> }) => Promise<{ ok: boolean; json: () => Promise<any>; headers: { get: (name: string) => string | null } }>;
+type FetchFn = (url: string, init?: { method?: string; headers?: Record<string, string>; body?: string }) => Promise<{ ok: boolean; status: number; json: () => Promise<any>; headers: { get: (name: string) => string | null } }>;
 
 // Use Node.js built-in fetch (available in Node 18+)
 // Fallback to dynamic import of node-fetch if needed
@@ -38,10 +39,25 @@ type ShopifyProduct = {
   tags: string;
   status: string;
   images: { id: number; src: string }[];
+  options?: { name: string }[];
   variants: ShopifyProductVariant[];
   updated_at: string;
 };
 
+// Credentials for the source Shopify store of an installation
+export type ShopifySource = {
+  shopDomain: string;
+  accessToken: string;
+  apiVersion: string;
+  baseUrl?: string; // Overrides https://<shopDomain> (local mock servers)
+};
+
+// Admin API root for a source store, e.g. https://shop.myshopify.com/admin/api/2024-10
+export function shopifyAdminUrl(source: ShopifySource): string {
+  const base = (source.baseUrl || `https://${source.shopDomain}`).replace(/\/$/, '');
+  return `${base}/admin/api/${source.apiVersion}`;
+}
+
 function parseLinkHeader(link: string | null): string | null {
   if (!link) return null;
   // Example: <https://shop.myshopify.com/admin/api/2024-10/products.json?page_info=xyz&limit=250>; rel="next"
@@ -55,123 +71,301 @@ function parseLinkHeader(link: string | null): string | null {
 
 import { CollectionInfo } from '../models/types';
 
-// Fetch collections for a product with full details including rules
-async function fetchProductCollections(
-  fetch: FetchFn,
-  domain: string,
-  apiVersion: string,
-  accessToken: string,
-  productId: string
-): Promise<CollectionInfo[]> {
-  try {
-    const url = `https://${domain}/admin/api/${apiVersion}/collects.json?product_id=${productId}`;
+// GET a REST endpoint with retries on transient failures; anything else throws
+async function shopifyGet(fetch: FetchFn, url: string, accessToken: string, what: string) {
+  return retryWithBackoff(async () => {
     const res = await fetch(url, {
       headers: {
         'X-Shopify-Access-Token': accessToken,
         'Content-Type': 'application/json'
       }
     });
-    
-    if (!res.ok) return [];
-    
+    if (!res.ok) {
+      const error: any = new Error(`Shopify ${what} fetch failed (HTTP ${res.status})`);
+      error.status = res.status;
+      error.response = res;
+      throw error;
+    }
+    return res;
+  });
+}
+
+// Fetch every page of a list endpoint by following Link rel="next"
+async function fetchAllPages(fetch: FetchFn, url: string, accessToken: string, key: string): Promise<any[]> {
+  const rows: any[] = [];
+  let pageUrl: string | null = url;
+  while (pageUrl) {
+    const res = await shopifyGet(fetch, pageUrl, accessToken, key);
     const data = (await res.json()) as any;
-    const collects = data.collects || [];
-    
-    // Fetch collection details for each collect
-    const collections: CollectionInfo[] = [];
-    
-    for (const collect of collects) {
-      // First try to get as smart collection (has rules)
-      const smartUrl = `https://${domain}/admin/api/${apiVersion}/smart_collections/${collect.collection_id}.json`;
-      const smartRes = await fetch(smartUrl, {
-        headers: {
-          'X-Shopify-Access-Token': accessToken,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      if (smartRes.ok) {
-        const smartData = (await smartRes.json()) as any;
-        const smartColl = smartData.smart_collection;
-        if (smartColl) {
-          collections.push({
-            id: String(smartColl.id),
-            title: smartColl.title,
-            handle: smartColl.handle,
-            body_html: smartColl.body_html || undefined,
-            sort_order: smartColl.sort_order || undefined,
-            collection_type: 'smart',
-            disjunctive: smartColl.disjunctive || false,
-            rules: smartColl.rules?.map((r: any) => ({
-              column: r.column,
-              relation: r.relation,
-              condition: r.condition
-            })),
-            image: smartColl.image ? { src: smartColl.image.src, alt: smartColl.image.alt } : undefined
-          });
-          continue;
-        }
-      }
-      
-      // Try as custom collection
-      const customUrl = `https://${domain}/admin/api/${apiVersion}/custom_collections/${collect.collection_id}.json`;
-      const customRes = await fetch(customUrl, {
-        headers: {
-          'X-Shopify-Access-Token': accessToken,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      if (customRes.ok) {
-        const customData = (await customRes.json()) as any;
-        const customColl = customData.custom_collection;
-        if (customColl) {
-          collections.push({
-            id: String(customColl.id),
-            title: customColl.title,
-            handle: customColl.handle,
-            body_html: customColl.body_html || undefined,
-            sort_order: customColl.sort_order || undefined,
-            collection_type: 'custom',
-            image: customColl.image ? { src: customColl.image.src, alt: customColl.image.alt } : undefined
-          });
+    rows.push(...(data[key] || []));
+    pageUrl = parseLinkHeader(res.headers.get('link'));
+  }
+  return rows;
+}
+
+function toCollectionInfo(coll: any, type: CollectionInfo['collection_type']): CollectionInfo {
+  return {
+    id: String(coll.id),
+    title: coll.title,
+    handle: coll.handle,
+    body_html: coll.body_html || undefined,
+    sort_order: coll.sort_order || undefined,
+    collection_type: type,
+    ...(type === 'smart'
+      ? {
+          disjunctive: coll.disjunctive || false,
+          rules: coll.rules?.map((r: any) => ({
+            column: r.column,
+            relation: r.relation,
+            condition: r.condition
+          }))
         }
+      : {}),
+    image: coll.image ? { src: coll.image.src, alt: coll.image.alt } : undefined
+  };
+}
+
+/**
+ * Build a product id -> collections index for a store
+ *
+ * Custom collection membership comes from collects.json in bulk; smart collections
+ * have no collects, so their members are listed per collection. The request count
+ * scales with the number of collections, not products x collections.
+ */
+async function buildCollectionIndex(fetch: FetchFn, adminUrl: string, accessToken: string): Promise<Map<string, CollectionInfo[]>> {
+  const index = new Map<string, CollectionInfo[]>();
+  const add = (productId: string, info: CollectionInfo) => {
+    const list = index.get(productId);
+    if (list) list.push(info);
+    else index.set(productId, [info]);
+  };
+
+  const [smart, custom, collects] = await Promise.all([
+    fetchAllPages(fetch, `${adminUrl}/smart_collections.json?limit=250`, accessToken, 'smart_collections'),
+    fetchAllPages(fetch, `${adminUrl}/custom_collections.json?limit=250`, accessToken, 'custom_collections'),
+    fetchAllPages(fetch, `${adminUrl}/collects.json?limit=250&fields=collection_id,product_id`, accessToken, 'collects')
+  ]);
+
+  const customById = new Map<string, CollectionInfo>(custom.map(c => [String(c.id), toCollectionInfo(c, 'custom')]));
+  for (const collect of collects) {
+    const info = customById.get(String(collect.collection_id));
+    if (info) add(String(collect.product_id), info);
+  }
+
+  for (const coll of smart) {
+    const info = toCollectionInfo(coll, 'smart');
+    const members = await fetchAllPages(
+      fetch,
+      `${adminUrl}/products.json?collection_id=${coll.id}&limit=250&fields=id`,
+      accessToken,
+      'products'
+    );
+    for (const p of members) add(String(p.id), info);
+  }
+
+  return index;
+}
+
+// Collection indexes per source store: incremental fetches reuse one younger than the TTL,
+// full fetches always rebuild it so membership changes are picked up by the reconciliation
+const COLLECTION_INDEX_TTL_MS = 60 * 60 * 1000;
+const collectionIndexes = new Map<string, { builtAt: number; index: Map<string, CollectionInfo[]> }>();
+
+async function getCollectionIndex(fetch: FetchFn, adminUrl: string, accessToken: string, rebuild: boolean): Promise<Map<string, CollectionInfo[]>> {
+  const cached = collectionIndexes.get(adminUrl);
+  if (cached && !rebuild && Date.now() - cached.builtAt < COLLECTION_INDEX_TTL_MS) return cached.index;
+  const index = await buildCollectionIndex(fetch, adminUrl, accessToken);
+  collectionIndexes.set(adminUrl, { builtAt: Date.now(), index });
+  return index;
+}
+
+export type ShopifyLocation = {
+  id: string;
+  name: string;
+  active: boolean;
+};
+
+// Shopify accepts up to 50 inventory_item_ids per inventory_levels request
+const INVENTORY_ITEM_BATCH = 50;
+
+async function fetchLocations(fetch: FetchFn, adminUrl: string, accessToken: string): Promise<ShopifyLocation[]> {
+  const rows = await fetchAllPages(fetch, `${adminUrl}/locations.json`, accessToken, 'locations');
+  return rows.map(l => ({ id: String(l.id), name: l.name, active: l.active !== false }));
+}
+
+/**
+ * List the locations of a source store (used to pick the warehouses a connection sees)
+ */
+export async function fetchShopifyLocations(source: ShopifySource): Promise<ShopifyLocation[]> {
+  const fetch = await getFetch();
+  return fetchLocations(fetch, shopifyAdminUrl(source), source.accessToken);
+}
+
+/**
+ * Per-location available quantities for inventory items, at active locations
+ * Returns null when the token lacks read_inventory / read_locations, so the
+ * catalog still syncs with aggregate stock only.
+ */
+async function fetchInventoryByItem(
+  fetch: FetchFn,
+  adminUrl: string,
+  accessToken: string,
+  inventoryItemIds: string[]
+): Promise<Map<string, LocationStock[]> | null> {
+  try {
+    const names = new Map<string, string>();
+    for (const location of await fetchLocations(fetch, adminUrl, accessToken)) {
+      if (location.active) names.set(location.id, location.name);
+    }
+
+    const byItem = new Map<string, LocationStock[]>();
+    const ids = Array.from(new Set(inventoryItemIds));
+    for (let i = 0; i < ids.length; i += INVENTORY_ITEM_BATCH) {
+      const batch = ids.slice(i, i + INVENTORY_ITEM_BATCH);
+      const levels = await fetchAllPages(
+        fetch,
+        `${adminUrl}/inventory_levels.json?inventory_item_ids=${batch.join(',')}&limit=250`,
+        accessToken,
+        'inventory_levels'
+      );
+      for (const level of levels) {
+        const locationId = String(level.location_id);
+        if (!names.has(locationId)) continue;
+        const itemId = String(level.inventory_item_id);
+        const stock: LocationStock = { locationId, locationName: names.get(locationId), available: Number(level.available ?? 0) };
+        const list = byItem.get(itemId);
+        if (list) list.push(stock);
+        else byItem.set(itemId, [stock]);
       }
     }
-    
-    return collections;
-  } catch {
-    return [];
+    return byItem;
+  } catch (err: any) {
+    if (err?.status === 403) {
+      console.warn('[shopify] Missing read_inventory/read_locations access; per-location stock is not available');
+      return null;
+    }
+    throw err;
   }
 }
 
-export async function fetchShopifyCatalog(): Promise<CatalogItem[]> {
-  if (!config.shopify.shopDomain || !config.shopify.adminAccessToken) return [];
+/**
+ * GraphQL selections reading configured metafields ("namespace.key") as aliases m0, m1, ...
+ * Works on any HasMetafields node (products, variants) in regular and bulk queries.
+ */
+export function metafieldSelections(keys: string[]): string {
+  return keys
+    .map((fullKey, i) => {
+      const { namespace, key } = splitMetafieldKey(fullKey)!;
+      return `m${i}: metafield(namespace: ${JSON.stringify(namespace)}, key: ${JSON.stringify(key)}) { namespace key type value }`;
+    })
+    .join('\n');
+}
 
-  const url = `https://${config.shopify.shopDomain}/admin/api/${config.shopify.apiVersion}/products.json?status=active&limit=250`;
-  const items: CatalogItem[] = [];
-  let pageUrl: string | null = url;
+// Read the aliases selected by metafieldSelections from a node
+export function readMetafieldAliases(node: any, keys: string[], owner: CatalogMetafield['owner']): CatalogMetafield[] {
+  const fields: CatalogMetafield[] = [];
+  keys.forEach((_, i) => {
+    const m = node?.[`m${i}`];
+    if (m && m.value !== null && m.value !== undefined) {
+      fields.push({ namespace: m.namespace, key: m.key, type: m.type, value: String(m.value), owner });
+    }
+  });
+  return fields;
+}
 
-  const fetch = await getFetch();
-  
-  // Cache collections per product to avoid duplicate fetches
-  const productCollectionsCache = new Map<string, CollectionInfo[]>();
-  
-  while (pageUrl) {
-    const res = await fetch(pageUrl, {
+async function shopifyGraphql(fetch: FetchFn, adminUrl: string, accessToken: string, query: string, variables?: Record<string, any>) {
+  return retryWithBackoff(async () => {
+    const res = await fetch(`${adminUrl}/graphql.json`, {
+      method: 'POST',
       headers: {
-        'X-Shopify-Access-Token': config.shopify.adminAccessToken,
+        'X-Shopify-Access-Token': accessToken,
         'Content-Type': 'application/json'
-      }
+      },
+      body: JSON.stringify({ query, variables })
     });
-
     if (!res.ok) {
-      // Rate limiting and error handling will be improved later
-      break;
+      const error: any = new Error(`Shopify GraphQL fetch failed (HTTP ${res.status})`);
+      error.status = res.status;
+      error.response = res;
+      throw error;
+    }
+    const data = (await res.json()) as any;
+    if (data.errors) {
+      const throttled = Array.isArray(data.errors) && data.errors.some((e: any) => e?.extensions?.code === 'THROTTLED');
+      const error: any = new Error(`Shopify GraphQL error: ${JSON.stringify(data.errors)}`);
+      if (throttled) error.status = 429;
+      throw error;
+    }
+    return data.data;
+  });
+}
+
+/**
+ * Configured metafields of products and variants, by owner gid
+ * REST product lists cannot filter metafields, so they are read through GraphQL
+ * nodes() in batches sized to stay under the single-query cost limit.
+ */
+async function fetchMetafieldsByOwner(
+  fetch: FetchFn,
+  adminUrl: string,
+  accessToken: string,
+  ownerIds: string[],
+  keys: string[]
+): Promise<Map<string, CatalogMetafield[]>> {
+  const query = `query SourceMetafields($ids: [ID!]!) {
+  nodes(ids: $ids) {
+    id
+    ... on HasMetafields {
+${metafieldSelections(keys)}
+    }
+  }
+}`;
+  // Each metafield costs one point per node; stay below the 1000-point query limit
+  const batchSize = Math.min(250, Math.max(1, Math.floor(900 / (keys.length + 1))));
+  const byOwner = new Map<string, CatalogMetafield[]>();
+  for (let i = 0; i < ownerIds.length; i += batchSize) {
+    const data = await shopifyGraphql(fetch, adminUrl, accessToken, query, { ids: ownerIds.slice(i, i + batchSize) });
+    for (const node of data?.nodes || []) {
+      if (!node?.id) continue;
+      const owner = node.id.startsWith('gid://shopify/ProductVariant/') ? 'variant' : 'product';
+      const fields = readMetafieldAliases(node, keys, owner);
+      if (fields.length > 0) byOwner.set(node.id, fields);
     }
+  }
+  return byOwner;
+}
+
+export type ShopifyFetchOptions = {
+  updatedAtMin?: string; // Incremental fetch: only products updated at or after this ISO timestamp
+  metafields?: string[]; // Source metafields to read, as "namespace.key"
+};
+
+export async function fetchShopifyCatalog(source: ShopifySource, options: ShopifyFetchOptions = {}): Promise<CatalogItem[]> {
+  if (!source.shopDomain || !source.accessToken) return [];
+
+  const adminUrl = shopifyAdminUrl(source);
+  let url = `${adminUrl}/products.json?status=active&limit=250`;
+  if (options.updatedAtMin) {
+    url += `&updated_at_min=${encodeURIComponent(options.updatedAtMin)}`;
+  }
+  const items: CatalogItem[] = [];
+  let pageUrl: string | null = url;
+
+  const fetch = await getFetch();
+
+  // Collections are resolved from one index instead of per-product lookups.
+  // Built on the first non-empty page so an incremental fetch with no changes stays cheap.
+  let collectionIndex: Map<string, CollectionInfo[]> | null = null;
+
+  while (pageUrl) {
+    // Any failure aborts the fetch so a partial catalog is never returned
+    const res = await shopifyGet(fetch, pageUrl, source.accessToken, `products (after ${items.length} items)`);
 
     const data = (await res.json()) as any;
     const products = data.products as ShopifyProduct[];
+    if (products.length > 0 && !collectionIndex) {
+      collectionIndex = await getCollectionIndex(fetch, adminUrl, source.accessToken, !options.updatedAtMin);
+    }
 
     for (const p of products) {
       const productTitle = p.title;
@@ -183,19 +377,9 @@ export async function fetchShopifyCatalog(): Promise<CatalogItem[]> {
       const tags = p.tags ? p.tags.split(',').map((t: string) => t.trim()).filter(Boolean) : undefined;
       const images = p.images?.map(img => img.src) || [];
       const imageUrl = images[0] || undefined;
+      const optionNames = p.options?.map(o => o.name).filter(Boolean) ?? [];
       
-      // Fetch collections for this product (cached)
-      let collections = productCollectionsCache.get(String(p.id));
-      if (!collections) {
-        collections = await fetchProductCollections(
-          fetch,
-          config.shopify.shopDomain,
-          config.shopify.apiVersion,
-          config.shopify.adminAccessToken,
-          String(p.id)
-        );
-        productCollectionsCache.set(String(p.id), collections);
-      }
+      const collections = collectionIndex?.get(String(p.id)) ?? [];
 
       for (const v of p.variants) {
         const sku = (v.sku || '').trim();
@@ -226,6 +410,7 @@ export async function fetchShopifyCatalog(): Promise<CatalogItem[]> {
           weight: v.weight || undefined,
           weightUnit: v.weight_unit || undefined,
           variantTitle,
+          optionNames: variantTitle && optionNames.length > 0 ? optionNames : undefined,
           productId: String(p.id),
           variantId: String(v.id),
           inventoryItemId: v.inventory_item_id ? String(v.inventory_item_id) : undefined,
@@ -240,5 +425,29 @@ export async function fetchShopifyCatalog(): Promise<CatalogItem[]> {
     pageUrl = nextUrl;
   }
 
+  // Per-location quantities from inventory levels (inventory_quantity is the total across locations)
+  const inventoryItemIds = items.map(i => i.inventoryItemId).filter((id): id is string => !!id);
+  if (inventoryItemIds.length > 0) {
+    const inventory = await fetchInventoryByItem(fetch, adminUrl, source.accessToken, inventoryItemIds);
+    for (const item of items) {
+      const levels = item.inventoryItemId ? inventory?.get(item.inventoryItemId) : undefined;
+      if (levels) item.inventory = levels;
+    }
+  }
+
+  const metafieldKeys = options.metafields ?? [];
+  if (metafieldKeys.length > 0 && items.length > 0) {
+    const productIds = Array.from(new Set(items.map(i => `gid://shopify/Product/${i.productId}`)));
+    const variantIds = items.map(i => `gid://shopify/ProductVariant/${i.variantId}`);
+    const metafields = await fetchMetafieldsByOwner(fetch, adminUrl, source.accessToken, [...productIds, ...variantIds], metafieldKeys);
+    for (const item of items) {
+      const fields = [
+        ...(metafields.get(`gid://shopify/Product/${item.productId}`) ?? []),
+        ...(metafields.get(`gid://shopify/ProductVariant/${item.variantId}`) ?? [])
+      ];
+      if (fields.length > 0) item.metafields = fields;
+    }
+  }
+
   return items;
 }
\ No newline at end of file
@@ -0,0 +1,432 @@
+/**
+ * Shopify Bulk Catalog Ingestion
+ * Reads the source catalog with a GraphQL bulkOperationRunQuery instead of
+ * paging products.json and resolving collections per product.
+ */
+
+import { CatalogItem, CollectionInfo, LocationStock } from '../models/types';
+import { shopifyAdminUrl, metafieldSelections, readMetafieldAliases, type ShopifySource, type ShopifyFetchOptions } from './shopify';
+import { retryWithBackoff } from '../utils/retry';
+
+// Generic fetch function type compatible with both native fetch and node-fetch
+type FetchFn = (
+  url: string,
+  init?: { method?: string; headers?: Record<string, string>; body?: string }
+) => Promise<{ ok: boolean; status: number; json: () => Promise<any>; body: any; headers: { get: (name: string) => string | null } }>;
+
+// Use Node.js built-in fetch (available in Node 18+)
+// Fallback to dynamic import of node-fetch if needed
+const getFetch = async (): Promise<FetchFn> => {
+  if (typeof globalThis.fetch !== 'undefined') {
+    return globalThis.fetch as unknown as FetchFn;
+  }
+  const nodeFetch = await import('node-fetch');
+  return nodeFetch.default as unknown as FetchFn;
+};
+
+export type BulkCatalogOptions = ShopifyFetchOptions & {
+  pollIntervalMs?: number; // Delay between status polls (default 2s)
+  timeoutMs?: number; // Give up waiting for the operation after this long (default 30 min)
+};
+
+// Nested connections are flattened into separate JSONL lines linked by __parentId
+// Metafields are read as single-field aliases: bulk queries allow at most five connections,
+// nested at most two levels deep, so inventory levels are read by inventoryBulkQuery instead
+export const catalogBulkQuery = (updatedAtMin?: string, metafieldKeys: string[] = []) => `{
+  products(query: ${JSON.stringify(updatedAtMin ? `status:active AND updated_at:>='${updatedAtMin}'` : 'status:active')}) {
+    edges {
+      node {
+        id
+        title
+        handle
+        descriptionHtml
+        vendor
+        productType
+        tags
+        options { name }
+        updatedAt
+        ${metafieldSelections(metafieldKeys)}
+        images {
+          edges { node { id url altText } }
+        }
+        collections {
+          edges {
+            node {
+              id
+              title
+              handle
+              descriptionHtml
+              sortOrder
+              image { url altText }
+              ruleSet {
+                appliedDisjunctively
+                rules { column relation condition }
+              }
+            }
+          }
+        }
+        variants {
+          edges {
+            node {
+              id
+              title
+              sku
+              barcode
+              price
+              compareAtPrice
+              inventoryQuantity
+              image { url }
+              ${metafieldSelections(metafieldKeys)}
+              inventoryItem {
+                id
+                measurement { weight { value unit } }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+// Per-location stock, keyed by inventory item so it can be joined onto the catalog's variants
+export const inventoryBulkQuery = () => `{
+  inventoryItems {
+    edges {
+      node {
+        id
+        inventoryLevels {
+          edges {
+            node {
+              id
+              location { id name isActive }
+              quantities(names: ["available"]) { name quantity }
+            }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+const RUN_BULK_QUERY_MUTATION = `mutation RunCatalogBulkQuery($query: String!) {
+  bulkOperationRunQuery(query: $query) {
+    bulkOperation { id status }
+    userErrors { field message }
+  }
+}`;
+
+const BULK_OPERATION_STATUS_QUERY = `query CatalogBulkOperation($id: ID!) {
+  node(id: $id) {
+    ... on BulkOperation { id status errorCode objectCount url partialDataUrl }
+  }
+}`;
+
+const SHOP_CURRENCY_QUERY = `{ shop { currencyCode } }`;
+
+type BulkOperation = {
+  id: string;
+  status: 'CREATED' | 'RUNNING' | 'COMPLETED' | 'CANCELING' | 'CANCELED' | 'FAILED' | 'EXPIRED';
+  errorCode?: string | null;
+  objectCount?: string;
+  url?: string | null;
+};
+
+type BulkProduct = {
+  node: any;
+  images: string[];
+  collections: CollectionInfo[];
+  variants: any[];
+};
+
+const WEIGHT_UNITS: Record<string, string> = {
+  GRAMS: 'g',
+  KILOGRAMS: 'kg',
+  OUNCES: 'oz',
+  POUNDS: 'lb'
+};
+
+// gid://shopify/Product/123 -> 123 (matches the REST ids used elsewhere)
+function legacyId(gid: string | null | undefined): string | undefined {
+  if (!gid) return undefined;
+  const idx = gid.lastIndexOf('/');
+  return idx >= 0 ? gid.slice(idx + 1) : gid;
+}
+
+function gidType(gid: string): string {
+  const m = gid.match(/^gid:\/\/shopify\/([^/]+)\//);
+  return m ? m[1] : '';
+}
+
+async function graphql(fetch: FetchFn, source: ShopifySource, query: string, variables?: Record<string, any>): Promise<any> {
+  return retryWithBackoff(async () => {
+    const res = await fetch(`${shopifyAdminUrl(source)}/graphql.json`, {
+      method: 'POST',
+      headers: {
+        'X-Shopify-Access-Token': source.accessToken,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ query, variables })
+    });
+    if (!res.ok) {
+      const error: any = new Error(`Shopify GraphQL HTTP ${res.status}`);
+      error.status = res.status;
+      error.response = res;
+      throw error;
+    }
+    const data = (await res.json()) as any;
+    if (data.errors) {
+      const throttled = Array.isArray(data.errors) && data.errors.some((e: any) => e?.extensions?.code === 'THROTTLED');
+      const error: any = new Error(`Shopify GraphQL error: ${JSON.stringify(data.errors)}`);
+      if (throttled) error.status = 429;
+      throw error;
+    }
+    return data.data;
+  });
+}
+
+async function startBulkOperation(fetch: FetchFn, source: ShopifySource, query: string): Promise<string> {
+  const data = await graphql(fetch, source, RUN_BULK_QUERY_MUTATION, { query });
+  const result = data?.bulkOperationRunQuery;
+  const userErrors = result?.userErrors || [];
+  if (userErrors.length > 0) {
+    throw new Error(`Shopify bulk operation rejected: ${userErrors.map((e: any) => e.message).join('; ')}`);
+  }
+  if (!result?.bulkOperation?.id) {
+    throw new Error('Shopify bulk operation did not return an id');
+  }
+  return result.bulkOperation.id;
+}
+
+async function waitForBulkOperation(
+  fetch: FetchFn,
+  source: ShopifySource,
+  id: string,
+  pollIntervalMs: number,
+  timeoutMs: number
+): Promise<BulkOperation> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const data = await graphql(fetch, source, BULK_OPERATION_STATUS_QUERY, { id });
+    const op = data?.node as BulkOperation | null;
+    if (!op) throw new Error(`Shopify bulk operation ${id} not found`);
+
+    if (op.status === 'COMPLETED') return op;
+    if (op.status === 'FAILED' || op.status === 'CANCELED' || op.status === 'EXPIRED') {
+      throw new Error(`Shopify bulk operation ${id} ${op.status.toLowerCase()}${op.errorCode ? ` (${op.errorCode})` : ''}`);
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Shopify bulk operation ${id} did not finish within ${Math.round(timeoutMs / 1000)}s`);
+    }
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  }
+}
+
+// Yield one line at a time from a response body without buffering the whole file
+async function* readLines(body: AsyncIterable<Uint8Array | string>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of body) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    let newline = buffer.indexOf('\n');
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield line;
+      newline = buffer.indexOf('\n');
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) yield buffer.trim();
+}
+
+function toCollectionInfo(node: any): CollectionInfo {
+  const rules = node.ruleSet?.rules;
+  return {
+    id: legacyId(node.id)!,
+    title: node.title,
+    handle: node.handle,
+    body_html: node.descriptionHtml || undefined,
+    // GraphQL enums (BEST_SELLING) -> REST values (best-selling)
+    sort_order: node.sortOrder ? String(node.sortOrder).toLowerCase().replace(/_/g, '-') : undefined,
+    collection_type: node.ruleSet ? 'smart' : 'custom',
+    disjunctive: node.ruleSet ? !!node.ruleSet.appliedDisjunctively : undefined,
+    rules: Array.isArray(rules)
+      ? rules.map((r: any) => ({
+          column: String(r.column).toLowerCase(),
+          relation: String(r.relation).toLowerCase(),
+          condition: r.condition
+        }))
+      : undefined,
+    image: node.image ? { src: node.image.url, alt: node.image.altText || undefined } : undefined
+  };
+}
+
+function toCatalogItems(product: BulkProduct, currency: string, metafieldKeys: string[]): CatalogItem[] {
+  const p = product.node;
+  const productMetafields = readMetafieldAliases(p, metafieldKeys, 'product');
+  const items: CatalogItem[] = [];
+  const tags = Array.isArray(p.tags) && p.tags.length > 0 ? p.tags.map((t: string) => t.trim()).filter(Boolean) : undefined;
+  const images = product.images;
+  const optionNames: string[] = Array.isArray(p.options) ? p.options.map((o: any) => o?.name).filter(Boolean) : [];
+
+  for (const v of product.variants) {
+    const sku = (v.sku || '').trim();
+    if (!sku) continue;
+
+    const variantTitle = v.title && v.title !== 'Default Title' ? v.title : undefined;
+    const weight = v.inventoryItem?.measurement?.weight;
+    const metafields = [...productMetafields, ...readMetafieldAliases(v, metafieldKeys, 'variant')];
+
+    items.push({
+      title: variantTitle ? `${p.title} - ${variantTitle}` : p.title,
+      sku,
+      barcode: v.barcode || undefined,
+      price: String(v.price ?? '0'),
+      compareAtPrice: v.compareAtPrice ? String(v.compareAtPrice) : undefined,
+      currency,
+      stock: typeof v.inventoryQuantity === 'number' ? v.inventoryQuantity : 0,
+      imageUrl: v.image?.url || images[0] || undefined,
+      images: images.length > 0 ? images : undefined,
+      category: p.productType || undefined,
+      productHandle: p.handle,
+      description: p.descriptionHtml || undefined,
+      vendor: p.vendor || undefined,
+      tags,
+      weight: weight?.value || undefined,
+      weightUnit: weight?.unit ? WEIGHT_UNITS[weight.unit] || String(weight.unit).toLowerCase() : undefined,
+      variantTitle,
+      optionNames: variantTitle && optionNames.length > 0 ? optionNames : undefined,
+      productId: legacyId(p.id),
+      variantId: legacyId(v.id),
+      inventoryItemId: legacyId(v.inventoryItem?.id),
+      updatedAt: p.updatedAt,
+      source: 'shopify',
+      collections: product.collections.length > 0 ? product.collections : undefined,
+      metafields: metafields.length > 0 ? metafields : undefined
+    });
+  }
+  return items;
+}
+
+/**
+ * Parse bulk operation JSONL into catalog items
+ * Products are emitted in the order they appear; child lines are attached via __parentId.
+ */
+export async function parseBulkCatalog(
+  lines: AsyncIterable<string>,
+  currency: string,
+  metafieldKeys: string[] = []
+): Promise<CatalogItem[]> {
+  const products = new Map<string, BulkProduct>();
+
+  for await (const line of lines) {
+    const node = JSON.parse(line);
+    if (!node?.id) continue;
+
+    if (!node.__parentId) {
+      if (gidType(node.id) === 'Product') {
+        products.set(node.id, { node, images: [], collections: [], variants: [] });
+      }
+      continue;
+    }
+
+    const parent = products.get(node.__parentId);
+    if (!parent) continue;
+
+    switch (gidType(node.id)) {
+      case 'ProductVariant':
+        parent.variants.push(node);
+        break;
+      case 'ProductImage':
+      case 'MediaImage':
+        if (node.url) parent.images.push(node.url);
+        break;
+      case 'Collection':
+        parent.collections.push(toCollectionInfo(node));
+        break;
+    }
+  }
+
+  const items: CatalogItem[] = [];
+  for (const product of products.values()) {
+    items.push(...toCatalogItems(product, currency, metafieldKeys));
+  }
+  return items;
+}
+
+/**
+ * Parse inventory bulk operation JSONL into per-location stock
+ * Keyed by the inventory item's legacy id; inactive locations are left out.
+ */
+export async function parseBulkInventory(lines: AsyncIterable<string>): Promise<Map<string, LocationStock[]>> {
+  const inventory = new Map<string, LocationStock[]>();
+
+  for await (const line of lines) {
+    const node = JSON.parse(line);
+    if (!node?.id || !node.__parentId || gidType(node.id) !== 'InventoryLevel') continue;
+    if (node.location?.isActive === false) continue;
+
+    const available = (node.quantities || []).find((q: any) => q?.name === 'available');
+    const stock: LocationStock = {
+      locationId: legacyId(node.location?.id)!,
+      locationName: node.location?.name || undefined,
+      available: typeof available?.quantity === 'number' ? available.quantity : 0
+    };
+    const itemId = legacyId(node.__parentId)!;
+    const levels = inventory.get(itemId);
+    if (levels) levels.push(stock);
+    else inventory.set(itemId, [stock]);
+  }
+  return inventory;
+}
+
+// Run one bulk query to completion and stream its result lines (null when it matched nothing)
+async function runBulkQuery(
+  fetch: FetchFn,
+  source: ShopifySource,
+  query: string,
+  pollIntervalMs: number,
+  timeoutMs: number
+): Promise<AsyncIterable<string> | null> {
+  const operationId = await startBulkOperation(fetch, source, query);
+  console.log(`[shopifyBulk] Started bulk operation ${operationId} for ${source.shopDomain}`);
+
+  const op = await waitForBulkOperation(fetch, source, operationId, pollIntervalMs, timeoutMs);
+  console.log(`[shopifyBulk] Bulk operation ${operationId} completed with ${op.objectCount ?? 0} objects`);
+
+  // No url means the query matched nothing
+  if (!op.url) return null;
+
+  const res = await fetch(op.url);
+  if (!res.ok || !res.body) {
+    throw new Error(`Failed to download bulk operation results (HTTP ${res.status})`);
+  }
+  return readLines(res.body as AsyncIterable<Uint8Array | string>);
+}
+
+export async function fetchShopifyCatalogBulk(source: ShopifySource, options: BulkCatalogOptions = {}): Promise<CatalogItem[]> {
+  if (!source.shopDomain || !source.accessToken) return [];
+
+  const fetch = await getFetch();
+  const pollIntervalMs = options.pollIntervalMs ?? 2000;
+  const timeoutMs = options.timeoutMs ?? 30 * 60 * 1000;
+
+  const shop = await graphql(fetch, source, SHOP_CURRENCY_QUERY);
+  const currency = shop?.shop?.currencyCode || 'USD';
+
+  const metafieldKeys = options.metafields ?? [];
+  const catalogLines = await runBulkQuery(fetch, source, catalogBulkQuery(options.updatedAtMin, metafieldKeys), pollIntervalMs, timeoutMs);
+  if (!catalogLines) return [];
+  const items = await parseBulkCatalog(catalogLines, currency, metafieldKeys);
+  if (items.length === 0) return items;
+
+  // A shop runs one bulk query at a time, so inventory is read once the catalog operation is done
+  const inventoryLines = await runBulkQuery(fetch, source, inventoryBulkQuery(), pollIntervalMs, timeoutMs);
+  const inventory = inventoryLines ? await parseBulkInventory(inventoryLines) : new Map<string, LocationStock[]>();
+  for (const item of items) {
+    const levels = item.inventoryItemId ? inventory.get(item.inventoryItemId) : undefined;
+    if (levels) item.inventory = levels;
+  }
+  return items;
+}
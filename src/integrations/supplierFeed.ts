@@ -0,0 +1,286 @@
+/**
+ * Supplier Feed Source
+ * Polls a remote JSON or XML product feed and maps it onto catalog items through
+ * a field-mapping profile. Without a profile the feed is read as this
+ * middleware's own /v1/feed.json or /v1/feed.xml, so instances can be chained.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { CatalogItem } from '../models/types';
+import { retryWithBackoff } from '../utils/retry';
+
+// Generic fetch function type compatible with both native fetch and node-fetch
+type FetchFn = (
+  url: string,
+  init?: { headers?: Record<string, string> }
+) => Promise<{ ok: boolean; status: number; text: () => Promise<string>; headers: { get: (name: string) => string | null } }>;
+
+// Use Node.js built-in fetch (available in Node 18+)
+// Fallback to dynamic import of node-fetch if needed
+const getFetch = async (): Promise<FetchFn> => {
+  if (typeof globalThis.fetch !== 'undefined') {
+    return globalThis.fetch as unknown as FetchFn;
+  }
+  const nodeFetch = await import('node-fetch');
+  return nodeFetch.default as unknown as FetchFn;
+};
+
+export type SupplierFeedFormat = 'auto' | 'json' | 'xml';
+
+export const SUPPLIER_FEED_FIELDS = [
+  'sku',
+  'title',
+  'price',
+  'stock',
+  'compare_at_price',
+  'currency',
+  'barcode',
+  'image_url',
+  'images',
+  'category',
+  'product_handle',
+  'description',
+  'vendor',
+  'tags',
+  'weight',
+  'weight_unit',
+  'variant_title',
+  'product_id',
+  'variant_id',
+  'updated_at'
+] as const;
+
+export type SupplierFeedField = typeof SUPPLIER_FEED_FIELDS[number];
+
+/**
+ * Field-mapping profile
+ * Paths are dot-separated ("pricing.net", "variants.0.sku"); XML attributes are
+ * read with an "@_" prefix ("@_id").
+ */
+export type SupplierFeedMapping = {
+  items_path?: string; // Path to the item list
+  fields?: Partial<Record<SupplierFeedField, string>>; // Catalog field -> path within an item
+  currency?: string; // Currency when the feed has none (default 'USD')
+};
+
+export type SupplierFeedSource = {
+  url: string;
+  format?: SupplierFeedFormat;
+  authHeaderName?: string | null;
+  authHeaderValue?: string | null;
+  mapping?: SupplierFeedMapping | null;
+};
+
+// Layout of /v1/feed.json (paged with page/limit/total)
+const MIDDLEWARE_JSON_MAPPING: Required<Pick<SupplierFeedMapping, 'items_path' | 'fields'>> = {
+  items_path: 'items',
+  fields: {
+    sku: 'sku',
+    title: 'title',
+    price: 'price',
+    stock: 'stock',
+    compare_at_price: 'compareAtPrice',
+    currency: 'currency',
+    barcode: 'barcode',
+    image_url: 'imageUrl',
+    images: 'images',
+    category: 'category',
+    product_handle: 'productHandle',
+    description: 'description',
+    vendor: 'vendor',
+    tags: 'tags',
+    weight: 'weight',
+    weight_unit: 'weightUnit',
+    variant_title: 'variantTitle',
+    product_id: 'productId',
+    variant_id: 'variantId',
+    updated_at: 'updatedAt'
+  }
+};
+
+// Layout of /v1/feed.xml (see toXml)
+const MIDDLEWARE_XML_MAPPING: Required<Pick<SupplierFeedMapping, 'items_path' | 'fields'>> = {
+  items_path: 'feed.items.item',
+  fields: Object.fromEntries(SUPPLIER_FEED_FIELDS.map(f => [f, f]))
+};
+
+// Upper bound on followed pages, in case a feed keeps reporting more
+const MAX_PAGES = 1000;
+
+function getPath(value: any, path: string): any {
+  let current = value;
+  for (const key of path.split('.')) {
+    if (current === null || current === undefined) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+// XML text nodes with attributes parse as { '#text': ..., '@_attr': ... }
+function scalar(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object' && '#text' in value) return String(value['#text']).trim();
+  if (typeof value === 'object') return '';
+  return String(value).trim();
+}
+
+function list(value: any): string[] {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) return value.map(scalar).filter(Boolean);
+  return scalar(value).split(',').map(v => v.trim()).filter(Boolean);
+}
+
+function detectFormat(format: SupplierFeedFormat | undefined, contentType: string | null, body: string): 'json' | 'xml' {
+  if (format === 'json' || format === 'xml') return format;
+  if (contentType && /xml/i.test(contentType)) return 'xml';
+  if (contentType && /json/i.test(contentType)) return 'json';
+  return body.trimStart().startsWith('<') ? 'xml' : 'json';
+}
+
+function parseBody(body: string, format: 'json' | 'xml'): any {
+  if (format === 'json') return JSON.parse(body);
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    // Keep values as text: SKUs like 00123 must not turn into numbers
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: true
+  });
+  return parser.parse(body);
+}
+
+/**
+ * Map one parsed feed document onto catalog items
+ * Items without a SKU, title or valid price are skipped.
+ */
+export function mapSupplierFeed(
+  doc: any,
+  format: 'json' | 'xml',
+  mapping: SupplierFeedMapping = {}
+): { items: CatalogItem[]; skipped: number } {
+  const defaults = format === 'xml' ? MIDDLEWARE_XML_MAPPING : MIDDLEWARE_JSON_MAPPING;
+  const itemsPath = mapping.items_path || defaults.items_path;
+  const fields = { ...defaults.fields, ...mapping.fields };
+
+  const raw = getPath(doc, itemsPath);
+  if (raw === undefined || raw === null || raw === '') {
+    const parentPath = itemsPath.split('.').slice(0, -1).join('.');
+    const parent = parentPath ? getPath(doc, parentPath) : doc;
+    // An empty XML list parses as an empty string, so its item element is missing
+    if (raw === undefined && parent !== '') {
+      throw new Error(`Feed has no item list at "${itemsPath}"`);
+    }
+    return { items: [], skipped: 0 };
+  }
+  const entries: any[] = Array.isArray(raw) ? raw : [raw];
+
+  const items: CatalogItem[] = [];
+  let skipped = 0;
+  for (const entry of entries) {
+    const field = (name: SupplierFeedField) => (fields[name] ? getPath(entry, fields[name]!) : undefined);
+    const text = (name: SupplierFeedField) => scalar(field(name));
+
+    const sku = text('sku');
+    const title = text('title');
+    const price = Number(text('price'));
+    if (!sku || !title || text('price') === '' || !Number.isFinite(price)) {
+      skipped++;
+      continue;
+    }
+
+    const stock = Number(text('stock'));
+    const compareAt = text('compare_at_price');
+    const weight = Number(text('weight'));
+    const images = list(field('images'));
+    const imageUrl = text('image_url') || images[0] || undefined;
+    const tags = list(field('tags'));
+
+    items.push({
+      title,
+      sku,
+      barcode: text('barcode') || undefined,
+      price: text('price'),
+      compareAtPrice: compareAt && Number.isFinite(Number(compareAt)) ? compareAt : undefined,
+      currency: text('currency') || mapping.currency || 'USD',
+      stock: Number.isFinite(stock) ? Math.trunc(stock) : 0,
+      imageUrl,
+      images: images.length > 0 ? images : imageUrl ? [imageUrl] : undefined,
+      category: text('category') || undefined,
+      productHandle: text('product_handle') || undefined,
+      description: text('description') || undefined,
+      vendor: text('vendor') || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      weight: text('weight') && Number.isFinite(weight) ? weight : undefined,
+      weightUnit: text('weight_unit') || undefined,
+      variantTitle: text('variant_title') || undefined,
+      productId: text('product_id') || undefined,
+      variantId: text('variant_id') || undefined,
+      updatedAt: text('updated_at') || undefined,
+      source: 'feed'
+    });
+  }
+  return { items, skipped };
+}
+
+async function fetchFeedPage(fetch: FetchFn, url: string, headers: Record<string, string>) {
+  return retryWithBackoff(async () => {
+    const res = await fetch(url, { headers });
+    if (!res.ok) {
+      const error: any = new Error(`Supplier feed HTTP ${res.status} for ${url}`);
+      error.status = res.status;
+      error.response = res;
+      throw error;
+    }
+    return { body: await res.text(), contentType: res.headers.get('content-type') };
+  });
+}
+
+/**
+ * Download a supplier feed and map it onto catalog items
+ * JSON feeds that report page/limit/total (like /v1/feed.json) are followed to the last page.
+ * Throws on HTTP or parse errors so a broken feed never replaces the catalog.
+ */
+export async function fetchSupplierFeed(source: SupplierFeedSource): Promise<CatalogItem[]> {
+  const fetch = await getFetch();
+  const headers: Record<string, string> = { Accept: 'application/json, application/xml;q=0.9, */*;q=0.8' };
+  if (source.authHeaderName && source.authHeaderValue) {
+    headers[source.authHeaderName] = source.authHeaderValue;
+  }
+
+  const items: CatalogItem[] = [];
+  let skipped = 0;
+  let url = source.url;
+  for (let pageCount = 1; ; pageCount++) {
+    const { body, contentType } = await fetchFeedPage(fetch, url, headers);
+    const format = detectFormat(source.format, contentType, body);
+    let doc: any;
+    try {
+      doc = parseBody(body, format);
+    } catch (err: any) {
+      throw new Error(`Supplier feed ${url} is not valid ${format.toUpperCase()}: ${err?.message || err}`);
+    }
+
+    const mapped = mapSupplierFeed(doc, format, source.mapping ?? {});
+    items.push(...mapped.items);
+    skipped += mapped.skipped;
+
+    const page = Number(doc?.page);
+    const limit = Number(doc?.limit);
+    const total = Number(doc?.total);
+    const paged = format === 'json' && page >= 1 && limit >= 1 && Number.isFinite(total);
+    if (!paged || page * limit >= total || mapped.items.length + mapped.skipped === 0) break;
+    if (pageCount >= MAX_PAGES) {
+      throw new Error(`Supplier feed ${source.url} reported more than ${MAX_PAGES} pages`);
+    }
+
+    const next = new URL(url);
+    next.searchParams.set('page', String(page + 1));
+    url = next.toString();
+  }
+
+  if (skipped > 0) {
+    console.warn(`[supplierFeed] Skipped ${skipped} items without sku, title or price in ${source.url}`);
+  }
+  return items;
+}
@@ -1,8 +1,8 @@
-import { config } from '../config';
 import { CatalogItem } from '../models/types';
+import { retryWithBackoff } from '../utils/retry';
 
 // Generic fetch function type compatible with both native fetch and node-fetch
-type FetchFn = (url: string, init?: { headers?: Record<string, string> }) => Promise<{ ok: boolean; json: () => Promise<any> }>;
+type FetchFn = (url: string, init?: { headers?: Record<string, string> }) => Promise<{ ok: boolean; status: number; json: () => Promise<any>; headers: { get: (name: string) => string | null } }>;
 
 // Use Node.js built-in fetch (available in Node 18+)
 // Fallback to dynamic import of node-fetch if needed
@@ -14,104 +14,226 @@ const getFetch = async (): Promise<FetchFn> => {
   return nodeFetch.default as unknown as FetchFn;
 };
 
-export async function fetchWooCatalog(): Promise<CatalogItem[]> {
-  if (!config.woo.baseUrl || !config.woo.consumerKey || !config.woo.consumerSecret) return [];
+// Credentials for a WooCommerce store used as a catalog source
+export type WooSource = {
+  baseUrl: string;
+  consumerKey: string;
+  consumerSecret: string;
+};
 
-  const fetch = await getFetch();
-  const authParams = new URLSearchParams({
-    consumer_key: config.woo.consumerKey,
-    consumer_secret: config.woo.consumerSecret,
-    status: 'publish',
-    per_page: '100'
+// Incremental fetch: only products modified after this ISO timestamp (GMT)
+export type WooFetchOptions = {
+  modifiedAfter?: string;
+};
+
+// Meta keys used by core Woo (9.2+) and common GTIN/EAN plugins, in order of preference
+const GTIN_META_KEYS = [
+  '_global_unique_id',
+  '_wpm_gtin_code',
+  '_alg_ean',
+  'hwp_product_gtin',
+  'hwp_var_gtin',
+  '_ts_gtin',
+  '_gtin',
+  'gtin',
+  '_ean',
+  'ean',
+  '_upc',
+  'upc',
+  '_barcode',
+  'barcode'
+];
+
+// Attribute names treated as the product brand when the store has no brands taxonomy
+const BRAND_ATTRIBUTE_NAMES = ['brand', 'pa_brand', 'manufacturer', 'pa_manufacturer'];
+
+type WooPage = { data: any; totalPages: number | null };
+
+// Retry transient failures; anything else aborts the fetch so a partial catalog is never returned
+async function fetchPage(fetch: FetchFn, url: string, what: string): Promise<WooPage> {
+  return retryWithBackoff(async () => {
+    const res = await fetch(url);
+    if (!res.ok) {
+      const error: any = new Error(`WooCommerce ${what} fetch failed (HTTP ${res.status})`);
+      error.status = res.status;
+      error.response = res;
+      throw error;
+    }
+    const totalPages = Number(res.headers.get('x-wp-totalpages'));
+    return { data: await res.json(), totalPages: Number.isFinite(totalPages) && totalPages > 0 ? totalPages : null };
   });
+}
 
-  const items: CatalogItem[] = [];
+// Fetch every page of a collection endpoint, driven by X-WP-TotalPages
+async function fetchAllPages(fetch: FetchFn, baseUrl: string, what: string, perPage = 100): Promise<any[]> {
+  const results: any[] = [];
   let page = 1;
-  let hasMore = true;
+  let totalPages: number | null = null;
+  for (;;) {
+    const sep = baseUrl.includes('?') ? '&' : '?';
+    const { data, totalPages: reported } = await fetchPage(fetch, `${baseUrl}${sep}per_page=${perPage}&page=${page}`, `${what} page ${page}`);
+    totalPages = reported ?? totalPages;
+    const rows = Array.isArray(data) ? data : [];
+    results.push(...rows);
+    // Without the header, fall back to stopping at the first short page
+    const done = totalPages !== null ? page >= totalPages : rows.length < perPage;
+    if (done || rows.length === 0) break;
+    page += 1;
+  }
+  return results;
+}
 
-  while (hasMore) {
-    const url = `${config.woo.baseUrl.replace(/\/$/, '')}/wp-json/wc/v3/products?${authParams.toString()}&page=${page}`;
-    const res = await fetch(url);
-    if (!res.ok) break;
+// Store currency and weight unit; read-only keys may lack access to settings, so fall back quietly
+async function fetchStoreSettings(fetch: FetchFn, base: string, auth: string): Promise<{ currency: string; weightUnit?: string }> {
+  let currency = 'USD';
+  let weightUnit: string | undefined;
+  try {
+    const { data } = await fetchPage(fetch, `${base}/wp-json/wc/v3/settings/general?${auth}`, 'general settings');
+    const setting = Array.isArray(data) ? data.find((s: any) => s?.id === 'woocommerce_currency') : null;
+    if (setting?.value) currency = String(setting.value);
+  } catch (err) {
+    console.warn('[woocommerce] Could not read store currency, defaulting to USD:', (err as Error).message);
+  }
+  try {
+    const { data } = await fetchPage(fetch, `${base}/wp-json/wc/v3/settings/products/woocommerce_weight_unit?${auth}`, 'weight unit setting');
+    if ((data as any)?.value) weightUnit = String((data as any).value);
+  } catch {
+    // Weight unit stays undefined
+  }
+  return { currency, weightUnit };
+}
 
-    const products = (await res.json()) as any[];
-    if (!products.length) {
-      hasMore = false;
-      break;
-    }
+function metaValue(entity: any, keys: string[]): string | undefined {
+  const meta: any[] = Array.isArray(entity?.meta_data) ? entity.meta_data : [];
+  for (const key of keys) {
+    const m = meta.find(x => x?.key === key);
+    const value = m?.value != null ? String(m.value).trim() : '';
+    if (value) return value;
+  }
+  return undefined;
+}
 
-    for (const p of products) {
-      const productTitle = p.name as string;
-      const imageUrl = Array.isArray(p.images) && p.images[0]?.src ? p.images[0].src : undefined;
-      const category = Array.isArray(p.categories) && p.categories[0]?.name ? p.categories[0].name : undefined;
-      const updatedAt = p.date_modified_gmt || p.date_modified || p.date_created_gmt || undefined;
-      const handle = p.slug as string | undefined;
-
-      // If product has variations, fetch them to get variation-level SKUs
-      if (Array.isArray(p.variations) && p.variations.length > 0) {
-        let vPage = 1;
-        let vHasMore = true;
-        while (vHasMore) {
-          const vUrl = `${config.woo.baseUrl.replace(/\/$/, '')}/wp-json/wc/v3/products/${p.id}/variations?${authParams.toString()}&per_page=100&page=${vPage}`;
-          const vRes = await fetch(vUrl);
-          if (!vRes.ok) break;
-          const vars = (await vRes.json()) as any[];
-          if (!vars.length) {
-            vHasMore = false;
-            break;
-          }
-          for (const v of vars) {
-            const sku = (v.sku || '').trim();
-            if (!sku) continue;
-            const price = String(v.price ?? v.regular_price ?? p.price ?? p.regular_price ?? '0');
-            const stock = typeof v.stock_quantity === 'number' ? v.stock_quantity : (v.stock_status === 'instock' ? 1 : 0);
-            const vTitle = v.attributes && v.attributes.length
-              ? `${productTitle} - ${v.attributes.map((a: any) => a.option).filter(Boolean).join(' / ')}`
-              : productTitle;
-            items.push({
-              title: vTitle,
-              sku,
-              price,
-              currency: 'USD',
-              stock,
-              imageUrl,
-              category,
-              productHandle: handle,
-              updatedAt,
-              source: 'woocommerce'
-            });
-          }
-          vPage += 1;
-        }
-        // Skip adding product-level SKU if we processed variations
-        continue;
-      }
+function gtinOf(entity: any): string | undefined {
+  const direct = typeof entity?.global_unique_id === 'string' ? entity.global_unique_id.trim() : '';
+  return direct || metaValue(entity, GTIN_META_KEYS);
+}
+
+function brandOf(p: any): string | undefined {
+  if (Array.isArray(p.brands) && p.brands[0]?.name) return p.brands[0].name;
+  const attr = Array.isArray(p.attributes)
+    ? p.attributes.find((a: any) => BRAND_ATTRIBUTE_NAMES.includes(String(a?.slug || a?.name || '').toLowerCase()))
+    : null;
+  if (attr && Array.isArray(attr.options) && attr.options[0]) return String(attr.options[0]);
+  return metaValue(p, ['_brand', 'brand']);
+}
 
-      // Woo can have SKU at product level or per variation. For MVP, if product SKU exists, treat as single variant.
-      const sku = (p.sku || '').trim();
-      if (sku) {
-        const price = String(p.price ?? p.regular_price ?? '0');
-        const stock = typeof p.stock_quantity === 'number' ? p.stock_quantity : (p.stock_status === 'instock' ? 1 : 0);
+function toNumber(value: any): number | undefined {
+  const n = Number(value);
+  return value !== '' && value != null && Number.isFinite(n) && n > 0 ? n : undefined;
+}
 
+// Woo `price` is the active price; regular_price is the compare-at price while on sale
+function pricing(entity: any, fallback?: any): { price: string; compareAtPrice?: string } {
+  const price = String(entity.price || entity.regular_price || fallback?.price || fallback?.regular_price || '0');
+  const regular = entity.regular_price ? String(entity.regular_price) : undefined;
+  const compareAtPrice = entity.on_sale && regular && Number(regular) > Number(price) ? regular : undefined;
+  return { price, compareAtPrice };
+}
+
+function stockOf(entity: any): number {
+  return typeof entity.stock_quantity === 'number' ? entity.stock_quantity : (entity.stock_status === 'instock' ? 1 : 0);
+}
+
+export async function fetchWooCatalog(source: WooSource, options: WooFetchOptions = {}): Promise<CatalogItem[]> {
+  if (!source.baseUrl || !source.consumerKey || !source.consumerSecret) return [];
+
+  const fetch = await getFetch();
+  const base = source.baseUrl.replace(/\/$/, '');
+  const auth = new URLSearchParams({
+    consumer_key: source.consumerKey,
+    consumer_secret: source.consumerSecret
+  }).toString();
+
+  const productParams = new URLSearchParams({ status: 'publish' });
+  if (options.modifiedAfter) {
+    // Woo expects a plain ISO8601 date; dates_are_gmt makes it compare against date_modified_gmt
+    productParams.set('modified_after', new Date(options.modifiedAfter).toISOString().slice(0, 19));
+    productParams.set('dates_are_gmt', 'true');
+  }
+
+  const { currency, weightUnit } = await fetchStoreSettings(fetch, base, auth);
+  const products = await fetchAllPages(fetch, `${base}/wp-json/wc/v3/products?${auth}&${productParams.toString()}`, 'products');
+
+  const items: CatalogItem[] = [];
+  for (const p of products) {
+    const productTitle = p.name as string;
+    const images: string[] = Array.isArray(p.images) ? p.images.map((img: any) => img?.src).filter(Boolean) : [];
+    const category = Array.isArray(p.categories) && p.categories[0]?.name ? p.categories[0].name : undefined;
+    const tags: string[] = Array.isArray(p.tags) ? p.tags.map((t: any) => t?.name).filter(Boolean) : [];
+    const productUpdatedAt = p.date_modified_gmt || p.date_modified || p.date_created_gmt || undefined;
+    const shared = {
+      category,
+      productHandle: p.slug as string | undefined,
+      description: p.description || p.short_description || undefined,
+      vendor: brandOf(p),
+      tags: tags.length > 0 ? tags : undefined,
+      productId: String(p.id),
+      source: 'woocommerce' as const
+    };
+
+    // Variable products: one item per variation, all sharing the product id
+    if (Array.isArray(p.variations) && p.variations.length > 0) {
+      // Every variation of a changed product is fetched, so an incremental merge can replace them all
+      const vars = await fetchAllPages(fetch, `${base}/wp-json/wc/v3/products/${p.id}/variations?${auth}`, `variations of product ${p.id}`);
+      for (const v of vars) {
+        const sku = (v.sku || '').trim();
+        if (!sku) continue;
+        const attributes = Array.isArray(v.attributes) ? v.attributes.filter((a: any) => a.option) : [];
+        const attributeOptions = attributes.map((a: any) => a.option);
+        const variantTitle = attributeOptions.length > 0 ? attributeOptions.join(' / ') : undefined;
+        const weight = toNumber(v.weight) ?? toNumber(p.weight);
+        const variationImage = v.image?.src as string | undefined;
+        const variantImages = variationImage ? [variationImage, ...images.filter(src => src !== variationImage)] : images;
         items.push({
-          title: productTitle,
+          ...shared,
+          title: variantTitle ? `${productTitle} - ${variantTitle}` : productTitle,
           sku,
-          price,
-          currency: 'USD',
-          stock,
-          imageUrl,
-          category,
-          productHandle: handle,
-          updatedAt,
-          source: 'woocommerce'
+          barcode: gtinOf(v) || gtinOf(p),
+          ...pricing(v, p),
+          currency,
+          stock: stockOf(v),
+          imageUrl: variantImages[0],
+          images: variantImages.length > 0 ? variantImages : undefined,
+          weight,
+          weightUnit: weight ? weightUnit : undefined,
+          variantTitle,
+          optionNames: variantTitle && attributes.every((a: any) => a.name) ? attributes.map((a: any) => a.name) : undefined,
+          variantId: String(v.id),
+          updatedAt: v.date_modified_gmt || v.date_modified || productUpdatedAt
         });
       }
+      continue;
     }
 
-    page += 1;
-    // Stop after a few pages for MVP safety; remove this limit later
-    if (page > 5) hasMore = false;
+    // Simple products carry the SKU on the product itself
+    const sku = (p.sku || '').trim();
+    if (!sku) continue;
+    const weight = toNumber(p.weight);
+    items.push({
+      ...shared,
+      title: productTitle,
+      sku,
+      barcode: gtinOf(p),
+      ...pricing(p),
+      currency,
+      stock: stockOf(p),
+      imageUrl: images[0],
+      images: images.length > 0 ? images : undefined,
+      weight,
+      weightUnit: weight ? weightUnit : undefined,
+      updatedAt: productUpdatedAt
+    });
   }
 
   return items;
-}
\ No newline at end of file
+}
@@ -23,7 +23,7 @@ export async function requireApiKey(request: FastifyRequest, reply: FastifyReply
 
   for (const r of candidates) {
     if (r.api_key_salt && r.api_key_hash && verifyApiKey(providedKey, r.api_key_salt, r.api_key_hash)) {
-      (request as any).reseller = { name: r.name, version: r.version, id: r.id };
+      (request as any).reseller = { name: r.name, version: r.version, id: r.id, installation_id: r.installation_id ?? null };
       return;
     }
   }
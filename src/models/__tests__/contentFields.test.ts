@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { parseContentFields, contentSnapshot, changedContentFields } from '../contentFields';
+import type { CatalogItem } from '../types';
+
+const item = (overrides: Partial<CatalogItem> = {}): CatalogItem => ({
+  title: 'Mug - Blue',
+  sku: 'MUG-B',
+  price: '10.00',
+  currency: 'USD',
+  stock: 6,
+  source: 'shopify',
+  description: '<p>Stoneware</p>',
+  vendor: 'Acme',
+  imageUrl: 'https://img/blue.jpg',
+  weight: 0.4,
+  ...overrides
+});
+
+describe('parseContentFields', () => {
+  it('should keep known fields and treat anything else as none', () => {
+    expect(parseContentFields('["weight","title","colour"]')).toEqual(['title', 'weight']);
+    expect(parseContentFields(null)).toEqual([]);
+    expect(parseContentFields('not json')).toEqual([]);
+    expect(parseContentFields('{"title":true}')).toEqual([]);
+  });
+});
+
+describe('changedContentFields', () => {
+  const fields = parseContentFields('["title","description","images","vendor","weight"]');
+
+  it('should report every field when nothing was pushed yet', () => {
+    expect(changedContentFields(item(), fields, undefined)).toEqual(fields);
+  });
+
+  it('should report only the fields that changed since the last push', () => {
+    const pushed = contentSnapshot(item(), fields);
+    expect(pushed.images).toBe('["https://img/blue.jpg"]');
+    expect(pushed.weight).toBe('0.4 kg');
+    expect(changedContentFields(item(), fields, pushed)).toEqual([]);
+    expect(changedContentFields(item({ images: ['https://img/a.jpg'], weight: 0.5 }), fields, pushed)).toEqual(['images', 'weight']);
+  });
+
+  it('should treat a field selected after the last push as changed', () => {
+    const pushed = contentSnapshot(item(), ['title']);
+    expect(changedContentFields(item(), ['title', 'vendor'], pushed)).toEqual(['vendor']);
+  });
+});
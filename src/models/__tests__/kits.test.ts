@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { buildKitItems, kitsUsingComponents } from '../kits';
+import { catalogItem as item } from '../../__tests__/helpers';
+
+describe('buildKitItems', () => {
+  it('should compute kit stock as the minimum of component stock per kit quantity', () => {
+    const [kit] = buildKitItems(
+      [{ sku: 'KIT', title: 'Starter kit', price: '12.00', components: [{ sku: 'A', quantity: 2 }, { sku: 'B', quantity: 1 }] }],
+      [item('A', { stock: 7, currency: 'EUR', imageUrl: 'https://cdn.example.com/a.jpg' }), item('B', { stock: 5 })]
+    );
+
+    expect(kit).toMatchObject({
+      sku: 'KIT',
+      title: 'Starter kit',
+      price: '12.00',
+      currency: 'EUR',
+      stock: 3,
+      imageUrl: 'https://cdn.example.com/a.jpg',
+      source: 'kit',
+      kitComponents: [{ sku: 'A', quantity: 2 }, { sku: 'B', quantity: 1 }]
+    });
+  });
+
+  it('should have no stock when a component is missing or oversold', () => {
+    const kits = buildKitItems(
+      [
+        { sku: 'K1', title: 'K1', price: '1.00', currency: 'USD', components: [{ sku: 'A', quantity: 1 }, { sku: 'GONE', quantity: 1 }] },
+        { sku: 'K2', title: 'K2', price: '1.00', components: [{ sku: 'NEG', quantity: 1 }] }
+      ],
+      [item('A'), item('NEG', { stock: -2, currency: 'EUR' })]
+    );
+
+    expect(kits.map(k => `${k.sku}:${k.stock}:${k.currency}`)).toEqual(['K1:0:USD', 'K2:0:EUR']);
+  });
+});
+
+describe('kitsUsingComponents', () => {
+  it('should list the kits containing any of the SKUs', () => {
+    const kits = [
+      { sku: 'K1', title: 'K1', price: '1.00', components: [{ sku: 'A', quantity: 1 }, { sku: 'B', quantity: 1 }] },
+      { sku: 'K2', title: 'K2', price: '1.00', components: [{ sku: 'C', quantity: 1 }] }
+    ];
+
+    expect(kitsUsingComponents(kits, ['B', 'X'])).toEqual(['K1']);
+    expect(kitsUsingComponents(kits, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { parseSourceLocationIds, scopeStockToLocations } from '../locationStock';
+import { catalogItem as item } from '../../__tests__/helpers';
+
+describe('scopeStockToLocations', () => {
+  const items = [
+    item('A', {
+      stock: 6,
+      inventory: [
+        { locationId: '1', available: 2 },
+        { locationId: '2', available: 4 }
+      ]
+    }),
+    item('B', { source: 'woocommerce', stock: 3 })
+  ];
+
+  it('should count only the selected locations and keep stock without a breakdown', () => {
+    const scoped = scopeStockToLocations(items, parseSourceLocationIds('["2","9"]'));
+    expect(scoped.map(i => `${i.sku}:${i.stock}`)).toEqual(['A:4', 'B:3']);
+    // The source items are not modified
+    expect(items[0].stock).toBe(6);
+  });
+
+  it('should build kits from the scoped component stock', () => {
+    const kit = item('KIT', { source: 'kit', stock: 3, kitComponents: [{ sku: 'A', quantity: 2 }, { sku: 'B', quantity: 1 }] });
+    const scoped = scopeStockToLocations([...items, kit], parseSourceLocationIds('["1"]'));
+    expect(scoped.map(i => `${i.sku}:${i.stock}`)).toEqual(['A:2', 'B:3', 'KIT:1']);
+  });
+
+  it('should leave stock untouched when every location counts', () => {
+    expect(scopeStockToLocations(items, parseSourceLocationIds(null))).toBe(items);
+    expect(parseSourceLocationIds('not json')).toBeNull();
+  });
+});
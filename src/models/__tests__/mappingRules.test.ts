@@ -184,6 +184,29 @@ describe('mappingRules', () => {
       expect(result.tags).toEqual(['new-tag1', 'new-tag2']);
     });
 
+    it('should rename mapped metafields and drop unmapped ones', () => {
+      const item: CatalogItem = {
+        ...sampleItem,
+        metafields: [
+          { namespace: 'custom', key: 'material', type: 'single_line_text_field', value: 'Steel', owner: 'product' },
+          { namespace: 'custom', key: 'internal', type: 'single_line_text_field', value: 'x', owner: 'product' },
+          { namespace: 'custom', key: 'color', type: 'single_line_text_field', value: 'Red', owner: 'variant' },
+        ],
+      };
+      const rules: MappingRules = {
+        field_mapping: {
+          metafields: { 'custom.material': 'specs.material', 'custom.color': '_color' },
+        },
+      };
+      const result = applyMappingRules(item, rules);
+
+      expect(result.metafields).toEqual([
+        { namespace: 'specs', key: 'material', type: 'single_line_text_field', value: 'Steel', owner: 'product' },
+        { namespace: '', key: '_color', type: 'single_line_text_field', value: 'Red', owner: 'variant' },
+      ]);
+      expect(applyMappingRules(item, { price_multiplier: 1 }).metafields).toEqual(item.metafields);
+    });
+
     it('should exclude SKUs in exclude_skus', () => {
       const rules: MappingRules = {
         exclude_skus: ['TEST-001'],
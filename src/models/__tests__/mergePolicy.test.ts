@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { mergeCatalogItems } from '../mergePolicy';
+import type { CatalogItem } from '../types';
+
+const item = (source: CatalogItem['source'], sku: string, overrides: Partial<CatalogItem> = {}): CatalogItem => ({
+  title: `${source} ${sku}`,
+  sku,
+  price: '10.00',
+  currency: 'USD',
+  stock: 1,
+  source,
+  ...overrides
+});
+
+describe('mergeCatalogItems', () => {
+  it('should keep the default Shopify > WooCommerce > file > feed precedence by SKU', () => {
+    const merged = mergeCatalogItems([
+      item('woocommerce', 'A'),
+      item('feed', 'B'),
+      item('shopify', 'A'),
+      item('file', 'B')
+    ]);
+
+    expect(merged.map(i => `${i.sku}:${i.source}`)).toEqual(['A:shopify', 'B:file']);
+  });
+
+  it('should follow a custom precedence and merge fields across sources', () => {
+    const merged = mergeCatalogItems(
+      [
+        item('shopify', 'A', { stock: 2, price: '12.00', title: 'Shopify title' }),
+        item('woocommerce', 'A', { stock: 3, price: '9.00', title: 'Woo title' }),
+        item('feed', 'A', { stock: 5, price: '11.00' }),
+        // A duplicate inside one source is not counted twice
+        item('feed', 'A', { stock: 100 })
+      ],
+      {
+        precedence: ['woocommerce'],
+        fields: { stock: 'sum', price: { source: 'feed' } }
+      }
+    );
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ source: 'woocommerce', title: 'Woo title', stock: 10, price: '11.00' });
+  });
+
+  it('should merge the same SKU from two supplier feeds as two sources', () => {
+    const merged = mergeCatalogItems(
+      [
+        item('feed', 'A', { stock: 3, price: '11.00', sourceId: 'feed:north' }),
+        item('feed', 'A', { stock: 5, price: '9.00', sourceId: 'feed:south' }),
+        // A duplicate inside one feed is still not counted twice
+        item('feed', 'A', { stock: 100, sourceId: 'feed:south' })
+      ],
+      { fields: { stock: 'sum', price: 'min' } }
+    );
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ sourceId: 'feed:north', stock: 8, price: '9.00' });
+  });
+
+  it('should pick min/max values and ignore a source that lacks the product', () => {
+    const merged = mergeCatalogItems(
+      [item('shopify', 'A', { price: '12.00', stock: 4 }), item('woocommerce', 'A', { price: '9.50', stock: 7 })],
+      { fields: { price: 'min', stock: 'max', title: { source: 'file' } } }
+    );
+
+    expect(merged[0]).toMatchObject({ source: 'shopify', title: 'shopify A', price: '9.50', stock: 7 });
+  });
+
+  it('should keep the location breakdown of the stock it merged', () => {
+    const inventory = [{ locationId: '1', available: 4 }];
+    const items = [item('shopify', 'A', { stock: 4, inventory }), item('woocommerce', 'A', { stock: 7 })];
+
+    expect(mergeCatalogItems(items, { fields: { stock: 'max' } })[0]).toMatchObject({ stock: 7, inventory: undefined });
+    expect(mergeCatalogItems(items, { fields: { stock: { source: 'shopify' } } })[0]).toMatchObject({ stock: 4, inventory });
+    const summed = mergeCatalogItems(items, { fields: { stock: 'sum' } })[0];
+    expect(summed).toMatchObject({ stock: 11 });
+    expect(summed.inventory).toBeUndefined();
+    expect(mergeCatalogItems([items[0]], { fields: { stock: 'sum' } })[0].inventory).toBe(inventory);
+  });
+
+  it('should match products by barcode, or by either key', () => {
+    const items = [
+      item('shopify', 'SH-1', { barcode: '123', stock: 1 }),
+      item('woocommerce', 'WO-1', { barcode: '123', stock: 2 }),
+      item('woocommerce', 'SH-2', { barcode: '456', stock: 3 }),
+      item('shopify', 'SH-2', { stock: 4 })
+    ];
+
+    const byBarcode = mergeCatalogItems(items, { match_on: 'barcode', fields: { stock: 'sum' } });
+    expect(byBarcode.map(i => `${i.sku}:${i.stock}`)).toEqual(['SH-1:3', 'SH-2:4']);
+
+    const byEither = mergeCatalogItems(items, { match_on: 'sku_or_barcode', fields: { stock: 'sum' } });
+    expect(byEither.map(i => `${i.sku}:${i.stock}`)).toEqual(['SH-1:3', 'SH-2:7']);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Content Fields
+ * Product content a connection keeps in sync on existing destination products,
+ * compared with what was last pushed so unchanged fields are not rewritten.
+ */
+
+import type { CatalogItem } from './types';
+
+// Title, description, images and vendor belong to the product; weight to each variant
+export const CONTENT_FIELDS = ['title', 'description', 'images', 'vendor', 'weight'] as const;
+export type ContentField = (typeof CONTENT_FIELDS)[number];
+
+// Field -> value last pushed, as produced by contentSnapshot
+export type ContentSnapshot = Partial<Record<ContentField, string>>;
+
+/**
+ * Parse a connection's content_fields; unknown names are dropped, null means none
+ */
+export function parseContentFields(json: string | null | undefined): ContentField[] {
+  if (!json) return [];
+  try {
+    const fields = JSON.parse(json);
+    return Array.isArray(fields) ? CONTENT_FIELDS.filter(f => fields.includes(f)) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Images of an item: the product images, else the variant image
+export function contentImages(item: CatalogItem): string[] {
+  if (item.images && item.images.length > 0) return item.images;
+  return item.imageUrl ? [item.imageUrl] : [];
+}
+
+/**
+ * Comparable values of the given fields of an item
+ */
+export function contentSnapshot(item: CatalogItem, fields: readonly ContentField[]): ContentSnapshot {
+  const values: Record<ContentField, () => string> = {
+    title: () => item.title,
+    description: () => item.description ?? '',
+    images: () => JSON.stringify(contentImages(item)),
+    vendor: () => item.vendor ?? '',
+    weight: () => (item.weight != null ? `${item.weight} ${item.weightUnit || 'kg'}` : '')
+  };
+  const snapshot: ContentSnapshot = {};
+  for (const field of fields) snapshot[field] = values[field]();
+  return snapshot;
+}
+
+/**
+ * Fields whose value differs from the one last pushed (all of them when nothing was pushed yet)
+ */
+export function changedContentFields(item: CatalogItem, fields: readonly ContentField[], pushed: ContentSnapshot | undefined): ContentField[] {
+  const current = contentSnapshot(item, fields);
+  return fields.filter(field => pushed?.[field] !== current[field]);
+}
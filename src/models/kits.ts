@@ -0,0 +1,70 @@
+/**
+ * Kits / Bundles
+ * A kit is sold under its own SKU and built from component SKUs of the source
+ * catalog; its stock is how many complete kits the component stock allows.
+ */
+
+import type { CatalogItem } from './types';
+
+export type KitComponent = {
+  sku: string;
+  quantity: number; // Units of the component per kit
+};
+
+export type KitDefinition = {
+  sku: string;
+  title: string;
+  price: string;
+  currency?: string | null; // Default: currency of the first component
+  description?: string | null;
+  imageUrl?: string | null; // Default: image of the first component
+  components: KitComponent[];
+  updatedAt?: string;
+};
+
+/**
+ * Kits that can be built from the component stock
+ * A missing component counts as zero stock; kits are not components of other kits.
+ */
+export function kitStock(kit: Pick<KitDefinition, 'components'>, bySku: Map<string, CatalogItem>): number {
+  if (kit.components.length === 0) return 0;
+  let stock = Number.POSITIVE_INFINITY;
+  for (const component of kit.components) {
+    const item = bySku.get(component.sku);
+    const available = item ? Math.max(0, item.stock) : 0;
+    stock = Math.min(stock, Math.floor(available / Math.max(1, component.quantity)));
+  }
+  return stock;
+}
+
+/**
+ * Virtual catalog items for kits, computed from the (merged) source catalog
+ */
+export function buildKitItems(kits: KitDefinition[], components: CatalogItem[]): CatalogItem[] {
+  const bySku = new Map(components.map(item => [item.sku, item]));
+  return kits.map(kit => {
+    const first = kit.components.map(c => bySku.get(c.sku)).find((item): item is CatalogItem => !!item);
+    const imageUrl = kit.imageUrl || first?.imageUrl || undefined;
+    return {
+      title: kit.title,
+      sku: kit.sku,
+      price: kit.price,
+      currency: kit.currency || first?.currency || 'USD',
+      stock: kitStock(kit, bySku),
+      imageUrl,
+      images: imageUrl ? [imageUrl] : undefined,
+      description: kit.description || undefined,
+      updatedAt: kit.updatedAt,
+      source: 'kit',
+      kitComponents: kit.components
+    };
+  });
+}
+
+/**
+ * SKUs of the kits built from any of the given component SKUs
+ */
+export function kitsUsingComponents(kits: KitDefinition[], skus: string[]): string[] {
+  const components = new Set(skus);
+  return kits.filter(kit => kit.components.some(c => components.has(c.sku))).map(kit => kit.sku);
+}
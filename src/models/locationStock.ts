@@ -0,0 +1,41 @@
+/**
+ * Source Location Stock
+ * Scopes the stock a connection sends to the source locations it is allowed to see.
+ */
+
+import { kitStock } from './kits';
+import type { CatalogItem } from './types';
+
+/**
+ * Parse a connection's source_location_ids; null means every location
+ */
+export function parseSourceLocationIds(json: string | null | undefined): string[] | null {
+  if (!json) return null;
+  try {
+    const ids = JSON.parse(json);
+    return Array.isArray(ids) ? ids.map(String) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stock of an item counting only the given locations
+ * Items without a per-location breakdown (WooCommerce, files, feeds) keep their stock.
+ */
+export function stockAtLocations(item: CatalogItem, locationIds: string[] | null): number {
+  if (!locationIds || !item.inventory) return item.stock;
+  const selected = new Set(locationIds);
+  return item.inventory.reduce((sum, level) => (selected.has(level.locationId) ? sum + level.available : sum), 0);
+}
+
+/**
+ * Apply a connection's location selection to the stock of every item
+ * Kits are recomputed from the scoped stock of their components.
+ */
+export function scopeStockToLocations(items: CatalogItem[], locationIds: string[] | null): CatalogItem[] {
+  if (!locationIds) return items;
+  const scoped = items.map(item => (item.inventory ? { ...item, stock: stockAtLocations(item, locationIds) } : item));
+  const bySku = new Map(scoped.map(item => [item.sku, item]));
+  return scoped.map(item => (item.kitComponents ? { ...item, stock: kitStock({ components: item.kitComponents }, bySku) } : item));
+}
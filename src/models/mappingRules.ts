@@ -3,6 +3,8 @@
  * Extended rules system for product filtering and field mapping
  */
 
+import { mapMetafields } from './metafields';
+
 export interface MappingRules {
   // Price rules
   price_multiplier?: number;
@@ -25,7 +27,7 @@ export interface MappingRules {
     product_type?: string; // Map to a specific product type
     vendor?: string; // Map to a specific vendor
     tags?: string[]; // Map to specific tags
-    metafields?: Record<string, string>; // Custom metafield mappings
+    metafields?: Record<string, string>; // Source "namespace.key" -> destination "namespace.key" (or Woo meta key)
   };
   
   // SKU-based filtering
@@ -73,6 +75,10 @@ export function applyMappingRules(item: any, rules: MappingRules | null): any {
     if (rules.field_mapping.tags && Array.isArray(rules.field_mapping.tags)) {
       result.tags = rules.field_mapping.tags;
     }
+    // Without a metafield mapping, source metafields pass through under their own keys
+    if (rules.field_mapping.metafields) {
+      result.metafields = mapMetafields(result.metafields, rules.field_mapping.metafields);
+    }
   }
   
   return result;
@@ -0,0 +1,199 @@
+/**
+ * Source Merge Policy
+ * Decides how items from several catalog sources that describe the same product
+ * are combined. Shared by the push worker, the sync preview and the reseller feed.
+ */
+
+import type { CatalogItem } from './types';
+
+export type MergeSource = CatalogItem['source'];
+
+// Which identifier makes two source items the same product
+export type MergeKey = 'sku' | 'barcode' | 'sku_or_barcode';
+
+export const MERGE_FIELDS = [
+  'stock',
+  'price',
+  'compare_at_price',
+  'title',
+  'description',
+  'images',
+  'category',
+  'vendor',
+  'tags',
+  'barcode',
+  'weight'
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+/**
+ * How a field is resolved across the sources of one product
+ * - { source }: take it from that source when it has the product (for 'feed', the first feed that has it)
+ * - 'sum' | 'min' | 'max': combine the numeric values of every source
+ * Fields without a strategy come from the highest-precedence source.
+ */
+export type FieldMergeStrategy = 'sum' | 'min' | 'max' | { source: MergeSource };
+
+export interface MergePolicy {
+  precedence?: MergeSource[]; // Highest priority first; unlisted sources follow in the default order
+  match_on?: MergeKey; // Default 'sku'
+  fields?: Partial<Record<MergeField, FieldMergeStrategy>>;
+}
+
+// Kits are computed from the other sources, so a real product with the same SKU wins
+export const DEFAULT_SOURCE_PRECEDENCE: MergeSource[] = ['shopify', 'woocommerce', 'file', 'feed', 'kit'];
+
+// CatalogItem properties carried by each merge field; stock keeps the per-location breakdown it was counted from
+const FIELD_PROPS: Record<MergeField, (keyof CatalogItem)[]> = {
+  stock: ['stock', 'inventory'],
+  price: ['price'],
+  compare_at_price: ['compareAtPrice'],
+  title: ['title', 'variantTitle', 'optionNames'],
+  description: ['description'],
+  images: ['imageUrl', 'images'],
+  category: ['category'],
+  vendor: ['vendor'],
+  tags: ['tags'],
+  barcode: ['barcode'],
+  weight: ['weight', 'weightUnit']
+};
+
+/**
+ * Parse a stored policy; a malformed policy falls back to the defaults
+ */
+export function parseMergePolicy(json: string | null | undefined): MergePolicy | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as MergePolicy;
+  } catch (err) {
+    console.warn('[mergePolicy] Ignoring malformed merge policy:', err);
+    return null;
+  }
+}
+
+function resolvePrecedence(precedence: MergeSource[] | undefined): MergeSource[] {
+  const listed = (precedence ?? []).filter(s => DEFAULT_SOURCE_PRECEDENCE.includes(s));
+  return [...new Set([...listed, ...DEFAULT_SOURCE_PRECEDENCE])];
+}
+
+function matchKeys(item: CatalogItem, matchOn: MergeKey): string[] {
+  const barcode = item.barcode?.trim();
+  if (matchOn === 'barcode') return [barcode ? `barcode:${barcode}` : `sku:${item.sku}`];
+  if (matchOn === 'sku_or_barcode' && barcode) return [`sku:${item.sku}`, `barcode:${barcode}`];
+  return [`sku:${item.sku}`];
+}
+
+// Group items sharing a match key (transitively), keeping the input order
+function groupItems(items: CatalogItem[], matchOn: MergeKey): CatalogItem[][] {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const firstByKey = new Map<string, number>();
+  items.forEach((item, i) => {
+    for (const key of matchKeys(item, matchOn)) {
+      const first = firstByKey.get(key);
+      if (first === undefined) {
+        firstByKey.set(key, i);
+        continue;
+      }
+      const a = find(first);
+      const b = find(i);
+      if (a !== b) parent[Math.max(a, b)] = Math.min(a, b);
+    }
+  });
+
+  const groups = new Map<number, CatalogItem[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) group.push(item);
+    else groups.set(root, [item]);
+  });
+  return Array.from(groups.values());
+}
+
+function numeric(item: CatalogItem, prop: keyof CatalogItem): number {
+  return Number(item[prop]);
+}
+
+// Merge one product; `group` is ordered by precedence
+function mergeGroup(group: CatalogItem[], fields: MergePolicy['fields']): CatalogItem {
+  const merged: CatalogItem = { ...group[0] };
+  if (!fields || group.length === 1) return merged;
+
+  // One item per source: duplicates inside a source are not counted twice, each supplier feed is its own source
+  const bySource = new Map<string, CatalogItem>();
+  for (const item of group) {
+    const key = item.sourceId ?? item.source;
+    if (!bySource.has(key)) bySource.set(key, item);
+  }
+  const candidates = Array.from(bySource.values());
+  const assign = (from: CatalogItem, props: (keyof CatalogItem)[]) => {
+    for (const prop of props) (merged as any)[prop] = from[prop];
+  };
+
+  for (const field of MERGE_FIELDS) {
+    const strategy = fields[field];
+    if (!strategy) continue;
+    const props = FIELD_PROPS[field];
+
+    if (typeof strategy === 'object') {
+      // Highest-precedence source of that kind
+      const from = candidates.find(c => c.source === strategy.source);
+      if (from) assign(from, props);
+      continue;
+    }
+
+    const valued = candidates.filter(c => Number.isFinite(numeric(c, props[0])));
+    if (valued.length === 0) continue;
+    if (strategy === 'sum') {
+      const total = valued.reduce((sum, c) => sum + numeric(c, props[0]), 0);
+      (merged as any)[props[0]] = typeof merged[props[0]] === 'string' ? String(total) : total;
+      // Stock summed over several sources has no single per-location breakdown: location scoping leaves it whole
+      if (field === 'stock') merged.inventory = valued.length === 1 ? valued[0].inventory : undefined;
+      continue;
+    }
+    const pick = valued.reduce((best, c) =>
+      strategy === 'min'
+        ? numeric(c, props[0]) < numeric(best, props[0]) ? c : best
+        : numeric(c, props[0]) > numeric(best, props[0]) ? c : best
+    );
+    assign(pick, props);
+  }
+  return merged;
+}
+
+/**
+ * Merge the items of every source into one item per product
+ * The merged item keeps the SKU of its highest-precedence source; when two
+ * products still end up with the same SKU (barcode matching), the first one wins.
+ */
+export function mergeCatalogItems(items: CatalogItem[], policy?: MergePolicy | null): CatalogItem[] {
+  const precedence = resolvePrecedence(policy?.precedence);
+  const rank = (item: CatalogItem) => {
+    const index = precedence.indexOf(item.source);
+    return index < 0 ? precedence.length : index;
+  };
+  const ordered = items
+    .filter(item => !!item.sku)
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => rank(a.item) - rank(b.item) || a.index - b.index)
+    .map(entry => entry.item);
+
+  const result: CatalogItem[] = [];
+  const skus = new Set<string>();
+  for (const group of groupItems(ordered, policy?.match_on ?? 'sku')) {
+    const merged = mergeGroup(group, policy?.fields);
+    if (skus.has(merged.sku)) continue;
+    skus.add(merged.sku);
+    result.push(merged);
+  }
+  return result;
+}
@@ -0,0 +1,53 @@
+/**
+ * Source Metafields
+ * Which source metafields are ingested, and how mapping rules rename them for a destination.
+ */
+
+import type { CatalogMetafield } from './types';
+
+/**
+ * Parse an installation's source_metafields_json ("namespace.key" entries)
+ */
+export function parseSourceMetafieldKeys(json: string | null | undefined): string[] {
+  if (!json) return [];
+  try {
+    const keys = JSON.parse(json);
+    return Array.isArray(keys) ? keys.map(String).filter(k => !!splitMetafieldKey(k)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * "namespace.key" -> { namespace, key }; the namespace ends at the first dot
+ */
+export function splitMetafieldKey(fullKey: string): { namespace: string; key: string } | null {
+  const idx = fullKey.indexOf('.');
+  if (idx <= 0 || idx === fullKey.length - 1) return null;
+  return { namespace: fullKey.slice(0, idx), key: fullKey.slice(idx + 1) };
+}
+
+/**
+ * Rename metafields through a connection's field_mapping.metafields
+ * Mapping: source "namespace.key" -> destination "namespace.key" (Shopify) or meta key
+ * (WooCommerce, no namespace needed). Unmapped metafields are not sent.
+ */
+export function mapMetafields(
+  metafields: CatalogMetafield[] | undefined,
+  mapping: Record<string, string>
+): CatalogMetafield[] | undefined {
+  if (!metafields) return undefined;
+  const mapped: CatalogMetafield[] = [];
+  for (const field of metafields) {
+    const target = mapping[`${field.namespace}.${field.key}`]?.trim();
+    if (!target) continue;
+    const split = splitMetafieldKey(target);
+    mapped.push({ ...field, namespace: split?.namespace ?? '', key: split?.key ?? target });
+  }
+  return mapped.length > 0 ? mapped : undefined;
+}
+
+// WooCommerce meta_data key of a (mapped) metafield
+export function metafieldMetaKey(field: CatalogMetafield): string {
+  return field.namespace ? `${field.namespace}.${field.key}` : field.key;
+}
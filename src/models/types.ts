@@ -18,6 +18,22 @@ export type CollectionInfo = {
   };
 };
 
+// Quantity available at one source location (e.g. a Shopify location / warehouse)
+export type LocationStock = {
+  locationId: string;
+  locationName?: string;
+  available: number;
+};
+
+// Metafield read from the source store (product- or variant-level)
+export type CatalogMetafield = {
+  namespace: string;
+  key: string;
+  type: string; // Shopify metafield type, e.g. single_line_text_field
+  value: string;
+  owner: 'product' | 'variant';
+};
+
 export type CatalogItem = {
     title: string;
     sku: string;
@@ -26,6 +42,8 @@ export type CatalogItem = {
     compareAtPrice?: string;
     currency: string;
     stock: number;
+    // Per-location quantities, when the source tracks them (stock is the total across all locations)
+    inventory?: LocationStock[];
     imageUrl?: string;
     images?: string[];
     category?: string;
@@ -36,13 +54,21 @@ export type CatalogItem = {
     weight?: number;
     weightUnit?: string;
     variantTitle?: string;
+    // Names of the source variant options, one per variantTitle part (e.g. Color, Size)
+    optionNames?: string[];
     productId?: string;
     variantId?: string;
     inventoryItemId?: string;
     updatedAt?: string;
-    source: 'shopify' | 'woocommerce';
+    source: 'shopify' | 'woocommerce' | 'file' | 'feed' | 'kit';
+    // Which one of several sources of that kind the item came from (catalog source key, e.g. feed:<id>)
+    sourceId?: string;
     // Collection data for syncing (with full details including rules)
     collections?: CollectionInfo[];
+    // Configured source metafields (installation source_metafields_json)
+    metafields?: CatalogMetafield[];
+    // Components of a kit item, so its stock can follow the component stock a connection sees
+    kitComponents?: { sku: string; quantity: number }[];
   };
 
 export type SyncOptions = {
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { createHmac } from 'node:crypto';
+import { catalogItem, useTempDatabase } from '../../__tests__/helpers';
+import type { CatalogItem } from '../../models/types';
+import type { DestinationAdapter, DestinationDriver } from '../../destinations';
+
+const { defaultInstallation, sourceItems, archived } = vi.hoisted(() => ({
+  defaultInstallation: vi.fn(),
+  sourceItems: [] as CatalogItem[],
+  archived: [] as string[]
+}));
+vi.mock('../../services/sourceCatalog', () => ({
+  getDefaultInstallation: defaultInstallation,
+  getSourceItems: async () => sourceItems,
+  kitSkusForComponents: async () => []
+}));
+vi.mock('../../services/feedCache', () => ({ refreshFeedNow: async () => {} }));
+vi.mock('../../destinations', async importOriginal => {
+  const adapter: DestinationAdapter = {
+    name: 'Test store',
+    find: async item => ({ variant: { id: item.sku, sku: item.sku, raw: null }, product: null }),
+    create: async () => null,
+    update: async () => [],
+    setStock: async () => null,
+    archive: async match => {
+      archived.push(match.variant.sku);
+    }
+  };
+  const driver: DestinationDriver = { logPrefix: 'test', connect: async () => adapter };
+  return { ...(await importOriginal<typeof import('../../destinations')>()), getDestinationDriver: () => driver };
+});
+
+import webhookRoutes from '../webhooks';
+import { CatalogItemRepo, ConnectionRepo, InstallationRepo, JobItemRepo, JobRepo, migrate } from '../../db';
+import { runNextJob } from '../../services/pushWorker';
+
+const sign = (body: string, secret: string) => createHmac('sha256', secret).update(body, 'utf8').digest('base64');
+
+describe('WooCommerce webhook', () => {
+  let app: FastifyInstance;
+  const previousSecret = process.env.WOO_WEBHOOK_SECRET;
+
+  beforeEach(async () => {
+    process.env.WOO_WEBHOOK_SECRET = 'woo-secret';
+    defaultInstallation.mockReset().mockResolvedValue(undefined);
+    app = Fastify();
+    await app.register(webhookRoutes);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    if (previousSecret === undefined) delete process.env.WOO_WEBHOOK_SECRET;
+    else process.env.WOO_WEBHOOK_SECRET = previousSecret;
+  });
+
+  const deliver = (body: string, headers: Record<string, string> = {}) => app.inject({
+    method: 'POST',
+    url: '/webhooks/woocommerce',
+    headers: { 'content-type': 'application/json', 'x-wc-webhook-topic': 'product.deleted', ...headers },
+    payload: body
+  });
+
+  it('should reject deliveries without a valid signature before acting on them', async () => {
+    const body = JSON.stringify({ id: 12 });
+
+    expect((await deliver(body)).statusCode).toBe(401);
+    expect((await deliver(body, { 'x-wc-webhook-signature': sign(body, 'other-secret') })).statusCode).toBe(401);
+    delete process.env.WOO_WEBHOOK_SECRET;
+    expect((await deliver(body, { 'x-wc-webhook-signature': sign(body, '') })).statusCode).toBe(401);
+    expect(defaultInstallation).not.toHaveBeenCalled();
+  });
+
+  it('should accept a delivery signed with the webhook secret', async () => {
+    const body = JSON.stringify({ id: 12 });
+
+    const response = await deliver(body, { 'x-wc-webhook-signature': sign(body, 'woo-secret') });
+    expect(response.statusCode).toBe(200);
+    expect(defaultInstallation).toHaveBeenCalled();
+  });
+});
+
+describe('Source product deletion webhook', () => {
+  let app: FastifyInstance;
+  const previousSecret = process.env.WOO_WEBHOOK_SECRET;
+
+  beforeAll(async () => {
+    useTempDatabase();
+    await migrate();
+  });
+
+  beforeEach(async () => {
+    process.env.WOO_WEBHOOK_SECRET = 'woo-secret';
+    app = Fastify();
+    await app.register(webhookRoutes);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await app.close();
+    if (previousSecret === undefined) delete process.env.WOO_WEBHOOK_SECRET;
+    else process.env.WOO_WEBHOOK_SECRET = previousSecret;
+  });
+
+  it('should apply the discontinue policy in the destination once the grace period is over', async () => {
+    const installationId = await InstallationRepo.upsert('source.myshopify.com');
+    defaultInstallation.mockResolvedValue(await InstallationRepo.getById(installationId));
+    await ConnectionRepo.insert({
+      id: 'conn-1', installation_id: installationId, type: 'http', name: 'Partner', status: 'active',
+      dest_shop_domain: null, dest_location_id: null, base_url: null, consumer_key: null, consumer_secret: null,
+      access_token: null, rules_json: null, sync_price: 0, sync_categories: 0, sync_tags: 0, sync_collections: 0,
+      create_products: 1, product_status: 0
+    });
+    await ConnectionRepo.setDiscontinuePolicy('conn-1', { discontinue_policy: 'archive', discontinue_grace_hours: 2 });
+    const mug = catalogItem('MUG-1', { source: 'woocommerce', productId: '12' });
+    await CatalogItemRepo.replaceSource(installationId, 'woocommerce', [
+      { sku: mug.sku, product_id: '12', item_json: JSON.stringify(mug), content_hash: 'h1' }
+    ]);
+
+    const body = JSON.stringify({ id: 12 });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhooks/woocommerce',
+      headers: {
+        'content-type': 'application/json',
+        'x-wc-webhook-topic': 'product.deleted',
+        'x-wc-webhook-signature': sign(body, 'woo-secret')
+      },
+      payload: body
+    });
+    expect(response.statusCode).toBe(200);
+
+    // The job waits out the grace period instead of running (and succeeding) with nothing due
+    const [job] = await JobRepo.listByConnection('conn-1');
+    expect(job.run_after).toBeTruthy();
+    expect(await runNextJob(() => {})).toBe(false);
+    expect(archived).toEqual([]);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 2 * 60 * 60 * 1000 + 1000);
+    expect(await runNextJob(() => {})).toBe(true);
+
+    expect(archived).toEqual(['MUG-1']);
+    expect(await JobRepo.get(job.id)).toMatchObject({ state: 'succeeded' });
+    expect(await JobItemRepo.getProgress(job.id)).toEqual({ total: 1, completed: 1, failed: 0 });
+  });
+});
@@ -1,11 +1,35 @@
 import { FastifyInstance } from 'fastify';
 import { ulid } from 'ulid';
-import { ResellerRepo } from '../db';
+import { ConnectionRepo, InstallationRepo, ResellerRepo } from '../db';
 import { requireAdmin } from '../middleware/adminAuth';
 import { generateApiKey, hashApiKey } from '../security/keys';
+import { syncInstallationCatalog } from '../services/sourceCatalog';
 
 export default async function adminRoutes(app: FastifyInstance) {
-  app.post('/admin/sync', { preHandler: requireAdmin }, async (_req, reply) => {
+  // Force a full source catalog reconciliation (one installation, or all of them).
+  // allow_shrink accepts a catalog the shrink guard would reject (legitimate bulk removals).
+  app.post('/admin/sync', { preHandler: requireAdmin }, async (req, reply) => {
+    const installationId = (req.body as any)?.installation_id as string | undefined;
+    const allowShrink = (req.body as any)?.allow_shrink === true;
+    let installations;
+    if (installationId) {
+      const ins = await InstallationRepo.getById(installationId);
+      if (!ins) return reply.code(404).send({ code: 'not_found', message: 'Installation not found' });
+      installations = [ins];
+    } else {
+      installations = (await InstallationRepo.list()).filter(i => i.status !== 'disabled');
+    }
+    for (const ins of installations) {
+      if (allowShrink) {
+        // Reset the push-side baseline too, so the next full push accepts the smaller catalog
+        for (const conn of await ConnectionRepo.list(ins.id)) {
+          await ConnectionRepo.setLastSourceCount(conn.id, null);
+        }
+      }
+      syncInstallationCatalog(ins, { full: true, allowShrink }).catch(err =>
+        app.log.error({ err, installation_id: ins.id }, 'Full catalog sync failed')
+      );
+    }
     reply.send({ ok: true, triggered: true });
   });
 
@@ -23,6 +47,7 @@ export default async function adminRoutes(app: FastifyInstance) {
       name: r.name,
       status: r.status,
       version: r.version,
+      installation_id: r.installation_id,
       last4: r.last4,
       created_at: r.created_at,
       updated_at: r.updated_at
@@ -34,7 +59,11 @@ export default async function adminRoutes(app: FastifyInstance) {
     const body = req.body as any;
     const name = (body?.name || '').trim();
     const version = (body?.version || 'v1').trim();
+    const installation_id = (body?.installation_id || '').trim() || null;
     if (!name) return reply.code(400).send({ code: 'bad_request', message: 'name required' });
+    if (installation_id && !(await InstallationRepo.getById(installation_id))) {
+      return reply.code(404).send({ code: 'not_found', message: 'Installation not found' });
+    }
 
     const apiKey = generateApiKey(40);
     const { salt, hash, last4 } = hashApiKey(apiKey);
@@ -47,10 +76,11 @@ export default async function adminRoutes(app: FastifyInstance) {
       api_key_hash: hash,
       api_key_salt: salt,
       last4,
-      version
+      version,
+      installation_id
     } as any);
 
-    reply.send({ id, name, version, api_key: apiKey, last4 });
+    reply.send({ id, name, version, installation_id, api_key: apiKey, last4 });
   });
 
   app.post('/admin/resellers/:id/rotate-key', { preHandler: requireAdmin }, async (req, reply) => {
@@ -1,20 +1,46 @@
 import { FastifyInstance } from 'fastify';
 import { ulid } from 'ulid';
-import { ConnectionRepo, InstallationRepo, JobRepo, JobItemRepo } from '../db';
+import { ConnectionRepo, InstallationRepo, JobRepo, JobItemRepo, type InstallationRow } from '../db';
 import { requireAdmin } from '../middleware/adminAuth';
+import { getDefaultInstallation } from '../services/sourceCatalog';
+
+// Resolve the installation named by installation_id or shop_domain, else the SHOPIFY_SHOP_DOMAIN one
+async function resolveInstallation(input: any): Promise<InstallationRow | undefined> {
+  const installationId = typeof input?.installation_id === 'string' ? input.installation_id.trim() : '';
+  if (installationId) return InstallationRepo.getById(installationId);
+  const shopDomain = typeof input?.shop_domain === 'string' ? input.shop_domain.trim() : '';
+  if (shopDomain) return InstallationRepo.getByDomain(shopDomain);
+  return getDefaultInstallation();
+}
 
 export default async function connectionsRoutes(app: FastifyInstance) {
-  // Link or ensure an installation for the source store (for now, use SHOPIFY_SHOP_DOMAIN from env)
-  app.post('/admin/installations/upsert', { preHandler: requireAdmin }, async (_req, reply) => {
-    const domain = process.env.SHOPIFY_SHOP_DOMAIN;
-    if (!domain) return reply.code(400).send({ code: 'bad_request', message: 'SHOPIFY_SHOP_DOMAIN not set' });
-    const id = await InstallationRepo.upsert(domain, process.env.SHOPIFY_ADMIN_ACCESS_TOKEN || null, null);
+  // Link or ensure an installation for a source store (defaults to SHOPIFY_SHOP_DOMAIN from env)
+  app.post('/admin/installations/upsert', { preHandler: requireAdmin }, async (req, reply) => {
+    const body = req.body as any;
+    const requested = (body?.shop_domain || '').trim();
+    const domain = requested || process.env.SHOPIFY_SHOP_DOMAIN;
+    if (!domain) return reply.code(400).send({ code: 'bad_request', message: 'shop_domain required (or set SHOPIFY_SHOP_DOMAIN)' });
+    const envToken = !requested || requested === process.env.SHOPIFY_SHOP_DOMAIN ? process.env.SHOPIFY_ADMIN_ACCESS_TOKEN : undefined;
+    const accessToken = (body?.access_token || '').trim() || envToken || null;
+    const id = await InstallationRepo.upsert(domain, accessToken, null);
     reply.send({ id, shop_domain: domain });
   });
 
-  app.get('/admin/connections', { preHandler: requireAdmin }, async (_req, reply) => {
-    const domain = process.env.SHOPIFY_SHOP_DOMAIN!;
-    const ins = await InstallationRepo.getByDomain(domain);
+  // Choose how the source Shopify catalog is read: 'rest' (paginated products.json) or 'bulk' (GraphQL bulk operation)
+  app.post('/admin/installations/:id/catalog-ingestion', { preHandler: requireAdmin }, async (req, reply) => {
+    const { id } = req.params as any;
+    const mode = (req.body as any)?.mode;
+    if (mode !== 'rest' && mode !== 'bulk') {
+      return reply.code(400).send({ code: 'bad_request', message: "mode must be 'rest' or 'bulk'" });
+    }
+    const ins = await InstallationRepo.getById(id);
+    if (!ins) return reply.code(404).send({ code: 'not_found', message: 'Installation not found' });
+    await InstallationRepo.setCatalogIngestion(id, mode);
+    reply.send({ id, catalog_ingestion: mode });
+  });
+
+  app.get('/admin/connections', { preHandler: requireAdmin }, async (req, reply) => {
+    const ins = await resolveInstallation(req.query);
     if (!ins) return reply.code(404).send({ code: 'not_found', message: 'Installation not found' });
     const list = await ConnectionRepo.list(ins.id);
     reply.send({ connections: list });
@@ -29,8 +55,7 @@ export default async function connectionsRoutes(app: FastifyInstance) {
     if (!name || !dest_shop_domain || !access_token) {
       return reply.code(400).send({ code: 'bad_request', message: 'name, dest_shop_domain, access_token required' });
     }
-    const domain = process.env.SHOPIFY_SHOP_DOMAIN!;
-    const ins = await InstallationRepo.getByDomain(domain);
+    const ins = await resolveInstallation(body);
     if (!ins) return reply.code(404).send({ code: 'not_found', message: 'Installation not found' });
     await ConnectionRepo.insert({
       id: ulid(),
@@ -64,8 +89,7 @@ export default async function connectionsRoutes(app: FastifyInstance) {
     if (!name || !base_url || !consumer_key || !consumer_secret) {
       return reply.code(400).send({ code: 'bad_request', message: 'name, base_url, consumer_key, consumer_secret required' });
     }
-    const domain = process.env.SHOPIFY_SHOP_DOMAIN!;
-    const ins = await InstallationRepo.getByDomain(domain);
+    const ins = await resolveInstallation(body);
     if (!ins) return reply.code(404).send({ code: 'not_found', message: 'Installation not found' });
     await ConnectionRepo.insert({
       id: ulid(),
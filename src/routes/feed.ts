@@ -1,9 +1,22 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { requireApiKey } from '../middleware/auth';
 import { toXml } from '../services/feedBuilder';
-import { getCurrentFeed, queryItems, refreshFeedNow, getDiscontinuedSkus } from '../services/feedCache';
+import { discontinuedSince, getCurrentFeed, queryItems, refreshFeedNow } from '../services/feedCache';
+import { getDefaultInstallation } from '../services/sourceCatalog';
 import { getHealthStatus } from '../utils/health';
 
+// Resellers read the catalog of their own installation; unlinked resellers use the default one
+async function resolveFeedInstallation(req: FastifyRequest, reply: FastifyReply): Promise<string | null> {
+  const linked = (req as any).reseller?.installation_id as string | null | undefined;
+  if (linked) return linked;
+  const ins = await getDefaultInstallation();
+  if (!ins) {
+    reply.code(404).send({ code: 'not_found', message: 'Installation not found' });
+    return null;
+  }
+  return ins.id;
+}
+
 export default async function feedRoutes(app: FastifyInstance) {
   app.get('/health', async (request, reply) => {
     try {
@@ -25,12 +38,14 @@ export default async function feedRoutes(app: FastifyInstance) {
   });
 
   app.get('/v1/feed.json', { preHandler: requireApiKey }, async (req, reply) => {
+    const installationId = await resolveFeedInstallation(req, reply);
+    if (!installationId) return reply;
     const q = req.query as any;
     if (q.refresh === 'true') {
-      await refreshFeedNow();
+      await refreshFeedNow(installationId);
     }
-    const snapshot = getCurrentFeed() || (await refreshFeedNow());
-    const { items, total, page, limit } = queryItems({
+    const snapshot = (await getCurrentFeed(installationId)) || (await refreshFeedNow(installationId));
+    const { items, total, page, limit } = await queryItems(installationId, {
       page: q.page ? Number(q.page) : undefined,
       limit: q.limit ? Number(q.limit) : undefined,
       category: q.category,
@@ -55,12 +70,14 @@ export default async function feedRoutes(app: FastifyInstance) {
   });
 
   app.get('/v1/feed.xml', { preHandler: requireApiKey }, async (req, reply) => {
+    const installationId = await resolveFeedInstallation(req, reply);
+    if (!installationId) return reply;
     const q = req.query as any;
     if (q.refresh === 'true') {
-      await refreshFeedNow();
+      await refreshFeedNow(installationId);
     }
-    const snapshot = getCurrentFeed() || (await refreshFeedNow());
-    const { items } = queryItems({
+    const snapshot = (await getCurrentFeed(installationId)) || (await refreshFeedNow(installationId));
+    const { items } = await queryItems(installationId, {
       page: q.page ? Number(q.page) : undefined,
       limit: q.limit ? Number(q.limit) : undefined,
       category: q.category,
@@ -84,10 +101,12 @@ export default async function feedRoutes(app: FastifyInstance) {
 
   // Delta feed since timestamp (ISO8601)
   app.get('/v1/feed/since/:timestamp', { preHandler: requireApiKey }, async (req, reply) => {
+    const installationId = await resolveFeedInstallation(req, reply);
+    if (!installationId) return reply;
     const p = req.params as any;
     const q = req.query as any;
-    const snapshot = getCurrentFeed() || (await refreshFeedNow());
-    const { items, total, page, limit } = queryItems({
+    const snapshot = (await getCurrentFeed(installationId)) || (await refreshFeedNow(installationId));
+    const { items, total, page, limit } = await queryItems(installationId, {
       page: q.page ? Number(q.page) : undefined,
       limit: q.limit ? Number(q.limit) : undefined,
       since: p.timestamp
@@ -104,10 +123,12 @@ export default async function feedRoutes(app: FastifyInstance) {
     };
   });
 
-  // Discontinued SKUs since last refresh
-  app.get('/v1/feed/discontinued.json', { preHandler: requireApiKey }, async (_req, reply) => {
-    const snapshot = getCurrentFeed() || (await refreshFeedNow());
-    const skus = getDiscontinuedSkus();
+  // SKUs removed from the source catalog; ?since= limits them to removals after the list last applied
+  app.get('/v1/feed/discontinued.json', { preHandler: requireApiKey }, async (req, reply) => {
+    const installationId = await resolveFeedInstallation(req, reply);
+    if (!installationId) return reply;
+    const snapshot = (await getCurrentFeed(installationId)) || (await refreshFeedNow(installationId));
+    const skus = discontinuedSince(snapshot.discontinued, (req.query as any)?.since);
     reply.header('Cache-Control', 'public, max-age=120');
     reply.header('Last-Modified', new Date(snapshot.feed.generatedAt).toUTCString());
     return { version: snapshot.feed.version, generated_at: snapshot.feed.generatedAt, skus };
@@ -1,15 +1,38 @@
 import { FastifyInstance } from 'fastify';
 import { createHmac } from 'node:crypto';
 import { refreshFeedNow } from '../services/feedCache';
-import { ConnectionRepo, InstallationRepo, JobRepo, JobItemRepo } from '../db';
+import { CatalogItemRepo, ConnectionRepo, InstallationRepo, JobRepo, JobItemRepo, type InstallationRow } from '../db';
+import { getDefaultInstallation, kitSkusForComponents } from '../services/sourceCatalog';
 import { ulid } from 'ulid';
 
-function verifyShopifyHmac(secret: string, body: string, headerHmac: string | undefined): boolean {
+// Base64 HMAC-SHA256 of the raw body; Shopify and WooCommerce sign webhooks the same way
+function verifyWebhookHmac(secret: string, body: string, headerHmac: string | undefined): boolean {
   if (!secret || !headerHmac) return false;
   const digest = createHmac('sha256', secret).update(body, 'utf8').digest('base64');
   return digest === headerHmac;
 }
 
+// Resolve the installation a webhook is for: explicit ?installation_id, the shop domain header, then the env store
+async function resolveWebhookInstallation(installationId?: string, shopDomain?: string): Promise<InstallationRow | undefined> {
+  if (installationId) return InstallationRepo.getById(installationId);
+  if (shopDomain) return InstallationRepo.getByDomain(shopDomain);
+  return getDefaultInstallation();
+}
+
+// A product deleted at the source: mark its SKUs removed and queue delete items for
+// connections with a discontinue policy, run once the connection's grace period is over
+async function enqueueProductDeletion(ins: InstallationRow, source: string, productId: string) {
+  const removed = await CatalogItemRepo.markProductRemoved(ins.id, source, productId);
+  if (removed.length === 0) return;
+  const conns = (await ConnectionRepo.list(ins.id)).filter(c => c.status === 'active' && (c.discontinue_policy ?? 'none') !== 'none');
+  for (const c of conns) {
+    const jobId = ulid();
+    const runAfter = new Date(Date.now() + (c.discontinue_grace_hours ?? 24) * 60 * 60 * 1000).toISOString();
+    await JobRepo.enqueue({ id: jobId, connection_id: c.id, job_type: 'delta', run_after: runAfter });
+    await JobItemRepo.addMany(jobId, removed, 'delete');
+  }
+}
+
 export default async function webhookRoutes(app: FastifyInstance) {
   // Use a parser that keeps raw body string for HMAC verification
   app.addContentTypeParser('application/json', { parseAs: 'string' }, function (req, body, done) {
@@ -29,33 +52,42 @@ export default async function webhookRoutes(app: FastifyInstance) {
     const headerHmac = req.headers['x-shopify-hmac-sha256'] as string | undefined;
 
     const bodyString = (req as any)._rawBody || (typeof req.body === 'string' ? req.body : JSON.stringify(req.body ?? {}));
-    if (secret && !verifyShopifyHmac(secret, bodyString, headerHmac)) {
+    if (secret && !verifyWebhookHmac(secret, bodyString, headerHmac)) {
       return reply.code(401).send({ ok: false });
     }
 
     // Extract SKUs from product payload if available
+    const topic = req.headers['x-shopify-topic'] as string | undefined;
     let skus: string[] = [];
+    let deletedId: string | undefined;
     try {
       const payload = typeof req.body === 'string' ? JSON.parse(req.body) : (req.body || {});
+      if (topic === 'products/delete' && payload?.id) deletedId = String(payload.id);
       if (payload && payload.variants && Array.isArray(payload.variants)) {
         skus = payload.variants.map((v: any) => (v.sku || '').trim()).filter((s: string) => s);
       }
     } catch {}
 
-    // Refresh cache in background to keep feed up to date
-    refreshFeedNow().catch(err => app.log.error({ err }, 'Shopify webhook refresh failed'));
-
     // Enqueue delta jobs for all active connections (if SKUs present), else full sync
     try {
-      const domain = process.env.SHOPIFY_SHOP_DOMAIN!;
-      const ins = await InstallationRepo.getByDomain(domain);
-      if (ins) {
+      const ins = await resolveWebhookInstallation(
+        (req.query as any)?.installation_id,
+        req.headers['x-shopify-shop-domain'] as string | undefined
+      );
+      if (ins && deletedId) {
+        await enqueueProductDeletion(ins, 'shopify', deletedId);
+      } else if (ins) {
+        // Refresh cache in background to keep feed up to date
+        refreshFeedNow(ins.id).catch(err => app.log.error({ err }, 'Shopify webhook refresh failed'));
+
+        // Kits built from the changed variants follow their stock
+        const kitSkus = await kitSkusForComponents(ins.id, skus);
         const conns = (await ConnectionRepo.list(ins.id)).filter(c => c.status === 'active');
         for (const c of conns) {
           const jobId = ulid();
           if (skus.length > 0) {
             await JobRepo.enqueue({ id: jobId, connection_id: c.id, job_type: 'delta' });
-            await JobItemRepo.addMany(jobId, skus, 'update');
+            await JobItemRepo.addMany(jobId, [...skus, ...kitSkus], 'update');
           } else {
             await JobRepo.enqueue({ id: jobId, connection_id: c.id, job_type: 'full_sync' });
           }
@@ -69,13 +101,25 @@ export default async function webhookRoutes(app: FastifyInstance) {
   });
 
   // WooCommerce webhook endpoint
-  app.post('/webhooks/woocommerce', async (_req, reply) => {
-    // TODO: Add Woo signature verification with WOO_WEBHOOK_SECRET if needed
-    refreshFeedNow().catch(err => app.log.error({ err }, 'Woo webhook refresh failed'));
+  app.post('/webhooks/woocommerce', async (req, reply) => {
+    // Deliveries can take products off sale, so unsigned ones are rejected (no secret configured rejects them all)
+    const secret = process.env.WOO_WEBHOOK_SECRET || '';
+    const signature = req.headers['x-wc-webhook-signature'] as string | undefined;
+    const bodyString = (req as any)._rawBody || (typeof req.body === 'string' ? req.body : JSON.stringify(req.body ?? {}));
+    if (!verifyWebhookHmac(secret, bodyString, signature)) {
+      if (!secret) app.log.warn('WooCommerce webhook rejected: WOO_WEBHOOK_SECRET is not set');
+      return reply.code(401).send({ ok: false });
+    }
+
     try {
-      const domain = process.env.SHOPIFY_SHOP_DOMAIN!;
-      const ins = await InstallationRepo.getByDomain(domain);
-      if (ins) {
+      // The WooCommerce source belongs to the env installation
+      const ins = await getDefaultInstallation();
+      const payload: any = req.body || {};
+      if (ins && req.headers['x-wc-webhook-topic'] === 'product.deleted' && payload.id) {
+        await enqueueProductDeletion(ins, 'woocommerce', String(payload.id));
+      } else if (ins) {
+        refreshFeedNow(ins.id).catch(err => app.log.error({ err }, 'Woo webhook refresh failed'));
+
         const conns = (await ConnectionRepo.list(ins.id)).filter(c => c.status === 'active');
         for (const c of conns) {
           const jobId = ulid();
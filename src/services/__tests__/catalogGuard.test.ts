@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { checkCatalogShrink } from '../catalogGuard';
+
+describe('checkCatalogShrink', () => {
+  it('should accept the first catalog', () => {
+    expect(checkCatalogShrink(0, 0, 50)).toEqual({ ok: true });
+    expect(checkCatalogShrink(0, 120, 50)).toEqual({ ok: true });
+  });
+
+  it('should accept growth and shrinkage within the limit', () => {
+    expect(checkCatalogShrink(100, 150, 50)).toEqual({ ok: true });
+    expect(checkCatalogShrink(100, 50, 50)).toEqual({ ok: true });
+  });
+
+  it('should reject an empty fetch when a catalog existed', () => {
+    const verdict = checkCatalogShrink(100, 0, 50);
+    expect(verdict.ok).toBe(false);
+    if (!verdict.ok) {
+      expect(verdict.reason).toContain('from 100 to 0 items');
+    }
+  });
+
+  it('should reject shrinkage beyond the limit', () => {
+    expect(checkCatalogShrink(100, 49, 50).ok).toBe(false);
+    expect(checkCatalogShrink(1000, 899, 10).ok).toBe(false);
+  });
+
+  it('should be disabled with a limit of 100 or more', () => {
+    expect(checkCatalogShrink(100, 0, 100)).toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { applyDiscontinuation, type DiscontinuedSku } from '../discontinuation';
+import type { ConnectionRow, DiscontinuePolicy } from '../../db';
+import type { DestinationAdapter, DestinationMatch } from '../../destinations';
+import type { CatalogItem } from '../../models/types';
+
+const item: CatalogItem = {
+  title: 'Mug',
+  sku: 'MUG-1',
+  price: '12.00',
+  currency: 'USD',
+  stock: 4,
+  source: 'shopify'
+};
+
+const match: DestinationMatch = {
+  variant: { id: 'v1', sku: 'MUG-1', raw: {} },
+  product: { id: 'p1', raw: {} }
+};
+
+const connection = (discontinue_policy: DiscontinuePolicy) => ({ id: 'conn-1', discontinue_policy } as ConnectionRow);
+
+const entry = (siblingsLive = false): DiscontinuedSku => ({ sku: 'MUG-1', removed_at: '2026-01-01T00:00:00.000Z', item, siblingsLive });
+
+// Adapter recording the calls; optional methods can be left out
+function fakeAdapter(options: { found?: boolean; optional?: boolean } = {}) {
+  const calls: string[] = [];
+  const adapter: DestinationAdapter = {
+    name: 'Fake',
+    skipOutOfStock: false,
+    async find() { return options.found === false ? null : match; },
+    async create() { return null; },
+    async update() { return []; },
+    async setStock(_m, i) { calls.push(`stock:${i.stock}`); return null; },
+    async archive() { calls.push('archive'); },
+    ...(options.optional === false ? {} : {
+      async unpublish() { calls.push('draft'); },
+      async remove() { calls.push('delete'); }
+    })
+  };
+  return { adapter, calls };
+}
+
+describe('applyDiscontinuation', () => {
+  it('should apply each policy', async () => {
+    const expected: [DiscontinuePolicy, string, string][] = [
+      ['zero_stock', 'stock:0', 'stock set to 0'],
+      ['draft', 'draft', 'product set to draft'],
+      ['archive', 'archive', 'product archived'],
+      ['delete', 'delete', 'deleted']
+    ];
+    for (const [policy, call, message] of expected) {
+      const { adapter, calls } = fakeAdapter();
+      expect(await applyDiscontinuation(connection(policy), adapter, entry())).toBe(`Discontinued at source: ${message}`);
+      expect(calls).toEqual([call]);
+    }
+  });
+
+  it('should only zero the stock of a variant whose siblings are still sold', async () => {
+    const { adapter, calls } = fakeAdapter();
+    const message = await applyDiscontinuation(connection('archive'), adapter, entry(true));
+    expect(calls).toEqual(['stock:0']);
+    expect(message).toContain('other variants of the product are still sold');
+  });
+
+  it('should archive when the destination cannot draft or delete', async () => {
+    const { adapter, calls } = fakeAdapter({ optional: false });
+    const message = await applyDiscontinuation(connection('delete'), adapter, entry());
+    expect(calls).toEqual(['archive']);
+    expect(message).toBe('Discontinued at source: product archived (delete not supported by Fake)');
+  });
+
+  it('should skip SKUs missing from the destination', async () => {
+    const { adapter, calls } = fakeAdapter({ found: false });
+    expect(await applyDiscontinuation(connection('delete'), adapter, entry())).toBeNull();
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { catalogItem, useTempDatabase } from '../../__tests__/helpers';
+import type { CatalogItem } from '../../models/types';
+import type { DestinationAdapter, DestinationMatch, DestinationVariant } from '../../destinations';
+
+const { sourceItems } = vi.hoisted(() => ({ sourceItems: [] as CatalogItem[] }));
+vi.mock('../sourceCatalog', () => ({ getSourceItems: async () => sourceItems }));
+
+import { AuditRepo, ConnectionRepo, InstallationRepo, JobItemRepo, JobRepo, PushedContentRepo, migrate, type ConnectionRow } from '../../db';
+import { pushToDestination } from '../pushWorker';
+
+let installationId: string;
+let connections = 0;
+
+// Connection stored for the audit and job rows, with the settings a test is about
+async function connection(overrides: Partial<ConnectionRow> = {}): Promise<ConnectionRow> {
+  const id = `conn-${++connections}`;
+  await ConnectionRepo.insert({
+    id, installation_id: installationId, type: 'http', name: 'Partner', status: 'active',
+    dest_shop_domain: null, dest_location_id: null, base_url: null, consumer_key: null, consumer_secret: null,
+    access_token: null, rules_json: null, sync_price: 1, sync_categories: 0, sync_tags: 0, sync_collections: 0,
+    create_products: 1, product_status: 1
+  });
+  return { ...(await ConnectionRepo.get(id))!, ...overrides };
+}
+
+// Delta job over the given SKUs, as the worker passes it to the push
+async function job(conn: ConnectionRow, skus: string[]): Promise<string> {
+  const id = `job-${conn.id}`;
+  await JobRepo.enqueue({ id, connection_id: conn.id, job_type: 'delta' });
+  await JobItemRepo.addMany(id, skus);
+  return id;
+}
+
+// Audit entries of a connection as level:sku:message, sorted
+async function auditOf(conn: ConnectionRow): Promise<string[]> {
+  const rows = (await AuditRepo.recent(1000)) as { level: string; connection_id: string; sku: string; message: string }[];
+  return rows.filter(r => r.connection_id === conn.id).map(r => `${r.level}:${r.sku}:${r.message}`).sort();
+}
+
+// Adapter over the given existing variants, recording the calls the push makes
+function fakeAdapter(existing: CatalogItem[] = [], overrides: Partial<DestinationAdapter> = {}) {
+  const calls: string[] = [];
+  const matches = new Map<string, DestinationMatch>(existing.map(item => [item.sku, {
+    variant: { id: `v-${item.sku}`, sku: item.sku, price: '10.00', raw: null },
+    product: { id: `p-${item.productId || item.sku}`, title: item.title, raw: {} }
+  }]));
+  const adapter: DestinationAdapter = {
+    name: 'Fake',
+    async find(item) {
+      calls.push(`find:${item.sku}`);
+      return matches.get(item.sku) ?? null;
+    },
+    async create(items) {
+      calls.push(`create:${items.map(i => i.sku).join(',')}`);
+      // Created with their stock, so the push has no stock to set
+      const variants = new Map<string, DestinationVariant>(items.map(i => [i.sku, { id: `v-${i.sku}`, sku: i.sku, stock: i.stock, raw: null }]));
+      return { product: { id: 'p-new', title: items[0].title, raw: {} }, variants };
+    },
+    async addVariant(_product, item) {
+      calls.push(`addVariant:${item.sku}`);
+      return { id: `v-${item.sku}`, sku: item.sku, raw: null };
+    },
+    async update(match, item) {
+      calls.push(`update:${item.sku}`);
+      return match.variant.price === item.price ? [] : [`Price updated ${match.variant.price} -> ${item.price}`];
+    },
+    async setStock(_match, item) {
+      calls.push(`stock:${item.sku}:${item.stock}`);
+      return `Stock set -> ${item.stock}`;
+    },
+    async archive(match) {
+      calls.push(`archive:${match.variant.sku}`);
+    },
+    ...overrides
+  };
+  return { adapter, calls };
+}
+
+beforeAll(async () => {
+  useTempDatabase();
+  await migrate();
+  installationId = await InstallationRepo.upsert('source.myshopify.com');
+});
+
+beforeEach(() => {
+  sourceItems.length = 0;
+});
+
+describe('pushToDestination', () => {
+  it('should add missing variants to existing products, create new products, then update and set stock', async () => {
+    const conn = await connection();
+    const shirtS = catalogItem('SHIRT-S', { title: 'Shirt - S', productId: 'shirt' });
+    const shirtM = catalogItem('SHIRT-M', { title: 'Shirt - M', productId: 'shirt' });
+    const mug = catalogItem('MUG-1', { productId: 'mug' });
+    sourceItems.push(shirtS, shirtM, mug);
+    const { adapter, calls } = fakeAdapter([shirtS]);
+    const jobId = await job(conn, ['SHIRT-S', 'SHIRT-M', 'MUG-1']);
+
+    await pushToDestination(conn, adapter, () => {}, undefined, jobId);
+
+    expect(calls).toEqual([
+      'find:SHIRT-S', 'find:SHIRT-M', 'addVariant:SHIRT-M',
+      'update:SHIRT-S', 'stock:SHIRT-S:4', 'stock:SHIRT-M:4',
+      'find:MUG-1', 'create:MUG-1'
+    ]);
+    expect(await auditOf(conn)).toEqual([
+      'info:MUG-1:Created in Fake: Mug',
+      'info:SHIRT-M:Stock set -> 4',
+      'info:SHIRT-S:Price updated 10.00 -> 12.00',
+      'info:SHIRT-S:Stock set -> 4'
+    ]);
+    expect(await JobItemRepo.getProgress(jobId)).toEqual({ total: 3, completed: 3, failed: 0 });
+  });
+
+  it('should leave deferred creates to flush and record its results per SKU', async () => {
+    const conn = await connection();
+    sourceItems.push(catalogItem('MUG-1', { productId: 'mug' }), catalogItem('CUP-1', { title: 'Cup', productId: 'cup' }));
+    const { adapter, calls } = fakeAdapter([], {
+      async create(items) {
+        calls.push(`create:${items.map(i => i.sku).join(',')}`);
+        return { product: { id: '', title: items[0].title, raw: null }, variants: new Map(), deferred: true };
+      },
+      async flush() {
+        calls.push('flush');
+        return [
+          { sku: 'MUG-1', ok: true, message: 'Created in Fake: Mug' },
+          { sku: 'CUP-1', ok: false, message: 'Create rejected: duplicate handle' }
+        ];
+      }
+    });
+    const jobId = await job(conn, ['MUG-1', 'CUP-1']);
+
+    await pushToDestination(conn, adapter, () => {}, undefined, jobId);
+
+    // Nothing is audited or stocked for a create until flush reports it
+    expect(calls).toEqual(['find:MUG-1', 'create:MUG-1', 'find:CUP-1', 'create:CUP-1', 'flush']);
+    expect(await auditOf(conn)).toEqual([
+      'error:CUP-1:Create rejected: duplicate handle',
+      'info:MUG-1:Created in Fake: Mug'
+    ]);
+    expect(await JobItemRepo.getProgress(jobId)).toEqual({ total: 2, completed: 1, failed: 1 });
+  });
+
+  it('should record neither pushed content nor job results when flush throws', async () => {
+    const conn = await connection({ content_fields: JSON.stringify(['title']) });
+    const mug = catalogItem('MUG-1', { title: 'Large mug', productId: 'mug' });
+    sourceItems.push(mug);
+    const { adapter } = fakeAdapter([catalogItem('MUG-1', { productId: 'mug' })], {
+      async updateContent(_product, changes) {
+        return changes.map(c => ({ sku: c.item.sku, message: `Title updated -> ${c.item.title}` }));
+      },
+      async flush() {
+        throw new Error('Batch not acknowledged');
+      }
+    });
+    const jobId = await job(conn, ['MUG-1']);
+
+    await expect(pushToDestination(conn, adapter, () => {}, undefined, jobId)).rejects.toThrow('Batch not acknowledged');
+
+    // The next push compares the content again and the job's retry delivers the items
+    expect(await PushedContentRepo.list(conn.id)).toEqual(new Map());
+    expect(await JobItemRepo.getProgress(jobId)).toEqual({ total: 1, completed: 0, failed: 0 });
+  });
+});
+
+describe('pushToDestination out-of-stock policies', () => {
+  const soldOutCalls = async (policy: ConnectionRow['out_of_stock_policy']) => {
+    const conn = await connection({ out_of_stock_policy: policy });
+    const mug = catalogItem('MUG-1', { productId: 'mug', stock: 0 });
+    const teeRed = catalogItem('TEE-R', { title: 'Tee - Red', productId: 'tee', stock: 0 });
+    const teeBlue = catalogItem('TEE-B', { title: 'Tee - Blue', productId: 'tee', stock: 3 });
+    sourceItems.splice(0, sourceItems.length, mug, teeRed, teeBlue, catalogItem('CUP-1', { title: 'Cup', productId: 'cup', stock: 0 }));
+    const { adapter, calls } = fakeAdapter([mug, teeRed, teeBlue], {
+      async setSoldOut(product, soldOut, mode) {
+        calls.push(`soldOut:${product.id}:${soldOut}:${mode}`);
+        return null;
+      }
+    });
+    await pushToDestination(conn, adapter, () => {});
+    return calls.filter(c => !c.startsWith('find:') && !c.startsWith('update:'));
+  };
+
+  it('should zero the stock and draft products with no variant in stock', async () => {
+    expect(await soldOutCalls('zero_draft')).toEqual([
+      'stock:MUG-1:0', 'soldOut:p-mug:true:draft',
+      'stock:TEE-R:0', 'stock:TEE-B:3', 'soldOut:p-tee:false:draft',
+      'create:CUP-1', 'soldOut:p-new:true:draft'
+    ]);
+  });
+
+  it('should hide sold-out products and not create out-of-stock SKUs', async () => {
+    expect(await soldOutCalls('hide')).toEqual([
+      'stock:MUG-1:0', 'soldOut:p-mug:true:hide',
+      'stock:TEE-R:0', 'stock:TEE-B:3', 'soldOut:p-tee:false:hide'
+    ]);
+  });
+
+  it('should only skip creating out-of-stock SKUs', async () => {
+    expect(await soldOutCalls('skip_create')).toEqual(['stock:MUG-1:0', 'stock:TEE-R:0', 'stock:TEE-B:3']);
+  });
+});
+
+describe('pushToDestination content updates', () => {
+  // Adapter updating title and vendor (not images), recording the fields of each content update
+  const contentAdapter = (existing: CatalogItem[]) => {
+    const updates: string[] = [];
+    const { adapter } = fakeAdapter(existing, {
+      contentFields: ['title', 'vendor'],
+      async updateContent(_product, changes) {
+        for (const c of changes) updates.push(`${c.item.sku}:${c.fields.join(',')}`);
+        return [];
+      }
+    });
+    return { adapter, updates };
+  };
+  const mug = catalogItem('MUG-1', { productId: 'mug', vendor: 'Acme' });
+
+  it('should only update a field turned on later, comparing the others with what was pushed', async () => {
+    const conn = await connection({ content_fields: JSON.stringify(['title']) });
+    sourceItems.push(mug);
+
+    const first = contentAdapter([mug]);
+    await pushToDestination(conn, first.adapter, () => {});
+    expect(first.updates).toEqual(['MUG-1:title']);
+
+    const second = contentAdapter([mug]);
+    await pushToDestination({ ...conn, content_fields: JSON.stringify(['title', 'vendor']) }, second.adapter, () => {});
+    expect(second.updates).toEqual(['MUG-1:vendor']);
+    expect((await PushedContentRepo.list(conn.id)).get('MUG-1')).toEqual({ title: 'Mug', vendor: 'Acme' });
+  });
+
+  it('should skip fields the destination cannot update', async () => {
+    const conn = await connection({ content_fields: JSON.stringify(['title', 'images']) });
+    sourceItems.push(mug);
+    const { adapter, updates } = contentAdapter([mug]);
+
+    await pushToDestination(conn, adapter, () => {});
+
+    expect(updates).toEqual(['MUG-1:title']);
+    expect((await PushedContentRepo.list(conn.id)).get('MUG-1')).toEqual({ title: 'Mug' });
+  });
+
+  it('should record the content a variant was created with, so turning a field on does not rewrite it', async () => {
+    const conn = await connection({ content_fields: JSON.stringify(['title']) });
+    sourceItems.push(mug);
+
+    const first = contentAdapter([]);
+    await pushToDestination(conn, first.adapter, () => {});
+    expect(first.updates).toEqual([]);
+    expect((await PushedContentRepo.list(conn.id)).get('MUG-1')).toEqual({ title: 'Mug', vendor: 'Acme' });
+
+    const second = contentAdapter([mug]);
+    await pushToDestination({ ...conn, content_fields: JSON.stringify(['title', 'vendor']) }, second.adapter, () => {});
+    expect(second.updates).toEqual([]);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { catalogItem, useTempDatabase } from '../../__tests__/helpers';
+import type { ShopifySource } from '../../integrations/shopify';
+import type { CatalogItem } from '../../models/types';
+
+const { fetchShopify } = vi.hoisted(() => ({ fetchShopify: vi.fn() }));
+vi.mock('../../integrations/shopify', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../integrations/shopify')>()),
+  fetchShopifyCatalog: fetchShopify
+}));
+
+import { CatalogItemRepo, InstallationRepo, SourceCursorRepo, migrate, type InstallationRow } from '../../db';
+import { config } from '../../config';
+import { getSourceItems, readInstallationCatalog, resolveInstallationSources, syncInstallationCatalog } from '../sourceCatalog';
+import { getCurrentFeed, refreshFeedNow } from '../feedCache';
+
+const envConfig = { shopify: { ...config.shopify }, woo: { ...config.woo } };
+
+// Installation of a store that went through OAuth (or not, without a token)
+async function installation(domain: string, accessToken: string | null = null): Promise<InstallationRow> {
+  // Installation ids come from the clock: keep two new ones out of the same millisecond
+  await new Promise(resolve => setTimeout(resolve, 2));
+  const id = await InstallationRepo.upsert(domain, accessToken);
+  return (await InstallationRepo.getById(id))!;
+}
+
+beforeAll(async () => {
+  useTempDatabase();
+  await migrate();
+});
+
+beforeEach(() => {
+  fetchShopify.mockReset().mockResolvedValue([]);
+  Object.assign(config.shopify, { shopDomain: 'env.myshopify.com', adminAccessToken: 'shpat_env' });
+  Object.assign(config.woo, { baseUrl: 'https://woo.example.com', consumerKey: 'ck_env', consumerSecret: 'cs_env' });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  Object.assign(config.shopify, envConfig.shopify);
+  Object.assign(config.woo, envConfig.woo);
+});
+
+describe('resolveInstallationSources', () => {
+  it('should read each installation with its own OAuth token and keep WooCommerce for the env store', async () => {
+    const other = resolveInstallationSources(await installation('other.myshopify.com', 'shpat_other'));
+    expect(other.shopify).toMatchObject({ shopDomain: 'other.myshopify.com', accessToken: 'shpat_other' });
+    expect(other.woo).toBeNull();
+
+    const env = resolveInstallationSources(await installation('env.myshopify.com', 'shpat_oauth'));
+    expect(env.shopify).toMatchObject({ shopDomain: 'env.myshopify.com', accessToken: 'shpat_oauth' });
+    expect(env.woo).toEqual({ baseUrl: 'https://woo.example.com', consumerKey: 'ck_env', consumerSecret: 'cs_env' });
+  });
+
+  it('should fall back to the env token for the env store only', async () => {
+    expect(resolveInstallationSources(await installation('env-only.myshopify.com')).shopify).toBeNull();
+
+    config.shopify.shopDomain = 'env-only.myshopify.com';
+    expect(resolveInstallationSources(await installation('env-only.myshopify.com')).shopify)
+      .toMatchObject({ shopDomain: 'env-only.myshopify.com', accessToken: 'shpat_env' });
+  });
+
+  it('should fetch every installation from its own store', async () => {
+    fetchShopify.mockImplementation(async (source: ShopifySource): Promise<CatalogItem[]> =>
+      [catalogItem(`${source.shopDomain.split('.')[0].toUpperCase()}-1`)]);
+    const north = await installation('north.myshopify.com', 'shpat_north');
+    const south = await installation('south.myshopify.com', 'shpat_south');
+
+    expect((await getSourceItems(north.id)).map(i => i.sku)).toEqual(['NORTH-1']);
+    expect((await getSourceItems(south.id)).map(i => i.sku)).toEqual(['SOUTH-1']);
+    expect(fetchShopify.mock.calls.map(([source]) => `${source.shopDomain}:${source.accessToken}`))
+      .toEqual(['north.myshopify.com:shpat_north', 'south.myshopify.com:shpat_south']);
+  });
+});
+
+describe('syncInstallationCatalog', () => {
+  it('should fetch changes since the cursor and merge them into the persisted catalog', async () => {
+    const ins = await installation('delta.myshopify.com', 'shpat_delta');
+    fetchShopify.mockResolvedValueOnce([
+      catalogItem('MUG-1', { updatedAt: '2026-03-01T10:00:00Z' }),
+      catalogItem('CUP-1', { title: 'Cup', updatedAt: '2026-03-02T10:00:00Z' })
+    ]);
+    await syncInstallationCatalog(ins);
+    expect(fetchShopify.mock.calls[0][1]).toMatchObject({ updatedAtMin: undefined });
+    expect((await SourceCursorRepo.get(ins.id, 'shopify'))?.cursor_value).toBe('2026-03-02T10:00:00.000Z');
+
+    // Only the changed product comes back; the others stay as persisted
+    fetchShopify.mockResolvedValueOnce([catalogItem('MUG-1', { price: '14.00', updatedAt: '2026-03-03T10:00:00Z' })]);
+    await syncInstallationCatalog(ins);
+    expect(fetchShopify.mock.calls[1][1]).toMatchObject({ updatedAtMin: '2026-03-02T10:00:00.000Z' });
+    expect((await SourceCursorRepo.get(ins.id, 'shopify'))?.cursor_value).toBe('2026-03-03T10:00:00.000Z');
+
+    const { shopify } = await readInstallationCatalog(ins.id);
+    expect(shopify.map(i => `${i.sku}:${i.price}`)).toEqual(['CUP-1:12.00', 'MUG-1:14.00']);
+  });
+
+  it('should keep the cursor when an incremental fetch has no changes', async () => {
+    const ins = await installation('quiet.myshopify.com', 'shpat_quiet');
+    fetchShopify.mockResolvedValueOnce([catalogItem('MUG-1', { updatedAt: '2026-03-01T10:00:00Z' })]);
+    await syncInstallationCatalog(ins);
+
+    await syncInstallationCatalog(ins);
+    expect(fetchShopify.mock.calls[1][1]).toMatchObject({ updatedAtMin: '2026-03-01T10:00:00.000Z' });
+    expect((await SourceCursorRepo.get(ins.id, 'shopify'))?.cursor_value).toBe('2026-03-01T10:00:00.000Z');
+    expect((await readInstallationCatalog(ins.id)).shopify.map(i => i.sku)).toEqual(['MUG-1']);
+  });
+});
+
+describe('persisted source catalog', () => {
+  const skus = (items: CatalogItem[]) => items.map(i => i.sku).sort();
+
+  it('should serve the feed, the push and the preview from the persisted catalog when a fetch fails', async () => {
+    const ins = await installation('offline.myshopify.com', 'shpat_offline');
+    fetchShopify.mockResolvedValueOnce([catalogItem('MUG-1'), catalogItem('CUP-1', { title: 'Cup' })]);
+    expect(skus((await refreshFeedNow(ins.id)).items)).toEqual(['CUP-1', 'MUG-1']);
+
+    fetchShopify.mockRejectedValue(new Error('Shopify unavailable'));
+    await syncInstallationCatalog(ins, { full: true });
+
+    expect(skus((await refreshFeedNow(ins.id)).items)).toEqual(['CUP-1', 'MUG-1']);
+    expect(skus((await getCurrentFeed(ins.id))!.items)).toEqual(['CUP-1', 'MUG-1']);
+    // The push worker and the sync preview both read getSourceItems
+    expect(skus(await getSourceItems(ins.id))).toEqual(['CUP-1', 'MUG-1']);
+  });
+
+  it('should list removed SKUs as discontinued until the retention period is over', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const days = (n: number) => vi.setSystemTime(new Date(Date.parse('2026-01-01T00:00:00Z') + n * 24 * 60 * 60 * 1000));
+    const ins = await installation('retention.myshopify.com', 'shpat_retention');
+    const live = [catalogItem('MUG-1'), catalogItem('CUP-1', { title: 'Cup' })];
+    fetchShopify.mockResolvedValueOnce([...live, catalogItem('BOWL-1', { title: 'Bowl' })]);
+    await syncInstallationCatalog(ins);
+
+    days(1);
+    fetchShopify.mockResolvedValue(live);
+    await syncInstallationCatalog(ins, { full: true });
+    expect((await getCurrentFeed(ins.id))!.discontinued).toEqual([{ sku: 'BOWL-1', removed_at: '2026-01-02T00:00:00.000Z' }]);
+
+    // Longer than any discontinue grace period, within the default 60 day retention
+    days(46);
+    await syncInstallationCatalog(ins);
+    expect((await getCurrentFeed(ins.id))!.discontinued.map(d => d.sku)).toEqual(['BOWL-1']);
+
+    days(62);
+    await syncInstallationCatalog(ins);
+    expect((await getCurrentFeed(ins.id))!.discontinued).toEqual([]);
+    expect(await CatalogItemRepo.listRemoved(ins.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { isSupplierFeedDue } from '../supplierFeedService';
+import type { SupplierFeedRow } from '../../db';
+
+const feed = (overrides: Partial<SupplierFeedRow> = {}) => ({
+  id: 'feed-1',
+  status: 'active',
+  poll_interval_minutes: 60,
+  last_polled_at: '2026-01-01T10:00:00.000Z',
+  ...overrides
+} as SupplierFeedRow);
+
+describe('isSupplierFeedDue', () => {
+  const now = Date.parse('2026-01-01T10:30:00.000Z');
+
+  it('should poll an active feed once its interval has passed', () => {
+    expect(isSupplierFeedDue(feed(), now)).toBe(false);
+    expect(isSupplierFeedDue(feed({ poll_interval_minutes: 30 }), now)).toBe(true);
+    expect(isSupplierFeedDue(feed({ last_polled_at: null }), now)).toBe(true);
+  });
+
+  it('should never poll a paused feed', () => {
+    expect(isSupplierFeedDue(feed({ status: 'paused', last_polled_at: null }), now)).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Catalog Guard
+ * Anomaly checks that stop an empty or partial source fetch from replacing
+ * a good catalog (and from being pushed to destinations).
+ */
+
+import { AuditRepo } from '../db';
+import { config } from '../config';
+
+export type GuardVerdict = { ok: true } | { ok: false; reason: string };
+
+/**
+ * Reject a catalog that shrank by more than maxShrinkPercent compared to the previous one
+ * An empty previous catalog never trips the guard (first sync, or a source that was empty).
+ */
+export function checkCatalogShrink(
+  previousCount: number,
+  nextCount: number,
+  maxShrinkPercent: number = config.catalog.maxShrinkPercent
+): GuardVerdict {
+  if (previousCount <= 0 || nextCount >= previousCount) return { ok: true };
+  if (!(maxShrinkPercent >= 0) || maxShrinkPercent >= 100) return { ok: true };
+
+  const shrinkPercent = ((previousCount - nextCount) / previousCount) * 100;
+  if (shrinkPercent > maxShrinkPercent) {
+    return {
+      ok: false,
+      reason: `catalog shrank from ${previousCount} to ${nextCount} items (${shrinkPercent.toFixed(1)}%, limit ${maxShrinkPercent}%)`
+    };
+  }
+  return { ok: true };
+}
+
+/**
+ * Record a rejected catalog in the audit log
+ */
+export async function auditCatalogRejection(entry: {
+  installationId: string;
+  connectionId?: string | null;
+  source?: string;
+  reason: string;
+  meta?: Record<string, any>;
+}): Promise<void> {
+  const target = entry.source ? `${entry.source} catalog` : 'Source catalog';
+  try {
+    await AuditRepo.write({
+      level: 'error',
+      connection_id: entry.connectionId ?? null,
+      message: `${target} rejected: ${entry.reason}`,
+      meta: { installation_id: entry.installationId, source: entry.source, ...entry.meta }
+    });
+  } catch (err) {
+    console.error('[catalogGuard] Failed to write audit log:', err);
+  }
+}
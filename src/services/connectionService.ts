@@ -6,7 +6,9 @@
 
 import { ulid } from 'ulid';
 import { ConnectionRepo, InstallationRepo } from '../db';
-import type { ConnectionRow } from '../db';
+import type { ConnectionRow, DiscontinuePolicy, OutOfStockPolicy } from '../db';
+import type { FileExportConfig } from '../destinations/file';
+import type { ContentField } from '../models/contentFields';
 // Import secrets utility dynamically to avoid module load errors if ENCRYPTION_KEY is missing
 
 export interface CreateShopifyConnectionParams {
@@ -21,6 +23,7 @@ export interface CreateShopifyConnectionParams {
   sync_collections?: boolean;
   create_products: boolean;
   product_status: boolean;
+  use_graphql?: boolean;
   rules?: Record<string, unknown> | null;
 }
 
@@ -39,6 +42,59 @@ export interface CreateWooCommerceConnectionParams {
   rules?: Record<string, unknown> | null;
 }
 
+export interface CreateBigCommerceConnectionParams {
+  installation_id: string;
+  name: string;
+  store_hash: string;
+  access_token: string;
+  sync_price: boolean;
+  sync_categories: boolean;
+  sync_tags?: boolean;
+  sync_collections?: boolean;
+  create_products: boolean;
+  product_status: boolean;
+  rules?: Record<string, unknown> | null;
+}
+
+export interface CreateMagentoConnectionParams {
+  installation_id: string;
+  name: string;
+  base_url: string;
+  access_token: string;
+  source_code?: string | null;
+  sync_price: boolean;
+  sync_categories: boolean;
+  sync_tags?: boolean;
+  sync_collections?: boolean;
+  create_products: boolean;
+  product_status: boolean;
+  rules?: Record<string, unknown> | null;
+}
+
+export interface CreateHttpConnectionParams {
+  installation_id: string;
+  name: string;
+  endpoint_url: string;
+  signing_secret: string;
+  batch_size?: number | null;
+  sync_price: boolean;
+  create_products: boolean;
+  rules?: Record<string, unknown> | null;
+}
+
+export interface CreateFileConnectionParams {
+  installation_id: string;
+  name: string;
+  export: FileExportConfig;
+  secret?: string | null; // SFTP private key or S3 secret access key
+  rules?: Record<string, unknown> | null;
+}
+
+export interface UpdateMagentoConnectionParams extends Omit<UpdateConnectionParams, 'dest_location_id' | 'source_location_ids'> {
+  base_url?: string;
+  source_code?: string;
+}
+
 export interface UpdateConnectionParams {
   name?: string;
   dest_location_id?: string | null;
@@ -49,7 +105,13 @@ export interface UpdateConnectionParams {
   sync_collections?: boolean;
   create_products?: boolean;
   product_status?: boolean;
+  use_graphql?: boolean;
   rules?: Record<string, unknown>;
+  source_location_ids?: string[] | null;
+  discontinue_policy?: DiscontinuePolicy;
+  discontinue_grace_hours?: number;
+  out_of_stock_policy?: OutOfStockPolicy;
+  content_fields?: ContentField[] | null;
 }
 
 /**
@@ -81,6 +143,7 @@ export async function createShopifyConnection(params: CreateShopifyConnectionPar
     sync_collections: params.sync_collections ? 1 : 0,
     create_products: params.create_products ? 1 : 0,
     product_status: params.product_status ? 1 : 0,
+    use_graphql: params.use_graphql ? 1 : 0,
     last_synced_at: null
   });
   
@@ -126,6 +189,172 @@ export async function createWooCommerceConnection(params: CreateWooCommerceConne
   return connId;
 }
 
+/**
+ * Create a BigCommerce connection
+ */
+export async function createBigCommerceConnection(params: CreateBigCommerceConnectionParams): Promise<string> {
+  const connId = ulid();
+  
+  // Encrypt access token
+  const { encryptSecret } = await import('../utils/secrets');
+  const encryptedToken = await encryptSecret(params.access_token);
+  
+  await ConnectionRepo.insert({
+    id: connId,
+    installation_id: params.installation_id,
+    type: 'bigcommerce',
+    name: params.name,
+    status: 'active',
+    dest_shop_domain: null,
+    dest_location_id: null,
+    base_url: null,
+    consumer_key: null,
+    consumer_secret: null,
+    access_token: encryptedToken,
+    store_hash: params.store_hash.trim().toLowerCase(),
+    rules_json: params.rules ? JSON.stringify(params.rules) : null,
+    sync_price: params.sync_price ? 1 : 0,
+    sync_categories: params.sync_categories ? 1 : 0,
+    sync_tags: params.sync_tags ? 1 : 0,
+    sync_collections: params.sync_collections ? 1 : 0,
+    create_products: params.create_products ? 1 : 0,
+    product_status: params.product_status ? 1 : 0,
+    last_synced_at: null
+  });
+  
+  return connId;
+}
+
+// Magento base URL without trailing slashes or a pasted /rest/... API path
+export function normalizeMagentoBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '').replace(/\/rest(\/.*)?$/, '');
+}
+
+/**
+ * Create a Magento connection
+ */
+export async function createMagentoConnection(params: CreateMagentoConnectionParams): Promise<string> {
+  const connId = ulid();
+  
+  // Encrypt access token
+  const { encryptSecret } = await import('../utils/secrets');
+  const encryptedToken = await encryptSecret(params.access_token);
+  
+  await ConnectionRepo.insert({
+    id: connId,
+    installation_id: params.installation_id,
+    type: 'magento',
+    name: params.name,
+    status: 'active',
+    dest_shop_domain: null,
+    dest_location_id: params.source_code?.trim() || 'default', // MSI source code
+    base_url: normalizeMagentoBaseUrl(params.base_url),
+    consumer_key: null,
+    consumer_secret: null,
+    access_token: encryptedToken,
+    rules_json: params.rules ? JSON.stringify(params.rules) : null,
+    sync_price: params.sync_price ? 1 : 0,
+    sync_categories: params.sync_categories ? 1 : 0,
+    sync_tags: params.sync_tags ? 1 : 0,
+    sync_collections: params.sync_collections ? 1 : 0,
+    create_products: params.create_products ? 1 : 0,
+    product_status: params.product_status ? 1 : 0,
+    last_synced_at: null
+  });
+  
+  return connId;
+}
+
+/**
+ * Update a Magento connection (store URL, token and MSI source code plus the common settings)
+ */
+export async function updateMagentoConnection(
+  connectionId: string,
+  params: UpdateMagentoConnectionParams
+): Promise<void> {
+  const { base_url, source_code, ...common } = params;
+  if (base_url !== undefined) {
+    await ConnectionRepo.updateBaseUrl(connectionId, normalizeMagentoBaseUrl(base_url));
+  }
+  await updateConnection(connectionId, {
+    ...common,
+    ...(source_code !== undefined ? { dest_location_id: source_code } : {}),
+  });
+}
+
+/**
+ * Create an HTTP (webhook) connection
+ */
+export async function createHttpConnection(params: CreateHttpConnectionParams): Promise<string> {
+  const connId = ulid();
+  
+  // Encrypt signing secret
+  const { encryptSecret } = await import('../utils/secrets');
+  const encryptedSecret = await encryptSecret(params.signing_secret);
+  
+  await ConnectionRepo.insert({
+    id: connId,
+    installation_id: params.installation_id,
+    type: 'http',
+    name: params.name,
+    status: 'active',
+    dest_shop_domain: null,
+    dest_location_id: null,
+    base_url: params.endpoint_url.trim(), // Endpoint URL
+    consumer_key: null,
+    consumer_secret: null,
+    access_token: null,
+    signing_secret: encryptedSecret,
+    batch_size: params.batch_size ?? null,
+    rules_json: params.rules ? JSON.stringify(params.rules) : null,
+    sync_price: params.sync_price ? 1 : 0,
+    sync_categories: 0,
+    sync_tags: 0,
+    sync_collections: 0,
+    create_products: params.create_products ? 1 : 0,
+    product_status: 0,
+    last_synced_at: null
+  });
+  
+  return connId;
+}
+
+/**
+ * Create a file export connection (CSV/XML/JSON dropped on a directory, SFTP server or S3 bucket)
+ */
+export async function createFileConnection(params: CreateFileConnectionParams): Promise<string> {
+  const connId = ulid();
+
+  // Encrypt the SFTP key / S3 secret (local targets have none)
+  const { encryptSecret } = await import('../utils/secrets');
+  const encryptedSecret = params.secret ? await encryptSecret(params.secret) : null;
+
+  await ConnectionRepo.insert({
+    id: connId,
+    installation_id: params.installation_id,
+    type: 'file',
+    name: params.name,
+    status: 'active',
+    dest_shop_domain: null,
+    dest_location_id: null,
+    base_url: null,
+    consumer_key: null,
+    consumer_secret: null,
+    access_token: encryptedSecret,
+    export_json: JSON.stringify(params.export),
+    rules_json: params.rules ? JSON.stringify(params.rules) : null,
+    sync_price: 1,
+    sync_categories: 0,
+    sync_tags: 0,
+    sync_collections: 0,
+    create_products: 1,
+    product_status: 0,
+    last_synced_at: null
+  });
+
+  return connId;
+}
+
 /**
  * Update a connection
  */
@@ -138,6 +367,35 @@ export async function updateConnection(
     await ConnectionRepo.updateLocationId(connectionId, params.dest_location_id || null);
   }
   
+  // Update source location selection if provided (null = all locations)
+  if (params.source_location_ids !== undefined) {
+    await ConnectionRepo.setSourceLocations(
+      connectionId,
+      params.source_location_ids ? JSON.stringify(params.source_location_ids) : null
+    );
+  }
+
+  // Update discontinuation policy if provided
+  if (params.discontinue_policy !== undefined || params.discontinue_grace_hours !== undefined) {
+    await ConnectionRepo.setDiscontinuePolicy(connectionId, {
+      discontinue_policy: params.discontinue_policy,
+      discontinue_grace_hours: params.discontinue_grace_hours
+    });
+  }
+
+  // Update out-of-stock policy if provided
+  if (params.out_of_stock_policy !== undefined) {
+    await ConnectionRepo.setOutOfStockPolicy(connectionId, params.out_of_stock_policy);
+  }
+
+  // Update content fields if provided (null or empty = no content updates)
+  if (params.content_fields !== undefined) {
+    await ConnectionRepo.setContentFields(
+      connectionId,
+      params.content_fields && params.content_fields.length > 0 ? JSON.stringify(params.content_fields) : null
+    );
+  }
+
   // Update name if provided
   if (params.name !== undefined && params.name.trim()) {
     await ConnectionRepo.updateName(connectionId, params.name.trim());
@@ -153,10 +411,10 @@ export async function updateConnection(
     }
   }
   
-  // Update access_token if provided (for Shopify connections)
+  // Update access_token if provided (for Shopify, BigCommerce and Magento connections)
   if (params.access_token !== undefined) {
     const connection = await ConnectionRepo.get(connectionId);
-    if (connection && connection.type === 'shopify') {
+    if (connection && (connection.type === 'shopify' || connection.type === 'bigcommerce' || connection.type === 'magento')) {
       const { encryptSecret } = await import('../utils/secrets');
       const encryptedToken = await encryptSecret(params.access_token);
       await ConnectionRepo.updateAccessToken(connectionId, encryptedToken || params.access_token);
@@ -166,11 +424,12 @@ export async function updateConnection(
   // Update sync options if provided
   if (params.sync_price !== undefined || params.sync_categories !== undefined || 
       params.sync_tags !== undefined || params.sync_collections !== undefined ||
-      params.create_products !== undefined || params.product_status !== undefined) {
+      params.create_products !== undefined || params.product_status !== undefined ||
+      params.use_graphql !== undefined) {
     const connection = await ConnectionRepo.get(connectionId);
     if (connection) {
       // Update sync options if any are provided
-      const options: { sync_price?: number; sync_categories?: number; sync_tags?: number; sync_collections?: number; create_products?: number; product_status?: number } = {};
+      const options: { sync_price?: number; sync_categories?: number; sync_tags?: number; sync_collections?: number; create_products?: number; product_status?: number; use_graphql?: number } = {};
       if (params.sync_price !== undefined) {
         options.sync_price = params.sync_price ? 1 : 0;
       }
@@ -189,6 +448,9 @@ export async function updateConnection(
       if (params.product_status !== undefined) {
         options.product_status = params.product_status ? 1 : 0;
       }
+      if (params.use_graphql !== undefined && connection.type === 'shopify') {
+        options.use_graphql = params.use_graphql ? 1 : 0;
+      }
       
       // Only update if at least one option is provided
       if (Object.keys(options).length > 0) {
@@ -274,3 +536,62 @@ export async function testWooCommerceConnection(
   }
 }
 
+/**
+ * Test BigCommerce API credentials (store hash + access token)
+ */
+export async function testBigCommerceConnection(storeHash: string, accessToken: string): Promise<void> {
+  const { bigCommerceApiUrl } = await import('../destinations/bigcommerce');
+  const api = bigCommerceApiUrl(storeHash.trim().toLowerCase());
+  const testResponse = await fetch(`${api}/catalog/summary`, {
+    method: 'GET',
+    headers: { 'X-Auth-Token': accessToken, 'Accept': 'application/json' }
+  });
+
+  if (testResponse.status === 401 || testResponse.status === 403) {
+    throw new Error('BigCommerce API authentication failed. Please check the access token and that its API account has Products modify scope.');
+  }
+  if (testResponse.status === 404) {
+    throw new Error(`BigCommerce store "${storeHash}" not found. Please verify the store hash.`);
+  }
+  if (!testResponse.ok) {
+    throw new Error(`BigCommerce API test failed: ${testResponse.status} ${testResponse.statusText}. Please verify the store hash and access token.`);
+  }
+}
+
+/**
+ * Test Magento API credentials (store URL + integration access token) and the MSI source
+ */
+export async function testMagentoConnection(baseUrl: string, accessToken: string, sourceCode: string): Promise<void> {
+  const { magentoApiUrl } = await import('../destinations/magento');
+  const normalizedUrl = normalizeMagentoBaseUrl(baseUrl);
+  const testResponse = await fetch(`${magentoApiUrl(normalizedUrl)}/inventory/sources/${encodeURIComponent(sourceCode)}`, {
+    method: 'GET',
+    headers: { 'Authorization': `Bearer ${accessToken}`, 'Accept': 'application/json' }
+  });
+
+  if (testResponse.status === 401 || testResponse.status === 403) {
+    throw new Error('Magento API authentication failed. Please check the integration access token and that the integration has Catalog and Inventory resource access.');
+  }
+  if (testResponse.status === 404) {
+    const contentType = testResponse.headers.get('content-type') || '';
+    if (!contentType.includes('application/json')) {
+      throw new Error(`Magento REST API not found at "${normalizedUrl}/rest". Please verify the store URL.`);
+    }
+    throw new Error(`Magento inventory source "${sourceCode}" not found. Please verify the source code (Stores → Inventory → Sources).`);
+  }
+  if (!testResponse.ok) {
+    throw new Error(`Magento API test failed: ${testResponse.status} ${testResponse.statusText}. Please verify the store URL and access token.`);
+  }
+}
+
+/**
+ * Test a file export target by listing it (local: also checks the directory is inside FILE_EXPORT_DIR)
+ */
+export async function testFileExportTarget(config: FileExportConfig, secret: string | null): Promise<void> {
+  const { createExportTarget } = await import('../destinations/fileTargets');
+  try {
+    await createExportTarget(config.target, secret).list();
+  } catch (error: any) {
+    throw new Error(`Export target test failed: ${error?.message || error}`);
+  }
+}
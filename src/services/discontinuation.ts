@@ -0,0 +1,90 @@
+/**
+ * Discontinued SKUs
+ * A SKU that disappeared from every source is taken off sale in each destination
+ * according to the connection's discontinue_policy, once it has been gone for the
+ * grace period. Each removal is applied once (discontinued_skus); a SKU that comes
+ * back and is removed again gets the policy again.
+ */
+
+import { CatalogItemRepo, DiscontinuedSkuRepo, type ConnectionRow } from '../db';
+import type { CatalogItem } from '../models/types';
+import type { DestinationAdapter } from '../destinations';
+
+export type DiscontinuedSku = {
+  sku: string;
+  removed_at: string;
+  item: CatalogItem; // Last version seen at the source
+  siblingsLive: boolean; // Other variants of the same source product are still live
+};
+
+/**
+ * SKUs whose policy is due for this connection: removed from their source and
+ * provided by no other source, past the grace period and not applied yet.
+ * Scoped to filterSkus for delta jobs.
+ */
+export async function listDueDiscontinuations(
+  conn: ConnectionRow,
+  filterSkus?: Set<string>,
+  now = Date.now()
+): Promise<DiscontinuedSku[]> {
+  if ((conn.discontinue_policy ?? 'none') === 'none') return [];
+
+  const graceMs = (conn.discontinue_grace_hours ?? 24) * 60 * 60 * 1000;
+  const live = await CatalogItemRepo.list(conn.installation_id);
+  const liveSkus = new Set(live.map(r => r.sku));
+  const liveProducts = new Set(live.filter(r => r.product_id).map(r => `${r.source}:${r.product_id}`));
+  const applied = await DiscontinuedSkuRepo.listApplied(conn.id);
+
+  const due: DiscontinuedSku[] = [];
+  const seen = new Set<string>();
+  // Most recent removal first: it decides for a SKU removed from several sources
+  for (const row of await CatalogItemRepo.listRemoved(conn.installation_id)) {
+    if (seen.has(row.sku)) continue;
+    seen.add(row.sku);
+    if (liveSkus.has(row.sku) || (filterSkus && !filterSkus.has(row.sku))) continue;
+    if (!row.removed_at || applied.get(row.sku) === row.removed_at) continue;
+    if (Date.parse(row.removed_at) + graceMs > now) continue;
+    due.push({
+      sku: row.sku,
+      removed_at: row.removed_at,
+      item: JSON.parse(row.item_json) as CatalogItem,
+      siblingsLive: !!row.product_id && liveProducts.has(`${row.source}:${row.product_id}`)
+    });
+  }
+  return due;
+}
+
+/**
+ * Apply the connection's policy to one discontinued SKU; returns the audit message,
+ * or null when the SKU is not in the destination. Draft and archive act on the whole
+ * product, so a variant whose siblings are still sold only has its stock zeroed.
+ * Adapters without draft or delete support archive instead.
+ */
+export async function applyDiscontinuation(
+  conn: ConnectionRow,
+  adapter: DestinationAdapter,
+  entry: DiscontinuedSku
+): Promise<string | null> {
+  const match = await adapter.find(entry.item);
+  if (!match) return null;
+
+  const policy = conn.discontinue_policy ?? 'none';
+  if (policy === 'zero_stock' || ((policy === 'draft' || policy === 'archive') && entry.siblingsLive)) {
+    await adapter.setStock(match, { ...entry.item, stock: 0 });
+    return policy === 'zero_stock'
+      ? 'Discontinued at source: stock set to 0'
+      : 'Discontinued at source: stock set to 0 (other variants of the product are still sold)';
+  }
+  if (policy === 'draft' && adapter.unpublish) {
+    await adapter.unpublish(match);
+    return 'Discontinued at source: product set to draft';
+  }
+  if (policy === 'delete' && adapter.remove) {
+    await adapter.remove(match);
+    return 'Discontinued at source: deleted';
+  }
+  await adapter.archive(match);
+  return policy === 'archive'
+    ? 'Discontinued at source: product archived'
+    : `Discontinued at source: product archived (${policy} not supported by ${adapter.name})`;
+}
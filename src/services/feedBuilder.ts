@@ -1,26 +1,14 @@
 import { CatalogItem, FeedResponse } from '../models/types';
+import { mergeCatalogItems, type MergePolicy } from '../models/mergePolicy';
 import { XMLBuilder } from 'fast-xml-parser';
 
-export function buildFeed(items: CatalogItem[], version = '1.0'): FeedResponse {
+export function buildFeed(items: CatalogItem[], version = '1.0', policy?: MergePolicy | null): FeedResponse {
   const generatedAt = new Date().toISOString();
-  // Deduplicate by SKU, prefer Shopify over Woo when duplicate
-  const map = new Map<string, CatalogItem>();
-  for (const item of items) {
-    if (!item.sku) continue;
-    if (!map.has(item.sku)) {
-      map.set(item.sku, item);
-      continue;
-    }
-    const existing = map.get(item.sku)!;
-    if (existing.source !== 'shopify' && item.source === 'shopify') {
-      map.set(item.sku, item);
-    }
-  }
-
+  // One item per product, merged across sources per the installation's policy
   return {
     version,
     generatedAt,
-    items: Array.from(map.values())
+    items: mergeCatalogItems(items, policy)
   };
 }
 
@@ -1,42 +1,99 @@
 import { buildFeed } from './feedBuilder';
-import { fetchShopifyCatalog } from '../integrations/shopify';
-import { fetchWooCatalog } from '../integrations/woocommerce';
+import { syncInstallationCatalog, readInstallationCatalog, removedRetentionCutoff } from './sourceCatalog';
+import { InstallationRepo, CatalogItemRepo, SourceCursorRepo, SupplierFeedRepo } from '../db';
+import { isSupplierFeedDue } from './supplierFeedService';
 import { CatalogItem, FeedResponse } from '../models/types';
+import { parseMergePolicy } from '../models/mergePolicy';
 import { config } from '../config';
 
 type FeedSnapshot = {
   feed: FeedResponse;
   items: CatalogItem[];
-  discontinuedSkus: string[];
+  // Most recent first; only removals within the retention period
+  discontinued: { sku: string; removed_at: string }[];
 };
 
-let current: FeedSnapshot | null = null;
-let refreshing = false;
-let previous: FeedSnapshot | null = null;
-
-export async function refreshFeedNow(): Promise<FeedSnapshot> {
-  if (refreshing) return current as FeedSnapshot;
-  refreshing = true;
-  try {
-    const [shopify, woo] = await Promise.all([fetchShopifyCatalog(), fetchWooCatalog()]);
-    const items = [...shopify, ...woo];
-    const feed = buildFeed(items, '1.0');
-    const newSkus = new Set(feed.items.map(i => i.sku));
-    const oldSkus = new Set((current?.items ?? []).map(i => i.sku));
-    const discontinued: string[] = [];
-    for (const s of oldSkus) {
-      if (!newSkus.has(s)) discontinued.push(s);
+// The persisted catalog is the source of truth. Parsed snapshots are cached per installation
+// and reloaded whenever a sync (on this or another instance) moves the catalog on, or the
+// installation's merge policy changes.
+const cache = new Map<string, { version: string; policy: string | null; snapshot: FeedSnapshot }>();
+
+// Catalog version = time of the latest source sync; null if the installation was never synced
+async function catalogVersion(installationId: string): Promise<string | null> {
+  const cursors = await SourceCursorRepo.list(installationId);
+  if (cursors.length === 0) return null;
+  return cursors.reduce((latest, c) => (c.updated_at > latest ? c.updated_at : latest), '');
+}
+
+async function loadSnapshot(installationId: string, version: string): Promise<FeedSnapshot> {
+  const policy = (await InstallationRepo.getById(installationId))?.merge_policy_json ?? null;
+  const cached = cache.get(installationId);
+  if (cached && cached.version === version && cached.policy === policy) return cached.snapshot;
+
+  const catalog = await readInstallationCatalog(installationId);
+  const feed = buildFeed(
+    [...catalog.shopify, ...catalog.woo, ...catalog.file, ...catalog.feed, ...catalog.kit],
+    '1.0',
+    parseMergePolicy(policy)
+  );
+  feed.generatedAt = version;
+
+  // SKUs removed at the source that no other source still provides
+  const live = new Set(feed.items.map(i => i.sku));
+  const discontinued = new Map<string, string>();
+  for (const row of await CatalogItemRepo.listRemoved(installationId, removedRetentionCutoff())) {
+    if (!live.has(row.sku) && !discontinued.has(row.sku)) discontinued.set(row.sku, row.removed_at!);
+  }
+
+  const snapshot = { feed, items: feed.items, discontinued: Array.from(discontinued, ([sku, removed_at]) => ({ sku, removed_at })) };
+  cache.set(installationId, { version, policy, snapshot });
+  return snapshot;
+}
+
+export async function refreshFeedNow(installationId: string): Promise<FeedSnapshot> {
+  const installation = await InstallationRepo.getById(installationId);
+  if (!installation) {
+    throw new Error(`Installation ${installationId} not found`);
+  }
+  // Concurrent refreshes share one sync (see syncInstallationCatalog)
+  await syncInstallationCatalog(installation);
+  const version = (await catalogVersion(installationId)) ?? new Date().toISOString();
+  return loadSnapshot(installationId, version);
+}
+
+export async function getCurrentFeed(installationId: string): Promise<FeedSnapshot | null> {
+  const version = await catalogVersion(installationId);
+  if (!version) return null;
+  return loadSnapshot(installationId, version);
+}
+
+async function refreshAllInstallations(log: (msg: string) => void, label: string) {
+  const installations = (await InstallationRepo.list()).filter(i => i.status !== 'disabled');
+  for (const ins of installations) {
+    try {
+      await refreshFeedNow(ins.id);
+      log(`Feed refreshed${label} for ${ins.shop_domain}`);
+    } catch (err) {
+      log(`Feed refresh failed${label} for ${ins.shop_domain}: ${err}`);
     }
-    previous = current;
-    current = { feed, items: feed.items, discontinuedSkus: discontinued };
-    return current;
-  } finally {
-    refreshing = false;
   }
 }
 
-export function getCurrentFeed(): FeedSnapshot | null {
-  return current;
+// Supplier feeds poll on their own interval, checked every minute
+const FEED_POLL_CHECK_MS = 60 * 1000;
+
+async function refreshDueSupplierFeeds(log: (msg: string) => void) {
+  const installations = (await InstallationRepo.list()).filter(i => i.status !== 'disabled');
+  for (const ins of installations) {
+    const due = (await SupplierFeedRepo.list(ins.id)).filter(feed => isSupplierFeedDue(feed));
+    if (due.length === 0) continue;
+    try {
+      await refreshFeedNow(ins.id);
+      log(`Supplier feed(s) polled for ${ins.shop_domain}: ${due.map(f => f.name).join(', ')}`);
+    } catch (err) {
+      log(`Supplier feed poll failed for ${ins.shop_domain}: ${err}`);
+    }
+  }
 }
 
 export function startScheduler(log: (msg: string) => void) {
@@ -45,14 +102,18 @@ export function startScheduler(log: (msg: string) => void) {
   const intervalMs = baseMinutes * 60 * 1000 + jitterMs;
 
   // Initial warmup
-  refreshFeedNow().then(() => log(`Feed refreshed (initial)`)).catch(err => log(`Feed refresh failed (initial): ${err}`));
+  refreshAllInstallations(log, ' (initial)').catch(err => log(`Feed refresh failed (initial): ${err}`));
 
   setInterval(() => {
-    refreshFeedNow().then(() => log(`Feed refreshed`)).catch(err => log(`Feed refresh failed: ${err}`));
+    refreshAllInstallations(log, '').catch(err => log(`Feed refresh failed: ${err}`));
   }, intervalMs);
+
+  setInterval(() => {
+    refreshDueSupplierFeeds(log).catch(err => log(`Supplier feed poll failed: ${err}`));
+  }, FEED_POLL_CHECK_MS);
 }
 
-export function queryItems(params: {
+export async function queryItems(installationId: string, params: {
   page?: number;
   limit?: number;
   category?: string;
@@ -60,8 +121,8 @@ export function queryItems(params: {
   min_price?: number;
   max_price?: number;
   since?: string;
-}): { total: number; page: number; limit: number; items: CatalogItem[] } {
-  const snapshot = current;
+}): Promise<{ total: number; page: number; limit: number; items: CatalogItem[] }> {
+  const snapshot = await getCurrentFeed(installationId);
   const all = snapshot?.items ?? [];
 
   let filtered = all;
@@ -95,7 +156,15 @@ export function queryItems(params: {
   return { total, page, limit, items };
 }
 
-export function getDiscontinuedSkus(): string[] {
-  return current?.discontinuedSkus ?? [];
+// SKUs discontinued after `since` (e.g. the generated_at of the last list a reader applied)
+export async function getDiscontinuedSkus(installationId: string, since?: string): Promise<string[]> {
+  const discontinued = (await getCurrentFeed(installationId))?.discontinued ?? [];
+  return discontinuedSince(discontinued, since);
+}
+
+export function discontinuedSince(discontinued: FeedSnapshot['discontinued'], since?: string): string[] {
+  const ts = since ? Date.parse(since) : Number.NaN;
+  if (Number.isNaN(ts)) return discontinued.map(d => d.sku);
+  return discontinued.filter(d => Date.parse(d.removed_at) > ts).map(d => d.sku);
 }
 
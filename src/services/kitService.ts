@@ -0,0 +1,75 @@
+/**
+ * Kit Service
+ * Kit / bundle definitions whose stock is computed from component SKUs
+ */
+
+import { ulid } from 'ulid';
+import { KitRepo, type KitRow } from '../db';
+import type { KitComponent } from '../models/kits';
+import { refreshKitCatalog } from './sourceCatalog';
+
+export interface KitParams {
+  sku: string;
+  title: string;
+  price: string;
+  currency?: string | null;
+  description?: string | null;
+  image_url?: string | null;
+  components: KitComponent[];
+}
+
+/**
+ * Kit as returned by the API
+ */
+export function serializeKit(kit: KitRow) {
+  return {
+    id: kit.id,
+    sku: kit.sku,
+    title: kit.title,
+    price: kit.price,
+    currency: kit.currency,
+    description: kit.description,
+    image_url: kit.image_url,
+    components: JSON.parse(kit.components_json) as KitComponent[],
+    created_at: kit.created_at,
+    updated_at: kit.updated_at
+  };
+}
+
+export async function createKit(installationId: string, params: KitParams): Promise<string> {
+  const id = ulid();
+  await KitRepo.insert({
+    id,
+    installation_id: installationId,
+    sku: params.sku,
+    title: params.title,
+    price: params.price,
+    currency: params.currency || null,
+    description: params.description || null,
+    image_url: params.image_url || null,
+    components_json: JSON.stringify(params.components)
+  });
+  await refreshKitCatalog(installationId);
+  return id;
+}
+
+export async function updateKit(kit: KitRow, params: Partial<KitParams>): Promise<void> {
+  await KitRepo.update(kit.id, {
+    sku: params.sku,
+    title: params.title,
+    price: params.price,
+    currency: params.currency === undefined ? undefined : params.currency || null,
+    description: params.description === undefined ? undefined : params.description || null,
+    image_url: params.image_url === undefined ? undefined : params.image_url || null,
+    components_json: params.components === undefined ? undefined : JSON.stringify(params.components)
+  });
+  await refreshKitCatalog(kit.installation_id);
+}
+
+/**
+ * Delete a kit; its SKU is retired from the catalog like a discontinued product
+ */
+export async function deleteKit(kit: KitRow): Promise<void> {
+  await KitRepo.delete(kit.id);
+  await refreshKitCatalog(kit.installation_id);
+}
@@ -0,0 +1,464 @@
+/**
+ * Source Catalog Service
+ * Resolves the source stores of an installation and keeps their catalog persisted.
+ * Each sync only fetches products changed since the source's cursor; a periodic
+ * full reconciliation re-downloads everything to catch deletions.
+ */
+
+import crypto from 'node:crypto';
+import {
+  InstallationRepo,
+  CatalogItemRepo,
+  SourceCursorRepo,
+  SupplierFeedRepo,
+  KitRepo,
+  type InstallationRow,
+  type KitRow,
+  type CatalogItemInput
+} from '../db';
+import { config } from '../config';
+import { checkCatalogShrink, auditCatalogRejection, type GuardVerdict } from './catalogGuard';
+import { fetchShopifyCatalog, type ShopifySource } from '../integrations/shopify';
+import { fetchShopifyCatalogBulk } from '../integrations/shopifyBulk';
+import { fetchWooCatalog, type WooSource } from '../integrations/woocommerce';
+import { fetchSupplierFeed } from '../integrations/supplierFeed';
+import { supplierFeedSourceKey, toSupplierFeedSource } from './supplierFeedService';
+import type { CatalogItem } from '../models/types';
+import { mergeCatalogItems, parseMergePolicy } from '../models/mergePolicy';
+import { parseSourceMetafieldKeys } from '../models/metafields';
+import { buildKitItems, kitsUsingComponents, type KitComponent, type KitDefinition } from '../models/kits';
+
+export interface InstallationSources {
+  shopify: ShopifySource | null;
+  woo: WooSource | null;
+}
+
+/**
+ * Whether this installation is the store configured through SHOPIFY_SHOP_DOMAIN.
+ * That installation keeps the env credentials as a fallback (single-store deployments).
+ */
+function isEnvInstallation(installation: InstallationRow): boolean {
+  return !!config.shopify.shopDomain && installation.shop_domain === config.shopify.shopDomain;
+}
+
+/**
+ * Resolve the source store credentials for an installation
+ *
+ * The Shopify source is the store the app is installed on, using the offline
+ * token stored at OAuth time. The WooCommerce source is only configured through
+ * WOO_* env vars, so it belongs to the env installation only.
+ */
+export function resolveInstallationSources(installation: InstallationRow): InstallationSources {
+  const envInstallation = isEnvInstallation(installation);
+
+  const shopifyToken = installation.access_token || (envInstallation ? config.shopify.adminAccessToken : '');
+  const shopify: ShopifySource | null = shopifyToken
+    ? {
+        shopDomain: installation.shop_domain,
+        accessToken: shopifyToken,
+        apiVersion: config.shopify.apiVersion
+      }
+    : null;
+
+  const woo: WooSource | null = envInstallation && config.woo.baseUrl
+    ? {
+        baseUrl: config.woo.baseUrl,
+        consumerKey: config.woo.consumerKey,
+        consumerSecret: config.woo.consumerSecret
+      }
+    : null;
+
+  return { shopify, woo };
+}
+
+/**
+ * Resolve the installation to use when a caller does not name one
+ * (admin API, legacy webhooks, resellers without an installation)
+ */
+export async function getDefaultInstallation(): Promise<InstallationRow | undefined> {
+  if (!config.shopify.shopDomain) return undefined;
+  return InstallationRepo.getByDomain(config.shopify.shopDomain);
+}
+
+export type InstallationCatalog = {
+  shopify: CatalogItem[];
+  woo: CatalogItem[];
+  file: CatalogItem[];
+  feed: CatalogItem[];
+  kit: CatalogItem[];
+};
+
+// Fetches a source's catalog; `since` limits it to products changed at or after that timestamp
+type SourceFetcher = (since?: string) => Promise<CatalogItem[]>;
+
+// A fetched source of an installation. Uploaded files are imported (importFileCatalog), never fetched.
+type SourceSync = {
+  source: string; // catalog_items source: 'shopify', 'woocommerce' or 'feed:<id>'
+  fetcher: SourceFetcher | null; // null when the source is no longer configured
+  fullOnly?: boolean; // The fetcher ignores `since`, so every fetch is a full reconciliation
+  minIntervalMs?: number; // Skip unforced syncs until this long after the last fetch
+};
+
+// Sync in flight per installation, shared by concurrent callers. A caller asking for more than it
+// does (full, allowShrink) gets one follow-up run instead, which every such caller joins
+type CatalogSync = { options: SyncOptions; promise: Promise<void>; next?: FollowUpSync };
+type FollowUpSync = {
+  installation: InstallationRow;
+  options: SyncOptions;
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (err: unknown) => void;
+};
+const syncing = new Map<string, CatalogSync>();
+
+async function sourceSyncs(installation: InstallationRow): Promise<SourceSync[]> {
+  const sources = resolveInstallationSources(installation);
+  const shopify = sources.shopify;
+  const woo = sources.woo;
+  const metafields = parseSourceMetafieldKeys(installation.source_metafields_json);
+  const syncs: SourceSync[] = [
+    {
+      source: 'shopify',
+      // The Shopify source is read through REST or a bulk operation per installation.catalog_ingestion
+      fetcher: shopify
+        ? since => installation.catalog_ingestion === 'bulk'
+          ? fetchShopifyCatalogBulk(shopify, { updatedAtMin: since, metafields })
+          : fetchShopifyCatalog(shopify, { updatedAtMin: since, metafields })
+        : null
+    },
+    {
+      source: 'woocommerce',
+      fetcher: woo ? since => fetchWooCatalog(woo, { modifiedAfter: since }) : null
+    }
+  ];
+
+  // Paused feeds keep their last catalog; deleted feeds are retired by deleteSupplierFeed
+  for (const feed of await SupplierFeedRepo.list(installation.id)) {
+    if (feed.status !== 'active') continue;
+    syncs.push({
+      source: supplierFeedSourceKey(feed.id),
+      fetcher: async () => {
+        try {
+          const items = await fetchSupplierFeed(toSupplierFeedSource(feed));
+          await SupplierFeedRepo.recordPoll(feed.id, null);
+          return items;
+        } catch (err: any) {
+          await SupplierFeedRepo.recordPoll(feed.id, String(err?.message || err));
+          throw err;
+        }
+      },
+      fullOnly: true,
+      minIntervalMs: Math.max(1, feed.poll_interval_minutes) * 60 * 1000
+    });
+  }
+  return syncs;
+}
+
+// Latest updatedAt among items; Woo reports GMT timestamps without an offset
+function latestUpdatedAt(items: CatalogItem[], fallback: string): string {
+  let latest = Number.NaN;
+  for (const item of items) {
+    if (!item.updatedAt) continue;
+    const raw = item.updatedAt;
+    const ts = Date.parse(/[zZ]|[+-]\d{2}:?\d{2}$/.test(raw) ? raw : `${raw}Z`);
+    if (!Number.isNaN(ts) && (Number.isNaN(latest) || ts > latest)) latest = ts;
+  }
+  return Number.isNaN(latest) ? fallback : new Date(latest).toISOString();
+}
+
+function toCatalogRow(item: CatalogItem): CatalogItemInput {
+  const item_json = JSON.stringify(item);
+  return {
+    sku: item.sku,
+    product_id: item.productId ?? null,
+    item_json,
+    content_hash: crypto.createHash('sha256').update(item_json).digest('hex')
+  };
+}
+
+type SyncOptions = {
+  full?: boolean; // Re-download everything regardless of the cursor
+  allowShrink?: boolean; // Accept a full fetch even if the catalog shrank past the guard
+};
+
+async function syncSource(installationId: string, plan: SourceSync, options: SyncOptions) {
+  const { source, fetcher } = plan;
+  const cursor = await SourceCursorRepo.get(installationId, source);
+
+  if (!fetcher) {
+    // Source no longer configured: drop what was persisted for it
+    if (cursor) {
+      await CatalogItemRepo.replaceSource(installationId, source, []);
+      await SourceCursorRepo.delete(installationId, source);
+    }
+    return;
+  }
+
+  const startedAt = new Date().toISOString();
+  const reconcileMs = Math.max(1, config.catalog.fullReconcileHours || 6) * 60 * 60 * 1000;
+  const lastFull = cursor?.last_full_sync_at ? Date.parse(cursor.last_full_sync_at) : Number.NaN;
+  if (plan.minIntervalMs && !options.full && Date.now() - lastFull < plan.minIntervalMs) return;
+  const full = !!options.full || !!plan.fullOnly || !cursor?.cursor_value || Number.isNaN(lastFull) || Date.now() - lastFull >= reconcileMs;
+
+  // A failed fetch keeps the previous catalog and cursor; the next sync retries
+  let items: CatalogItem[];
+  try {
+    items = full ? await fetcher() : await fetcher(cursor!.cursor_value!);
+  } catch (err: any) {
+    console.error(`[sourceCatalog] ${source} fetch failed for ${installationId}:`, err);
+    await auditCatalogRejection({
+      installationId,
+      source,
+      reason: `fetch failed: ${err?.message || err}`,
+      meta: { mode: full ? 'full' : 'incremental' }
+    });
+    return;
+  }
+
+  if (full) {
+    const previousCount = await CatalogItemRepo.count(installationId, source);
+    const verdict = checkCatalogShrink(previousCount, items.length);
+    if (!verdict.ok && !options.allowShrink) {
+      console.warn(`[sourceCatalog] Rejected ${source} catalog for ${installationId}: ${verdict.reason}`);
+      await auditCatalogRejection({
+        installationId,
+        source,
+        reason: verdict.reason,
+        meta: { previous_count: previousCount, fetched_count: items.length }
+      });
+      return;
+    }
+
+    await CatalogItemRepo.replaceSource(installationId, source, items.map(toCatalogRow));
+    await SourceCursorRepo.upsert({
+      installation_id: installationId,
+      source,
+      cursor_value: latestUpdatedAt(items, startedAt),
+      last_full_sync_at: startedAt
+    });
+    console.log(`[sourceCatalog] Full ${source} sync for ${installationId}: ${items.length} items`);
+    return;
+  }
+
+  if (items.length > 0) {
+    await CatalogItemRepo.mergeChanged(installationId, source, items.map(toCatalogRow));
+  }
+  await SourceCursorRepo.upsert({
+    installation_id: installationId,
+    source,
+    cursor_value: latestUpdatedAt(items, cursor!.cursor_value!),
+    last_full_sync_at: cursor!.last_full_sync_at
+  });
+  console.log(`[sourceCatalog] Incremental ${source} sync for ${installationId}: ${items.length} changed items`);
+}
+
+/**
+ * Removal time before which removed SKUs are forgotten (CATALOG_REMOVED_RETENTION_DAYS)
+ * Kept longer than the longest discontinue grace period (30 days) so every policy still applies.
+ */
+export function removedRetentionCutoff(now: number = Date.now()): string {
+  const days = Math.max(31, config.catalog.removedRetentionDays || 60);
+  return new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Bring the persisted catalog of an installation up to date
+ * Stock-only changes do not always bump a product's updated_at, so `full`
+ * (or the periodic reconciliation) is what guarantees a complete refresh.
+ * Failed or suspiciously small fetches are rejected (see catalogGuard) and the
+ * previous catalog is kept.
+ */
+export async function syncInstallationCatalog(installation: InstallationRow, options: SyncOptions = {}): Promise<void> {
+  const inFlight = syncing.get(installation.id);
+  if (!inFlight) return startCatalogSync(installation, options).promise;
+  // Share an in-flight sync instead of fetching the same changes twice
+  if ((!options.full || inFlight.options.full) && (!options.allowShrink || inFlight.options.allowShrink)) {
+    return inFlight.promise;
+  }
+
+  if (!inFlight.next) {
+    let resolve!: () => void;
+    let reject!: (err: unknown) => void;
+    const promise = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    inFlight.next = { installation, options: {}, promise, resolve, reject };
+  }
+  const next = inFlight.next;
+  next.installation = installation;
+  next.options = {
+    full: next.options.full || options.full,
+    allowShrink: next.options.allowShrink || options.allowShrink
+  };
+  return next.promise;
+}
+
+// Run one sync; the follow-up queued meanwhile starts as soon as it ends, whatever its outcome
+function startCatalogSync(installation: InstallationRow, options: SyncOptions): CatalogSync {
+  const sync: CatalogSync = { options, promise: Promise.resolve() };
+  sync.promise = (async () => {
+    try {
+      const syncs = await sourceSyncs(installation);
+      await Promise.all(syncs.map(plan => syncSource(installation.id, plan, options)));
+      await refreshKitCatalog(installation.id);
+      await CatalogItemRepo.purgeRemoved(installation.id, removedRetentionCutoff());
+    } finally {
+      const next = sync.next;
+      if (next) {
+        startCatalogSync(next.installation, next.options).promise.then(next.resolve, next.reject);
+      } else {
+        syncing.delete(installation.id);
+      }
+    }
+  })();
+  syncing.set(installation.id, sync);
+  return sync;
+}
+
+/**
+ * Replace the uploaded file catalog of an installation
+ * Goes through the same shrink guard as a full store fetch; a rejected import
+ * keeps the previous file catalog.
+ */
+export async function importFileCatalog(
+  installationId: string,
+  items: CatalogItem[],
+  options: { allowShrink?: boolean } = {}
+): Promise<GuardVerdict> {
+  const previousCount = await CatalogItemRepo.count(installationId, 'file');
+  const verdict = checkCatalogShrink(previousCount, items.length);
+  if (!verdict.ok && !options.allowShrink) {
+    console.warn(`[sourceCatalog] Rejected file catalog for ${installationId}: ${verdict.reason}`);
+    await auditCatalogRejection({
+      installationId,
+      source: 'file',
+      reason: verdict.reason,
+      meta: { previous_count: previousCount, fetched_count: items.length }
+    });
+    return verdict;
+  }
+
+  const importedAt = new Date().toISOString();
+  await CatalogItemRepo.replaceSource(installationId, 'file', items.map(toCatalogRow));
+  // The cursor row moves the catalog version, so feed snapshots pick up the import
+  await SourceCursorRepo.upsert({
+    installation_id: installationId,
+    source: 'file',
+    cursor_value: null,
+    last_full_sync_at: importedAt
+  });
+  console.log(`[sourceCatalog] Imported file catalog for ${installationId}: ${items.length} items`);
+  await refreshKitCatalog(installationId);
+  return { ok: true };
+}
+
+function toKitDefinition(kit: KitRow): KitDefinition {
+  return {
+    sku: kit.sku,
+    title: kit.title,
+    price: kit.price,
+    currency: kit.currency,
+    description: kit.description,
+    imageUrl: kit.image_url,
+    components: JSON.parse(kit.components_json) as KitComponent[],
+    updatedAt: kit.updated_at
+  };
+}
+
+/**
+ * Recompute the kit items of an installation from its persisted source catalog
+ * Runs after every sync and kit change, so kit stock follows the components.
+ */
+export async function refreshKitCatalog(installationId: string): Promise<void> {
+  const kits = await KitRepo.list(installationId);
+  const cursor = await SourceCursorRepo.get(installationId, 'kit');
+  if (kits.length === 0 && !cursor) return;
+
+  const installation = await InstallationRepo.getById(installationId);
+  const { shopify, woo, file, feed } = await readInstallationCatalog(installationId);
+  const components = mergeCatalogItems([...shopify, ...woo, ...file, ...feed], parseMergePolicy(installation?.merge_policy_json));
+  const items = buildKitItems(kits.map(toKitDefinition), components);
+
+  await CatalogItemRepo.replaceSource(installationId, 'kit', items.map(toCatalogRow));
+  await SourceCursorRepo.upsert({
+    installation_id: installationId,
+    source: 'kit',
+    cursor_value: null,
+    last_full_sync_at: new Date().toISOString()
+  });
+}
+
+/**
+ * SKUs of the kits built from any of the given component SKUs, for delta jobs of changed components
+ */
+export async function kitSkusForComponents(installationId: string, skus: string[]): Promise<string[]> {
+  if (skus.length === 0) return [];
+  const kits = await KitRepo.list(installationId);
+  return kitsUsingComponents(kits.map(toKitDefinition), skus);
+}
+
+/**
+ * Change which source metafields ("namespace.key") are ingested
+ * The Shopify cursor is cleared so the next sync re-reads every product with the new set.
+ */
+export async function setSourceMetafieldKeys(installationId: string, keys: string[]): Promise<void> {
+  await InstallationRepo.setSourceMetafields(installationId, keys.length > 0 ? JSON.stringify(keys) : null);
+  const cursor = await SourceCursorRepo.get(installationId, 'shopify');
+  if (cursor) {
+    await SourceCursorRepo.upsert({
+      installation_id: installationId,
+      source: 'shopify',
+      cursor_value: null,
+      last_full_sync_at: cursor.last_full_sync_at
+    });
+  }
+}
+
+/**
+ * Read the persisted catalog of an installation's sources (no fetch)
+ */
+export async function readInstallationCatalog(installationId: string): Promise<InstallationCatalog> {
+  const catalog: InstallationCatalog = { shopify: [], woo: [], file: [], feed: [], kit: [] };
+  for (const row of await CatalogItemRepo.list(installationId)) {
+    const item = JSON.parse(row.item_json) as CatalogItem;
+    if (row.source === 'shopify') catalog.shopify.push(item);
+    else if (row.source === 'woocommerce') catalog.woo.push(item);
+    else if (row.source === 'file') catalog.file.push(item);
+    else if (row.source.startsWith('feed:')) catalog.feed.push({ ...item, sourceId: row.source });
+    else if (row.source === 'kit') catalog.kit.push(item);
+  }
+  return catalog;
+}
+
+/**
+ * Sync and return the persisted catalog of an installation's sources
+ */
+export async function loadInstallationCatalog(installation: InstallationRow): Promise<InstallationCatalog> {
+  await syncInstallationCatalog(installation);
+  return readInstallationCatalog(installation.id);
+}
+
+/**
+ * Get deduplicated source items for an installation, optionally scoped to SKUs
+ * Shared by the push worker and the sync preview
+ */
+export async function getSourceItems(installationId: string, filterSkus?: Set<string>): Promise<CatalogItem[]> {
+  const installation = await InstallationRepo.getById(installationId);
+  if (!installation) {
+    throw new Error(`Installation ${installationId} not found`);
+  }
+
+  console.log(`[getSourceItems] Loading source catalog for ${installation.shop_domain}...`);
+  const { shopify, woo, file, feed, kit } = await loadInstallationCatalog(installation);
+  console.log(`[getSourceItems] Shopify items: ${shopify.length}, WooCommerce items: ${woo.length}, file items: ${file.length}, feed items: ${feed.length}, kits: ${kit.length}`);
+
+  let items = mergeCatalogItems([...shopify, ...woo, ...file, ...feed, ...kit], parseMergePolicy(installation.merge_policy_json));
+  console.log(`[getSourceItems] Unique items after merge: ${items.length}`);
+
+  if (filterSkus && filterSkus.size > 0) {
+    items = items.filter(i => filterSkus.has(i.sku));
+    console.log(`[getSourceItems] Items after filter: ${items.length}`);
+  }
+  return items;
+}
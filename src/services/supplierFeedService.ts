@@ -0,0 +1,109 @@
+/**
+ * Supplier Feed Service
+ * Registration of remote supplier feeds used as catalog sources
+ */
+
+import { ulid } from 'ulid';
+import { SupplierFeedRepo, CatalogItemRepo, SourceCursorRepo, type SupplierFeedRow } from '../db';
+import type { SupplierFeedMapping, SupplierFeedSource, SupplierFeedFormat } from '../integrations/supplierFeed';
+import { encryptSecret, decryptSecret } from '../utils/secrets';
+
+export interface SupplierFeedParams {
+  name: string;
+  url: string;
+  format?: SupplierFeedFormat;
+  auth_header_name?: string | null;
+  auth_header_value?: string | null;
+  mapping?: SupplierFeedMapping | null;
+  poll_interval_minutes?: number;
+  status?: 'active' | 'paused';
+}
+
+// catalog_items / source_cursors source of a feed
+export function supplierFeedSourceKey(feedId: string): string {
+  return `feed:${feedId}`;
+}
+
+/**
+ * Feed as returned by the API (the auth header value is never echoed back)
+ */
+export function serializeSupplierFeed(feed: SupplierFeedRow) {
+  return {
+    id: feed.id,
+    name: feed.name,
+    url: feed.url,
+    format: feed.format,
+    auth_header_name: feed.auth_header_name,
+    has_auth_header: !!feed.auth_header_value,
+    mapping: feed.mapping_json ? (JSON.parse(feed.mapping_json) as SupplierFeedMapping) : null,
+    poll_interval_minutes: feed.poll_interval_minutes,
+    status: feed.status,
+    last_polled_at: feed.last_polled_at,
+    last_error: feed.last_error,
+    created_at: feed.created_at,
+    updated_at: feed.updated_at
+  };
+}
+
+// An active feed is polled again once poll_interval_minutes have passed since its last poll
+export function isSupplierFeedDue(feed: SupplierFeedRow, now: number = Date.now()): boolean {
+  if (feed.status !== 'active') return false;
+  const lastPolled = feed.last_polled_at ? Date.parse(feed.last_polled_at) : Number.NaN;
+  return Number.isNaN(lastPolled) || now - lastPolled >= Math.max(1, feed.poll_interval_minutes) * 60 * 1000;
+}
+
+export function toSupplierFeedSource(feed: SupplierFeedRow): SupplierFeedSource {
+  return {
+    url: feed.url,
+    format: feed.format,
+    authHeaderName: feed.auth_header_name,
+    authHeaderValue: decryptSecret(feed.auth_header_value),
+    mapping: feed.mapping_json ? (JSON.parse(feed.mapping_json) as SupplierFeedMapping) : null
+  };
+}
+
+export async function createSupplierFeed(installationId: string, params: SupplierFeedParams): Promise<string> {
+  const id = ulid();
+  await SupplierFeedRepo.insert({
+    id,
+    installation_id: installationId,
+    name: params.name,
+    url: params.url,
+    format: params.format ?? 'auto',
+    auth_header_name: params.auth_header_name || null,
+    auth_header_value: encryptSecret(params.auth_header_value),
+    mapping_json: params.mapping ? JSON.stringify(params.mapping) : null,
+    poll_interval_minutes: params.poll_interval_minutes ?? 60,
+    status: params.status ?? 'active'
+  });
+  return id;
+}
+
+export async function updateSupplierFeed(feedId: string, params: Partial<SupplierFeedParams>): Promise<void> {
+  await SupplierFeedRepo.update(feedId, {
+    name: params.name,
+    url: params.url,
+    format: params.format,
+    auth_header_name: params.auth_header_name === undefined ? undefined : params.auth_header_name || null,
+    auth_header_value: params.auth_header_value === undefined ? undefined : encryptSecret(params.auth_header_value),
+    mapping_json: params.mapping === undefined ? undefined : params.mapping ? JSON.stringify(params.mapping) : null,
+    poll_interval_minutes: params.poll_interval_minutes,
+    status: params.status
+  });
+}
+
+/**
+ * Delete a feed and retire the items it contributed to the catalog
+ */
+export async function deleteSupplierFeed(feed: SupplierFeedRow): Promise<void> {
+  const source = supplierFeedSourceKey(feed.id);
+  await SupplierFeedRepo.delete(feed.id);
+  await CatalogItemRepo.replaceSource(feed.installation_id, source, []);
+  // Touch the cursor rather than deleting it so the catalog version moves and feed snapshots reload
+  await SourceCursorRepo.upsert({
+    installation_id: feed.installation_id,
+    source,
+    cursor_value: null,
+    last_full_sync_at: new Date().toISOString()
+  });
+}
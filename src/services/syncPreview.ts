@@ -3,31 +3,10 @@
  * Shows what will sync before running a sync job
  */
 
-import { ConnectionRepo } from '../db';
+import { ConnectionRepo, type OutOfStockPolicy } from '../db';
 import { passesFilters, applyMappingRules } from '../models/mappingRules';
-
-// Import getSourceItems - it's exported from pushWorker
-async function getSourceItems(filterSkus?: Set<string>): Promise<CatalogItem[]> {
-  // Re-import the actual function from pushWorker
-  const { fetchShopifyCatalog } = await import('../integrations/shopify');
-  const { fetchWooCatalog } = await import('../integrations/woocommerce');
-  
-  const [shopify, woo] = await Promise.all([fetchShopifyCatalog(), fetchWooCatalog()]);
-  
-  // Treat Shopify as primary; dedupe SKUs
-  const map = new Map<string, CatalogItem>();
-  for (const it of [...shopify, ...woo]) {
-    if (!map.has(it.sku) || (map.get(it.sku)!.source !== 'shopify' && it.source === 'shopify')) {
-      map.set(it.sku, it);
-    }
-  }
-  let items = Array.from(map.values());
-  
-  if (filterSkus && filterSkus.size > 0) {
-    items = items.filter(i => filterSkus.has(i.sku));
-  }
-  return items;
-}
+import { getSourceItems } from './sourceCatalog';
+import { parseSourceLocationIds, scopeStockToLocations } from '../models/locationStock';
 import type { CatalogItem } from '../models/types';
 import type { MappingRules } from '../models/mappingRules';
 
@@ -55,6 +34,14 @@ export interface SyncPreviewResult {
   };
 }
 
+// What the connection's out-of-stock policy does to an item with no stock (nothing special for push_zero)
+const OUT_OF_STOCK_REASONS: Record<OutOfStockPolicy, string | undefined> = {
+  push_zero: undefined,
+  zero_draft: 'Out of stock: stock 0, product set to draft while sold out',
+  skip_create: 'Out of stock: not created, stock 0 if it exists',
+  hide: 'Out of stock: not created, hidden from the catalog if it exists',
+};
+
 /**
  * Generate a preview of what will sync for a connection
  */
@@ -70,7 +57,10 @@ export async function generateSyncPreview(
   // Get source items (may be empty if source shop credentials not configured)
   let allItems: CatalogItem[] = [];
   try {
-    allItems = await getSourceItems();
+    allItems = scopeStockToLocations(
+      await getSourceItems(connection.installation_id),
+      parseSourceLocationIds(connection.source_location_ids)
+    );
   } catch (error) {
     console.warn('[SyncPreview] Failed to fetch source items:', error);
     // Continue with empty items - preview will show no items to sync
@@ -85,6 +75,7 @@ export async function generateSyncPreview(
   let createCount = 0;
   let updateCount = 0;
   let skipCount = 0;
+  const outOfStockPolicy = connection.out_of_stock_policy ?? 'push_zero';
 
   for (const item of allItems) {
     const processed = applyRules(item, connection.rules_json);
@@ -107,10 +98,16 @@ export async function generateSyncPreview(
       continue;
     }
 
+    const outOfStockReason = processed.stock <= 0 ? OUT_OF_STOCK_REASONS[outOfStockPolicy] : undefined;
+    if (outOfStockReason) {
+      reasonCounts[outOfStockReason] = (reasonCounts[outOfStockReason] || 0) + 1;
+    }
+    const canCreate = !(outOfStockReason && (outOfStockPolicy === 'skip_create' || outOfStockPolicy === 'hide'));
+
     // For preview, we'll assume items need to be created if they don't exist
     // In a real implementation, we'd check the destination store
     // For now, we'll use a simple heuristic: if create_products is enabled, mark as create
-    if (connection.create_products === 1) {
+    if (connection.create_products === 1 && canCreate) {
       createCount++;
       itemsToSync.push(processed);
       
@@ -119,6 +116,7 @@ export async function generateSyncPreview(
           sku: processed.sku,
           title: processed.title,
           action: 'create',
+          reason: outOfStockReason,
           price: parseFloat(processed.price || '0'),
           stock: processed.stock,
         });
@@ -134,6 +132,7 @@ export async function generateSyncPreview(
           sku: processed.sku,
           title: processed.title,
           action: 'update',
+          reason: outOfStockReason,
           price: parseFloat(processed.price || '0'),
           stock: processed.stock,
         });
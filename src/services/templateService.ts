@@ -4,7 +4,8 @@
  */
 
 import { ulid } from 'ulid';
-import { ConnectionTemplateRepo, ConnectionRepo, type ConnectionRow } from '../db';
+import { ConnectionTemplateRepo, ConnectionRepo, type ConnectionRow, type ConnectionType } from '../db';
+import { parseFileExportConfig, type FileExportConfig } from '../destinations/file';
 
 export interface TemplateConfig {
   name: string;
@@ -12,19 +13,23 @@ export interface TemplateConfig {
   dest_location_id?: string | null;
   base_url?: string | null;
   consumer_key?: string | null;
+  store_hash?: string | null;
+  batch_size?: number | null;
+  export?: FileExportConfig | null;
   sync_price: boolean;
   sync_categories: boolean;
   sync_tags: boolean;
   sync_collections: boolean;
   create_products: boolean;
   product_status: boolean;
+  use_graphql?: boolean;
   rules?: Record<string, unknown> | null;
 }
 
 export interface CreateTemplateParams {
   installation_id: string;
   name: string;
-  type: 'shopify' | 'woocommerce';
+  type: ConnectionType;
   config: TemplateConfig;
 }
 
@@ -51,12 +56,16 @@ export async function createTemplateFromConnection(
     dest_location_id: connection.dest_location_id,
     base_url: connection.base_url,
     consumer_key: connection.consumer_key,
+    store_hash: connection.store_hash ?? null,
+    batch_size: connection.batch_size ?? null,
+    export: parseFileExportConfig(connection.export_json),
     sync_price: connection.sync_price === 1,
     sync_categories: connection.sync_categories === 1,
     sync_tags: connection.sync_tags === 1,
     sync_collections: connection.sync_collections === 1,
     create_products: connection.create_products === 1,
     product_status: connection.product_status === 1,
+    use_graphql: connection.use_graphql === 1,
     rules: connection.rules_json ? JSON.parse(connection.rules_json) : null,
   };
 
@@ -94,7 +103,7 @@ export async function createTemplate(params: CreateTemplateParams): Promise<stri
 export async function createConnectionFromTemplate(
   templateId: string,
   connectionName: string,
-  overrides?: Partial<TemplateConfig> & { access_token?: string; consumer_secret?: string }
+  overrides?: Partial<TemplateConfig> & { access_token?: string; consumer_secret?: string; signing_secret?: string }
 ): Promise<string> {
   const template = await ConnectionTemplateRepo.get(templateId);
   if (!template) {
@@ -108,7 +117,7 @@ export async function createConnectionFromTemplate(
   };
 
   // Import connection service functions
-  const { createShopifyConnection, createWooCommerceConnection } = await import('./connectionService');
+  const { createShopifyConnection, createWooCommerceConnection, createBigCommerceConnection, createMagentoConnection, createHttpConnection, createFileConnection } = await import('./connectionService');
 
   if (template.type === 'shopify') {
     if (!config.dest_shop_domain) {
@@ -129,6 +138,79 @@ export async function createConnectionFromTemplate(
       sync_collections: config.sync_collections,
       create_products: config.create_products,
       product_status: config.product_status,
+      use_graphql: config.use_graphql,
+      rules: config.rules,
+    });
+  } else if (template.type === 'bigcommerce') {
+    if (!config.store_hash) {
+      throw new Error('store_hash is required for BigCommerce connections');
+    }
+    if (!overrides?.access_token) {
+      throw new Error('access_token is required when creating a connection from a template');
+    }
+    return await createBigCommerceConnection({
+      installation_id: template.installation_id,
+      name: config.name,
+      store_hash: config.store_hash,
+      access_token: overrides.access_token,
+      sync_price: config.sync_price,
+      sync_categories: config.sync_categories,
+      sync_tags: config.sync_tags,
+      sync_collections: config.sync_collections,
+      create_products: config.create_products,
+      product_status: config.product_status,
+      rules: config.rules,
+    });
+  } else if (template.type === 'magento') {
+    if (!config.base_url) {
+      throw new Error('base_url is required for Magento connections');
+    }
+    if (!overrides?.access_token) {
+      throw new Error('access_token is required when creating a connection from a template');
+    }
+    return await createMagentoConnection({
+      installation_id: template.installation_id,
+      name: config.name,
+      base_url: config.base_url,
+      access_token: overrides.access_token,
+      source_code: config.dest_location_id || null,
+      sync_price: config.sync_price,
+      sync_categories: config.sync_categories,
+      sync_tags: config.sync_tags,
+      sync_collections: config.sync_collections,
+      create_products: config.create_products,
+      product_status: config.product_status,
+      rules: config.rules,
+    });
+  } else if (template.type === 'http') {
+    if (!config.base_url) {
+      throw new Error('base_url is required for HTTP connections');
+    }
+    if (!overrides?.signing_secret) {
+      throw new Error('signing_secret is required when creating a connection from a template');
+    }
+    return await createHttpConnection({
+      installation_id: template.installation_id,
+      name: config.name,
+      endpoint_url: config.base_url,
+      signing_secret: overrides.signing_secret,
+      batch_size: config.batch_size ?? null,
+      sync_price: config.sync_price,
+      create_products: config.create_products,
+      rules: config.rules,
+    });
+  } else if (template.type === 'file') {
+    if (!config.export) {
+      throw new Error('export is required for file export connections');
+    }
+    if (config.export.target.type !== 'local' && !overrides?.access_token) {
+      throw new Error('access_token (SFTP key or S3 secret) is required when creating a connection from a template');
+    }
+    return await createFileConnection({
+      installation_id: template.installation_id,
+      name: config.name,
+      export: config.export,
+      secret: overrides?.access_token ?? null,
       rules: config.rules,
     });
   } else {
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { ShopifyRateLimiter, getShopifyRateLimiter } from '../rateLimiter';
+import { ShopifyRateLimiter, GraphqlCostLimiter, getShopifyRateLimiter } from '../rateLimiter';
 
 describe('ShopifyRateLimiter', () => {
   beforeEach(() => {
@@ -106,4 +106,75 @@ describe('ShopifyRateLimiter', () => {
   });
 });
 
+describe('GraphqlCostLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should wait for the reported bucket to restore the estimated cost', async () => {
+    const limiter = new GraphqlCostLimiter();
+    limiter.update('test.myshopify.com', { maximumAvailable: 1000, currentlyAvailable: 100, restoreRate: 50 });
+
+    let reserved = false;
+    const pending = limiter.reserve('test.myshopify.com', 200).then(() => (reserved = true));
+
+    await vi.advanceTimersByTimeAsync(1900);
+    expect(reserved).toBe(false);
+    await vi.advanceTimersByTimeAsync(100);
+    await pending;
+    expect(reserved).toBe(true);
+    expect(limiter.getAvailable('test.myshopify.com')).toBe(0);
+  });
+
+  it('should not wait while the bucket has enough points', async () => {
+    const limiter = new GraphqlCostLimiter();
+
+    await limiter.reserve('test.myshopify.com', 300);
+
+    expect(limiter.getAvailable('test.myshopify.com')).toBe(700);
+  });
+});
 
+describe('GraphqlCostLimiter concurrent reservations', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not let concurrent callers spend the same restored points', async () => {
+    const limiter = new GraphqlCostLimiter();
+    limiter.update('test.myshopify.com', { maximumAvailable: 1000, currentlyAvailable: 0, restoreRate: 50 });
+
+    const reserved: string[] = [];
+    const first = limiter.reserve('test.myshopify.com', 100).then(() => reserved.push('first'));
+    const second = limiter.reserve('test.myshopify.com', 100).then(() => reserved.push('second'));
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(reserved).toEqual(['first']);
+    await vi.advanceTimersByTimeAsync(2000);
+    await Promise.all([first, second]);
+    expect(reserved).toEqual(['first', 'second']);
+    expect(limiter.getAvailable('test.myshopify.com')).toBe(0);
+  });
+
+  it('should not hold up reservations for other domains', async () => {
+    const limiter = new GraphqlCostLimiter();
+    limiter.update('slow.myshopify.com', { maximumAvailable: 1000, currentlyAvailable: 0, restoreRate: 50 });
+
+    let slowReserved = false;
+    const slow = limiter.reserve('slow.myshopify.com', 500).then(() => (slowReserved = true));
+    await limiter.reserve('fast.myshopify.com', 100);
+
+    expect(slowReserved).toBe(false);
+    expect(limiter.getAvailable('fast.myshopify.com')).toBe(900);
+    await vi.advanceTimersByTimeAsync(10000);
+    await slow;
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * CSV parsing (RFC 4180)
+ * Handles quoted fields, escaped quotes, embedded newlines, CRLF line endings
+ * and a leading UTF-8 BOM as written by spreadsheet exports.
+ */
+
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\n' || delimiter === '\r') {
+    throw new Error(`Invalid CSV delimiter ${JSON.stringify(delimiter)}`);
+  }
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+
+  const endRow = () => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (quoted) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted field starting before line ${line}`);
+  }
+  // Last line without a trailing newline
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+// Quote fields containing the delimiter, quotes or line breaks; rows end with CRLF
+export function toCsv(rows: (string | number | null | undefined)[][], delimiter = ','): string {
+  const field = (value: string | number | null | undefined) => {
+    const text = value == null ? '' : String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(field).join(delimiter)).join('\r\n') + '\r\n';
+}
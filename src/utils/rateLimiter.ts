@@ -181,3 +181,76 @@ export function getShopifyRateLimiter(): ShopifyRateLimiter {
   return rateLimiterInstance;
 }
 
+
+// extensions.cost.throttleStatus of a GraphQL Admin API response
+export type GraphqlThrottleStatus = {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number; // Points restored per second
+};
+
+/**
+ * Shopify GraphQL Admin API cost limiter
+ *
+ * GraphQL is limited by query cost rather than request count: each shop has a bucket of
+ * points (1000, restoring 50/sec on standard plans) and every response reports the bucket
+ * in extensions.cost.throttleStatus. Requests wait until their estimated cost is available.
+ */
+export class GraphqlCostLimiter {
+  private readonly buckets: Map<string, GraphqlThrottleStatus & { updatedAt: number }> = new Map();
+  private readonly pending: Map<string, Promise<void>> = new Map(); // Last reservation queued per domain
+
+  private getBucket(domain: string) {
+    if (!this.buckets.has(domain)) {
+      this.buckets.set(domain, { maximumAvailable: 1000, currentlyAvailable: 1000, restoreRate: 50, updatedAt: Date.now() });
+    }
+    return this.buckets.get(domain)!;
+  }
+
+  /**
+   * Points available now, restored since the last reported status
+   */
+  getAvailable(domain: string): number {
+    const bucket = this.getBucket(domain);
+    const restored = (Date.now() - bucket.updatedAt) / 1000 * bucket.restoreRate;
+    return Math.min(bucket.maximumAvailable, bucket.currentlyAvailable + restored);
+  }
+
+  /**
+   * Wait until `cost` points are available and reserve them
+   * Reservations for a domain run one after another, so concurrent callers can't spend the same points.
+   */
+  reserve(domain: string, cost: number): Promise<void> {
+    const turn = (this.pending.get(domain) ?? Promise.resolve()).then(() => this.take(domain, cost));
+    this.pending.set(domain, turn);
+    return turn;
+  }
+
+  private async take(domain: string, cost: number): Promise<void> {
+    const needed = Math.min(cost, this.getBucket(domain).maximumAvailable);
+    const missing = needed - this.getAvailable(domain);
+    if (missing > 0) {
+      await new Promise(resolve => setTimeout(resolve, Math.ceil(missing / this.getBucket(domain).restoreRate * 1000)));
+    }
+    // Read the bucket again: update() replaces it when a response reports the actual cost
+    const bucket = this.getBucket(domain);
+    bucket.currentlyAvailable = this.getAvailable(domain) - needed;
+    bucket.updatedAt = Date.now();
+  }
+
+  /**
+   * Record the bucket reported by a response
+   */
+  update(domain: string, status: GraphqlThrottleStatus): void {
+    this.buckets.set(domain, { ...status, updatedAt: Date.now() });
+  }
+}
+
+let graphqlCostLimiterInstance: GraphqlCostLimiter | null = null;
+
+export function getGraphqlCostLimiter(): GraphqlCostLimiter {
+  if (!graphqlCostLimiterInstance) {
+    graphqlCostLimiterInstance = new GraphqlCostLimiter();
+  }
+  return graphqlCostLimiterInstance;
+}
@@ -4,6 +4,9 @@
  */
 
 import { z } from 'zod';
+import { SUPPLIER_FEED_FIELDS } from '../integrations/supplierFeed';
+import { DISCONTINUE_POLICIES, OUT_OF_STOCK_POLICIES } from '../db';
+import { CONTENT_FIELDS } from '../models/contentFields';
 
 // Connection schemas
 export const CreateShopifyConnectionSchema = z.object({
@@ -17,6 +20,8 @@ export const CreateShopifyConnectionSchema = z.object({
   sync_collections: z.boolean().optional().default(false),
   create_products: z.boolean().optional().default(true),
   product_status: z.boolean().optional().default(false),
+  // GraphQL Admin API (productSet, batched stock updates) instead of REST
+  use_graphql: z.boolean().optional().default(false),
   rules: z.record(z.string(), z.unknown()).nullable().optional(),
 });
 
@@ -44,6 +49,150 @@ export const CreateWooCommerceConnectionSchema = z.object({
   rules: z.record(z.string(), z.unknown()).nullable().optional(),
 });
 
+export const CreateBigCommerceConnectionSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name must be 255 characters or less').trim(),
+  store_hash: z.string().trim().regex(/^[a-z0-9]+$/i, 'Invalid BigCommerce store hash'),
+  access_token: z.string().min(1, 'Access token is required'),
+  sync_price: z.boolean().optional().default(false),
+  sync_categories: z.boolean().optional().default(false),
+  sync_tags: z.boolean().optional().default(false),
+  sync_collections: z.boolean().optional().default(false),
+  create_products: z.boolean().optional().default(true),
+  product_status: z.boolean().optional().default(false),
+  rules: z.record(z.string(), z.unknown()).nullable().optional(),
+});
+
+export const CreateMagentoConnectionSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name must be 255 characters or less').trim(),
+  base_url: z.string().min(1, 'Base URL is required').refine(
+    (url) => {
+      try {
+        const parsed = new URL(url);
+        return ['http:', 'https:'].includes(parsed.protocol);
+      } catch {
+        return false;
+      }
+    },
+    { message: 'base_url must be a valid HTTP or HTTPS URL' }
+  ),
+  access_token: z.string().min(1, 'Access token is required'),
+  source_code: z.string().trim().min(1).optional().default('default'),
+  sync_price: z.boolean().optional().default(false),
+  sync_categories: z.boolean().optional().default(false),
+  sync_tags: z.boolean().optional().default(false),
+  sync_collections: z.boolean().optional().default(false),
+  create_products: z.boolean().optional().default(true),
+  product_status: z.boolean().optional().default(false),
+  rules: z.record(z.string(), z.unknown()).nullable().optional(),
+});
+
+export const CreateHttpConnectionSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name must be 255 characters or less').trim(),
+  endpoint_url: z.string().min(1, 'Endpoint URL is required').refine(
+    (url) => {
+      try {
+        const parsed = new URL(url);
+        return ['http:', 'https:'].includes(parsed.protocol);
+      } catch {
+        return false;
+      }
+    },
+    { message: 'endpoint_url must be a valid HTTP or HTTPS URL' }
+  ),
+  signing_secret: z.string().min(16, 'Signing secret must be at least 16 characters'),
+  batch_size: z.number().int().min(1).max(1000).optional().default(50),
+  sync_price: z.boolean().optional().default(false),
+  create_products: z.boolean().optional().default(true),
+  rules: z.record(z.string(), z.unknown()).nullable().optional(),
+});
+
+// Paths and names end up in sftp batch commands: no quotes or line breaks
+const ExportPathSchema = z.string().trim().min(1).max(500).refine(
+  (value) => !/["\r\n]/.test(value),
+  { message: 'Must not contain quotes or line breaks' }
+);
+
+export const FileExportTargetSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('local'), directory: ExportPathSchema }),
+  z.object({
+    type: z.literal('sftp'),
+    // Passed to the sftp client as user@host: a leading "-" would be read as an option
+    host: z.string().trim().min(1).max(255).regex(/^[A-Za-z0-9.][A-Za-z0-9.-]*$/, 'host must be a hostname or IP address'),
+    port: z.number().int().min(1).max(65535).optional(),
+    username: z.string().trim().min(1).max(255).regex(/^[A-Za-z0-9._][A-Za-z0-9._-]*$/, 'Invalid username'),
+    directory: ExportPathSchema,
+    // Server public key(s) as printed by ssh-keyscan without the host ("ssh-ed25519 AAAA..."), one per line
+    host_key: z.string().trim().max(5000).refine(
+      (value) => value.split('\n').map((line) => line.trim()).filter(Boolean).every((line) => /^[a-z0-9@.-]+ [A-Za-z0-9+/]+={0,3}( .*)?$/.test(line)),
+      { message: 'host_key must be one "<key type> <base64 key>" per line' }
+    ).optional(),
+  }),
+  z.object({
+    type: z.literal('s3'),
+    endpoint: z.string().refine(
+      (url) => {
+        try {
+          return ['http:', 'https:'].includes(new URL(url).protocol);
+        } catch {
+          return false;
+        }
+      },
+      { message: 'endpoint must be a valid HTTP or HTTPS URL' }
+    ),
+    region: z.string().trim().min(1).max(64),
+    bucket: z.string().trim().min(3).max(63),
+    prefix: z.string().trim().max(500).optional(),
+    access_key_id: z.string().trim().min(1).max(255),
+  }),
+]);
+
+export const FileExportConfigSchema = z.object({
+  format: z.enum(['csv', 'xml', 'json']),
+  filename: ExportPathSchema.refine((name) => !name.includes('/'), { message: 'filename must not contain /' })
+    .optional().default('catalog-{timestamp}.{ext}'),
+  retention: z.number().int().min(1).max(1000).optional().default(7),
+  target: FileExportTargetSchema,
+});
+
+export const CreateFileConnectionSchema = FileExportConfigSchema.extend({
+  name: z.string().min(1, 'Name is required').max(255, 'Name must be 255 characters or less').trim(),
+  // SFTP private key (PEM/OpenSSH) or S3 secret access key
+  secret: z.string().min(1).optional(),
+  rules: z.record(z.string(), z.unknown()).nullable().optional(),
+}).refine(
+  (data) => data.target.type === 'local' || !!data.secret,
+  { message: 'secret is required for SFTP and S3 targets', path: ['secret'] }
+);
+
+export const UpdateMagentoConnectionSchema = z.object({
+  name: z.string().min(1).max(255).trim().optional(),
+  base_url: z.string().refine(
+    (url) => {
+      try {
+        const parsed = new URL(url);
+        return ['http:', 'https:'].includes(parsed.protocol);
+      } catch {
+        return false;
+      }
+    },
+    { message: 'base_url must be a valid HTTP or HTTPS URL' }
+  ).optional(),
+  access_token: z.string().min(1).optional(),
+  source_code: z.string().trim().min(1).optional(),
+  sync_price: z.boolean().optional(),
+  sync_categories: z.boolean().optional(),
+  sync_tags: z.boolean().optional(),
+  sync_collections: z.boolean().optional(),
+  create_products: z.boolean().optional(),
+  product_status: z.boolean().optional(),
+  rules: z.record(z.string(), z.unknown()).optional(),
+  discontinue_policy: z.enum(DISCONTINUE_POLICIES).optional(),
+  discontinue_grace_hours: z.number().int().min(0).max(720).optional(),
+  out_of_stock_policy: z.enum(OUT_OF_STOCK_POLICIES).optional(),
+  // Fields updated on existing products when they change at the source; empty or null turns it off
+  content_fields: z.array(z.enum(CONTENT_FIELDS)).nullable().optional(),
+}).partial();
+
 export const UpdateConnectionSchema = z.object({
   name: z.string().min(1).max(255).trim().optional(),
   dest_location_id: z.string().nullable().optional(),
@@ -54,7 +203,16 @@ export const UpdateConnectionSchema = z.object({
   sync_collections: z.boolean().optional(),
   create_products: z.boolean().optional(),
   product_status: z.boolean().optional(),
+  use_graphql: z.boolean().optional(), // Shopify only
   rules: z.record(z.string(), z.unknown()).optional(),
+  // Source locations whose stock is sent; null counts every location
+  source_location_ids: z.array(z.string().min(1)).nullable().optional(),
+  // What happens in the destination to SKUs removed at the source, after the grace period
+  discontinue_policy: z.enum(DISCONTINUE_POLICIES).optional(),
+  discontinue_grace_hours: z.number().int().min(0).max(720).optional(),
+  out_of_stock_policy: z.enum(OUT_OF_STOCK_POLICIES).optional(),
+  // Fields updated on existing products when they change at the source; empty or null turns it off
+  content_fields: z.array(z.enum(CONTENT_FIELDS)).nullable().optional(),
 }).partial();
 
 // Mapping rules schema
@@ -120,18 +278,22 @@ export const TemplateConfigSchema = z.object({
   dest_location_id: z.string().nullable().optional(),
   base_url: z.string().nullable().optional(),
   consumer_key: z.string().nullable().optional(),
+  store_hash: z.string().nullable().optional(),
+  batch_size: z.number().int().min(1).max(1000).nullable().optional(),
+  export: FileExportConfigSchema.nullable().optional(),
   sync_price: z.boolean(),
   sync_categories: z.boolean(),
   sync_tags: z.boolean(),
   sync_collections: z.boolean(),
   create_products: z.boolean(),
   product_status: z.boolean(),
+  use_graphql: z.boolean().optional(),
   rules: z.record(z.string(), z.unknown()).nullable().optional(),
 });
 
 export const CreateTemplateSchema = z.object({
   name: z.string().min(1, 'Name is required').max(255, 'Name must be 255 characters or less').trim(),
-  type: z.enum(['shopify', 'woocommerce']),
+  type: z.enum(['shopify', 'woocommerce', 'bigcommerce', 'magento', 'http', 'file']),
   config: TemplateConfigSchema,
 });
 
@@ -145,6 +307,132 @@ export const CreateConnectionFromTemplateSchema = z.object({
   overrides: TemplateConfigSchema.partial().optional(),
 });
 
+// File catalog source schemas
+const FileColumnRefSchema = z.string().trim().min(1).max(255);
+
+export const FileColumnMappingSchema = z.object({
+  columns: z.object({
+    sku: FileColumnRefSchema,
+    title: FileColumnRefSchema,
+    price: FileColumnRefSchema,
+    stock: FileColumnRefSchema,
+    compare_at_price: FileColumnRefSchema.optional(),
+    currency: FileColumnRefSchema.optional(),
+    barcode: FileColumnRefSchema.optional(),
+    image_url: FileColumnRefSchema.optional(),
+    category: FileColumnRefSchema.optional(),
+    vendor: FileColumnRefSchema.optional(),
+    description: FileColumnRefSchema.optional(),
+    tags: FileColumnRefSchema.optional(),
+    weight: FileColumnRefSchema.optional(),
+    weight_unit: FileColumnRefSchema.optional(),
+    product_id: FileColumnRefSchema.optional(),
+    variant_title: FileColumnRefSchema.optional(),
+  }),
+  has_header: z.boolean().optional().default(true),
+  delimiter: z.string().length(1, 'Delimiter must be a single character').optional().default(','),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, 'Currency must be an ISO 4217 code').transform((val) => val.toUpperCase()).optional(),
+});
+
+// Supplier feed source schemas
+const HttpUrlSchema = z.string().min(1, 'URL is required').refine(
+  (url) => {
+    try {
+      const parsed = new URL(url);
+      return ['http:', 'https:'].includes(parsed.protocol);
+    } catch {
+      return false;
+    }
+  },
+  { message: 'url must be a valid HTTP or HTTPS URL' }
+);
+
+export const SupplierFeedMappingSchema = z.object({
+  items_path: z.string().trim().min(1).max(255).optional(),
+  fields: z.partialRecord(z.enum(SUPPLIER_FEED_FIELDS), FileColumnRefSchema).optional(),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, 'Currency must be an ISO 4217 code').transform((val) => val.toUpperCase()).optional(),
+});
+
+export const CreateSupplierFeedSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name must be 255 characters or less').trim(),
+  url: HttpUrlSchema,
+  format: z.enum(['auto', 'json', 'xml']).optional().default('auto'),
+  auth_header_name: z.string().trim().regex(/^[A-Za-z0-9-]+$/, 'Invalid header name').nullable().optional(),
+  auth_header_value: z.string().nullable().optional(),
+  mapping: SupplierFeedMappingSchema.nullable().optional(),
+  poll_interval_minutes: z.number().int().min(5).max(10080).optional().default(60),
+  status: z.enum(['active', 'paused']).optional().default('active'),
+});
+
+export const UpdateSupplierFeedSchema = z.object({
+  name: z.string().min(1).max(255).trim().optional(),
+  url: HttpUrlSchema.optional(),
+  format: z.enum(['auto', 'json', 'xml']).optional(),
+  auth_header_name: z.string().trim().regex(/^[A-Za-z0-9-]+$/, 'Invalid header name').nullable().optional(),
+  auth_header_value: z.string().nullable().optional(),
+  mapping: SupplierFeedMappingSchema.nullable().optional(),
+  poll_interval_minutes: z.number().int().min(5).max(10080).optional(),
+  status: z.enum(['active', 'paused']).optional(),
+}).partial();
+
+// Source merge policy schema (see models/mergePolicy)
+const MergeSourceSchema = z.enum(['shopify', 'woocommerce', 'file', 'feed']);
+const FromSourceSchema = z.object({ source: MergeSourceSchema });
+
+export const MergePolicySchema = z.object({
+  precedence: z.array(MergeSourceSchema).max(4).optional(),
+  match_on: z.enum(['sku', 'barcode', 'sku_or_barcode']).optional(),
+  fields: z.object({
+    stock: z.union([z.enum(['sum', 'min', 'max']), FromSourceSchema]).optional(),
+    price: z.union([z.enum(['min', 'max']), FromSourceSchema]).optional(),
+    compare_at_price: FromSourceSchema.optional(),
+    title: FromSourceSchema.optional(),
+    description: FromSourceSchema.optional(),
+    images: FromSourceSchema.optional(),
+    category: FromSourceSchema.optional(),
+    vendor: FromSourceSchema.optional(),
+    tags: FromSourceSchema.optional(),
+    barcode: FromSourceSchema.optional(),
+    weight: FromSourceSchema.optional(),
+  }).strict().optional(),
+});
+
+const KitComponentsSchema = z
+  .array(z.object({
+    sku: z.string().trim().min(1, 'Component SKU is required'),
+    quantity: z.number().int().positive().optional().default(1),
+  }))
+  .min(1, 'A kit needs at least one component')
+  .max(100)
+  .refine(components => new Set(components.map(c => c.sku)).size === components.length, 'Component SKUs must be unique');
+
+const KitPriceSchema = z.string().trim().regex(/^\d+(\.\d{1,4})?$/, 'Price must be a decimal number, e.g. "19.99"');
+
+export const CreateKitSchema = z.object({
+  sku: z.string().trim().min(1, 'SKU is required').max(255),
+  title: z.string().trim().min(1, 'Title is required').max(255),
+  price: KitPriceSchema,
+  currency: z.string().trim().length(3).toUpperCase().nullable().optional(),
+  description: z.string().nullable().optional(),
+  image_url: HttpUrlSchema.nullable().optional(),
+  components: KitComponentsSchema,
+}).refine(kit => !kit.components.some(c => c.sku === kit.sku), 'A kit cannot contain itself');
+
+export const UpdateKitSchema = z.object({
+  sku: z.string().trim().min(1).max(255).optional(),
+  title: z.string().trim().min(1).max(255).optional(),
+  price: KitPriceSchema.optional(),
+  currency: z.string().trim().length(3).toUpperCase().nullable().optional(),
+  description: z.string().nullable().optional(),
+  image_url: HttpUrlSchema.nullable().optional(),
+  components: KitComponentsSchema.optional(),
+});
+
+// Source metafields to ingest, as "namespace.key"
+export const SourceMetafieldsSchema = z.object({
+  metafields: z.array(z.string().regex(/^[^.\s]+\.\S+$/, 'Use "namespace.key"')).max(50),
+});
+
 // Helper function to validate and parse request body
 export function validateBody<T>(schema: z.ZodSchema<T>, data: unknown): { success: true; data: T } | { success: false; error: string } {
   try {